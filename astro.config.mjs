@@ -13,6 +13,12 @@ export default defineConfig({
   ],
   site: 'https://ai-chat-generator.dev',
   vite: {
+    server: {
+      proxy: {
+        // Lets `npm run dev` front an MCP server started with `npm run mcp:http`
+        '/mcp': { target: `http://127.0.0.1:${process.env.MCP_PORT ?? 3333}`, changeOrigin: true },
+      },
+    },
     build: {
       rollupOptions: {
         output: {
@@ -0,0 +1,123 @@
+/**
+ * Action items across every chat.
+ *
+ * Shared by the /actions page, its API route, the `list_action_items` MCP tool
+ * and `npm run todo`. Items live in each chat's `action_items` frontmatter;
+ * an item is addressed as `<chat slug>#<index>`, and ticking one off writes
+ * the chat back through `saveEntry` like any other edit.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { loadEntries, matchesQuery } from './entries.mjs';
+import { ConflictError } from './errors.mjs';
+import { parseFrontmatter, updateFrontmatter } from './frontmatter.mjs';
+import { contentDir, saveEntry } from './history.mjs';
+import { toggleActionItem } from './items.mjs';
+import { entryRef } from './results.mjs';
+import { daysBetween, toISODate } from './schedule.mjs';
+import { isSafeFilename, today as localToday } from './utils.mjs';
+
+/**
+ * @typedef {'open' | 'done' | 'all'} ActionStatus
+ * @typedef {{
+ *   id: string,
+ *   task: string,
+ *   done: boolean,
+ *   index: number,
+ *   chat: { filename: string, slug: string, url: string, title: string, date: string | null, tags: string[] },
+ *   age: number | null,
+ * }} InboxItem
+ * @typedef {{ status?: ActionStatus, tags?: string[], text?: string, today?: string }} ActionQuery
+ */
+
+export const ACTION_STATUSES = /** @type {const} */ (['open', 'done', 'all']);
+
+/**
+ * Action items of every chat matching the query, oldest chat first. `tags`
+ * filter on the chat's tags; `text` matches when every word is in the task.
+ * `age` counts days from the chat's date to `today`.
+ * @param {string} rootDir
+ * @param {ActionQuery} [query]
+ * @returns {InboxItem[]}
+ */
+export function listActionItems(rootDir, { status = 'open', tags, text, today = localToday() } = {}) {
+  if (!ACTION_STATUSES.includes(status)) throw new Error(`Unknown status: ${status} (use ${ACTION_STATUSES.join(', ')})`);
+  const words = (text ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+
+  return loadEntries(rootDir, 'chats')
+    .filter((chat) => matchesQuery(chat, { tags }))
+    .sort((a, b) => (a.date ?? '').localeCompare(b.date ?? '') || a.filename.localeCompare(b.filename))
+    .flatMap((chat) => {
+      const date = toISODate(chat.date);
+      const { filename, slug, url, title, tags: chatTags } = chat;
+      return chat.actionItems.flatMap((item, index) => {
+        const done = !!item.done;
+        const task = String(item.task ?? '');
+        if (!task.trim() || (status === 'open' && done) || (status === 'done' && !done)) return [];
+        if (!words.every((word) => task.toLowerCase().includes(word))) return [];
+        return [{
+          id: `${slug}#${index}`,
+          task,
+          done,
+          index,
+          chat: { filename, slug, url, title, date: chat.date, tags: chatTags },
+          age: date ? Math.max(0, daysBetween(date, today)) : null,
+        }];
+      });
+    });
+}
+
+/**
+ * Split an item id into the chat's filename and the item's index.
+ * @param {string} id  `<chat slug>#<index>`, e.g. `my-chat#2`
+ * @returns {{ filename: string, index: number }}
+ */
+export function parseActionItemId(id) {
+  const match = /^(.+?)(?:\.mdx)?#(\d+)$/.exec(id.trim());
+  if (!match) throw new Error(`Invalid action item: ${id} (use <chat>#<index>, e.g. my-chat#0)`);
+  return { filename: `${match[1]}.mdx`, index: Number(match[2]) };
+}
+
+/**
+ * Mark one chat's action item done or not done. When `task` is given it must
+ * still be the item at `index`; if the list changed since it was read, the
+ * item is found by its task instead, and it is a `ConflictError` when it is
+ * gone.
+ * @param {string} rootDir
+ * @param {string} filename
+ * @param {{ index: number, task?: string, done?: boolean, source: string }} change
+ */
+export function setActionItem(rootDir, filename, { index, task, done, source }) {
+  if (!isSafeFilename(filename)) throw new Error(`Invalid filename: ${filename}`);
+  const filepath = path.join(contentDir(rootDir, 'chats'), filename);
+  if (!fs.existsSync(filepath)) throw new Error(`Chat not found: ${filename}`);
+
+  const raw = fs.readFileSync(filepath, 'utf-8');
+  const { data } = parseFrontmatter(raw);
+  /** @type {import('./items.mjs').ActionItem[]} */
+  const items = Array.isArray(data.action_items) ? data.action_items : [];
+  const ref = task === undefined || items[index]?.task === task ? index : items.findIndex((a) => a.task === task);
+  if (ref === -1) throw new ConflictError(`No action item "${task}" in ${filename} — it was changed or removed`);
+
+  const result = toggleActionItem(items, ref, done);
+  saveEntry(rootDir, 'chats', filename, updateFrontmatter(raw, { action_items: result.list }), { source });
+  return { ...entryRef('chats', filename), ...result };
+}
+
+/**
+ * Text listing shared by the tool and the CLI: the item with its id, then the
+ * chat it came from, its age and tags.
+ * @param {InboxItem[]} items
+ * @returns {string}
+ */
+export function formatActionItems(items) {
+  const width = Math.max(0, ...items.map((item) => item.id.length));
+  return items
+    .map((item) => {
+      const age = item.age === null ? '?' : `${item.age}d`;
+      const tags = item.chat.tags.length ? ` ${item.chat.tags.map((t) => `#${t}`).join(' ')}` : '';
+      return `  ${item.done ? '☑' : '☐'} ${item.id.padEnd(width)}  ${item.task}\n      ↳ ${item.chat.title} · ${age}${tags}`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,300 @@
+/**
+ * Site builds for the `build_site` tool.
+ *
+ * `astro build` runs as a child process so the MCP server keeps answering
+ * while it works; its log is parsed line by line into per-page results and
+ * errors. After each successful build a manifest of content hashes is written
+ * to dist/, which lets later builds rebuild only the entries that changed. If
+ * `astro dev` is already running there is nothing to build: it watches
+ * src/content and reloads changed entries by itself.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { spawn } from 'node:child_process';
+import { contentHash, ensureDir, listMdxFiles } from './utils.mjs';
+import { COLLECTIONS, contentDir } from './history.mjs';
+
+/**
+ * @typedef {import('./history.mjs').Collection} Collection
+ * @typedef {{ route: string, ms: number | null }} BuiltPage
+ * @typedef {{ builtAt: string, pages: number, entries: Record<string, string> }} BuildManifest
+ * @typedef {{ changed: string[], removed: string[] }} ContentChanges
+ *   Entry keys (`<collection>/<filename>`) added or edited, and deleted, since the last build.
+ * @typedef {{
+ *   mode: 'full' | 'changed' | 'skipped' | 'dev',
+ *   success: boolean,
+ *   durationMs: number,
+ *   pages: BuiltPage[],
+ *   errors: string[],
+ *   changes: ContentChanges | null,
+ *   devUrl?: string,
+ * }} BuildResult
+ */
+
+/** Where a running `astro dev` server is looked for. */
+export const DEFAULT_DEV_URL = 'http://localhost:4321';
+
+/** Environment variable the entry pages read to render only some entries. */
+export const BUILD_ONLY_ENV = 'BUILD_ONLY';
+
+export const BUILD_TIMEOUT_MS = 5 * 60 * 1000;
+
+const MANIFEST_FILE = '.build-manifest.json';
+const DEV_PROBE_TIMEOUT_MS = 1000;
+const ERROR_CONTEXT_LINES = 20;
+
+const ANSI_RE = /\x1b\[[0-9;]*m/g;
+
+/**
+ * Classify one line of `astro build` output: a written page (`├─ /route (+12ms)`),
+ * an error, or neither.
+ * @param {string} line
+ * @returns {{ type: 'page', page: BuiltPage } | { type: 'error', message: string } | null}
+ */
+export function parseBuildLine(line) {
+  const clean = line.replace(ANSI_RE, '').trim();
+  const page = /[├└]─ (\S+)(?: \(\+(\d+)ms\))?/.exec(clean);
+  if (page) return { type: 'page', page: { route: page[1], ms: page[2] ? Number(page[2]) : null } };
+  const error = /^(?:\d{2}:\d{2}:\d{2} )?(?:\[ERROR\]|error\s)\s*(.*)$/i.exec(clean);
+  if (error) return { type: 'error', message: error[1].trim() };
+  return null;
+}
+
+/**
+ * Content hash of every chat and plan, keyed by `<collection>/<filename>`.
+ * @param {string} rootDir
+ * @returns {Record<string, string>}
+ */
+export function contentSnapshot(rootDir) {
+  /** @type {Record<string, string>} */
+  const entries = {};
+  for (const collection of COLLECTIONS) {
+    const dir = contentDir(rootDir, collection);
+    for (const filename of listMdxFiles(dir)) {
+      entries[`${collection}/${filename}`] = contentHash(fs.readFileSync(path.join(dir, filename), 'utf-8'));
+    }
+  }
+  return entries;
+}
+
+/**
+ * @param {Record<string, string>} previous
+ * @param {Record<string, string>} current
+ * @returns {ContentChanges}
+ */
+export function diffSnapshots(previous, current) {
+  return {
+    changed: Object.keys(current).filter((key) => previous[key] !== current[key]).sort(),
+    removed: Object.keys(previous).filter((key) => !(key in current)).sort(),
+  };
+}
+
+/** @param {string} rootDir */
+const clientDir = (rootDir) => path.join(rootDir, 'dist', 'client');
+
+/**
+ * The manifest of the last successful build, or null if there is none (or
+ * the build output is gone).
+ * @param {string} rootDir
+ * @returns {BuildManifest | null}
+ */
+export function readBuildManifest(rootDir) {
+  const file = path.join(rootDir, 'dist', MANIFEST_FILE);
+  if (!fs.existsSync(file) || !fs.existsSync(clientDir(rootDir))) return null;
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * @param {string} rootDir
+ * @param {BuildManifest} manifest
+ */
+function writeBuildManifest(rootDir, manifest) {
+  fs.writeFileSync(path.join(rootDir, 'dist', MANIFEST_FILE), JSON.stringify(manifest, null, 2) + '\n');
+}
+
+/**
+ * Whether an `astro dev` server answers at `url`. Only the dev server serves
+ * Vite's client script, so `astro preview` and the production server do not count.
+ * @param {string} url
+ * @returns {Promise<boolean>}
+ */
+export async function detectDevServer(url) {
+  try {
+    const res = await fetch(new URL('/@vite/client', url), { signal: AbortSignal.timeout(DEV_PROBE_TIMEOUT_MS) });
+    return res.ok;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Run `astro build` and collect the pages it writes. Resolves when the
+ * process exits; a failed build resolves with `success: false`.
+ * @param {string} rootDir
+ * @param {{
+ *   outDir?: string,
+ *   only?: string[],
+ *   onPage?: (page: BuiltPage, count: number) => void,
+ *   signal?: AbortSignal,
+ *   timeoutMs?: number,
+ * }} [options]
+ * @returns {Promise<{ success: boolean, pages: BuiltPage[], errors: string[] }>}
+ */
+export function runAstroBuild(rootDir, { outDir, only, onPage, signal, timeoutMs = BUILD_TIMEOUT_MS } = {}) {
+  const astro = path.join(rootDir, 'node_modules', 'astro', 'astro.js');
+  const args = [astro, 'build', ...(outDir ? ['--outDir', outDir] : [])];
+  const env = { ...process.env, ...(only ? { [BUILD_ONLY_ENV]: only.join(',') } : {}) };
+
+  return new Promise((resolve) => {
+    /** @type {BuiltPage[]} */
+    const pages = [];
+    /** @type {string[]} */
+    const errors = [];
+    /** @type {string[]} */
+    const tail = [];
+
+    const child = spawn(process.execPath, args, { cwd: rootDir, env, stdio: ['ignore', 'pipe', 'pipe'] });
+    const timer = setTimeout(() => {
+      errors.push(`Build timed out after ${Math.round(timeoutMs / 1000)}s`);
+      child.kill();
+    }, timeoutMs);
+    const abort = () => {
+      errors.push('Build cancelled');
+      child.kill();
+    };
+    signal?.addEventListener('abort', abort, { once: true });
+
+    let buffered = '';
+    /** @param {Buffer} chunk */
+    const onData = (chunk) => {
+      buffered += chunk.toString('utf-8');
+      const lines = buffered.split('\n');
+      buffered = lines.pop() ?? '';
+      for (const line of lines) handleLine(line);
+    };
+    /** @param {string} line */
+    const handleLine = (line) => {
+      if (!line.trim()) return;
+      tail.push(line.replace(ANSI_RE, ''));
+      if (tail.length > ERROR_CONTEXT_LINES) tail.shift();
+      const parsed = parseBuildLine(line);
+      if (parsed?.type === 'page') {
+        pages.push(parsed.page);
+        onPage?.(parsed.page, pages.length);
+      } else if (parsed?.type === 'error') {
+        errors.push(parsed.message);
+      }
+    };
+
+    child.stdout.on('data', onData);
+    child.stderr.on('data', onData);
+    child.on('error', (err) => errors.push(err.message));
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
+      if (buffered) handleLine(buffered);
+      const success = code === 0 && !errors.length;
+      if (!success && !errors.length) errors.push(tail.join('\n') || `astro build exited with code ${code}`);
+      resolve({ success, pages, errors });
+    });
+  });
+}
+
+/**
+ * Copy a changed-only build into dist/client. Entry pages and hashed assets
+ * are merged; everything else (listings, tag pages, feeds) was rebuilt in
+ * full, so it replaces what was there and stale tag pages disappear. Pages of
+ * removed entries are deleted.
+ * @param {string} rootDir
+ * @param {string} outDir
+ * @param {string[]} removed
+ */
+function mergePartialBuild(rootDir, outDir, removed) {
+  const from = path.join(outDir, 'client');
+  const to = clientDir(rootDir);
+  for (const name of fs.readdirSync(from)) {
+    const target = path.join(to, name);
+    if (!COLLECTIONS.includes(/** @type {Collection} */ (name)) && name !== '_astro') {
+      fs.rmSync(target, { recursive: true, force: true });
+    }
+    fs.cpSync(path.join(from, name), target, { recursive: true, force: true });
+  }
+  for (const key of removed) {
+    fs.rmSync(path.join(to, key.replace(/\.mdx$/, '')), { recursive: true, force: true });
+  }
+}
+
+/**
+ * Build the site the cheapest way that brings it up to date:
+ * - a running dev server (unless `force`) means there is nothing to do, as it
+ *   reloads changed content by itself;
+ * - `changedOnly` with a previous build rebuilds just the changed entry pages
+ *   (plus listings and feeds, which every entry appears in) and merges them
+ *   into dist/, or skips the build when nothing changed;
+ * - otherwise a full build.
+ * @param {string} rootDir
+ * @param {{
+ *   changedOnly?: boolean,
+ *   force?: boolean,
+ *   devUrl?: string,
+ *   onProgress?: (progress: { message: string, count?: number, total?: number }) => void,
+ *   signal?: AbortSignal,
+ *   timeoutMs?: number,
+ * }} [options]
+ * @returns {Promise<BuildResult>}
+ */
+export async function buildSite(rootDir, { changedOnly = false, force = false, devUrl = DEFAULT_DEV_URL, onProgress, signal, timeoutMs } = {}) {
+  const started = Date.now();
+  const snapshot = contentSnapshot(rootDir);
+  const manifest = readBuildManifest(rootDir);
+  const changes = manifest ? diffSnapshots(manifest.entries, snapshot) : null;
+  /** @param {Omit<BuildResult, 'durationMs' | 'changes'>} result */
+  const done = (result) => ({ ...result, changes, durationMs: Date.now() - started });
+
+  if (!force && await detectDevServer(devUrl)) {
+    // Touching the files would be redundant, and would move their mtimes
+    // (which date "updated" sorting and progress snapshots)
+    onProgress?.({ message: `Dev server running at ${devUrl} — it reloads content changes by itself` });
+    return done({ mode: 'dev', success: true, pages: [], errors: [], devUrl });
+  }
+
+  const partial = changedOnly && manifest && changes;
+  if (partial && !changes.changed.length && !changes.removed.length) {
+    onProgress?.({ message: 'Nothing changed since the last build' });
+    return done({ mode: 'skipped', success: true, pages: [], errors: [] });
+  }
+
+  const total = partial ? undefined : manifest?.pages;
+  /** @param {BuiltPage} page @param {number} count */
+  const onPage = (page, count) => onProgress?.({ message: page.route, count, total });
+
+  if (partial) {
+    // Inside the project so the prerender step can resolve node_modules
+    ensureDir(path.join(rootDir, '.astro'));
+    const outDir = fs.mkdtempSync(path.join(rootDir, '.astro', 'partial-build-'));
+    try {
+      const only = changes.changed.map((key) => key.replace(/\.mdx$/, ''));
+      onProgress?.({ message: `Rebuilding ${only.length} changed entries` });
+      const result = await runAstroBuild(rootDir, { outDir, only, onPage, signal, timeoutMs });
+      if (result.success) {
+        mergePartialBuild(rootDir, outDir, changes.removed);
+        writeBuildManifest(rootDir, { builtAt: new Date().toISOString(), pages: manifest.pages, entries: snapshot });
+      }
+      return done({ mode: 'changed', ...result });
+    } finally {
+      fs.rmSync(outDir, { recursive: true, force: true });
+    }
+  }
+
+  onProgress?.({ message: 'Building the whole site', count: 0, total });
+  const result = await runAstroBuild(rootDir, { onPage, signal, timeoutMs });
+  if (result.success) {
+    writeBuildManifest(rootDir, { builtAt: new Date().toISOString(), pages: result.pages.length, entries: snapshot });
+  }
+  return done({ mode: 'full', ...result });
+}
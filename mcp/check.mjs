@@ -0,0 +1,451 @@
+/**
+ * Content lint for the whole archive: `npm run check-content` and the
+ * `check_content` tool.
+ *
+ * Each file is checked on its own (schema, placeholders, headings, code
+ * fences) and against the others (duplicate titles and slugs, links to
+ * entries that do not exist). Problems that have one obvious repair — a
+ * leftover scaffold comment, an empty action item, a misspelled role heading,
+ * an unclosed fence — can be fixed in place; the rest need a person.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { parseFrontmatter, splitFrontmatter, updateFrontmatter, validateEntry } from './frontmatter.mjs';
+import { parseChatMessages, roleHeading } from './messages.mjs';
+import { COLLECTIONS, contentDir, saveEntry } from './history.mjs';
+
+/**
+ * @typedef {import('./history.mjs').Collection} Collection
+ * @typedef {'schema' | 'no-messages' | 'placeholder' | 'empty-action-item' | 'empty-milestone'
+ *   | 'duplicate-title' | 'duplicate-slug' | 'broken-link' | 'unclosed-fence' | 'heading'} CheckRule
+ * @typedef {{
+ *   collection: Collection,
+ *   filename: string,
+ *   rule: CheckRule,
+ *   message: string,
+ *   line?: number,
+ *   fixable: boolean,
+ * }} ContentIssue
+ *   `line` is 1-based and counts the frontmatter.
+ * @typedef {{ collection: Collection, filename: string, raw: string }} ContentFile
+ * @typedef {{ type: 'remove', at: number }
+ *   | { type: 'replace', at: number, line: string }
+ *   | { type: 'insert', at: number, lines: string[] }} LineFix
+ *   `insert` adds lines before line `at`, which may be one past the last line.
+ * @typedef {{ rule: CheckRule, index: number, message: string, fix?: LineFix }} BodyFinding
+ *   `index` is the 0-based body line the problem is reported on.
+ */
+
+export const CHECK_RULES = /** @type {const} */ ([
+  'schema',
+  'no-messages',
+  'placeholder',
+  'empty-action-item',
+  'empty-milestone',
+  'duplicate-title',
+  'duplicate-slug',
+  'broken-link',
+  'unclosed-fence',
+  'heading',
+]);
+
+/** Comments the scaffolders put in new files for the author to replace. */
+export const PLACEHOLDERS = [
+  '<!-- Write the user prompt here -->',
+  '<!-- Paste or write the AI response here -->',
+  '<!-- Write your plan content here using ## and ### headings -->',
+];
+
+/** Role headings that are clearly meant as `## User` / `## AI`. */
+const ROLE_ALIASES = new Map(/** @type {const} */ ([
+  ['user', 'user'],
+  ['human', 'user'],
+  ['ai', 'ai'],
+  ['assistant', 'ai'],
+]));
+
+const FENCE_RE = /^\s*(```|~~~)\s*(\S*)/;
+const HEADING_RE = /^(#{1,6})\s+(.*?)\s*$/;
+const INLINE_CODE_RE = /`[^`]*`/g;
+const ENTRY_LINK_RE = /(?:\]\(|href=["'])\/(chats|plans)\/([^)\s"'#?/]+)/g;
+
+/**
+ * Which body lines are inside code fences, and the fences that are never
+ * closed. Fences pair up the way `parseChatMessages` pairs them, except that a
+ * fence with a language (```` ```py ````) always opens a new block, so the one
+ * before it was left open. An open fence in a chat swallows the `## User` /
+ * `## AI` headings after it; it counts as closed just before the first one.
+ * @param {Collection} collection
+ * @param {string[]} lines
+ * @returns {{ fenced: boolean[], unclosed: { open: number, closeAt: number, marker: string, before: number }[] }}
+ *   `closeAt` is where the closing fence belongs and `before` the heading or fence it was
+ *   left open before (-1 at the end of the body).
+ */
+function mapFences(collection, lines) {
+  const fenced = lines.map(() => false);
+  /** @type {{ open: number, closeAt: number, marker: string, before: number }[]} */
+  const unclosed = [];
+  /** @type {{ index: number, marker: string } | null} */
+  let open = null;
+
+  /** @param {number} next  Where the next fence opens, or the end of the body */
+  const leaveOpen = (next) => {
+    if (!open) return;
+    let closeAt = next;
+    if (collection === 'chats') {
+      for (let i = open.index + 1; i < next; i++) {
+        const heading = HEADING_RE.exec(lines[i]);
+        if (heading?.[1] === '##' && ROLE_ALIASES.get(heading[2].toLowerCase())) { closeAt = i; break; }
+      }
+    }
+    for (let i = open.index; i < closeAt; i++) fenced[i] = true;
+    const before = closeAt < lines.length ? closeAt : -1;
+    // Close it right after its last line, before any blank lines
+    while (closeAt - 1 > open.index && !lines[closeAt - 1].trim()) closeAt--;
+    unclosed.push({ open: open.index, closeAt, marker: open.marker, before });
+  };
+
+  lines.forEach((line, index) => {
+    const fence = FENCE_RE.exec(line);
+    if (!fence) return;
+    if (open && !fence[2]) {
+      for (let i = open.index; i <= index; i++) fenced[i] = true;
+      open = null;
+      return;
+    }
+    leaveOpen(index);
+    open = { index, marker: fence[1] };
+  });
+  leaveOpen(lines.length);
+
+  return { fenced, unclosed };
+}
+
+/**
+ * Line-by-line problems in a body: unclosed fences, scaffold comments and, in
+ * chats, headings that do not follow the `## User` / `## AI` convention.
+ * @param {Collection} collection
+ * @param {string} body
+ * @param {number} offset  Number of file lines before the body, for messages
+ * @returns {BodyFinding[]}
+ */
+function scanBody(collection, body, offset) {
+  const lines = body.split('\n');
+  const { fenced, unclosed } = mapFences(collection, lines);
+  /** @type {BodyFinding[]} */
+  const findings = unclosed.map(({ open, closeAt, marker, before }) => ({
+    rule: /** @type {const} */ ('unclosed-fence'),
+    index: open,
+    message: before === -1
+      ? 'Code fence is never closed'
+      : `Code fence is not closed before "${lines[before].trim()}" on line ${offset + before + 1}`,
+    fix: /** @type {LineFix} */ ({ type: 'insert', at: closeAt, lines: [marker] }),
+  }));
+  let sawRole = false;
+
+  lines.forEach((line, index) => {
+    if (fenced[index]) return;
+    const trimmed = line.trim();
+    if (PLACEHOLDERS.includes(trimmed)) {
+      findings.push({ rule: 'placeholder', index, message: `Leftover scaffold comment ${trimmed}`, fix: { type: 'remove', at: index } });
+      return;
+    }
+    if (collection !== 'chats') return;
+
+    const heading = HEADING_RE.exec(line);
+    const role = heading ? ROLE_ALIASES.get(heading[2].toLowerCase()) : undefined;
+    if (heading && role && heading[1].length <= 2) {
+      sawRole = true;
+      const expected = `## ${roleHeading(role)}`;
+      if (line !== expected) {
+        findings.push({ rule: 'heading', index, message: `"${trimmed}" should be "${expected}"`, fix: { type: 'replace', at: index, line: expected } });
+      }
+    } else if (heading?.[1] === '##') {
+      findings.push({ rule: 'heading', index, message: `"${trimmed}" is not a ## User / ## AI heading, so its text is not shown` });
+    } else if (!sawRole && trimmed) {
+      findings.push({ rule: 'heading', index, message: 'Text before the first ## User / ## AI heading is not shown' });
+      sawRole = true;
+    }
+  });
+
+  return findings.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Apply line fixes, last line first so earlier indexes stay valid. A removed
+ * line takes one of the blank lines around it along, so no gap is left behind.
+ * @param {string} body
+ * @param {BodyFinding[]} findings
+ * @returns {string}
+ */
+function applyLineFixes(body, findings) {
+  const lines = body.split('\n');
+  // Inserts go last on a line so a heading is corrected before a fence is closed above it
+  const fixes = findings.flatMap((f) => (f.fix ? [f.fix] : []))
+    .sort((a, b) => b.at - a.at || Number(a.type === 'insert') - Number(b.type === 'insert'));
+  for (const fix of fixes) {
+    if (fix.type === 'remove') {
+      const blankAround = !lines[fix.at - 1]?.trim() && fix.at + 1 < lines.length && !lines[fix.at + 1].trim();
+      lines.splice(fix.at, blankAround ? 2 : 1);
+    } else if (fix.type === 'replace') {
+      lines[fix.at] = fix.line;
+    } else {
+      lines.splice(fix.at, 0, ...fix.lines);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Number of file lines before the body (the frontmatter block).
+ * @param {string} raw
+ * @param {string} body
+ */
+function bodyLineOffset(raw, body) {
+  return raw.slice(0, raw.length - body.length).split('\n').length - 1;
+}
+
+/**
+ * Index of every empty entry in a frontmatter list.
+ * @param {unknown} list
+ * @param {string} key  Field that must not be empty
+ * @returns {number[]}
+ */
+function emptyItems(list, key) {
+  if (!Array.isArray(list)) return [];
+  return list.flatMap((item, i) => (item && typeof item === 'object' && !String(item[key] ?? '').trim() ? [i] : []));
+}
+
+/**
+ * Check a set of files. Duplicates and links are checked across all of them,
+ * so pass the whole archive.
+ * @param {ContentFile[]} files
+ * @returns {ContentIssue[]}
+ */
+export function checkFiles(files) {
+  /** @type {ContentIssue[]} */
+  const issues = [];
+  const slugs = {
+    chats: new Set(files.filter((f) => f.collection === 'chats').map((f) => f.filename.replace(/\.mdx?$/, ''))),
+    plans: new Set(files.filter((f) => f.collection === 'plans').map((f) => f.filename.replace(/\.mdx?$/, ''))),
+  };
+  /** @type {Map<string, string>} */
+  const titles = new Map();
+  /** @type {Map<string, string>} */
+  const lowerSlugs = new Map();
+
+  for (const { collection, filename, raw } of files) {
+    /** @type {ContentIssue[]} */
+    const found = [];
+    /** @param {CheckRule} rule @param {string} message @param {{ line?: number, fixable?: boolean }} [extra] */
+    const report = (rule, message, { line, fixable = false } = {}) => {
+      found.push({ collection, filename, rule, message, ...(line ? { line } : {}), fixable });
+    };
+
+    const check = validateEntry(collection, raw);
+    if (!check.success) {
+      for (const error of check.errors) report('schema', `${error.path}: ${error.message}`);
+    }
+
+    /** @type {Record<string, any>} */
+    let data = {};
+    try {
+      data = parseFrontmatter(raw).data;
+    } catch {
+      // Already reported as a schema problem
+    }
+    const { body } = splitFrontmatter(raw);
+    const offset = bodyLineOffset(raw, body);
+
+    for (const i of collection === 'chats' ? emptyItems(data.action_items, 'task') : []) {
+      report('empty-action-item', `action_items.${i} has no task`, { fixable: true });
+    }
+    for (const i of collection === 'plans' ? emptyItems(data.milestones, 'title') : []) {
+      report('empty-milestone', `milestones.${i} has no title`, { fixable: true });
+    }
+
+    for (const finding of scanBody(collection, body, offset)) {
+      report(finding.rule, finding.message, { line: offset + finding.index + 1, fixable: !!finding.fix });
+    }
+
+    if (collection === 'chats') {
+      const withoutPlaceholders = body.split('\n').filter((l) => !PLACEHOLDERS.includes(l.trim())).join('\n');
+      if (!parseChatMessages(withoutPlaceholders).length) report('no-messages', 'Chat has no messages');
+    }
+
+    const slug = filename.replace(/\.mdx?$/, '');
+    const slugKey = `${collection}/${slug.toLowerCase()}`;
+    const sameSlug = lowerSlugs.get(slugKey);
+    if (sameSlug) report('duplicate-slug', `Same URL as ${sameSlug} (/${collection}/${slug})`);
+    else lowerSlugs.set(slugKey, filename);
+
+    if (typeof data.title === 'string' && data.title.trim()) {
+      const titleKey = `${collection}/${data.title.trim().toLowerCase()}`;
+      const sameTitle = titles.get(titleKey);
+      if (sameTitle) report('duplicate-title', `Same title as ${sameTitle}: "${data.title}"`);
+      else titles.set(titleKey, filename);
+    }
+
+    // Back-links written by chat_to_plan
+    const [linkField, linkedCollection] = collection === 'chats' ? ['plan', 'plans'] : ['chat', 'chats'];
+    if (typeof data[linkField] === 'string' && !slugs[/** @type {Collection} */ (linkedCollection)].has(data[linkField])) {
+      report('broken-link', `${linkField}: ${linkedCollection}/${data[linkField]} does not exist`);
+    }
+
+    const lines = body.split('\n');
+    const { fenced } = mapFences(collection, lines);
+    lines.forEach((line, index) => {
+      if (fenced[index]) return;
+      for (const [, linked, target] of line.replace(INLINE_CODE_RE, '').matchAll(ENTRY_LINK_RE)) {
+        if (!slugs[/** @type {Collection} */ (linked)].has(target)) {
+          report('broken-link', `Link to /${linked}/${target}, which does not exist`, { line: offset + index + 1 });
+        }
+      }
+    });
+
+    // File-wide problems first, then in line order
+    issues.push(...found.sort((a, b) => (a.line ?? 0) - (b.line ?? 0)));
+  }
+
+  return issues;
+}
+
+/**
+ * Apply every mechanical fix to one file: drop empty action items and
+ * milestones, remove scaffold comments, correct role headings and close open
+ * code fences.
+ * @param {Collection} collection
+ * @param {string} raw
+ * @returns {{ content: string, rules: CheckRule[] }}  The fixed file and the rules it fixed
+ */
+export function fixFile(collection, raw) {
+  /** @type {Set<CheckRule>} */
+  const rules = new Set();
+  let content = raw;
+
+  try {
+    const { data } = parseFrontmatter(raw);
+    const key = collection === 'chats' ? 'action_items' : 'milestones';
+    const empty = emptyItems(data[key], collection === 'chats' ? 'task' : 'title');
+    if (empty.length) {
+      content = updateFrontmatter(content, { [key]: data[key].filter((/** @type {unknown} */ _, /** @type {number} */ i) => !empty.includes(i)) });
+      rules.add(collection === 'chats' ? 'empty-action-item' : 'empty-milestone');
+    }
+  } catch {
+    // Malformed frontmatter needs a person
+  }
+
+  const { body } = splitFrontmatter(content);
+  const findings = scanBody(collection, body, bodyLineOffset(content, body)).filter((f) => f.fix);
+  if (findings.length) {
+    content = content.slice(0, content.length - body.length) + applyLineFixes(body, findings);
+    for (const f of findings) rules.add(f.rule);
+  }
+  return { content, rules: [...rules] };
+}
+
+/**
+ * Every chat and plan under `rootDir`.
+ * @param {string} rootDir
+ * @returns {ContentFile[]}
+ */
+export function readContentFiles(rootDir) {
+  return COLLECTIONS.flatMap((collection) => {
+    const dir = contentDir(rootDir, collection);
+    if (!fs.existsSync(dir)) return [];
+    return fs.readdirSync(dir)
+      .filter((f) => /\.mdx?$/.test(f))
+      .sort()
+      .map((filename) => ({ collection, filename, raw: fs.readFileSync(path.join(dir, filename), 'utf-8') }));
+  });
+}
+
+/**
+ * Check the archive, fixing what can be fixed first when `fix` is set. Fixes
+ * are written with `saveEntry`, so a file that still breaks the schema is left
+ * alone and listed under `failed`.
+ * @param {string} rootDir
+ * @param {{ fix?: boolean, source?: string }} [options]
+ * @returns {{
+ *   files: number,
+ *   issues: ContentIssue[],
+ *   fixed: { collection: Collection, filename: string, rules: CheckRule[] }[],
+ *   failed: { collection: Collection, filename: string, error: string }[],
+ * }}
+ */
+export function checkContent(rootDir, { fix = false, source = 'check-content' } = {}) {
+  /** @type {{ collection: Collection, filename: string, rules: CheckRule[] }[]} */
+  const fixed = [];
+  /** @type {{ collection: Collection, filename: string, error: string }[]} */
+  const failed = [];
+
+  if (fix) {
+    const fixable = new Set(checkFiles(readContentFiles(rootDir)).filter((i) => i.fixable).map((i) => `${i.collection}/${i.filename}`));
+    for (const file of readContentFiles(rootDir).filter((f) => fixable.has(`${f.collection}/${f.filename}`))) {
+      const { content, rules } = fixFile(file.collection, file.raw);
+      if (content === file.raw) continue;
+      try {
+        saveEntry(rootDir, file.collection, file.filename, content, { source });
+        fixed.push({ collection: file.collection, filename: file.filename, rules });
+      } catch (err) {
+        failed.push({ collection: file.collection, filename: file.filename, error: /** @type {Error} */ (err).message });
+      }
+    }
+  }
+
+  const files = readContentFiles(rootDir);
+  return { files: files.length, issues: checkFiles(files), fixed, failed };
+}
+
+/**
+ * Issues grouped by file, for terminal and tool output.
+ * @param {ContentIssue[]} issues
+ * @returns {string}
+ */
+export function formatIssues(issues) {
+  /** @type {Map<string, ContentIssue[]>} */
+  const byFile = new Map();
+  for (const issue of issues) {
+    const key = `${issue.collection}/${issue.filename}`;
+    byFile.set(key, [...(byFile.get(key) ?? []), issue]);
+  }
+  const width = Math.max(...issues.map((i) => i.rule.length));
+  return [...byFile].map(([key, list]) => {
+    const icon = list[0].collection === 'chats' ? '📝' : '📋';
+    const lines = list.map((i) => {
+      const where = i.line ? `line ${i.line}: ` : '';
+      return `   ${i.rule.padEnd(width)}  ${where}${i.message}${i.fixable ? ' (fixable)' : ''}`;
+    });
+    return `${icon} ${key}\n${lines.join('\n')}`;
+  }).join('\n\n');
+}
+
+/**
+ * Summary of a `checkContent` run: what was fixed, what is left, and a final
+ * verdict line.
+ * @param {ReturnType<typeof checkContent>} result
+ * @param {string} [fixHint]  How to ask for fixes, e.g. `--fix`
+ * @returns {string}
+ */
+export function formatCheckReport({ files, issues, fixed, failed }, fixHint = '--fix') {
+  const parts = [];
+  if (fixed.length) {
+    parts.push(fixed.map((f) => `🔧 Fixed ${f.collection}/${f.filename} (${f.rules.join(', ')})`).join('\n'));
+  }
+  if (failed.length) {
+    parts.push(failed.map((f) => `⚠️  Could not fix ${f.collection}/${f.filename}: ${f.error}`).join('\n'));
+  }
+  if (issues.length) parts.push(formatIssues(issues));
+
+  const checked = `${files} file${files !== 1 ? 's' : ''}`;
+  if (!issues.length) {
+    parts.push(`✅ Checked ${checked} — no problems`);
+  } else {
+    const withIssues = new Set(issues.map((i) => `${i.collection}/${i.filename}`)).size;
+    const fixable = issues.filter((i) => i.fixable).length;
+    parts.push(`❌ ${issues.length} problem${issues.length !== 1 ? 's' : ''} in ${withIssues} of ${checked}`
+      + (fixable ? ` — ${fixable} can be fixed with ${fixHint}` : ''));
+  }
+  return parts.join('\n\n');
+}
@@ -0,0 +1,157 @@
+/**
+ * Line diffs between two revisions of a file.
+ * Used by the history tool and CLI (unified text) and the /history page
+ * (side-by-side rows). Pure functions.
+ */
+
+/**
+ * @typedef {{ type: 'same' | 'add' | 'del', text: string, a?: number, b?: number }} DiffLine
+ *   `a` / `b` are 1-based line numbers in the old / new text.
+ * @typedef {{ left: DiffLine | null, right: DiffLine | null }} DiffRow
+ */
+
+/**
+ * Diff two texts line by line (longest common subsequence).
+ * Common leading and trailing lines are matched first to keep the table small.
+ * @param {string} oldText
+ * @param {string} newText
+ * @returns {DiffLine[]}
+ */
+export function diffLines(oldText, newText) {
+  const a = oldText.split('\n');
+  const b = newText.split('\n');
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+  const n = endA - start;
+  const m = endB - start;
+  // lcs[i * (m + 1) + j] = LCS length of a[start+i..endA) and b[start+j..endB)
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] = a[start + i] === b[start + j]
+        ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  /** @type {DiffLine[]} */
+  const out = [];
+  for (let k = 0; k < start; k++) out.push({ type: 'same', text: a[k], a: k + 1, b: k + 1 });
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[start + i] === b[start + j]) {
+      out.push({ type: 'same', text: a[start + i], a: start + i + 1, b: start + j + 1 });
+      i++; j++;
+    } else if (i < n && (j === m || lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+      // Deletions first on ties so a changed line reads as "- old / + new"
+      out.push({ type: 'del', text: a[start + i], a: start + i + 1 });
+      i++;
+    } else {
+      out.push({ type: 'add', text: b[start + j], b: start + j + 1 });
+      j++;
+    }
+  }
+  for (let k = 0; k < a.length - endA; k++) {
+    out.push({ type: 'same', text: a[endA + k], a: endA + k + 1, b: endB + k + 1 });
+  }
+  return out;
+}
+
+/**
+ * Pair deletions with the additions that follow them so a side-by-side view
+ * shows a changed line on one row.
+ * @param {DiffLine[]} lines
+ * @returns {DiffRow[]}
+ */
+export function sideBySide(lines) {
+  /** @type {DiffRow[]} */
+  const rows = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].type === 'same') {
+      rows.push({ left: lines[i], right: lines[i] });
+      i++;
+      continue;
+    }
+    const dels = [];
+    const adds = [];
+    while (i < lines.length && lines[i].type === 'del') dels.push(lines[i++]);
+    while (i < lines.length && lines[i].type === 'add') adds.push(lines[i++]);
+    for (let k = 0; k < Math.max(dels.length, adds.length); k++) {
+      rows.push({ left: dels[k] ?? null, right: adds[k] ?? null });
+    }
+  }
+  return rows;
+}
+
+/**
+ * Render a diff as unified-diff style text with `context` lines around changes.
+ * Returns an empty string when the texts are identical.
+ * @param {DiffLine[]} lines
+ * @param {{ context?: number, from?: string, to?: string }} [options]
+ * @returns {string}
+ */
+export function formatUnifiedDiff(lines, { context = 3, from = 'a', to = 'b' } = {}) {
+  const changed = lines.map((l, i) => (l.type === 'same' ? -1 : i)).filter((i) => i >= 0);
+  if (!changed.length) return '';
+
+  // Group changes whose context windows touch into hunks
+  /** @type {[number, number][]} */
+  const hunks = [];
+  for (const i of changed) {
+    const lo = Math.max(0, i - context);
+    const hi = Math.min(lines.length - 1, i + context);
+    const last = hunks[hunks.length - 1];
+    if (last && lo <= last[1] + 1) last[1] = hi;
+    else hunks.push([lo, hi]);
+  }
+
+  const out = [`--- ${from}`, `+++ ${to}`];
+  for (const [lo, hi] of hunks) {
+    const slice = lines.slice(lo, hi + 1);
+    const aStart = slice.find((l) => l.a)?.a ?? 0;
+    const bStart = slice.find((l) => l.b)?.b ?? 0;
+    const aLen = slice.filter((l) => l.type !== 'add').length;
+    const bLen = slice.filter((l) => l.type !== 'del').length;
+    out.push(`@@ -${aStart},${aLen} +${bStart},${bLen} @@`);
+    for (const l of slice) out.push(`${l.type === 'add' ? '+' : l.type === 'del' ? '-' : ' '}${l.text}`);
+  }
+  return out.join('\n');
+}
+
+/**
+ * Collapse runs of unchanged rows further than `context` rows from a change
+ * into `{ skipped }` markers, for compact side-by-side views.
+ * @param {DiffRow[]} rows
+ * @param {number} [context]
+ * @returns {(DiffRow | { skipped: number })[]}
+ */
+export function foldRows(rows, context = 3) {
+  const isSame = (/** @type {DiffRow} */ r) => r.left?.type === 'same';
+  const keep = rows.map(() => false);
+  rows.forEach((r, i) => {
+    if (isSame(r)) return;
+    for (let k = Math.max(0, i - context); k <= Math.min(rows.length - 1, i + context); k++) keep[k] = true;
+  });
+
+  /** @type {(DiffRow | { skipped: number })[]} */
+  const out = [];
+  let skipped = 0;
+  rows.forEach((r, i) => {
+    if (keep[i]) {
+      if (skipped) out.push({ skipped });
+      skipped = 0;
+      out.push(r);
+    } else {
+      skipped++;
+    }
+  });
+  if (skipped) out.push({ skipped });
+  return out;
+}
@@ -0,0 +1,363 @@
+/**
+ * Query chats and plans: filter, sort and paginate.
+ *
+ * Shared by the `list_entries` MCP tool and `npm run ls`, so both accept the
+ * same filters and page through results with the same cursors. Cursors are
+ * keyset positions (the last entry's sort key), so pages stay consistent when
+ * entries are added or removed between calls. `searchEntries` runs the site's
+ * ranked search over the same entries for the `search_entries` tool.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { parseFrontmatter, splitFrontmatter } from './frontmatter.mjs';
+import { contentDir } from './history.mjs';
+import { listMdxFiles } from './utils.mjs';
+import { entryRef } from './results.mjs';
+import { buildSearchIndex, chatSearchSections, planSearchSections, searchIndex, snippetText } from './search.mjs';
+
+/**
+ * @typedef {import('./history.mjs').Collection} Collection
+ * @typedef {'not-started' | 'in-progress' | 'complete'} MilestoneStatus
+ * @typedef {'date' | 'title' | 'updated'} SortKey
+ * @typedef {{
+ *   collection: Collection,
+ *   filename: string,
+ *   slug: string,
+ *   url: string,
+ *   title: string,
+ *   date: string | null,
+ *   updated: string,
+ *   tags: string[],
+ *   tldr?: string,
+ *   difficulty?: string,
+ *   milestones: { title: string, weeks?: string, status: MilestoneStatus, start?: string, end?: string }[],
+ *   actionItems: { task: string, done: boolean }[],
+ *   body: string,
+ * }} Entry
+ * @typedef {{
+ *   collection?: Collection | 'all',
+ *   tags?: string[],
+ *   from?: string,
+ *   to?: string,
+ *   difficulty?: string,
+ *   status?: MilestoneStatus,
+ *   text?: string,
+ *   sort?: SortKey,
+ *   order?: 'asc' | 'desc',
+ *   limit?: number,
+ *   cursor?: string,
+ * }} EntryQuery
+ * @typedef {{ entries: Entry[], total: number, nextCursor: string | null }} EntryPage
+ */
+
+export const SORT_KEYS = /** @type {const} */ (['date', 'title', 'updated']);
+export const MILESTONE_STATUSES = /** @type {const} */ (['not-started', 'in-progress', 'complete']);
+export const DIFFICULTIES = /** @type {const} */ (['beginner', 'intermediate', 'advanced']);
+
+export const DEFAULT_LIMIT = 20;
+export const MAX_LIMIT = 100;
+
+const DATE_PREFIX_RE = /^\d{4}(-\d{2}(-\d{2})?)?$/;
+
+/**
+ * Read every entry of a collection (or both). Files with malformed frontmatter
+ * are listed as "Untitled" so they can still be found and fixed.
+ * @param {string} rootDir
+ * @param {Collection | 'all'} [collection]
+ * @returns {Entry[]}
+ */
+export function loadEntries(rootDir, collection = 'all') {
+  /** @type {Collection[]} */
+  const collections = collection === 'all' ? ['chats', 'plans'] : [collection];
+  return collections.flatMap((coll) => {
+    const dir = contentDir(rootDir, coll);
+    return listMdxFiles(dir).map((filename) => {
+      const filepath = path.join(dir, filename);
+      const raw = fs.readFileSync(filepath, 'utf-8');
+      /** @type {Record<string, any>} */
+      let data = {};
+      let body = splitFrontmatter(raw).body;
+      try { ({ data, body } = parseFrontmatter(raw)); } catch { /* listed as Untitled */ }
+      return {
+        ...entryRef(coll, filename),
+        title: String(data.title || 'Untitled'),
+        date: data.date ? String(data.date) : null,
+        updated: fs.statSync(filepath).mtime.toISOString(),
+        tags: Array.isArray(data.tags) ? data.tags.map(String) : [],
+        ...(data.tldr ? { tldr: String(data.tldr) } : {}),
+        ...(data.difficulty ? { difficulty: String(data.difficulty) } : {}),
+        milestones: Array.isArray(data.milestones) ? data.milestones : [],
+        actionItems: Array.isArray(data.action_items) ? data.action_items : [],
+        body,
+      };
+    });
+  });
+}
+
+/**
+ * Throw if a query has values the filters cannot use.
+ * @param {EntryQuery} query
+ */
+export function validateQuery(query) {
+  for (const key of /** @type {const} */ (['from', 'to'])) {
+    if (query[key] && !DATE_PREFIX_RE.test(query[key])) {
+      throw new Error(`"${key}" must be YYYY, YYYY-MM or YYYY-MM-DD, got "${query[key]}"`);
+    }
+  }
+  if (query.sort && !SORT_KEYS.includes(query.sort)) throw new Error(`Unknown sort: ${query.sort} (use ${SORT_KEYS.join(', ')})`);
+  if (query.status && !MILESTONE_STATUSES.includes(query.status)) throw new Error(`Unknown status: ${query.status} (use ${MILESTONE_STATUSES.join(', ')})`);
+  if (query.difficulty && !/** @type {readonly string[]} */ (DIFFICULTIES).includes(query.difficulty)) {
+    throw new Error(`Unknown difficulty: ${query.difficulty} (use ${DIFFICULTIES.join(', ')})`);
+  }
+  if (query.limit !== undefined && (!Number.isInteger(query.limit) || query.limit < 1 || query.limit > MAX_LIMIT)) {
+    throw new Error(`"limit" must be between 1 and ${MAX_LIMIT}`);
+  }
+}
+
+/**
+ * Whether an entry passes every filter in the query. Tags match
+ * case-insensitively and all must be present; `difficulty` and `status` only
+ * match plans; `text` matches when every word appears in the title, tl;dr,
+ * tags or body.
+ * @param {Entry} entry
+ * @param {EntryQuery} query
+ * @returns {boolean}
+ */
+export function matchesQuery(entry, { collection = 'all', tags, from, to, difficulty, status, text }) {
+  if (collection !== 'all' && entry.collection !== collection) return false;
+  if (tags?.length) {
+    const own = new Set(entry.tags.map((t) => t.toLowerCase()));
+    if (!tags.every((t) => own.has(t.toLowerCase()))) return false;
+  }
+  if (from && (!entry.date || entry.date < from)) return false;
+  if (to && (!entry.date || entry.date.slice(0, to.length) > to)) return false;
+  if (difficulty && entry.difficulty !== difficulty) return false;
+  if (status && !entry.milestones.some((m) => (m.status ?? 'not-started') === status)) return false;
+  if (text) {
+    const haystack = [entry.title, entry.tldr ?? '', entry.tags.join(' '), entry.body].join('\n').toLowerCase();
+    if (!text.toLowerCase().split(/\s+/).filter(Boolean).every((word) => haystack.includes(word))) return false;
+  }
+  return true;
+}
+
+/**
+ * @param {Entry} entry
+ * @param {SortKey} sort
+ * @returns {string}
+ */
+function sortValue(entry, sort) {
+  if (sort === 'title') return entry.title.toLowerCase();
+  if (sort === 'updated') return entry.updated;
+  return entry.date ?? '';
+}
+
+/**
+ * Compare two (sort value, path) positions; ties break on the path so the
+ * order is total and cursors never skip or repeat entries.
+ * @param {[string, string]} a
+ * @param {[string, string]} b
+ * @param {'asc' | 'desc'} order
+ */
+function comparePositions(a, b, order) {
+  const cmp = a[0].localeCompare(b[0]) || a[1].localeCompare(b[1]);
+  return order === 'asc' ? cmp : -cmp;
+}
+
+/** @param {Entry} entry */
+const pathOf = (entry) => `${entry.collection}/${entry.filename}`;
+
+/**
+ * @param {{ sort: SortKey, order: 'asc' | 'desc', value: string, path: string }} position
+ * @returns {string}
+ */
+function encodeCursor({ sort, order, value, path: entryPath }) {
+  return Buffer.from(JSON.stringify([sort, order, value, entryPath])).toString('base64url');
+}
+
+/**
+ * @param {string} cursor
+ * @param {SortKey} sort
+ * @param {'asc' | 'desc'} order
+ * @returns {[string, string]}
+ */
+function decodeCursor(cursor, sort, order) {
+  let parsed;
+  try {
+    parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+  if (!Array.isArray(parsed) || parsed.length !== 4) throw new Error('Invalid cursor');
+  if (parsed[0] !== sort || parsed[1] !== order) {
+    throw new Error(`This cursor belongs to a listing sorted by ${parsed[0]} ${parsed[1]} — repeat that sort or start over without a cursor`);
+  }
+  return [String(parsed[2]), String(parsed[3])];
+}
+
+/**
+ * Filter, sort and paginate entries. `date` and `updated` sort newest first
+ * and `title` A–Z unless `order` says otherwise. Throws on invalid queries.
+ * @param {Entry[]} entries
+ * @param {EntryQuery} [query]
+ * @returns {EntryPage}
+ */
+export function queryEntries(entries, query = {}) {
+  validateQuery(query);
+  const sort = query.sort ?? 'date';
+  const order = query.order ?? (sort === 'title' ? 'asc' : 'desc');
+  const limit = query.limit ?? DEFAULT_LIMIT;
+
+  /** @param {Entry} e @returns {[string, string]} */
+  const position = (e) => [sortValue(e, sort), pathOf(e)];
+  const matching = entries
+    .filter((e) => matchesQuery(e, query))
+    .sort((a, b) => comparePositions(position(a), position(b), order));
+
+  const after = query.cursor ? decodeCursor(query.cursor, sort, order) : null;
+  const remaining = after ? matching.filter((e) => comparePositions(position(e), after, order) > 0) : matching;
+  const page = remaining.slice(0, limit);
+  const last = page[page.length - 1];
+
+  return {
+    entries: page,
+    total: matching.length,
+    nextCursor: remaining.length > limit && last
+      ? encodeCursor({ sort, order, value: sortValue(last, sort), path: pathOf(last) })
+      : null,
+  };
+}
+
+/**
+ * The fields of an entry to return: reference, title, date, tags and tl;dr,
+ * plus difficulty, milestones, action items and mtime in verbose mode. Never
+ * the body.
+ * @param {Entry} entry
+ * @param {boolean} verbose
+ */
+export function entrySummary(entry, verbose) {
+  const { collection, filename, slug, url, title, date, tags, tldr } = entry;
+  const summary = { collection, filename, slug, url, title, date, tags, ...(tldr ? { tldr } : {}) };
+  if (!verbose) return summary;
+  const { updated, difficulty, milestones, actionItems } = entry;
+  return { ...summary, updated, ...(difficulty ? { difficulty } : {}), milestones, actionItems };
+}
+
+/**
+ * Milestone or action item progress, e.g. `2/5 milestones complete`.
+ * @param {Entry} entry
+ * @returns {string | null}
+ */
+function progressLine(entry) {
+  if (entry.milestones.length) {
+    const done = entry.milestones.filter((m) => m.status === 'complete').length;
+    const active = entry.milestones.find((m) => m.status === 'in-progress');
+    return `${done}/${entry.milestones.length} milestones complete${active ? ` · now: ${active.title}` : ''}`;
+  }
+  if (entry.actionItems.length) {
+    const open = entry.actionItems.filter((a) => !a.done).length;
+    return `${open} open action item${open !== 1 ? 's' : ''}`;
+  }
+  return null;
+}
+
+/**
+ * Text listing shared by the tool and the CLI: one line per entry, plus
+ * tl;dr, tags and progress lines in verbose mode.
+ * @param {Entry[]} entries
+ * @param {{ verbose?: boolean }} [options]
+ * @returns {string}
+ */
+export function formatEntryList(entries, { verbose = false } = {}) {
+  return entries
+    .map((e) => {
+      const line = `  ${e.collection === 'chats' ? '📝' : '📋'} ${e.filename} — ${e.title} (${e.date ?? '?'})`;
+      if (!verbose) return line;
+      const progress = progressLine(e);
+      return [
+        line,
+        ...(e.tldr ? [`      ↳ ${e.tldr}`] : []),
+        ...(e.tags.length ? [`      ↳ ${e.tags.map((t) => `#${t}`).join(' ')}${e.difficulty ? ` · ${e.difficulty}` : ''}`] : []),
+        ...(progress ? [`      ↳ ${progress}`] : []),
+      ].join('\n');
+    })
+    .join('\n');
+}
+
+/**
+ * Search the chat and plan files under `rootDir`. Chat matches carry the
+ * message index and role; plan matches the section heading.
+ * @param {string} rootDir
+ * @param {string} query
+ * @param {{ collection?: Collection | 'all', limit?: number, maxHits?: number }} [options]
+ */
+export function searchEntries(rootDir, query, { collection = 'all', limit = 10, maxHits = 3 } = {}) {
+  const entries = loadEntries(rootDir, collection);
+  /** @type {import('./search.mjs').SearchDocument[]} */
+  const documents = entries.map((e) => ({
+    type: e.collection === 'chats' ? 'chat' : 'plan',
+    title: e.title,
+    href: e.url,
+    date: e.date ?? '',
+    tags: e.tags,
+    tldr: e.tldr ?? '',
+    sections: e.collection === 'chats' ? chatSearchSections(e.body) : planSearchSections(e.body, e.milestones),
+  }));
+  const byUrl = new Map(entries.map((e) => [e.url, e]));
+
+  return searchIndex(buildSearchIndex(documents), query, limit, maxHits).map(({ document, score, hits }) => {
+    const entry = /** @type {Entry} */ (byUrl.get(document.href));
+    return {
+      collection: entry.collection,
+      filename: entry.filename,
+      slug: entry.slug,
+      url: entry.url,
+      title: entry.title,
+      date: entry.date,
+      score: Math.round(score * 100) / 100,
+      matches: hits.map((hit) => {
+        const message = /^message-(\d+)$/.exec(hit.anchor);
+        return {
+          ...(message
+            ? { messageIndex: Number(message[1]), role: /** @type {'user' | 'ai'} */ (hit.label.startsWith('User') ? 'user' : 'ai') }
+            : { section: hit.label }),
+          url: hit.anchor ? `${entry.url}#${hit.anchor}` : entry.url,
+          excerpt: snippetText(hit.snippet),
+        };
+      }),
+    };
+  });
+}
+
+/**
+ * Parse `npm run ls` arguments into a query. A bare `chats` / `plans` picks
+ * the collection; anything else unrecognised throws.
+ * @param {string[]} args
+ * @returns {EntryQuery & { verbose: boolean }}
+ */
+export function parseListArgs(args) {
+  /** @type {EntryQuery & { verbose: boolean }} */
+  const query = { verbose: false };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const next = () => {
+      const value = args[++i];
+      if (value === undefined) throw new Error(`${arg} needs a value`);
+      return value;
+    };
+    if (arg === 'chats' || arg === 'plans' || arg === 'all') query.collection = arg;
+    else if (arg === '--tag' || arg === '--tags') query.tags = [...(query.tags ?? []), ...next().split(',').map((t) => t.trim()).filter(Boolean)];
+    else if (arg === '--from') query.from = next();
+    else if (arg === '--to') query.to = next();
+    else if (arg === '--difficulty') query.difficulty = next();
+    else if (arg === '--status') query.status = /** @type {MilestoneStatus} */ (next());
+    else if (arg === '--search' || arg === '-q') query.text = next();
+    else if (arg === '--sort') query.sort = /** @type {SortKey} */ (next());
+    else if (arg === '--asc' || arg === '--desc') query.order = arg === '--asc' ? 'asc' : 'desc';
+    else if (arg === '--limit') query.limit = Number(next());
+    else if (arg === '--cursor') query.cursor = next();
+    else if (arg === '--verbose' || arg === '-v') query.verbose = true;
+    else throw new Error(`Unknown option: ${arg}`);
+  }
+  return query;
+}
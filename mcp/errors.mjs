@@ -0,0 +1,31 @@
+/**
+ * Error types for failures a caller handles differently from a crash. The
+ * API routes answer a `ConflictError` with 409 and a `ValidationError` with
+ * 400 and its field errors; anything else is a 500. Tools and the CLI only
+ * need the message.
+ */
+
+/**
+ * The content on disk does not allow the change, e.g. the target already
+ * exists or the item being edited has changed since it was read.
+ */
+export class ConflictError extends Error {
+  name = 'ConflictError';
+}
+
+/**
+ * Content that would not match its collection schema. `fields` lists the
+ * errors per field, as `validateEntry` reports them.
+ */
+export class ValidationError extends Error {
+  name = 'ValidationError';
+
+  /**
+   * @param {string} message
+   * @param {import('./frontmatter.mjs').FieldError[]} fields
+   */
+  constructor(message, fields) {
+    super(message);
+    this.fields = fields;
+  }
+}
@@ -0,0 +1,415 @@
+/**
+ * Export a chat or plan for people who do not have the site.
+ *
+ * - `markdown`: clean CommonMark. The frontmatter becomes a title and metadata
+ *   header, MDX-only syntax (imports, comments) is dropped and GFM task boxes
+ *   become ☑ / ☐.
+ * - `html`: one self-contained file. Styles are inlined and built from the
+ *   theme tokens in src/styles/global.css, code is highlighted with Shiki, and
+ *   print rules make "Print → Save as PDF" produce a clean document.
+ *
+ * Used by the CLI (`npm run export`), the `export_entry` MCP tool and the
+ * /api/export route behind the Export menu on chat and plan pages.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { parseFrontmatter } from './frontmatter.mjs';
+import { parseChatMessages, roleHeading } from './messages.mjs';
+import { contentDir } from './history.mjs';
+import { ensureDir } from './utils.mjs';
+
+/**
+ * @typedef {import('./history.mjs').Collection} Collection
+ * @typedef {'html' | 'markdown'} ExportFormat
+ * @typedef {'light' | 'dark' | 'auto'} ExportTheme
+ * @typedef {{ light: Record<string, string>, dark: Record<string, string> }} ThemeTokens
+ * @typedef {{ filename: string, content: string, contentType: string }} ExportResult
+ */
+
+export const EXPORT_FORMATS = /** @type {const} */ (['html', 'markdown']);
+export const EXPORT_THEMES = /** @type {const} */ (['light', 'dark', 'auto']);
+
+const SHIKI_THEMES = { light: 'github-light-default', dark: 'github-dark-default' };
+const FENCE_RE = /^\s*(```|~~~)\s*([\w+#.-]*)/;
+
+// ─── Shared helpers ─────────────────────────────────────────────────────────
+
+/**
+ * Drop MDX-only syntax that means nothing outside the site: ESM lines and
+ * HTML comments (e.g. the scaffolders' "paste here" placeholders).
+ * @param {string} body
+ * @returns {string}
+ */
+export function stripMdx(body) {
+  let inFence = false;
+  const lines = body.split('\n').filter((line) => {
+    if (FENCE_RE.test(line)) inFence = !inFence;
+    return inFence || !/^(import|export)\s.+/.test(line);
+  });
+  return lines.join('\n').replace(/<!--[\s\S]*?-->\n?/g, '').trim();
+}
+
+/**
+ * Title and metadata rows for the export header.
+ * @param {Collection} collection
+ * @param {Record<string, any>} data
+ * @returns {[string, string][]}
+ */
+function metaRows(collection, data) {
+  /** @type {[string, string][]} */
+  const rows = [['Type', collection === 'chats' ? 'Chat session' : 'Study plan']];
+  if (data.date) rows.push(['Date', String(data.date).slice(0, 10)]);
+  if (data.tags?.length) rows.push(['Tags', data.tags.join(', ')]);
+  if (data.duration) rows.push(['Duration', data.duration]);
+  if (data.difficulty) rows.push(['Difficulty', data.difficulty]);
+  return rows;
+}
+
+const STATUS_LABEL = { 'not-started': 'Not started', 'in-progress': 'In progress', complete: 'Complete' };
+
+// ─── Markdown ───────────────────────────────────────────────────────────────
+
+/**
+ * Render an entry as CommonMark with the frontmatter as a header.
+ * @param {Collection} collection
+ * @param {string} raw - the .mdx file content
+ * @returns {string}
+ */
+export function entryToMarkdown(collection, raw) {
+  const { data, body } = parseFrontmatter(raw);
+  const out = [`# ${data.title ?? 'Untitled'}`, ''];
+  for (const [label, value] of metaRows(collection, data)) out.push(`- **${label}:** ${value}`);
+  if (data.tldr) out.push('', `> **TL;DR** — ${data.tldr}`);
+
+  if (data.action_items?.length) {
+    out.push('', '**Action items**', '');
+    for (const item of data.action_items) out.push(`- ${item.done ? '☑' : '☐'} ${item.task}`);
+  }
+  if (data.milestones?.length) {
+    out.push('', '**Milestones**', '');
+    for (const m of data.milestones) {
+      out.push(`- **${m.title}**${m.weeks ? ` · ${m.weeks}` : ''} · ${STATUS_LABEL[m.status] ?? m.status}`);
+    }
+  }
+
+  out.push('', '---', '');
+  const content = stripMdx(body);
+  if (collection === 'chats') {
+    const messages = parseChatMessages(content);
+    out.push(messages.map((m) => `## ${roleHeading(m.role)}\n\n${m.content}`).join('\n\n'));
+  } else {
+    out.push(content);
+  }
+  return `${untask(out.join('\n')).trim()}\n`;
+}
+
+/**
+ * Replace GFM task boxes (`- [x]`), which CommonMark does not have, with
+ * ☑ / ☐ outside code fences.
+ * @param {string} md
+ * @returns {string}
+ */
+function untask(md) {
+  let inFence = false;
+  return md
+    .split('\n')
+    .map((line) => {
+      if (FENCE_RE.test(line)) inFence = !inFence;
+      return inFence ? line : line.replace(/^(\s*[-*+]) \[([ xX])\] /, (_, bullet, mark) => `${bullet} ${mark === ' ' ? '☐' : '☑'} `);
+    })
+    .join('\n');
+}
+
+// ─── HTML ───────────────────────────────────────────────────────────────────
+
+/** @param {string} s */
+export function escapeHtml(s) {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Inline markdown — code spans, bold, italic and links, the same subset the
+ * site's chat renderer supports.
+ * @param {string} text
+ * @returns {string}
+ */
+export function renderInline(text) {
+  return text
+    .split(/(`[^`]+`)/)
+    .map((part) => {
+      if (/^`[^`]+`$/.test(part)) return `<code>${escapeHtml(part.slice(1, -1))}</code>`;
+      return escapeHtml(part)
+        .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+        .replace(/(^|[^*])\*([^*\s][^*]*)\*/g, '$1<em>$2</em>')
+        .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (m, label, href) =>
+          /^(https?:|mailto:|#|\/)/.test(href) ? `<a href="${href}">${label}</a>` : label);
+    })
+    .join('');
+}
+
+/**
+ * Highlight a code block with Shiki in both themes; the dark colors sit in
+ * `--shiki-dark` variables that the theme CSS switches to.
+ * @param {string} code
+ * @param {string} lang
+ * @returns {Promise<string>}
+ */
+async function highlight(code, lang) {
+  const { codeToHtml } = await import('shiki');
+  let html;
+  try {
+    html = await codeToHtml(code, { lang: lang || 'text', themes: SHIKI_THEMES });
+  } catch {
+    // Unknown language — fall back to plain text rather than failing the export
+    html = await codeToHtml(code, { lang: 'text', themes: SHIKI_THEMES });
+  }
+  return `<figure class="code"><figcaption>${escapeHtml(lang || 'text')}</figcaption>${html}</figure>`;
+}
+
+/**
+ * Render block markdown to HTML: headings, paragraphs, lists (with task
+ * boxes), blockquotes, rules and fenced code.
+ * @param {string} md
+ * @returns {Promise<string>}
+ */
+export async function renderMarkdown(md) {
+  const lines = md.split('\n');
+  /** @type {string[]} */
+  const out = [];
+  /** @type {string[]} */
+  let para = [];
+  /** @type {{ ordered: boolean, items: string[] } | null} */
+  let list = null;
+  /** @type {string[]} */
+  let quote = [];
+
+  const flush = () => {
+    if (para.length) out.push(`<p>${renderInline(para.join(' '))}</p>`);
+    if (list) {
+      const tag = list.ordered ? 'ol' : 'ul';
+      out.push(`<${tag}>${list.items.map((i) => `<li>${i}</li>`).join('')}</${tag}>`);
+    }
+    if (quote.length) out.push(`<blockquote><p>${renderInline(quote.join(' '))}</p></blockquote>`);
+    para = [];
+    list = null;
+    quote = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const fence = line.match(FENCE_RE);
+    if (fence) {
+      flush();
+      const code = [];
+      for (i++; i < lines.length && !lines[i].trim().startsWith(fence[1]); i++) code.push(lines[i]);
+      out.push(await highlight(code.join('\n'), fence[2]));
+      continue;
+    }
+
+    const trimmed = line.trim();
+    const heading = trimmed.match(/^(#{1,6})\s+(.*)$/);
+    const item = trimmed.match(/^([-*+]|\d+[.)])\s+(.*)$/);
+
+    if (!trimmed) {
+      flush();
+    } else if (heading) {
+      flush();
+      out.push(`<h${heading[1].length}>${renderInline(heading[2])}</h${heading[1].length}>`);
+    } else if (/^([-*_])(\s*\1){2,}$/.test(trimmed)) {
+      flush();
+      out.push('<hr>');
+    } else if (trimmed.startsWith('>')) {
+      if (!quote.length) flush();
+      quote.push(trimmed.replace(/^>\s?/, ''));
+    } else if (item) {
+      const ordered = /\d/.test(item[1]);
+      if (!list || list.ordered !== ordered) { flush(); list = { ordered, items: [] }; }
+      const task = item[2].match(/^\[([ xX])\]\s+(.*)$/);
+      list.items.push(task
+        ? `<span class="task${task[1] === ' ' ? '' : ' done'}">${task[1] === ' ' ? '☐' : '☑'}</span> ${renderInline(task[2])}`
+        : renderInline(item[2]));
+    } else if (list && /^\s+\S/.test(line)) {
+      // Continuation of the previous list item
+      list.items[list.items.length - 1] += ` ${renderInline(trimmed)}`;
+    } else {
+      if (list || quote.length) flush();
+      para.push(trimmed);
+    }
+  }
+  flush();
+  return out.join('\n');
+}
+
+/**
+ * Read the `:root` (light) and `.dark` token blocks from global.css.
+ * @param {string} css
+ * @returns {ThemeTokens}
+ */
+export function readThemeTokens(css) {
+  const clean = css.replace(/\/\*[\s\S]*?\*\//g, '');
+  /** @param {RegExp} selector */
+  const block = (selector) => {
+    const body = clean.match(selector)?.[1] ?? '';
+    return Object.fromEntries([...body.matchAll(/(--[\w-]+)\s*:\s*([^;]+);/g)].map((m) => [m[1], m[2].trim()]));
+  };
+  return { light: block(/(?:^|\n)\s*:root\s*\{([^}]*)\}/), dark: block(/(?:^|\n)\s*\.dark\s*\{([^}]*)\}/) };
+}
+
+/** @param {Record<string, string>} tokens */
+const declarations = (tokens) => Object.entries(tokens).map(([k, v]) => `${k}: ${v};`).join(' ');
+
+const SHIKI_DARK = '.shiki, .shiki span { color: var(--shiki-dark) !important; background-color: var(--shiki-dark-bg) !important; }';
+
+/**
+ * Theme tokens and Shiki colors for the chosen theme. `auto` follows the
+ * reader's system setting. Print always uses the light palette.
+ * @param {ThemeTokens} tokens
+ * @param {ExportTheme} theme
+ * @returns {string}
+ */
+export function themeCss(tokens, theme) {
+  const light = `:root { ${declarations(tokens.light)} }`;
+  const dark = `:root { ${declarations({ ...tokens.light, ...tokens.dark })} }\n${SHIKI_DARK}`;
+  if (theme === 'light') return light;
+  if (theme === 'dark') return `${dark}\n@media print { ${light} .shiki, .shiki span { color: inherit; } }`;
+  return `${light}\n@media screen and (prefers-color-scheme: dark) { ${dark} }`;
+}
+
+const BASE_CSS = `
+*, *::before, *::after { box-sizing: border-box; }
+body { margin: 0; background: hsl(var(--background)); color: hsl(var(--foreground)); font: 15px/1.65 Inter, system-ui, -apple-system, 'Segoe UI', sans-serif; }
+main { max-width: 760px; margin: 0 auto; padding: 3rem 1.25rem; }
+h1 { font-size: 2rem; line-height: 1.2; margin: 0 0 1rem; }
+h2, h3, h4 { line-height: 1.3; margin: 1.75rem 0 0.5rem; }
+a { color: var(--badge-text); }
+code { font-family: 'JetBrains Mono', ui-monospace, monospace; font-size: 0.875em; background: hsl(var(--muted)); padding: 0.1em 0.35em; border-radius: 4px; }
+hr { border: 0; border-top: 1px solid hsl(var(--border)); margin: 2rem 0; }
+blockquote { margin: 1rem 0; padding-left: 1rem; border-left: 2px solid var(--badge-dot); color: hsl(var(--muted-foreground)); font-style: italic; }
+ul, ol { padding-left: 1.5rem; }
+.meta { display: flex; flex-wrap: wrap; gap: 0.25rem 1.25rem; margin: 0; color: hsl(var(--muted-foreground)); font-size: 0.85rem; }
+.meta b { font-weight: 600; }
+.panel { margin: 1.25rem 0; padding: 0.9rem 1rem; border: 1px solid hsl(var(--border)); border-radius: 10px; background: hsl(var(--muted) / 0.5); }
+.panel > strong { display: block; font-size: 0.8rem; color: hsl(var(--muted-foreground)); margin-bottom: 0.35rem; }
+.panel ul { list-style: none; padding: 0; margin: 0; }
+.task { color: hsl(var(--muted-foreground)); }
+.task.done, .status-complete { color: #10b981; }
+.status-in-progress { color: #f59e0b; }
+.msg { margin: 1.5rem 0; break-inside: avoid; }
+.msg .role { margin: 0 0 0.35rem; font-size: 0.75rem; font-weight: 600; color: hsl(var(--muted-foreground)); }
+.bubble { padding: 0.85rem 1.15rem; border-radius: 16px; }
+.bubble > :first-child { margin-top: 0; }
+.bubble > :last-child { margin-bottom: 0; }
+.msg-user { display: flex; flex-direction: column; align-items: flex-end; }
+.msg-user .bubble { max-width: 85%; background: hsl(var(--user-bubble)); color: hsl(var(--user-text)); border-top-right-radius: 4px; }
+.msg-user .bubble a { color: inherit; }
+.msg-ai .bubble { background: hsl(var(--ai-bubble)); color: hsl(var(--ai-text)); border-top-left-radius: 4px; }
+figure.code { margin: 1rem 0; border: 1px solid hsl(var(--border)); border-radius: 8px; overflow: hidden; break-inside: avoid; }
+figure.code figcaption { padding: 0.35rem 0.9rem; font: 500 0.7rem 'JetBrains Mono', ui-monospace, monospace; text-transform: uppercase; letter-spacing: 0.05em; color: hsl(var(--muted-foreground)); border-bottom: 1px solid hsl(var(--border)); }
+figure.code pre { margin: 0; padding: 0.9rem; overflow-x: auto; font-size: 0.8rem; line-height: 1.55; }
+figure.code code { background: none; padding: 0; }
+footer { margin-top: 3rem; color: hsl(var(--muted-foreground)); font-size: 0.75rem; }
+@media print {
+  @page { margin: 18mm 16mm; }
+  body { font-size: 11pt; background: #fff; }
+  main { max-width: none; padding: 0; }
+  * { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  h1, h2, h3 { break-after: avoid; }
+  figure.code pre { white-space: pre-wrap; word-break: break-word; }
+  a { color: inherit; text-decoration: underline; }
+  footer { display: none; }
+}`;
+
+/**
+ * Render an entry as a self-contained HTML document.
+ * @param {Collection} collection
+ * @param {string} raw - the .mdx file content
+ * @param {{ tokens: ThemeTokens, theme?: ExportTheme }} options
+ * @returns {Promise<string>}
+ */
+export async function entryToHtml(collection, raw, { tokens, theme = 'auto' }) {
+  const { data, body } = parseFrontmatter(raw);
+  const title = escapeHtml(String(data.title ?? 'Untitled'));
+  const parts = [`<h1>${title}</h1>`];
+
+  parts.push(`<p class="meta">${metaRows(collection, data)
+    .map(([label, value]) => `<span><b>${label}:</b> ${escapeHtml(value)}</span>`).join('')}</p>`);
+  if (data.tldr) parts.push(`<div class="panel"><strong>TL;DR</strong>${renderInline(data.tldr)}</div>`);
+  if (data.action_items?.length) {
+    parts.push(`<div class="panel"><strong>Action items</strong><ul>${data.action_items
+      .map((/** @type {any} */ a) => `<li><span class="task${a.done ? ' done' : ''}">${a.done ? '☑' : '☐'}</span> ${renderInline(a.task)}</li>`)
+      .join('')}</ul></div>`);
+  }
+  if (data.milestones?.length) {
+    parts.push(`<div class="panel"><strong>Milestones</strong><ul>${data.milestones
+      .map((/** @type {any} */ m) => `<li><strong>${renderInline(m.title)}</strong>${m.weeks ? ` · ${escapeHtml(m.weeks)}` : ''} · <span class="status-${m.status}">${STATUS_LABEL[/** @type {keyof typeof STATUS_LABEL} */ (m.status)] ?? escapeHtml(m.status)}</span></li>`)
+      .join('')}</ul></div>`);
+  }
+  parts.push('<hr>');
+
+  const content = stripMdx(body);
+  if (collection === 'chats') {
+    for (const m of parseChatMessages(content)) {
+      parts.push(`<section class="msg msg-${m.role}"><p class="role">${m.role === 'user' ? 'You' : 'AI'}</p><div class="bubble">${await renderMarkdown(m.content)}</div></section>`);
+    }
+  } else {
+    parts.push(await renderMarkdown(content));
+  }
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="color-scheme" content="${theme === 'auto' ? 'light dark' : theme}">
+<title>${title}</title>
+<style>
+${themeCss(tokens, theme)}
+${BASE_CSS.trim()}
+</style>
+</head>
+<body>
+<main>
+${parts.join('\n')}
+<footer>Exported from AI Chat Generator</footer>
+</main>
+</body>
+</html>
+`;
+}
+
+// ─── Entry points ───────────────────────────────────────────────────────────
+
+/**
+ * Export an entry from the project at `rootDir`.
+ * @param {string} rootDir
+ * @param {Collection} collection
+ * @param {string} filename
+ * @param {{ format?: ExportFormat, theme?: ExportTheme }} [options]
+ * @returns {Promise<ExportResult>}
+ */
+export async function exportEntry(rootDir, collection, filename, { format = 'html', theme = 'auto' } = {}) {
+  const raw = fs.readFileSync(path.join(contentDir(rootDir, collection), filename), 'utf-8');
+  const slug = filename.replace(/\.mdx$/, '');
+  if (format === 'markdown') {
+    return { filename: `${slug}.md`, content: entryToMarkdown(collection, raw), contentType: 'text/markdown; charset=utf-8' };
+  }
+  const tokens = readThemeTokens(fs.readFileSync(path.join(rootDir, 'src/styles/global.css'), 'utf-8'));
+  return { filename: `${slug}.html`, content: await entryToHtml(collection, raw, { tokens, theme }), contentType: 'text/html; charset=utf-8' };
+}
+
+/**
+ * Export an entry and write it to `out`, or to `exports/` in the project.
+ * @param {string} rootDir
+ * @param {Collection} collection
+ * @param {string} filename
+ * @param {{ format?: ExportFormat, theme?: ExportTheme, out?: string }} [options]
+ * @returns {Promise<string>} the written file path
+ */
+export async function exportToFile(rootDir, collection, filename, { out, ...options } = {}) {
+  const result = await exportEntry(rootDir, collection, filename, options);
+  const target = out ?? path.join(rootDir, 'exports', result.filename);
+  ensureDir(path.dirname(target));
+  fs.writeFileSync(target, result.content, 'utf-8');
+  return target;
+}
@@ -0,0 +1,218 @@
+/**
+ * YAML frontmatter reading and writing for chat and plan files.
+ * Shared by the MCP server, the CLI scripts and the site's API routes so every
+ * writer produces the same format. Updates go through a YAML Document, which
+ * keeps comments, key order and keys outside the schema intact.
+ */
+
+import { Document, Scalar, isScalar, parseDocument, visit } from 'yaml';
+import { schemas } from './schema.mjs';
+
+/**
+ * @typedef {'chats' | 'plans'} Collection
+ * @typedef {{ path: string, message: string }} FieldError
+ * @typedef {{ success: true, data: Record<string, any> } | { success: false, errors: FieldError[] }} ValidationResult
+ */
+
+// Closing fence must start a line; the block itself may be empty
+const FRONTMATTER_RE = /^---\r?\n((?:[\s\S]*?\r?\n)?)---[ \t]*(?:\r?\n|$)/;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Keys whose YYYY-MM-DD values are written unquoted, as in hand-written files. */
+const PLAIN_DATE_KEYS = new Set(['date', 'start', 'end']);
+
+/** Output style matching the scaffolders: double-quoted strings, inline scalar lists. */
+const STRINGIFY_OPTIONS = {
+  defaultStringType: /** @type {const} */ ('QUOTE_DOUBLE'),
+  defaultKeyType: /** @type {const} */ ('PLAIN'),
+  flowCollectionPadding: false,
+  lineWidth: 0,
+};
+
+/**
+ * Split a file into its raw YAML block and the body after the closing fence.
+ * `yaml` is null when the file has no frontmatter.
+ * @param {string} raw
+ * @returns {{ yaml: string | null, body: string }}
+ */
+export function splitFrontmatter(raw) {
+  const match = raw.match(FRONTMATTER_RE);
+  if (!match) return { yaml: null, body: raw };
+  return { yaml: match[1], body: raw.slice(match[0].length) };
+}
+
+/**
+ * @param {string} yamlText
+ * @returns {import('yaml').Document.Parsed}
+ */
+function parseYaml(yamlText) {
+  const doc = parseDocument(yamlText);
+  if (doc.errors.length) {
+    throw new Error(`Invalid frontmatter: ${doc.errors[0].message.split('\n')[0]}`);
+  }
+  return doc;
+}
+
+/**
+ * Parse a file's frontmatter into plain values. Dates stay YYYY-MM-DD strings.
+ * Throws if the YAML is malformed.
+ * @param {string} raw
+ * @returns {{ data: Record<string, any>, body: string }}
+ */
+export function parseFrontmatter(raw) {
+  const { yaml, body } = splitFrontmatter(raw);
+  if (yaml === null) return { data: {}, body };
+  const data = parseYaml(yaml).toJS();
+  return { data: data && typeof data === 'object' && !Array.isArray(data) ? data : {}, body };
+}
+
+/**
+ * Write YYYY-MM-DD values of date keys unquoted.
+ * @param {unknown} key
+ * @param {unknown} node
+ */
+function markPlainDate(key, node) {
+  if (PLAIN_DATE_KEYS.has(String(key)) && isScalar(node) && DATE_RE.test(String(node.value))) {
+    node.type = Scalar.PLAIN;
+  }
+}
+
+/**
+ * Build a YAML node for `value`: dates are stored as YYYY-MM-DD, lists of
+ * scalars are written inline (`tags: ["a", "b"]`) and lists of objects as blocks.
+ * @param {Document} doc
+ * @param {string} key
+ * @param {unknown} value
+ */
+function createNode(doc, key, value) {
+  const node = doc.createNode(value instanceof Date ? value.toISOString().slice(0, 10) : value);
+  markPlainDate(key, node);
+  visit(node, {
+    Pair(_, pair) {
+      markPlainDate(isScalar(pair.key) ? pair.key.value : pair.key, pair.value);
+    },
+    Seq(_, seq) {
+      seq.flow = seq.items.every((item) => isScalar(item));
+    },
+  });
+  return node;
+}
+
+/**
+ * Set or remove top-level keys on a document. `undefined` and `null` remove a key.
+ * Scalars that already exist are updated in place.
+ * @param {Document} doc
+ * @param {Record<string, unknown>} fields
+ */
+function applyFields(doc, fields) {
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined || value === null) {
+      doc.delete(key);
+      continue;
+    }
+    const current = doc.get(key, true);
+    if (isScalar(current) && (typeof value !== 'object' || value instanceof Date)) {
+      // Update in place so the value keeps its quoting style and inline comment
+      current.value = value instanceof Date ? value.toISOString().slice(0, 10) : value;
+    } else {
+      doc.set(key, createNode(doc, key, value));
+    }
+  }
+}
+
+/**
+ * Serialize a data object as a frontmatter block (without the `---` fences).
+ * `undefined` and `null` values are omitted.
+ * @param {Record<string, unknown>} data
+ * @returns {string}
+ */
+export function stringifyFrontmatter(data) {
+  const doc = new Document({});
+  applyFields(doc, data);
+  return doc.toString(STRINGIFY_OPTIONS).trimEnd();
+}
+
+/**
+ * Assemble a complete MDX file from frontmatter data and a body.
+ * @param {Record<string, unknown>} data
+ * @param {string} body
+ * @returns {string}
+ */
+export function renderEntry(data, body) {
+  return `---\n${stringifyFrontmatter(data)}\n---\n\n${body.trim()}\n`;
+}
+
+/**
+ * Set or remove frontmatter fields in a file, leaving everything else —
+ * comments, unknown keys, formatting of untouched values and the body — as is.
+ * Adds a frontmatter block if the file has none.
+ * @param {string} raw
+ * @param {Record<string, unknown>} fields
+ * @returns {string}
+ */
+export function updateFrontmatter(raw, fields) {
+  const { yaml, body } = splitFrontmatter(raw);
+  const doc = yaml === null ? new Document({}) : parseYaml(yaml);
+  applyFields(doc, fields);
+  const block = doc.toString(STRINGIFY_OPTIONS).trimEnd();
+  return `---\n${block}\n---\n${yaml === null ? `\n${body}` : body}`;
+}
+
+/**
+ * Replace a file's body, keeping its frontmatter block byte for byte.
+ * @param {string} raw
+ * @param {string} body
+ * @returns {string}
+ */
+export function replaceBody(raw, body) {
+  const { yaml } = splitFrontmatter(raw);
+  const head = yaml === null ? '' : `---\n${yaml}---\n\n`;
+  return `${head}${body.trim()}\n`;
+}
+
+/**
+ * Validate frontmatter data against the collection's schema.
+ * Errors are reported per field, with dotted paths like `milestones.0.status`.
+ * @param {Collection} collection
+ * @param {Record<string, unknown>} data
+ * @returns {ValidationResult}
+ */
+export function validateFrontmatter(collection, data) {
+  const result = schemas[collection].safeParse(data);
+  if (result.success) return { success: true, data: result.data };
+  return {
+    success: false,
+    errors: result.error.issues.map((issue) => ({
+      path: issue.path.join('.') || '(root)',
+      message: issue.message,
+    })),
+  };
+}
+
+/**
+ * Validate a complete file as it would be written: its frontmatter must exist,
+ * parse as YAML and match the collection's schema. Problems with the block
+ * itself are reported under the `(frontmatter)` path.
+ * @param {Collection} collection
+ * @param {string} raw
+ * @returns {ValidationResult}
+ */
+export function validateEntry(collection, raw) {
+  if (splitFrontmatter(raw).yaml === null) {
+    return { success: false, errors: [{ path: '(frontmatter)', message: 'Missing --- frontmatter block' }] };
+  }
+  try {
+    return validateFrontmatter(collection, parseFrontmatter(raw).data);
+  } catch (err) {
+    return { success: false, errors: [{ path: '(frontmatter)', message: /** @type {Error} */ (err).message }] };
+  }
+}
+
+/**
+ * One line per field error, for tool and CLI output.
+ * @param {FieldError[]} errors
+ * @returns {string}
+ */
+export function formatFieldErrors(errors) {
+  return errors.map((e) => `  • ${e.path}: ${e.message}`).join('\n');
+}
@@ -0,0 +1,314 @@
+/**
+ * Revision history for chats and plans.
+ *
+ * Every write to a content file goes through `writeEntry` / `deleteEntry`, which
+ * keep a snapshot of the written content under `.history/<collection>/<slug>/`:
+ * an `index.json` describing the revisions plus one `<id>.mdx` per revision.
+ * History outlives the file, so deleted entries can be restored until they are
+ * purged from the trash (see trash.mjs). New and edited content is written
+ * with `saveEntry`, which validates it against the collection schema first.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { contentHash, ensureDir, isSafeFilename } from './utils.mjs';
+import { diffLines } from './diff.mjs';
+import { formatFieldErrors, validateEntry } from './frontmatter.mjs';
+import { discardTrashed } from './trash.mjs';
+import { ValidationError } from './errors.mjs';
+
+/**
+ * @typedef {'chats' | 'plans'} Collection
+ * @typedef {'baseline' | 'create' | 'update' | 'delete' | 'restore'} RevisionAction
+ * @typedef {{
+ *   id: string,
+ *   timestamp: string,
+ *   action: RevisionAction,
+ *   source: string,
+ *   hash: string,
+ *   size: number,
+ * }} Revision
+ * @typedef {{ collection: Collection, filename: string, deletedAt: string, revisions: number }} DeletedEntry
+ */
+
+export const COLLECTIONS = /** @type {const} */ (['chats', 'plans']);
+
+/** Repeated saves from the same source within this window share one revision. */
+export const COALESCE_MS = 5 * 60 * 1000;
+
+/**
+ * @param {string} rootDir
+ * @param {Collection} collection
+ */
+export function contentDir(rootDir, collection) {
+  return path.join(rootDir, 'src/content', collection);
+}
+
+/**
+ * @param {string} rootDir
+ * @param {Collection} collection
+ * @param {string} filename
+ */
+function entryHistoryDir(rootDir, collection, filename) {
+  return path.join(rootDir, '.history', collection, filename.replace(/\.mdx$/, ''));
+}
+
+/**
+ * Revisions of an entry, oldest first.
+ * @param {string} dir
+ * @returns {Revision[]}
+ */
+function readIndex(dir) {
+  const file = path.join(dir, 'index.json');
+  if (!fs.existsSync(file)) return [];
+  return JSON.parse(fs.readFileSync(file, 'utf-8'));
+}
+
+/**
+ * @param {string} dir
+ * @param {Revision[]} revisions
+ */
+function writeIndex(dir, revisions) {
+  fs.writeFileSync(path.join(dir, 'index.json'), `${JSON.stringify(revisions, null, 2)}\n`, 'utf-8');
+}
+
+/**
+ * Sortable, filename-safe id from a date, e.g. `20261019-182233-123`.
+ * @param {Date} d
+ * @returns {string}
+ */
+function revisionId(d) {
+  return d.toISOString().replace(/[-:]/g, '').replace('T', '-').replace('.', '-').replace('Z', '');
+}
+
+/**
+ * Record a snapshot of an entry's content. Writing the same content as the
+ * latest revision is a no-op unless it deletes or undeletes; with `coalesce`, an `update` from the same
+ * source within COALESCE_MS replaces the previous one (editor auto-saves).
+ * @param {string} rootDir
+ * @param {Collection} collection
+ * @param {string} filename
+ * @param {string} content
+ * @param {{ action: RevisionAction, source: string, coalesce?: boolean, now?: Date }} meta
+ * @returns {Revision | null} the new revision, or null if nothing changed
+ */
+export function recordRevision(rootDir, collection, filename, content, { action, source, coalesce = false, now = new Date() }) {
+  const dir = entryHistoryDir(rootDir, collection, filename);
+  ensureDir(dir);
+  const revisions = readIndex(dir);
+  const hash = contentHash(content);
+  const last = revisions[revisions.length - 1];
+  if (last && last.hash === hash && (last.action === 'delete') === (action === 'delete')) return null;
+
+  if (coalesce && last && action === 'update' && last.action === 'update' && last.source === source
+    && now.getTime() - Date.parse(last.timestamp) < COALESCE_MS) {
+    revisions.pop();
+    fs.rmSync(path.join(dir, `${last.id}.mdx`), { force: true });
+  }
+
+  let id = revisionId(now);
+  for (let n = 2; revisions.some((r) => r.id === id); n++) id = `${revisionId(now)}-${n}`;
+
+  /** @type {Revision} */
+  const revision = { id, timestamp: now.toISOString(), action, source, hash, size: Buffer.byteLength(content) };
+  fs.writeFileSync(path.join(dir, `${id}.mdx`), content, 'utf-8');
+  writeIndex(dir, [...revisions, revision]);
+  return revision;
+}
+
+/**
+ * Write a content file and record the revision. The first write to a file
+ * that predates history snapshots its previous content as a `baseline`.
+ * @param {string} rootDir
+ * @param {Collection} collection
+ * @param {string} filename
+ * @param {string} content
+ * @param {{ source: string, action?: RevisionAction, coalesce?: boolean }} options
+ */
+export function writeEntry(rootDir, collection, filename, content, { source, action, coalesce = false }) {
+  const dir = contentDir(rootDir, collection);
+  const filepath = path.join(dir, filename);
+  const existed = fs.existsSync(filepath);
+  if (existed && !listRevisions(rootDir, collection, filename).length) {
+    recordRevision(rootDir, collection, filename, fs.readFileSync(filepath, 'utf-8'), { action: 'baseline', source });
+  }
+  ensureDir(dir);
+  fs.writeFileSync(filepath, content, 'utf-8');
+  recordRevision(rootDir, collection, filename, content, {
+    action: action ?? (existed ? 'update' : 'create'),
+    source,
+    coalesce,
+  });
+}
+
+/**
+ * Validate a content file against its collection schema, then write it with
+ * `writeEntry`. Every new or edited chat and plan goes through here so a bad
+ * value is caught before it reaches `astro build`; restores skip it, as they
+ * put back content that was already there. Throws a `ValidationError` listing
+ * the field errors.
+ * @param {string} rootDir
+ * @param {Collection} collection
+ * @param {string} filename
+ * @param {string} content
+ * @param {{ source: string, action?: RevisionAction, coalesce?: boolean }} options
+ */
+export function saveEntry(rootDir, collection, filename, content, options) {
+  const check = validateEntry(collection, content);
+  if (!check.success) {
+    throw new ValidationError(`Not saved — ${collection}/${filename} would not match the schema:\n${formatFieldErrors(check.errors)}`, check.errors);
+  }
+  writeEntry(rootDir, collection, filename, content, options);
+}
+
+/**
+ * Delete a content file, keeping its last content as a `delete` revision.
+ * @param {string} rootDir
+ * @param {Collection} collection
+ * @param {string} filename
+ * @param {{ source: string }} options
+ */
+export function deleteEntry(rootDir, collection, filename, { source }) {
+  const filepath = path.join(contentDir(rootDir, collection), filename);
+  const content = fs.readFileSync(filepath, 'utf-8');
+  recordRevision(rootDir, collection, filename, content, { action: 'delete', source });
+  fs.unlinkSync(filepath);
+}
+
+/**
+ * Drop all revisions of an entry. Only used when it is deleted for good.
+ * @param {string} rootDir
+ * @param {Collection} collection
+ * @param {string} filename
+ */
+export function purgeHistory(rootDir, collection, filename) {
+  fs.rmSync(entryHistoryDir(rootDir, collection, filename), { recursive: true, force: true });
+}
+
+/**
+ * Revisions of an entry, newest first.
+ * @param {string} rootDir
+ * @param {Collection} collection
+ * @param {string} filename
+ * @returns {Revision[]}
+ */
+export function listRevisions(rootDir, collection, filename) {
+  return readIndex(entryHistoryDir(rootDir, collection, filename)).reverse();
+}
+
+/**
+ * Content of one revision, or null if it does not exist.
+ * @param {string} rootDir
+ * @param {Collection} collection
+ * @param {string} filename
+ * @param {string} id
+ * @returns {string | null}
+ */
+export function readRevision(rootDir, collection, filename, id) {
+  if (!/^[\w-]+$/.test(id)) return null;
+  const file = path.join(entryHistoryDir(rootDir, collection, filename), `${id}.mdx`);
+  return fs.existsSync(file) ? fs.readFileSync(file, 'utf-8') : null;
+}
+
+/**
+ * Restore an entry to a revision (this also undeletes it, and takes it out of
+ * the trash). The restore itself is recorded, so it can be undone like any
+ * other change.
+ * @param {string} rootDir
+ * @param {Collection} collection
+ * @param {string} filename
+ * @param {string} id
+ * @param {{ source: string }} options
+ * @returns {boolean} false if the revision does not exist
+ */
+export function restoreRevision(rootDir, collection, filename, id, { source }) {
+  const content = readRevision(rootDir, collection, filename, id);
+  if (content === null) return false;
+  const undeleting = !fs.existsSync(path.join(contentDir(rootDir, collection), filename));
+  writeEntry(rootDir, collection, filename, content, { source, action: 'restore' });
+  if (undeleting) discardTrashed(rootDir, collection, filename);
+  return true;
+}
+
+/**
+ * Diff two versions of an entry. `revision` and `against` are revision ids or
+ * `current` (the file on disk). `revision` defaults to the latest revision and
+ * `against` to the one before `revision`, so the default shows the last change.
+ * Throws if a revision does not exist.
+ * @param {string} rootDir
+ * @param {Collection} collection
+ * @param {string} filename
+ * @param {{ revision?: string, against?: string }} [options]
+ * @returns {{ from: string, to: string, lines: import('./diff.mjs').DiffLine[] }}
+ */
+export function diffRevisions(rootDir, collection, filename, { revision, against } = {}) {
+  const revisions = listRevisions(rootDir, collection, filename);
+  /** @param {string} id */
+  const load = (id) => {
+    if (id !== 'current') return readRevision(rootDir, collection, filename, id);
+    const filepath = path.join(contentDir(rootDir, collection), filename);
+    return fs.existsSync(filepath) ? fs.readFileSync(filepath, 'utf-8') : '';
+  };
+
+  const to = revision ?? revisions[0]?.id;
+  if (!to) throw new Error(`No history for ${collection}/${filename}`);
+  const from = against ?? (to === 'current'
+    ? revisions[0]?.id
+    : revisions[revisions.findIndex((r) => r.id === to) + 1]?.id);
+
+  const newText = load(to);
+  if (newText === null) throw new Error(`Revision not found: ${to}`);
+  const oldText = from ? load(from) : '';
+  if (oldText === null) throw new Error(`Revision not found: ${from}`);
+  return { from: from ?? '(empty)', to, lines: diffLines(oldText, newText) };
+}
+
+/**
+ * Entries that have history but no file any more, most recently deleted first.
+ * @param {string} rootDir
+ * @returns {DeletedEntry[]}
+ */
+export function listDeletedEntries(rootDir) {
+  /** @type {DeletedEntry[]} */
+  const deleted = [];
+  for (const collection of COLLECTIONS) {
+    const base = path.join(rootDir, '.history', collection);
+    if (!fs.existsSync(base)) continue;
+    for (const slug of fs.readdirSync(base)) {
+      const filename = `${slug}.mdx`;
+      if (!isSafeFilename(filename) || fs.existsSync(path.join(contentDir(rootDir, collection), filename))) continue;
+      const revisions = listRevisions(rootDir, collection, filename);
+      if (!revisions.length) continue;
+      deleted.push({ collection, filename, deletedAt: revisions[0].timestamp, revisions: revisions.length });
+    }
+  }
+  return deleted.sort((x, y) => y.deletedAt.localeCompare(x.deletedAt));
+}
+
+/**
+ * Which collection a filename belongs to: the one holding the file, or failing
+ * that the one holding its history (for deleted entries).
+ * @param {string} rootDir
+ * @param {string} filename
+ * @returns {Collection | null}
+ */
+export function findCollection(rootDir, filename) {
+  for (const collection of COLLECTIONS) {
+    if (fs.existsSync(path.join(contentDir(rootDir, collection), filename))) return collection;
+  }
+  for (const collection of COLLECTIONS) {
+    if (fs.existsSync(entryHistoryDir(rootDir, collection, filename))) return collection;
+  }
+  return null;
+}
+
+/**
+ * One line per revision, newest first, for tool and CLI output.
+ * @param {Revision[]} revisions
+ * @returns {string}
+ */
+export function formatRevisionList(revisions) {
+  return revisions
+    .map((r) => `  ${r.id}  ${r.timestamp.replace('T', ' ').slice(0, 19)}  ${r.action.padEnd(8)} ${r.source} (${r.size} B)`)
+    .join('\n');
+}
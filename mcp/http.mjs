@@ -0,0 +1,296 @@
+/**
+ * HTTP transport for the MCP server.
+ *
+ * Serves the Streamable HTTP transport at `/mcp` (responses stream over SSE)
+ * and the older HTTP+SSE transport at `/sse` + `/messages` for clients that
+ * have not moved on yet. Each client session gets its own McpServer from the
+ * factory, so one long-running process can serve several editors.
+ */
+
+import http from 'node:http';
+import crypto from 'node:crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * @typedef {import('@modelcontextprotocol/sdk/server/mcp.js').McpServer} McpServer
+ * @typedef {StreamableHTTPServerTransport | SSEServerTransport} SessionTransport
+ * @typedef {{ transport: SessionTransport, server: McpServer, lastSeen: number }} Session
+ * @typedef {{
+ *   port: number,
+ *   host?: string,
+ *   token?: string,
+ *   sessionTtlMs?: number,
+ *   log?: (message: string) => void,
+ * }} HttpOptions
+ */
+
+export const DEFAULT_PORT = 3333;
+
+/** Sessions without a request for this long are closed. */
+export const SESSION_TTL_MS = 30 * 60 * 1000;
+
+/** Largest JSON-RPC request body accepted. */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+const LOOPBACK_HOSTS = new Set(['127.0.0.1', 'localhost', '::1', '[::1]']);
+
+/**
+ * Whether an address only accepts local connections.
+ * @param {string} host
+ * @returns {boolean}
+ */
+export function isLoopback(host) {
+  return LOOPBACK_HOSTS.has(host);
+}
+
+/**
+ * Constant-time check of an `Authorization: Bearer <token>` header.
+ * @param {string | undefined} header
+ * @param {string} token
+ * @returns {boolean}
+ */
+export function checkBearer(header, token) {
+  const match = /^Bearer\s+(.+)$/i.exec(header ?? '');
+  if (!match) return false;
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(token);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
+
+/**
+ * Transport settings from the command line (`--port`, `--host`, `--token`)
+ * and environment (`MCP_PORT`, `MCP_HOST`, `MCP_TOKEN`). Flags win. No port
+ * means stdio.
+ * @param {string[]} argv
+ * @param {Record<string, string | undefined>} [env]
+ * @returns {{ transport: 'stdio' } | ({ transport: 'http' } & HttpOptions)}
+ */
+export function parseTransportArgs(argv, env = process.env) {
+  /** @param {string} name */
+  const flag = (name) => {
+    const i = argv.findIndex((a) => a === `--${name}` || a.startsWith(`--${name}=`));
+    if (i === -1) return undefined;
+    return argv[i].includes('=') ? argv[i].slice(argv[i].indexOf('=') + 1) : argv[i + 1];
+  };
+
+  const rawPort = flag('port') ?? env.MCP_PORT;
+  if (rawPort === undefined && !argv.includes('--http')) return { transport: 'stdio' };
+
+  const port = rawPort === undefined ? DEFAULT_PORT : Number(rawPort);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port: ${rawPort}`);
+  }
+  return {
+    transport: 'http',
+    port,
+    host: flag('host') ?? env.MCP_HOST ?? '127.0.0.1',
+    token: flag('token') ?? env.MCP_TOKEN ?? undefined,
+  };
+}
+
+/**
+ * @param {http.IncomingMessage} req
+ * @returns {Promise<unknown>}
+ */
+async function readJson(req) {
+  const chunks = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw Object.assign(new Error('Request body too large'), { status: 413 });
+    chunks.push(chunk);
+  }
+  const text = Buffer.concat(chunks).toString('utf-8');
+  return text ? JSON.parse(text) : undefined;
+}
+
+/**
+ * @param {http.ServerResponse} res
+ * @param {number} status
+ * @param {string} message
+ * @param {Record<string, string>} [headers]
+ */
+function sendError(res, status, message, headers = {}) {
+  if (res.headersSent) return;
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+}
+
+/**
+ * Start the HTTP transport. Resolves once the server is listening.
+ * Refuses to listen on a non-loopback address without a token.
+ * @param {() => McpServer} createServer
+ * @param {HttpOptions} options
+ * @returns {Promise<{ httpServer: http.Server, url: string, sessions: Map<string, Session>, close: () => Promise<void> }>}
+ */
+export async function startHttpServer(createServer, { port, host = '127.0.0.1', token, sessionTtlMs = SESSION_TTL_MS, log = () => {} }) {
+  if (!token && !isLoopback(host)) {
+    throw new Error(`Refusing to listen on ${host} without a token — set MCP_TOKEN or pass --token`);
+  }
+
+  /** @type {Map<string, Session>} */
+  const sessions = new Map();
+
+  /** @param {string} id */
+  const closeSession = async (id) => {
+    const session = sessions.get(id);
+    if (!session) return;
+    sessions.delete(id);
+    await session.server.close().catch(() => {});
+    log(`session ${id.slice(0, 8)} closed (${sessions.size} open)`);
+  };
+
+  /**
+   * Connect a server to the transport. The close handler is set first
+   * because `connect` chains onto it.
+   * @param {McpServer} server
+   * @param {SessionTransport} transport
+   * @returns {Promise<McpServer>}
+   */
+  const connect = async (server, transport) => {
+    transport.onclose = () => {
+      if (transport.sessionId) void closeSession(transport.sessionId);
+    };
+    await server.connect(transport);
+    return server;
+  };
+
+  /**
+   * @param {SessionTransport} transport
+   * @param {McpServer} server
+   */
+  const openSession = (transport, server) => {
+    const id = /** @type {string} */ (transport.sessionId);
+    sessions.set(id, { transport, server, lastSeen: Date.now() });
+    log(`session ${id.slice(0, 8)} opened (${sessions.size} open)`);
+  };
+
+  /**
+   * @param {string | undefined} id
+   * @param {'streamable' | 'sse'} kind
+   * @returns {Session | undefined}
+   */
+  const findSession = (id, kind) => {
+    const session = id ? sessions.get(id) : undefined;
+    if (!session) return undefined;
+    const isSse = session.transport instanceof SSEServerTransport;
+    if (isSse !== (kind === 'sse')) return undefined;
+    session.lastSeen = Date.now();
+    return session;
+  };
+
+  /**
+   * @param {http.IncomingMessage} req
+   * @param {http.ServerResponse} res
+   */
+  const handle = async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    // A page on another site can reach a local server through DNS rebinding;
+    // a loopback server only answers to loopback host names.
+    if (isLoopback(host)) {
+      const hostname = (req.headers.host ?? '').replace(/:\d+$/, '');
+      if (!isLoopback(hostname)) return sendError(res, 403, `Host not allowed: ${hostname}`);
+    }
+
+    if (url.pathname === '/health' && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ ok: true, sessions: sessions.size }));
+      return;
+    }
+
+    if (token && !checkBearer(req.headers.authorization, token)) {
+      return sendError(res, 401, 'Unauthorized', { 'WWW-Authenticate': 'Bearer' });
+    }
+
+    // ─── Streamable HTTP ───
+    if (url.pathname === '/mcp') {
+      const header = req.headers['mcp-session-id'];
+      const sessionId = Array.isArray(header) ? header[0] : header;
+
+      if (req.method === 'POST') {
+        const body = await readJson(req);
+        const existing = findSession(sessionId, 'streamable');
+        if (existing) {
+          await /** @type {StreamableHTTPServerTransport} */ (existing.transport).handleRequest(req, res, body);
+          return;
+        }
+        if (sessionId) return sendError(res, 404, 'Session not found');
+        if (!isInitializeRequest(body)) return sendError(res, 400, 'No session — send an initialize request first');
+
+        const server = createServer();
+        const transport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => crypto.randomUUID(),
+          onsessioninitialized: () => openSession(transport, server),
+        });
+        await connect(server, transport);
+        await transport.handleRequest(req, res, body);
+        return;
+      }
+
+      if (req.method === 'GET' || req.method === 'DELETE') {
+        const existing = findSession(sessionId, 'streamable');
+        if (!existing) return sendError(res, sessionId ? 404 : 400, sessionId ? 'Session not found' : 'Missing mcp-session-id header');
+        await /** @type {StreamableHTTPServerTransport} */ (existing.transport).handleRequest(req, res);
+        if (req.method === 'DELETE') await closeSession(/** @type {string} */ (sessionId));
+        return;
+      }
+
+      return sendError(res, 405, 'Method not allowed', { Allow: 'GET, POST, DELETE' });
+    }
+
+    // ─── HTTP+SSE (protocol version 2024-11-05) ───
+    if (url.pathname === '/sse' && req.method === 'GET') {
+      const transport = new SSEServerTransport('/messages', res);
+      openSession(transport, await connect(createServer(), transport));
+      return;
+    }
+
+    if (url.pathname === '/messages' && req.method === 'POST') {
+      const existing = findSession(url.searchParams.get('sessionId') ?? undefined, 'sse');
+      if (!existing) return sendError(res, 404, 'Session not found');
+      await /** @type {SSEServerTransport} */ (existing.transport).handlePostMessage(req, res, await readJson(req));
+      return;
+    }
+
+    sendError(res, 404, 'Not found');
+  };
+
+  const httpServer = http.createServer((req, res) => {
+    handle(req, res).catch((err) => {
+      log(`error: ${err.message}`);
+      if (err instanceof SyntaxError) sendError(res, 400, 'Invalid JSON');
+      else sendError(res, err.status ?? 500, err.message);
+    });
+  });
+
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - sessionTtlMs;
+    for (const [id, session] of sessions) {
+      if (session.lastSeen < cutoff) void closeSession(id);
+    }
+  }, Math.min(sessionTtlMs, 60_000));
+  sweep.unref();
+
+  await new Promise((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(port, host, () => resolve(undefined));
+  });
+
+  const address = /** @type {import('node:net').AddressInfo} */ (httpServer.address());
+  const shownHost = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+
+  return {
+    httpServer,
+    url: `http://${shownHost}:${address.port}/mcp`,
+    sessions,
+    close: async () => {
+      clearInterval(sweep);
+      await Promise.all([...sessions.keys()].map(closeSession));
+      httpServer.closeAllConnections();
+      await new Promise((resolve) => httpServer.close(() => resolve(undefined)));
+    },
+  };
+}
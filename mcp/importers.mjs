@@ -0,0 +1,296 @@
+/**
+ * Converters from third-party chat exports to chat entries.
+ * Parsing and planning are pure functions; `runImport` wires them to the
+ * filesystem for the `import_chats` MCP tool and `npm run import`.
+ *
+ * Supported formats:
+ *   - ChatGPT  `conversations.json` from Settings → Data controls → Export
+ *   - Claude   `conversations.json` from Settings → Privacy → Export data
+ *   - Copilot  VS Code chat session JSON from "Chat: Export Chat…"
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { formatDate, listMdxFiles, readFrontmatter, slugify } from './utils.mjs';
+import { serializeChatMessages } from './messages.mjs';
+import { renderEntry } from './frontmatter.mjs';
+import { contentDir, saveEntry } from './history.mjs';
+
+/**
+ * @typedef {'chatgpt' | 'claude' | 'copilot'} ExportSource
+ * @typedef {import('./messages.mjs').ChatMessage} ChatMessage
+ * @typedef {{
+ *   source: ExportSource,
+ *   sourceId: string,
+ *   title: string,
+ *   date: string,
+ *   messages: ChatMessage[],
+ * }} ImportedConversation
+ * @typedef {{ filename: string, source?: string, source_id?: string }} ExistingChat
+ * @typedef {{
+ *   conversation: ImportedConversation,
+ *   filename: string,
+ *   status: 'create' | 'duplicate' | 'empty',
+ *   duplicateOf?: string,
+ * }} ImportPlanItem
+ */
+
+/**
+ * Convert a timestamp in seconds, milliseconds or ISO form to YYYY-MM-DD.
+ * @param {unknown} value
+ * @returns {string}
+ */
+function toDate(value) {
+  if (typeof value === 'number') {
+    // ChatGPT uses fractional seconds, Copilot uses milliseconds
+    return formatDate(new Date(value < 1e12 ? value * 1000 : value));
+  }
+  if (typeof value === 'string' && !Number.isNaN(Date.parse(value))) {
+    return formatDate(new Date(value));
+  }
+  return formatDate(new Date());
+}
+
+/**
+ * Identify which tool produced an export.
+ * @param {unknown} data
+ * @returns {ExportSource | null}
+ */
+export function detectExportFormat(data) {
+  const sample = Array.isArray(data) ? data[0] : data;
+  if (!sample || typeof sample !== 'object') return null;
+  if ('mapping' in sample) return 'chatgpt';
+  if ('chat_messages' in sample) return 'claude';
+  if ('requests' in sample) return 'copilot';
+  return null;
+}
+
+// ─── ChatGPT ────────────────────────────────────────────────────────────────
+
+/**
+ * Follow the `current_node` → `parent` chain so only the branch the user
+ * last saw is imported (edited prompts create sibling branches).
+ * @param {any} conversation
+ * @returns {ChatMessage[]}
+ */
+function chatGptMessages(conversation) {
+  const mapping = conversation.mapping ?? {};
+  const chain = [];
+  let nodeId = conversation.current_node;
+  const seen = new Set();
+  while (nodeId && mapping[nodeId] && !seen.has(nodeId)) {
+    seen.add(nodeId);
+    chain.push(mapping[nodeId]);
+    nodeId = mapping[nodeId].parent;
+  }
+  // Exports without current_node: fall back to insertion order
+  if (!chain.length) chain.push(...Object.values(mapping).reverse());
+
+  /** @type {ChatMessage[]} */
+  const messages = [];
+  for (const node of chain.reverse()) {
+    const msg = node?.message;
+    const role = msg?.author?.role;
+    if (role !== 'user' && role !== 'assistant') continue;
+    if (msg.metadata?.is_visually_hidden_from_conversation) continue;
+    const parts = Array.isArray(msg.content?.parts) ? msg.content.parts : [];
+    const text = parts.filter((p) => typeof p === 'string').join('\n\n').trim();
+    if (text) messages.push({ role: role === 'user' ? 'user' : 'ai', content: text });
+  }
+  return messages;
+}
+
+/**
+ * @param {any[]} data
+ * @returns {ImportedConversation[]}
+ */
+export function parseChatGptExport(data) {
+  return data.map((c) => ({
+    source: /** @type {const} */ ('chatgpt'),
+    sourceId: String(c.conversation_id ?? c.id ?? ''),
+    title: c.title || 'Untitled ChatGPT conversation',
+    date: toDate(c.create_time),
+    messages: chatGptMessages(c),
+  }));
+}
+
+// ─── Claude ─────────────────────────────────────────────────────────────────
+
+/**
+ * @param {any[]} data
+ * @returns {ImportedConversation[]}
+ */
+export function parseClaudeExport(data) {
+  return data.map((c) => ({
+    source: /** @type {const} */ ('claude'),
+    sourceId: String(c.uuid ?? ''),
+    title: c.name || 'Untitled Claude conversation',
+    date: toDate(c.created_at),
+    messages: (c.chat_messages ?? [])
+      .map((m) => {
+        // Newer exports carry text in content blocks; older ones in `text`
+        const blocks = Array.isArray(m.content) ? m.content : [];
+        const fromBlocks = blocks
+          .filter((b) => b?.type === 'text' && typeof b.text === 'string')
+          .map((b) => b.text)
+          .join('\n\n');
+        return {
+          role: m.sender === 'human' ? 'user' : 'ai',
+          content: (fromBlocks || m.text || '').trim(),
+        };
+      })
+      .filter((m) => m.content),
+  }));
+}
+
+// ─── Copilot ────────────────────────────────────────────────────────────────
+
+/**
+ * Flatten a Copilot response part list into markdown.
+ * @param {any[]} parts
+ * @returns {string}
+ */
+function copilotResponseText(parts) {
+  return parts
+    .map((p) => {
+      if (typeof p?.value === 'string' && (!p.kind || p.kind === 'markdownContent')) return p.value;
+      if (p?.kind === 'markdownContent' && typeof p.content?.value === 'string') return p.content.value;
+      return '';
+    })
+    .join('')
+    .trim();
+}
+
+/**
+ * @param {any[]} data
+ * @returns {ImportedConversation[]}
+ */
+export function parseCopilotSessions(data) {
+  return data.map((s) => {
+    const requests = Array.isArray(s.requests) ? s.requests : [];
+    /** @type {ChatMessage[]} */
+    const messages = [];
+    for (const r of requests) {
+      const prompt = (r.message?.text ?? '').trim();
+      const answer = copilotResponseText(Array.isArray(r.response) ? r.response : []);
+      if (prompt) messages.push({ role: 'user', content: prompt });
+      if (answer) messages.push({ role: 'ai', content: answer });
+    }
+    const firstPrompt = messages.find((m) => m.role === 'user')?.content.split('\n')[0] ?? '';
+    return {
+      source: /** @type {const} */ ('copilot'),
+      sourceId: String(s.sessionId ?? ''),
+      title: s.customTitle || firstPrompt.slice(0, 80) || 'Untitled Copilot session',
+      date: toDate(s.creationDate ?? requests[0]?.timestamp),
+      messages,
+    };
+  });
+}
+
+// ─── Import planning ────────────────────────────────────────────────────────
+
+/**
+ * Parse any supported export into conversations.
+ * @param {unknown} data
+ * @returns {ImportedConversation[]}
+ */
+export function parseExport(data) {
+  const format = detectExportFormat(data);
+  const list = Array.isArray(data) ? data : [data];
+  if (format === 'chatgpt') return parseChatGptExport(list);
+  if (format === 'claude') return parseClaudeExport(list);
+  if (format === 'copilot') return parseCopilotSessions(list);
+  throw new Error('Unrecognised export format (expected ChatGPT, Claude or Copilot JSON)');
+}
+
+/**
+ * Decide what each conversation becomes: a new file, a duplicate of an
+ * earlier import (matched on source + source_id) or nothing if it has no messages.
+ * New filenames never collide with existing ones or with each other.
+ * @param {ImportedConversation[]} conversations
+ * @param {ExistingChat[]} existing
+ * @returns {ImportPlanItem[]}
+ */
+export function planImport(conversations, existing) {
+  const taken = new Set(existing.map((e) => e.filename));
+  const imported = new Map(
+    existing.filter((e) => e.source && e.source_id).map((e) => [`${e.source}:${e.source_id}`, e.filename])
+  );
+
+  return conversations.map((conversation) => {
+    const key = `${conversation.source}:${conversation.sourceId}`;
+    const duplicateOf = conversation.sourceId ? imported.get(key) : undefined;
+    if (duplicateOf) return { conversation, filename: duplicateOf, status: 'duplicate', duplicateOf };
+
+    const base = `${conversation.date}-${slugify(conversation.title) || conversation.source}`;
+    let filename = `${base}.mdx`;
+    for (let n = 2; taken.has(filename); n++) filename = `${base}-${n}.mdx`;
+
+    if (!conversation.messages.length) return { conversation, filename, status: 'empty' };
+
+    taken.add(filename);
+    if (conversation.sourceId) imported.set(key, filename);
+    return { conversation, filename, status: 'create' };
+  });
+}
+
+/**
+ * Render an imported conversation as a chat MDX file.
+ * @param {ImportedConversation} conversation
+ * @param {string[]} [tags]
+ * @returns {string}
+ */
+export function renderImportedChat(conversation, tags = []) {
+  return renderEntry({
+    title: conversation.title,
+    date: conversation.date,
+    tags: [...new Set([conversation.source, ...tags])],
+    tldr: '',
+    action_items: [],
+    source: conversation.source,
+    source_id: conversation.sourceId,
+  }, serializeChatMessages(conversation.messages));
+}
+
+/**
+ * One line per conversation, for dry-run and result reports.
+ * @param {ImportPlanItem[]} plan
+ * @param {boolean} dryRun
+ * @returns {string}
+ */
+export function formatImportReport(plan, dryRun) {
+  const created = plan.filter((p) => p.status === 'create').length;
+  const lines = plan.map((p) => {
+    const n = p.conversation.messages.length;
+    if (p.status === 'duplicate') return `  = ${p.conversation.title} — already imported as ${p.duplicateOf}`;
+    if (p.status === 'empty') return `  ∅ ${p.conversation.title} — no messages, skipped`;
+    return `  + ${p.filename} — ${n} message${n !== 1 ? 's' : ''}`;
+  });
+  const verb = dryRun ? 'Would import' : 'Imported';
+  return `${verb} ${created} of ${plan.length} conversation${plan.length !== 1 ? 's' : ''}:\n${lines.join('\n')}`;
+}
+
+/**
+ * Read an export file, plan the import against the chats already in the
+ * project at `rootDir` and (unless `dryRun`) write the new chat files.
+ * @param {string} exportPath
+ * @param {string} rootDir
+ * @param {{ tags?: string[], dryRun?: boolean }} [options]
+ * @returns {ImportPlanItem[]}
+ */
+export function runImport(exportPath, rootDir, { tags = [], dryRun = false } = {}) {
+  const chatsDir = contentDir(rootDir, 'chats');
+  const data = JSON.parse(fs.readFileSync(exportPath, 'utf-8'));
+  const existing = listMdxFiles(chatsDir).map((filename) => {
+    const fm = readFrontmatter(path.join(chatsDir, filename));
+    return { filename, source: fm.source, source_id: fm.source_id };
+  });
+
+  const plan = planImport(parseExport(data), existing);
+  if (!dryRun) {
+    for (const item of plan.filter((p) => p.status === 'create')) {
+      saveEntry(rootDir, 'chats', item.filename, renderImportedChat(item.conversation, tags), { source: 'import' });
+    }
+  }
+  return plan;
+}
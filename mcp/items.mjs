@@ -0,0 +1,133 @@
+/**
+ * Partial updates to plan milestones and chat action items.
+ *
+ * Each function takes the current list from the frontmatter and returns a new
+ * one, so callers write the whole list back with `updateFrontmatter` and
+ * validate it against the collection schema. Items are addressed by 0-based
+ * index or by title: an exact (case-insensitive) match wins, otherwise the
+ * text must appear in exactly one item.
+ */
+
+import { scheduleMilestone } from './schedule.mjs';
+
+/**
+ * @typedef {'not-started' | 'in-progress' | 'complete'} MilestoneStatus
+ * @typedef {{ title: string, weeks?: string, status?: MilestoneStatus, start?: string, end?: string }} Milestone
+ * @typedef {{ task: string, done?: boolean }} ActionItem
+ * @typedef {number | string} ItemRef
+ */
+
+/**
+ * Index of the item `ref` points at. Throws when nothing or more than one
+ * item matches, listing the candidates.
+ * @param {string[]} labels  Titles (or tasks) of the items, in order
+ * @param {ItemRef} ref
+ * @param {string} noun  e.g. "milestone", for error messages
+ * @returns {number}
+ */
+export function findItem(labels, ref, noun) {
+  if (typeof ref === 'number') {
+    if (!Number.isInteger(ref) || ref < 0 || ref >= labels.length) {
+      throw new Error(labels.length
+        ? `No ${noun} at index ${ref} (0–${labels.length - 1})`
+        : `There are no ${noun}s yet`);
+    }
+    return ref;
+  }
+
+  const needle = ref.trim().toLowerCase();
+  const lower = labels.map((l) => String(l).toLowerCase());
+  const exact = lower.indexOf(needle);
+  if (exact !== -1) return exact;
+
+  const matches = lower.flatMap((l, i) => (needle && l.includes(needle) ? [i] : []));
+  if (matches.length === 1) return matches[0];
+  const list = (matches.length ? matches : lower.map((_, i) => i)).map((i) => `  ${i}. ${labels[i]}`).join('\n');
+  throw new Error(matches.length
+    ? `"${ref}" matches ${matches.length} ${noun}s — use the index or a longer title:\n${list}`
+    : `No ${noun} matches "${ref}"${labels.length ? `. ${noun[0].toUpperCase()}${noun.slice(1)}s:\n${list}` : ''}`);
+}
+
+/**
+ * Insert `item` at `index` (default: the end).
+ * @template T
+ * @param {T[]} list
+ * @param {T} item
+ * @param {number} [index]
+ * @returns {{ list: T[], index: number }}
+ */
+function insertAt(list, item, index = list.length) {
+  if (!Number.isInteger(index) || index < 0 || index > list.length) {
+    throw new Error(`Cannot insert at index ${index} (0–${list.length})`);
+  }
+  const next = [...list];
+  next.splice(index, 0, item);
+  return { list: next, index };
+}
+
+/**
+ * @param {Milestone[]} milestones
+ * @param {ItemRef} ref
+ * @param {MilestoneStatus} status
+ */
+export function setMilestoneStatus(milestones, ref, status) {
+  const index = findItem(milestones.map((m) => m.title), ref, 'milestone');
+  const previous = milestones[index].status ?? 'not-started';
+  const list = milestones.map((m, i) => (i === index ? { ...m, status } : m));
+  return { list, index, item: list[index], previous };
+}
+
+/**
+ * @param {Milestone[]} milestones
+ * @param {Milestone} milestone
+ * @param {number} [index]
+ */
+export function addMilestone(milestones, milestone, index) {
+  const result = insertAt(milestones, { ...milestone, status: milestone.status ?? 'not-started' }, index);
+  return { ...result, item: result.list[result.index] };
+}
+
+/**
+ * Set a milestone's `start`/`end` dates (see `scheduleMilestone`).
+ * @param {Milestone[]} milestones
+ * @param {ItemRef} ref
+ * @param {{ start: string, end: string }} range
+ * @param {unknown} planDate  The plan's `date`, which week numbers count from
+ */
+export function rescheduleMilestone(milestones, ref, range, planDate) {
+  const index = findItem(milestones.map((m) => m.title), ref, 'milestone');
+  const previous = milestones[index];
+  const list = milestones.map((m, i) => (i === index ? scheduleMilestone(m, range, planDate) : m));
+  return { list, index, item: list[index], previous };
+}
+
+/**
+ * @param {Milestone[]} milestones
+ * @param {ItemRef} ref
+ */
+export function removeMilestone(milestones, ref) {
+  const index = findItem(milestones.map((m) => m.title), ref, 'milestone');
+  return { list: milestones.filter((_, i) => i !== index), index, item: milestones[index] };
+}
+
+/**
+ * @param {ActionItem[]} items
+ * @param {ActionItem} item
+ * @param {number} [index]
+ */
+export function addActionItem(items, item, index) {
+  const result = insertAt(items, { ...item, done: item.done ?? false }, index);
+  return { ...result, item: result.list[result.index] };
+}
+
+/**
+ * Flip an action item, or set it to `done` when given.
+ * @param {ActionItem[]} items
+ * @param {ItemRef} ref
+ * @param {boolean} [done]
+ */
+export function toggleActionItem(items, ref, done) {
+  const index = findItem(items.map((a) => a.task), ref, 'action item');
+  const list = items.map((a, i) => (i === index ? { ...a, done: done ?? !a.done } : a));
+  return { list, index, item: list[index] };
+}
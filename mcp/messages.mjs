@@ -0,0 +1,171 @@
+/**
+ * Chat body parsing and serialization.
+ * A chat body is a sequence of `## User` / `## AI` sections. Shared by the
+ * MCP server, the CLI scripts and the Astro site (via src/utils/parse-chat.ts).
+ */
+
+/**
+ * @typedef {{ role: 'user' | 'ai', content: string }} ChatMessage
+ */
+
+const FENCE_RE = /^\s*(```|~~~)/;
+
+/**
+ * Parse a raw MDX/markdown chat body into messages.
+ * Splits on `## User` and `## AI` headings; `##` lines inside code fences are
+ * treated as content, and sections with any other heading are ignored.
+ * @param {string} rawContent
+ * @returns {ChatMessage[]}
+ */
+export function parseChatMessages(rawContent) {
+  /** @type {ChatMessage[]} */
+  const messages = [];
+  /** @type {string | null} */
+  let heading = null;
+  /** @type {string[]} */
+  let buf = [];
+  let inFence = false;
+
+  const flush = () => {
+    const content = buf.join('\n').trim();
+    if (content && (heading === 'user' || heading === 'ai')) {
+      messages.push({ role: heading, content });
+    }
+    buf = [];
+  };
+
+  for (const line of rawContent.split('\n')) {
+    if (FENCE_RE.test(line)) inFence = !inFence;
+    const h2 = !inFence && line.match(/^## (.*)$/);
+    if (h2) {
+      flush();
+      heading = h2[1].trim().toLowerCase();
+    } else {
+      buf.push(line);
+    }
+  }
+  flush();
+
+  return messages;
+}
+
+/**
+ * Demote level-2 headings outside code fences to level 3 so message content
+ * can never be mistaken for a new `## User` / `## AI` section.
+ * @param {string} content
+ * @returns {string}
+ */
+export function demoteHeadings(content) {
+  let inFence = false;
+  return content
+    .split('\n')
+    .map((line) => {
+      if (FENCE_RE.test(line)) inFence = !inFence;
+      return !inFence && /^## /.test(line) ? `#${line}` : line;
+    })
+    .join('\n');
+}
+
+/**
+ * Markdown heading for a message role.
+ * @param {'user' | 'ai'} role
+ * @returns {string}
+ */
+export function roleHeading(role) {
+  return role === 'user' ? 'User' : 'AI';
+}
+
+/**
+ * Serialize messages back into a chat body.
+ * @param {ChatMessage[]} messages
+ * @returns {string}
+ */
+export function serializeChatMessages(messages) {
+  return messages
+    .map((m) => `## ${roleHeading(m.role)}\n\n${demoteHeadings(m.content.trim())}`)
+    .join('\n\n');
+}
+
+/**
+ * Text in a chat body that `parseChatMessages` drops: anything before the
+ * first `## User` / `## AI` heading or under another `##` heading. Rewriting
+ * the body from the parsed messages would lose it. Empty when there is none.
+ * @param {string} rawContent
+ * @returns {string}
+ */
+export function strayContent(rawContent) {
+  /** @type {string[]} */
+  const stray = [];
+  /** @type {string | null} */
+  let heading = null;
+  let inFence = false;
+
+  for (const line of rawContent.split('\n')) {
+    if (FENCE_RE.test(line)) inFence = !inFence;
+    const h2 = !inFence && line.match(/^## (.*)$/);
+    if (h2) {
+      heading = h2[1].trim().toLowerCase();
+      if (heading !== 'user' && heading !== 'ai') stray.push(line);
+    } else if (heading !== 'user' && heading !== 'ai') {
+      stray.push(line);
+    }
+  }
+
+  return stray.join('\n').trim();
+}
+
+/**
+ * @typedef {{ type: 'edit', index: number, role?: 'user' | 'ai', content?: string }
+ *   | { type: 'delete', index: number }
+ *   | { type: 'insert', index: number, role: 'user' | 'ai', content: string }
+ *   | { type: 'move', from: number, to: number }} MessageOp
+ */
+
+/**
+ * Apply one operation to a message list and return the new list. Indexes are
+ * 0-based; `insert` accepts `messages.length` to append, and `move` places the
+ * message at `to` in the resulting list. Throws on an out-of-range index or
+ * empty content (which would not survive a round trip through the file).
+ * @param {ChatMessage[]} messages
+ * @param {MessageOp} op
+ * @returns {ChatMessage[]}
+ */
+export function editMessages(messages, op) {
+  /** @param {number} index @param {number} max */
+  const check = (index, max) => {
+    if (!Number.isInteger(index) || index < 0 || index > max) {
+      throw new Error(`Message index ${index} is out of range (0–${max})`);
+    }
+  };
+  /** @param {string | undefined} content */
+  const checkContent = (content) => {
+    if (content !== undefined && !content.trim()) throw new Error('Message content is empty');
+  };
+  const next = [...messages];
+
+  if (op.type === 'insert') {
+    check(op.index, messages.length);
+    checkContent(op.content);
+    next.splice(op.index, 0, { role: op.role, content: op.content.trim() });
+    return next;
+  }
+  if (!messages.length) throw new Error('The chat has no messages');
+  if (op.type === 'move') {
+    check(op.from, messages.length - 1);
+    check(op.to, messages.length - 1);
+    const [moved] = next.splice(op.from, 1);
+    next.splice(op.to, 0, moved);
+    return next;
+  }
+  check(op.index, messages.length - 1);
+  if (op.type === 'delete') {
+    next.splice(op.index, 1);
+    return next;
+  }
+  checkContent(op.content);
+  next[op.index] = {
+    role: op.role ?? messages[op.index].role,
+    content: op.content?.trim() ?? messages[op.index].content,
+  };
+  return next;
+}
@@ -0,0 +1,58 @@
+/**
+ * Plan body parsing. A plan body is an intro followed by `##` / `###`
+ * sections. Shared by the MCP server and the Astro site (via
+ * src/utils/parse-plan.ts).
+ */
+
+/**
+ * @typedef {{ level: 2 | 3, title: string, content: string }} PlanSection
+ */
+
+/**
+ * Returns the text that appears before the first `##` heading of a plan body.
+ * @param {string} rawContent
+ * @returns {string}
+ */
+export function parsePlanIntro(rawContent) {
+  /** @type {string[]} */
+  const buf = [];
+  for (const line of rawContent.split('\n')) {
+    if (/^##\s/.test(line)) break;
+    buf.push(line);
+  }
+  return buf.join('\n').trim();
+}
+
+/**
+ * Parses raw MDX/markdown body into an array of PlanSections.
+ * Splits on `##` and `###` headings; text before the first heading is skipped.
+ * @param {string} rawContent
+ * @returns {PlanSection[]}
+ */
+export function parsePlanSections(rawContent) {
+  /** @type {PlanSection[]} */
+  const sections = [];
+  /** @type {PlanSection | null} */
+  let current = null;
+  /** @type {string[]} */
+  let buf = [];
+
+  const flush = () => {
+    if (current) {
+      current.content = buf.join('\n').trim();
+      sections.push(current);
+    }
+    buf = [];
+  };
+
+  for (const line of rawContent.split('\n')) {
+    const h2 = line.match(/^## (.+)/);
+    const h3 = line.match(/^### (.+)/);
+    if (h2) { flush(); current = { level: 2, title: h2[1].trim(), content: '' }; }
+    else if (h3) { flush(); current = { level: 3, title: h3[1].trim(), content: '' }; }
+    else buf.push(line);
+  }
+  flush();
+
+  return sections;
+}
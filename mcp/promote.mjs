@@ -0,0 +1,238 @@
+/**
+ * Promote a chat to a study plan.
+ *
+ * Shared by the `chat_to_plan` MCP tool, `npm run promote` and the chat page's
+ * "Promote to plan" button. AI answers become plan sections: their headings
+ * are kept (shifted so the top level is `##`), and text before the first
+ * heading goes under the question it answers. Top-level bullets become
+ * `- [ ]` checklist items, numbered steps become milestones, and the chat's
+ * action items carry over as a checklist. The plan's `chat` and the chat's
+ * `plan` frontmatter link the two files to each other by slug.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { ConflictError, ValidationError } from './errors.mjs';
+import { formatFieldErrors, parseFrontmatter, renderEntry, updateFrontmatter, validateEntry } from './frontmatter.mjs';
+import { contentDir, purgeHistory, saveEntry } from './history.mjs';
+import { parseChatMessages } from './messages.mjs';
+import { entryRef } from './results.mjs';
+import { isSafeFilename, slugify, today } from './utils.mjs';
+
+/**
+ * @typedef {import('./items.mjs').Milestone} Milestone
+ * @typedef {{
+ *   title: string,
+ *   tags: string[],
+ *   tldr: string,
+ *   milestones: Milestone[],
+ *   body: string,
+ *   sections: string[],
+ *   checklist: number,
+ * }} ConvertedPlan
+ */
+
+const FENCE_RE = /^\s*(```|~~~)/;
+const HEADING_RE = /^(#{1,6})\s+(.*?)\s*$/;
+const BULLET_RE = /^[-*+]\s+(?!\[[ xX]\]\s)(.*\S.*)$/;
+const STEP_RE = /^\d+[.)]\s+(.*\S.*)$/;
+const CHECKBOX_RE = /^[-*+]\s+\[[ xX]\]\s/;
+const MAX_TITLE = 80;
+
+/**
+ * Plain text of a markdown line, cut to a title's length.
+ * @param {string} text
+ * @returns {string}
+ */
+function plainTitle(text) {
+  const plain = text
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__|`)/g, '')
+    .replace(/^[#>\s]+/, '')
+    .replace(/[:\s]+$/, '')
+    .trim();
+  return plain.length > MAX_TITLE ? `${plain.slice(0, MAX_TITLE - 1).trimEnd()}…` : plain;
+}
+
+/**
+ * Milestone title for a numbered step: its bold lead-in, or the text before
+ * the first colon, dash or full stop.
+ * @param {string} text
+ * @returns {string}
+ */
+export function stepTitle(text) {
+  const bold = /^\*\*(.+?)\*\*/.exec(text);
+  if (bold) return plainTitle(bold[1]);
+  return plainTitle(text.split(/:\s| [—–-] |\.\s/)[0]);
+}
+
+/**
+ * Section title for an answer's text before its first heading: the first
+ * line of the question it answers.
+ * @param {string | undefined} question
+ * @returns {string}
+ */
+function questionTitle(question) {
+  const line = (question ?? '').split('\n').find((l) => l.trim() && !FENCE_RE.test(l));
+  return (line && plainTitle(line)) || 'Notes';
+}
+
+/**
+ * One AI answer as plan markdown, and the numbered steps in it.
+ * @param {string} content
+ * @param {string | undefined} question
+ * @returns {{ markdown: string, steps: string[] }}
+ */
+function convertAnswer(content, question) {
+  const lines = content.split('\n');
+  let inFence = false;
+  const headingLevels = lines.flatMap((line) => {
+    if (FENCE_RE.test(line)) inFence = !inFence;
+    const h = !inFence && HEADING_RE.exec(line);
+    return h ? [h[1].length] : [];
+  });
+  const top = headingLevels.length ? Math.min(...headingLevels) : 2;
+
+  /** @type {string[]} */
+  const out = [];
+  /** @type {string[]} */
+  const steps = [];
+  let headed = false;
+  inFence = false;
+  for (const line of lines) {
+    if (FENCE_RE.test(line)) inFence = !inFence;
+    const h = !inFence && HEADING_RE.exec(line);
+    if (h) {
+      headed = true;
+      out.push(`${'#'.repeat(Math.min(6, h[1].length - top + 2))} ${h[2]}`);
+      continue;
+    }
+    if (!headed && !out.length && line.trim()) out.push(`## ${questionTitle(question)}`, '');
+    const bullet = !inFence && BULLET_RE.exec(line);
+    const step = !inFence && STEP_RE.exec(line);
+    if (bullet) out.push(`- [ ] ${bullet[1]}`);
+    else {
+      if (step) steps.push(stepTitle(step[1]));
+      out.push(line);
+    }
+  }
+  return { markdown: out.join('\n').trim(), steps };
+}
+
+/**
+ * Build a plan from a chat's frontmatter and body. Pure; see `promoteChat`
+ * for the file operation. Throws a `ValidationError` when the chat has nothing
+ * to carry over.
+ * @param {Record<string, any>} chat  The chat's frontmatter
+ * @param {string} body  The chat's body
+ * @returns {ConvertedPlan}
+ */
+export function chatToPlan(chat, body) {
+  const messages = parseChatMessages(body);
+  /** @type {string[]} */
+  const parts = [];
+  /** @type {string[]} */
+  const steps = [];
+  messages.forEach((m, i) => {
+    if (m.role !== 'ai') return;
+    const question = messages[i - 1]?.role === 'user' ? messages[i - 1].content : undefined;
+    const answer = convertAnswer(m.content, question);
+    if (answer.markdown) parts.push(answer.markdown);
+    steps.push(...answer.steps);
+  });
+
+  /** @type {{ task: string, done?: boolean }[]} */
+  const actionItems = (Array.isArray(chat.action_items) ? chat.action_items : []).filter((a) => String(a?.task ?? '').trim());
+  if (actionItems.length) {
+    parts.push(['## Action Items', '', ...actionItems.map((a) => `- [${a.done ? 'x' : ' '}] ${a.task}`)].join('\n'));
+  }
+  if (!parts.length) {
+    const message = 'The chat has no AI answers or action items to turn into a plan';
+    throw new ValidationError(message, [{ path: '(body)', message }]);
+  }
+
+  const tldr = typeof chat.tldr === 'string' ? chat.tldr.trim() : '';
+  const planBody = [tldr, ...parts].filter(Boolean).join('\n\n');
+  // One milestone per distinct step, in order of first appearance
+  const stepTitles = steps.filter((t, i) => t && steps.findIndex((s) => s.toLowerCase() === t.toLowerCase()) === i);
+  return {
+    title: String(chat.title || 'Untitled Plan'),
+    tags: Array.isArray(chat.tags) ? chat.tags.map(String) : [],
+    tldr,
+    milestones: stepTitles.map((t) => ({ title: t, weeks: '', status: /** @type {const} */ ('not-started') })),
+    body: planBody,
+    sections: planBody.split('\n').filter((l) => /^## /.test(l)).map((l) => l.slice(3).trim()),
+    checklist: planBody.split('\n').filter((l) => CHECKBOX_RE.test(l)).length,
+  };
+}
+
+/**
+ * Create a plan from a chat and link the two. Refuses with a `ConflictError`
+ * when the chat already links to a plan that exists, or a plan with the new
+ * title's slug exists, and with a `ValidationError` when either file would
+ * not match its schema; nothing is written then.
+ * @param {string} rootDir
+ * @param {string} filename  The chat's .mdx filename
+ * @param {{ title?: string, difficulty?: string, duration?: string, date?: string, source: string }} options
+ */
+export function promoteChat(rootDir, filename, { title, difficulty, duration, date = today(), source }) {
+  if (!isSafeFilename(filename)) throw new Error(`Invalid filename: ${filename}`);
+  const chatPath = path.join(contentDir(rootDir, 'chats'), filename);
+  if (!fs.existsSync(chatPath)) throw new Error(`Chat not found: ${filename}`);
+
+  const raw = fs.readFileSync(chatPath, 'utf-8');
+  const { data, body } = parseFrontmatter(raw);
+  const plansDir = contentDir(rootDir, 'plans');
+  if (typeof data.plan === 'string' && fs.existsSync(path.join(plansDir, `${data.plan}.mdx`))) {
+    throw new ConflictError(`${filename} was already promoted to plans/${data.plan}.mdx`);
+  }
+
+  const plan = chatToPlan(data, body);
+  const planTitle = title?.trim() || plan.title;
+  const planFile = `${slugify(planTitle)}.mdx`;
+  if (planFile === '.mdx') throw new Error('The plan title needs at least one letter or digit');
+  if (fs.existsSync(path.join(plansDir, planFile))) {
+    throw new ConflictError(`Plan already exists: ${planFile} — give the new plan another title`);
+  }
+
+  const planRef = entryRef('plans', planFile);
+  const chatRef = entryRef('chats', filename);
+  const content = renderEntry({
+    title: planTitle,
+    date,
+    tags: plan.tags,
+    tldr: plan.tldr,
+    duration,
+    difficulty,
+    chat: chatRef.slug,
+    milestones: plan.milestones,
+  }, plan.body);
+  const linkedChat = updateFrontmatter(raw, { plan: planRef.slug });
+
+  // Check both files before writing either, so a chat that fails its schema
+  // does not leave a plan behind without a back-link
+  for (const [collection, file, text] of /** @type {const} */ ([['plans', planFile, content], ['chats', filename, linkedChat]])) {
+    const check = validateEntry(collection, text);
+    if (!check.success) {
+      throw new ValidationError(`Not promoted — ${collection}/${file} would not match the schema:\n${formatFieldErrors(check.errors)}`, check.errors);
+    }
+  }
+
+  saveEntry(rootDir, 'plans', planFile, content, { source });
+  try {
+    saveEntry(rootDir, 'chats', filename, linkedChat, { source });
+  } catch (err) {
+    fs.rmSync(path.join(plansDir, planFile), { force: true });
+    purgeHistory(rootDir, 'plans', planFile);
+    throw err;
+  }
+
+  return {
+    plan: planRef,
+    chat: chatRef,
+    title: planTitle,
+    milestones: plan.milestones.length,
+    sections: plan.sections,
+    checklist: plan.checklist,
+  };
+}
@@ -0,0 +1,109 @@
+/**
+ * MCP prompts: reusable instructions that pull an entry's content in
+ * automatically, so the user only picks a file.
+ */
+
+import { z } from 'zod';
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
+import { completeFilename, entryUri, readEntry } from './resources.mjs';
+
+/**
+ * @typedef {import('./history.mjs').Collection} Collection
+ * @typedef {import('@modelcontextprotocol/sdk/server/mcp.js').McpServer} McpServer
+ */
+
+/**
+ * Prompt definitions: which collection the `filename` argument picks from and
+ * the instructions sent along with the entry.
+ * @type {Record<string, { title: string, description: string, collection: Collection, instructions: string }>}
+ */
+export const PROMPTS = {
+  summarize_chat: {
+    title: 'Summarize chat',
+    description: 'Summarize a chat into a one-line tldr and action items, then save them to its frontmatter',
+    collection: 'chats',
+    instructions: [
+      'Summarize the chat session below.',
+      '',
+      '1. Write a `tldr`: one sentence, under 120 characters, saying what was figured out.',
+      '2. List the concrete `action_items` the conversation left open, as short imperative tasks. Keep items that are already done in the frontmatter as done.',
+      '3. Show both to me, then save them with the `update_frontmatter` tool (collection "chats", this filename).',
+    ].join('\n'),
+  },
+  chat_to_plan: {
+    title: 'Turn chat into study plan',
+    description: 'Turn a chat into a study plan with milestones, created with create_plan',
+    collection: 'chats',
+    instructions: [
+      'Turn the chat session below into a study plan.',
+      '',
+      '- Pick a title, a one-line tldr, a total duration, a difficulty (beginner, intermediate or advanced) and reuse the chat\'s tags.',
+      '- Break the work into 3–6 milestones with a week range each (e.g. "Weeks 1-2"), in the order they should be done.',
+      '- Base every milestone on something discussed in the chat; do not pad the plan with unrelated topics.',
+      '- Show me the outline, then create it with the `create_plan` tool.',
+    ].join('\n'),
+  },
+  review_plan: {
+    title: 'Review plan progress',
+    description: 'Review a study plan\'s milestones and suggest what to do next',
+    collection: 'plans',
+    instructions: [
+      'Review the study plan below.',
+      '',
+      '- Say which milestones are complete, in progress and not started.',
+      '- Suggest the next concrete step for the milestone in progress (or the first one not started).',
+      '- If a milestone status is out of date based on what I tell you, update it with the `set_milestone_status` tool.',
+    ].join('\n'),
+  },
+};
+
+/**
+ * Messages for a prompt: the instructions followed by the entry as an embedded
+ * resource. Throws if the entry does not exist.
+ * @param {string} rootDir
+ * @param {keyof typeof PROMPTS} name
+ * @param {string} filename
+ */
+export function promptMessages(rootDir, name, filename) {
+  const { collection, instructions } = PROMPTS[name];
+  const text = readEntry(rootDir, collection, filename);
+  if (text === null) throw new Error(`Not found: ${collection}/${filename}`);
+  return [
+    { role: /** @type {const} */ ('user'), content: { type: /** @type {const} */ ('text'), text: `${instructions}\n\nFile: ${filename}` } },
+    {
+      role: /** @type {const} */ ('user'),
+      content: {
+        type: /** @type {const} */ ('resource'),
+        resource: { uri: entryUri(collection, filename), mimeType: 'text/markdown', text },
+      },
+    },
+  ];
+}
+
+/**
+ * Register every prompt in PROMPTS. The `filename` argument completes from the
+ * prompt's collection.
+ * @param {McpServer} server
+ * @param {string} rootDir
+ */
+export function registerPrompts(server, rootDir) {
+  for (const [name, prompt] of Object.entries(PROMPTS)) {
+    server.registerPrompt(
+      name,
+      {
+        title: prompt.title,
+        description: prompt.description,
+        argsSchema: {
+          filename: completable(
+            z.string().describe(`The .mdx filename in src/content/${prompt.collection}`),
+            (value) => completeFilename(rootDir, prompt.collection, value),
+          ),
+        },
+      },
+      async ({ filename }) => ({
+        description: prompt.description,
+        messages: promptMessages(rootDir, /** @type {keyof typeof PROMPTS} */ (name), filename),
+      }),
+    );
+  }
+}
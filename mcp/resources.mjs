@@ -0,0 +1,147 @@
+/**
+ * MCP resources for chats and plans.
+ *
+ * Every entry is readable as `chat://<filename>` or `plan://<filename>`, so
+ * clients can attach it to a conversation without a `get_entry` call.
+ * `watchContent` tells connected clients when the list changes.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ensureDir, isSafeFilename, listMdxFiles } from './utils.mjs';
+import { parseFrontmatter } from './frontmatter.mjs';
+import { contentDir } from './history.mjs';
+
+/**
+ * @typedef {import('./history.mjs').Collection} Collection
+ * @typedef {import('@modelcontextprotocol/sdk/server/mcp.js').McpServer} McpServer
+ */
+
+/** URI scheme of each collection. */
+export const RESOURCE_SCHEMES = /** @type {const} */ ({ chats: 'chat', plans: 'plan' });
+
+/** Quiet period before a burst of file events becomes one notification. */
+const WATCH_DEBOUNCE_MS = 200;
+
+/**
+ * @param {Collection} collection
+ * @param {string} filename
+ * @returns {string}
+ */
+export function entryUri(collection, filename) {
+  return `${RESOURCE_SCHEMES[collection]}://${filename}`;
+}
+
+/**
+ * Collection and filename of a `chat://` or `plan://` URI, or null for any
+ * other URI or an unsafe filename.
+ * @param {string} uri
+ * @returns {{ collection: Collection, filename: string } | null}
+ */
+export function parseEntryUri(uri) {
+  const match = /^(chat|plan):\/\/(.+)$/.exec(uri);
+  if (!match) return null;
+  const filename = decodeURIComponent(match[2]);
+  if (!isSafeFilename(filename)) return null;
+  return { collection: match[1] === 'chat' ? 'chats' : 'plans', filename };
+}
+
+/**
+ * Raw content of an entry, or null if it does not exist.
+ * @param {string} rootDir
+ * @param {Collection} collection
+ * @param {string} filename
+ * @returns {string | null}
+ */
+export function readEntry(rootDir, collection, filename) {
+  if (!isSafeFilename(filename)) return null;
+  const filepath = path.join(contentDir(rootDir, collection), filename);
+  return fs.existsSync(filepath) ? fs.readFileSync(filepath, 'utf-8') : null;
+}
+
+/**
+ * Resource listing for a collection, newest file first. Titles and tl;drs come
+ * from the frontmatter; files that do not parse are listed by filename.
+ * @param {string} rootDir
+ * @param {Collection} collection
+ */
+export function listEntryResources(rootDir, collection) {
+  const dir = contentDir(rootDir, collection);
+  return listMdxFiles(dir).sort().reverse().map((filename) => {
+    let data = {};
+    try { data = parseFrontmatter(fs.readFileSync(path.join(dir, filename), 'utf-8')).data; } catch { /* list by filename */ }
+    return {
+      uri: entryUri(collection, filename),
+      name: filename,
+      ...(data.title ? { title: String(data.title) } : {}),
+      ...(data.tldr ? { description: String(data.tldr) } : {}),
+      mimeType: 'text/markdown',
+    };
+  });
+}
+
+/**
+ * Filenames in a collection starting with `prefix`, for argument completion.
+ * @param {string} rootDir
+ * @param {Collection} collection
+ * @param {string} prefix
+ * @returns {string[]}
+ */
+export function completeFilename(rootDir, collection, prefix) {
+  return listMdxFiles(contentDir(rootDir, collection)).filter((f) => f.startsWith(prefix ?? '')).sort();
+}
+
+/**
+ * Register the `chat://{filename}` and `plan://{filename}` resource templates.
+ * @param {McpServer} server
+ * @param {string} rootDir
+ */
+export function registerResources(server, rootDir) {
+  for (const collection of /** @type {Collection[]} */ (['chats', 'plans'])) {
+    const scheme = RESOURCE_SCHEMES[collection];
+    server.registerResource(
+      collection,
+      new ResourceTemplate(`${scheme}://{filename}`, {
+        list: async () => ({ resources: listEntryResources(rootDir, collection) }),
+        complete: { filename: (value) => completeFilename(rootDir, collection, value) },
+      }),
+      {
+        title: collection === 'chats' ? 'Chat sessions' : 'Study plans',
+        description: `Every ${scheme} in src/content/${collection} as MDX with frontmatter`,
+        mimeType: 'text/markdown',
+      },
+      async (uri) => {
+        const entry = parseEntryUri(uri.href);
+        const text = entry && entry.collection === collection ? readEntry(rootDir, collection, entry.filename) : null;
+        if (text === null) throw new Error(`Not found: ${uri.href}`);
+        return { contents: [{ uri: uri.href, mimeType: 'text/markdown', text }] };
+      },
+    );
+  }
+}
+
+/**
+ * Call `onChange` (debounced) whenever a chat or plan file is added, removed or
+ * written. Returns a function that stops watching.
+ * @param {string} rootDir
+ * @param {() => void} onChange
+ * @returns {() => void}
+ */
+export function watchContent(rootDir, onChange) {
+  /** @type {ReturnType<typeof setTimeout> | undefined} */
+  let timer;
+  const watchers = /** @type {Collection[]} */ (['chats', 'plans']).map((collection) => {
+    const dir = contentDir(rootDir, collection);
+    ensureDir(dir);
+    return fs.watch(dir, (_event, filename) => {
+      if (filename && !String(filename).endsWith('.mdx')) return;
+      clearTimeout(timer);
+      timer = setTimeout(onChange, WATCH_DEBOUNCE_MS);
+    });
+  });
+  return () => {
+    clearTimeout(timer);
+    for (const w of watchers) w.close();
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * Tool result helpers for the MCP server.
+ *
+ * Every tool declares an output schema and returns `structuredContent` that
+ * matches it, next to a human-readable text block. Failures set `isError` so
+ * agents can tell them apart without parsing the text.
+ */
+
+import { z } from 'zod';
+
+/**
+ * @typedef {import('./history.mjs').Collection} Collection
+ * @typedef {{ collection: Collection, filename: string, slug: string, url: string }} EntryRef
+ */
+
+/** Output schema fields that identify an entry. */
+export const entryRefShape = {
+  collection: z.enum(['chats', 'plans']).describe('Collection the entry belongs to'),
+  filename: z.string().describe('The .mdx filename'),
+  slug: z.string().describe('Filename without the extension'),
+  url: z.string().describe('Path of the entry on the site, e.g. /chats/<slug>'),
+};
+
+/** A trash item as returned by list_trash, delete_entry and empty_trash. */
+export const trashItemSchema = z.object({
+  collection: z.enum(['chats', 'plans']),
+  filename: z.string(),
+  deletedAt: z.string().describe('ISO timestamp'),
+  source: z.string().describe('What deleted it, e.g. mcp:delete_entry or cli:rm'),
+});
+
+/** A chat message with its 0-based position, as returned by the message tools. */
+export const indexedMessageSchema = z.object({
+  index: z.number().describe('0-based position in the chat'),
+  role: z.enum(['user', 'ai']),
+  content: z.string().describe('Message markdown'),
+});
+
+/**
+ * @param {Collection} collection
+ * @param {string} filename
+ * @returns {EntryRef}
+ */
+export function entryRef(collection, filename) {
+  const slug = filename.replace(/\.mdx$/, '');
+  return { collection, filename, slug, url: `/${collection}/${slug}` };
+}
+
+/**
+ * A successful result: the text for people, the object for agents.
+ * @param {string} text
+ * @param {Record<string, unknown>} structuredContent
+ */
+export function toolResult(text, structuredContent) {
+  return { content: [{ type: /** @type {const} */ ('text'), text }], structuredContent };
+}
+
+/**
+ * A failed result. Output schemas do not apply to errors, so there is no
+ * structured content.
+ * @param {string} message
+ */
+export function toolError(message) {
+  return { content: [{ type: /** @type {const} */ ('text'), text: `❌ ${message}` }], isError: true };
+}
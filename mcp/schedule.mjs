@@ -0,0 +1,166 @@
+/**
+ * When plan milestones run, and whether they are overdue.
+ *
+ * A milestone may carry `start`/`end` dates. Older ones only have the
+ * free-text `weeks` ("Weeks 1-4", "Week 3"), which is read relative to the
+ * plan's date where it can be: week 1 is the seven days starting on that date.
+ * Dates are YYYY-MM-DD strings throughout. No Node imports — the plan page's
+ * roadmap and the timeline use this in the browser.
+ */
+
+/**
+ * @typedef {import('./items.mjs').Milestone} Milestone
+ * @typedef {import('./items.mjs').MilestoneStatus} MilestoneStatus
+ * @typedef {{ start: string, end: string, source: 'dates' | 'weeks' }} Schedule
+ *   Inclusive date range; `source` says whether it came from `start`/`end` or was read from `weeks`.
+ * @typedef {MilestoneStatus | 'overdue'} MilestoneState
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_RE = /^(\d{4}-\d{2}-\d{2})(?:$|T)/;
+const WEEKS_RE = /^\s*(?:weeks?|w)\s*(\d+)(?:\s*(?:-|–|—|to)\s*(?:weeks?|w)?\s*(\d+))?\s*$/i;
+
+/**
+ * A date as YYYY-MM-DD, or null if `value` is not one. Date objects (Astro
+ * parses unquoted YAML dates into UTC midnight) are read in UTC.
+ * @param {unknown} value
+ * @returns {string | null}
+ */
+export function toISODate(value) {
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value.toISOString().slice(0, 10);
+  if (typeof value !== 'string') return null;
+  const match = DATE_RE.exec(value.trim());
+  return match && !Number.isNaN(Date.parse(match[1])) ? match[1] : null;
+}
+
+/**
+ * @param {string} date  YYYY-MM-DD
+ * @param {number} days
+ * @returns {string}
+ */
+export function addDays(date, days) {
+  return new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Whole days from `from` to `to` (negative when `to` is earlier).
+ * @param {string} from
+ * @param {string} to
+ * @returns {number}
+ */
+export function daysBetween(from, to) {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+/**
+ * Today in the local time zone, as YYYY-MM-DD.
+ * @param {Date} [now]
+ * @returns {string}
+ */
+export function localToday(now = new Date()) {
+  const m = String(now.getMonth() + 1).padStart(2, '0');
+  const d = String(now.getDate()).padStart(2, '0');
+  return `${now.getFullYear()}-${m}-${d}`;
+}
+
+/**
+ * Read "Weeks 1-4", "Week 3", "weeks 5–8" or "W2-W3". Null for anything else.
+ * @param {string | undefined} weeks
+ * @returns {{ from: number, to: number } | null}
+ */
+export function parseWeeks(weeks) {
+  const match = WEEKS_RE.exec(weeks ?? '');
+  if (!match) return null;
+  const from = Number(match[1]);
+  const to = match[2] ? Number(match[2]) : from;
+  return to >= from ? { from, to } : null;
+}
+
+/**
+ * The "Week n" / "Weeks a-b" label for a date range, relative to the plan's date.
+ * @param {{ start: string, end: string }} range
+ * @param {unknown} planDate
+ * @returns {string | null}  Null when the range starts before the plan
+ */
+export function weeksLabel({ start, end }, planDate) {
+  const plan = toISODate(planDate);
+  if (!plan || start < plan) return null;
+  const from = Math.floor(daysBetween(plan, start) / 7) + 1;
+  const to = Math.floor(daysBetween(plan, end) / 7) + 1;
+  return from === to ? `Week ${from}` : `Weeks ${from}-${to}`;
+}
+
+/**
+ * When a milestone runs: its `start`/`end` (either one alone is a single day),
+ * otherwise its `weeks` read relative to the plan's date. Null when neither
+ * gives a date.
+ * @param {{ weeks?: string, start?: unknown, end?: unknown }} milestone
+ * @param {unknown} planDate
+ * @returns {Schedule | null}
+ */
+export function milestoneSchedule(milestone, planDate) {
+  const start = toISODate(milestone.start);
+  const end = toISODate(milestone.end);
+  if (start || end) {
+    return { start: /** @type {string} */ (start ?? end), end: /** @type {string} */ (end ?? start), source: 'dates' };
+  }
+
+  const weeks = parseWeeks(milestone.weeks);
+  const plan = toISODate(planDate);
+  if (!weeks || !plan) return null;
+  return { start: addDays(plan, (weeks.from - 1) * 7), end: addDays(plan, weeks.to * 7 - 1), source: 'weeks' };
+}
+
+/**
+ * Past its end date and not complete. Today's milestones are not overdue yet.
+ * @param {{ status?: MilestoneStatus }} milestone
+ * @param {{ end: string } | null} schedule
+ * @param {string} today  YYYY-MM-DD
+ */
+export function isOverdue(milestone, schedule, today) {
+  return (milestone.status ?? 'not-started') !== 'complete' && !!schedule && schedule.end < today;
+}
+
+/**
+ * The status to show: the milestone's own, or "overdue".
+ * @param {{ status?: MilestoneStatus }} milestone
+ * @param {{ end: string } | null} schedule
+ * @param {string} today
+ * @returns {MilestoneState}
+ */
+export function milestoneState(milestone, schedule, today) {
+  return isOverdue(milestone, schedule, today) ? 'overdue' : (milestone.status ?? 'not-started');
+}
+
+/**
+ * Move a whole range, or one of its ends, by `days`. An end never crosses the other.
+ * @param {{ start: string, end: string }} range
+ * @param {'move' | 'start' | 'end'} edge
+ * @param {number} days
+ * @returns {{ start: string, end: string }}
+ */
+export function shiftRange({ start, end }, edge, days) {
+  if (edge === 'move') return { start: addDays(start, days), end: addDays(end, days) };
+  if (edge === 'start') {
+    const next = addDays(start, days);
+    return { start: next > end ? end : next, end };
+  }
+  const next = addDays(end, days);
+  return { start, end: next < start ? start : next };
+}
+
+/**
+ * Give a milestone explicit dates. A `weeks` label that was being read as the
+ * schedule is rewritten to match, so the two never disagree; other free text
+ * ("Summer", "TBD") is left alone.
+ * @template {{ weeks?: string, start?: unknown, end?: unknown }} M
+ * @param {M} milestone
+ * @param {{ start: string, end: string }} range
+ * @param {unknown} planDate
+ * @returns {M & { start: string, end: string }}
+ */
+export function scheduleMilestone(milestone, { start, end }, planDate) {
+  if (end < start) throw new Error(`End date ${end} is before start date ${start}`);
+  const label = parseWeeks(milestone.weeks) ? weeksLabel({ start, end }, planDate) : null;
+  return { ...milestone, ...(label ? { weeks: label } : {}), start, end };
+}
@@ -0,0 +1,92 @@
+/**
+ * Zod schemas for chat and plan frontmatter.
+ * The single source of truth: src/content/config.ts builds the Astro
+ * collections from these, and the MCP server, CLI and API routes validate
+ * writes against them (see frontmatter.mjs).
+ */
+
+import { z } from 'zod';
+
+/** One entry of a chat's `action_items`. */
+export const actionItemSchema = z.object({
+  task: z.string(),
+  done: z.boolean().default(false),
+});
+
+/**
+ * One entry of a plan's `milestones`. `weeks` is free text ("Weeks 1-4");
+ * `start`/`end` are optional dates that take precedence over it (see schedule.mjs).
+ */
+export const milestoneSchema = z.object({
+  title: z.string(),
+  weeks: z.string().default(''),
+  status: z.enum(['not-started', 'in-progress', 'complete']).default('not-started'),
+  start: z.coerce.date().optional(),
+  end: z.coerce.date().optional(),
+});
+
+const milestonesSchema = z.array(milestoneSchema).superRefine((milestones, ctx) => {
+  milestones.forEach((m, i) => {
+    if (m.start && m.end && m.end < m.start) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [i, 'end'], message: 'End date is before the start date' });
+    }
+  });
+});
+
+export const chatSchema = z.object({
+  title: z.string(),
+  date: z.coerce.date(),
+  tags: z.array(z.string()).default([]),
+  tldr: z.string().optional(),
+  action_items: z.array(actionItemSchema).default([]),
+  // Set by `npm run import` / `import_chats` to de-duplicate re-imports
+  source: z.enum(['chatgpt', 'claude', 'copilot']).optional(),
+  source_id: z.string().optional(),
+  // Set by chat_to_plan: slug of the plan this chat was promoted to
+  plan: z.string().optional(),
+});
+
+export const planSchema = z.object({
+  title: z.string(),
+  date: z.coerce.date(),
+  tags: z.array(z.string()).default([]),
+  tldr: z.string().optional(),
+  icon: z.string().optional(),
+  duration: z.string().optional(),
+  difficulty: z.enum(['beginner', 'intermediate', 'advanced']).optional(),
+  // Set by chat_to_plan: slug of the chat this plan was promoted from
+  chat: z.string().optional(),
+  milestones: milestonesSchema.default([]),
+});
+
+/**
+ * Frontmatter of a plan template in `templates/` (see templates.mjs): the
+ * plan's defaults, which may use `{{variable}}` placeholders, plus the
+ * template's own name, description and variables.
+ */
+export const templateSchema = z.object({
+  name: z.string(),
+  description: z.string().default(''),
+  variables: z.record(z.string().regex(/^[\w-]+$/, 'Use letters, digits, - and _'), z.object({
+    description: z.string().default(''),
+    default: z.string().optional(),
+  })).default({}),
+  title: z.string(),
+  tags: z.array(z.string()).default([]),
+  tldr: z.string().optional(),
+  duration: z.string().optional(),
+  difficulty: z.enum(['beginner', 'intermediate', 'advanced']).optional(),
+  milestones: z.array(milestoneSchema.pick({ title: true, weeks: true })).default([]),
+});
+
+/** One `## User` / `## AI` section of a chat body (see messages.mjs). */
+export const chatMessageSchema = z.object({
+  role: z.enum(['user', 'ai']),
+  content: z.string(),
+});
+
+/** Frontmatter schema for each content collection. */
+export const schemas = {
+  chats: chatSchema,
+  plans: planSchema,
+};
@@ -0,0 +1,272 @@
+/**
+ * Full-text search over chats and plans.
+ *
+ * The site builds the index once from the content collections (see
+ * `src/pages/search-index.json.ts`) and queries it in the browser; the
+ * `search_entries` MCP tool builds it from the files on each call (see
+ * `searchEntries` in entries.mjs). Both split
+ * entries into sections the same way — one per chat message, one per plan
+ * intro, milestone and heading — so results point at the same places.
+ *
+ * No Node imports here: the site bundles this module for the browser.
+ */
+
+import { parseChatMessages } from './messages.mjs';
+import { parsePlanIntro, parsePlanSections } from './plans.mjs';
+
+/**
+ * @typedef {'chat' | 'plan'} SearchEntryType
+ * @typedef {{ anchor: string, label: string, text: string }} SearchSection
+ *   A searchable part of an entry — one chat message or one plan section.
+ *   `anchor` is the element id on the entry page, without the leading `#`
+ *   (empty for the top of the page).
+ * @typedef {{
+ *   type: SearchEntryType,
+ *   title: string,
+ *   href: string,
+ *   date: string,
+ *   tags: string[],
+ *   tldr: string,
+ *   sections: SearchSection[],
+ * }} SearchDocument
+ * @typedef {[number, number, number]} Posting
+ *   [document index, field, occurrences] — see FIELD_* for the field encoding.
+ * @typedef {{ version: 1, documents: SearchDocument[], terms: Record<string, Posting[]> }} SearchIndex
+ * @typedef {{ text: string, match: boolean }} SnippetPart
+ * @typedef {{ anchor: string, label: string, snippet: SnippetPart[] }} SearchHit
+ * @typedef {{ document: SearchDocument, score: number, hits: SearchHit[] }} SearchResult
+ */
+
+// Fields 0-2 are entry metadata; section i is stored as FIELD_SECTION + i.
+const FIELD_TITLE = 0;
+const FIELD_TAGS = 1;
+const FIELD_TLDR = 2;
+const FIELD_SECTION = 3;
+
+const FIELD_WEIGHTS = [5, 4, 3];
+const SECTION_WEIGHT = 1;
+const PREFIX_PENALTY = 0.5;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'is',
+  'it', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'with',
+]);
+
+/**
+ * Lowercases and splits text into indexable terms, dropping stop words and 1-char tokens.
+ * @param {string} text
+ * @returns {string[]}
+ */
+export function tokenize(text) {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter((t) => t.length > 1 && !STOP_WORDS.has(t));
+}
+
+/**
+ * Removes markdown syntax that would be noise in snippets (fences, emphasis, heading marks).
+ * @param {string} text
+ * @returns {string}
+ */
+export function stripMarkdown(text) {
+  return text
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/```\w*\n?/g, ' ')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`>#]+/g, ' ')
+    .replace(/^\s*[-+]\s(\[[ xX]\]\s)?/gm, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Searchable sections of a chat body: one per `## User` / `## AI` message,
+ * anchored at `message-<index>`.
+ * @param {string} body
+ * @returns {SearchSection[]}
+ */
+export function chatSearchSections(body) {
+  return parseChatMessages(body).map((m, i) => ({
+    anchor: `message-${i}`,
+    label: `${m.role === 'user' ? 'User' : 'AI'} · message ${i + 1}`,
+    text: stripMarkdown(m.content),
+  }));
+}
+
+/**
+ * Searchable sections of a plan: the intro, each milestone and each `##` /
+ * `###` section, anchored at `section-<index>`.
+ * @param {string} body
+ * @param {{ title: string, weeks: string }[]} milestones
+ * @returns {SearchSection[]}
+ */
+export function planSearchSections(body, milestones) {
+  const intro = parsePlanIntro(body);
+  return [
+    ...(intro ? [{ anchor: '', label: 'Introduction', text: stripMarkdown(intro) }] : []),
+    ...milestones.map((m) => ({ anchor: '', label: 'Milestone', text: [m.title, m.weeks].filter(Boolean).join(' ') })),
+    ...parsePlanSections(body).map((s, i) => ({
+      anchor: `section-${i}`,
+      label: s.title,
+      text: stripMarkdown(s.content),
+    })),
+  ];
+}
+
+/**
+ * Builds the serializable inverted index for a list of documents.
+ * @param {SearchDocument[]} documents
+ * @returns {SearchIndex}
+ */
+export function buildSearchIndex(documents) {
+  /** @type {Record<string, Posting[]>} */
+  const terms = {};
+
+  /** @param {number} doc @param {number} field @param {string} text */
+  const add = (doc, field, text) => {
+    /** @type {Map<string, number>} */
+    const counts = new Map();
+    for (const t of tokenize(text)) counts.set(t, (counts.get(t) ?? 0) + 1);
+    for (const [term, count] of counts) {
+      (terms[term] ??= []).push([doc, field, count]);
+    }
+  };
+
+  documents.forEach((d, i) => {
+    add(i, FIELD_TITLE, d.title);
+    add(i, FIELD_TAGS, d.tags.join(' '));
+    add(i, FIELD_TLDR, d.tldr);
+    d.sections.forEach((s, j) => add(i, FIELD_SECTION + j, `${s.label} ${s.text}`));
+  });
+
+  return { version: 1, documents, terms };
+}
+
+/**
+ * Splits a window of `text` around the first query match into highlighted parts.
+ * Terms match at word starts, so "list" highlights "listeners" but not "blacklist".
+ * @param {string} text
+ * @param {string[]} queryTerms
+ * @param {number} [radius]
+ * @returns {SnippetPart[]}
+ */
+export function makeSnippet(text, queryTerms, radius = 80) {
+  if (!text) return [];
+  const escaped = queryTerms
+    .filter(Boolean)
+    .map((t) => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  if (!escaped.length) return [{ text: text.slice(0, radius * 2), match: false }];
+
+  const re = new RegExp(`(?<![\\p{L}\\p{N}])(${escaped.join('|')})[\\p{L}\\p{N}]*`, 'giu');
+  const first = re.exec(text);
+  const center = first ? first.index : 0;
+  let start = Math.max(0, center - radius);
+  let end = Math.min(text.length, center + radius);
+
+  // Snap the window to word boundaries
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    if (space !== -1 && space < center) start = space + 1;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > center) end = space;
+  }
+
+  const window = text.slice(start, end);
+  /** @type {SnippetPart[]} */
+  const parts = [];
+  if (start > 0) parts.push({ text: '…', match: false });
+
+  re.lastIndex = 0;
+  let last = 0;
+  /** @type {RegExpExecArray | null} */
+  let m;
+  while ((m = re.exec(window)) !== null) {
+    if (m.index > last) parts.push({ text: window.slice(last, m.index), match: false });
+    parts.push({ text: m[0], match: true });
+    last = m.index + m[0].length;
+  }
+  if (last < window.length) parts.push({ text: window.slice(last), match: false });
+  if (end < text.length) parts.push({ text: '…', match: false });
+
+  return parts;
+}
+
+/**
+ * Ranks documents against a free-text query.
+ * Every query term must match somewhere in a document (AND semantics);
+ * terms also match as prefixes of indexed words, at a reduced weight.
+ * Each result carries its best `maxHits` sections.
+ * @param {SearchIndex} index
+ * @param {string} query
+ * @param {number} [limit]
+ * @param {number} [maxHits]
+ * @returns {SearchResult[]}
+ */
+export function searchIndex(index, query, limit = 20, maxHits = 3) {
+  const queryTerms = [...new Set(tokenize(query))];
+  if (!queryTerms.length) return [];
+
+  const docCount = index.documents.length || 1;
+  const allTerms = Object.keys(index.terms);
+  /** @type {Map<number, number>} */
+  const docScores = new Map();
+  /** @type {Map<number, Map<number, number>>} */
+  const sectionScores = new Map();
+  /** @type {Set<number>[]} */
+  const matchedPerTerm = [];
+
+  for (const q of queryTerms) {
+    /** @type {Set<number>} */
+    const matched = new Set();
+    for (const term of allTerms) {
+      if (!term.startsWith(q)) continue;
+      const postings = index.terms[term];
+      const idf = Math.log(1 + docCount / new Set(postings.map((p) => p[0])).size);
+      const factor = term === q ? 1 : PREFIX_PENALTY;
+
+      for (const [doc, field, count] of postings) {
+        const weight = field < FIELD_SECTION ? FIELD_WEIGHTS[field] : SECTION_WEIGHT;
+        const score = weight * (1 + Math.log(count)) * idf * factor;
+        matched.add(doc);
+        docScores.set(doc, (docScores.get(doc) ?? 0) + score);
+        if (field >= FIELD_SECTION) {
+          const sections = sectionScores.get(doc) ?? new Map();
+          sections.set(field - FIELD_SECTION, (sections.get(field - FIELD_SECTION) ?? 0) + score);
+          sectionScores.set(doc, sections);
+        }
+      }
+    }
+    matchedPerTerm.push(matched);
+  }
+
+  const [first, ...rest] = matchedPerTerm;
+  return [...first]
+    .filter((doc) => rest.every((matched) => matched.has(doc)))
+    .map((doc) => {
+      const document = index.documents[doc];
+      const hits = [...(sectionScores.get(doc) ?? new Map())]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, maxHits)
+        .map(([i]) => {
+          const section = document.sections[i];
+          return {
+            anchor: section.anchor,
+            label: section.label,
+            snippet: makeSnippet(section.text, queryTerms),
+          };
+        });
+      return { document, score: docScores.get(doc) ?? 0, hits };
+    })
+    .sort((a, b) => b.score - a.score || b.document.date.localeCompare(a.document.date))
+    .slice(0, limit);
+}
+
+/**
+ * Snippet parts as plain text with matches in `**bold**`.
+ * @param {SnippetPart[]} parts
+ * @returns {string}
+ */
+export function snippetText(parts) {
+  return parts.map((p) => (p.match ? `**${p.text}**` : p.text)).join('');
+}
@@ -4,7 +4,12 @@
  * AI Chat Generator — MCP Server
  *
  * Provides tools for Copilot to create chats, plans, append messages,
- * list entries, and build the Astro site — all via stdio.
+ * import chat exports, list entries, and build the Astro site, plus every
+ * chat and plan as a resource and a few prompts over them. Tools return
+ * structured results next to their text (see results.mjs). Speaks stdio by
+ * default, or HTTP with `--port` so one process can serve several clients:
+ *
+ *   node mcp/server.mjs --port 3333 [--host 127.0.0.1] [--token <secret>]
  */
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
@@ -12,354 +17,1519 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import { z } from 'zod';
 import fs from 'node:fs';
 import path from 'node:path';
-import { execSync } from 'node:child_process';
 import { fileURLToPath } from 'node:url';
-import { slugify, today, ensureDir, listMdxFiles, readFrontmatter, isSafeFilename } from './utils.mjs';
+import { slugify, today, ensureDir, isSafeFilename } from './utils.mjs';
+import {
+  roleHeading,
+  demoteHeadings,
+  serializeChatMessages,
+  parseChatMessages,
+  strayContent,
+  editMessages,
+} from './messages.mjs';
+import { runImport, formatImportReport } from './importers.mjs';
+import {
+  parseFrontmatter,
+  splitFrontmatter,
+  updateFrontmatter,
+  replaceBody,
+  renderEntry,
+} from './frontmatter.mjs';
+import {
+  saveEntry,
+  listRevisions,
+  restoreRevision,
+  diffRevisions,
+  listDeletedEntries,
+  formatRevisionList,
+} from './history.mjs';
+import { formatUnifiedDiff } from './diff.mjs';
+import {
+  trashEntry,
+  listTrash,
+  restoreEntry,
+  emptyTrash,
+  previewEmptyTrash,
+  purgeExpired,
+  confirmationToken,
+  formatTrashList,
+  trashRetentionDays,
+  requiresConfirmation,
+} from './trash.mjs';
+import { exportToFile } from './export.mjs';
+import { CHECK_RULES, checkContent, formatCheckReport } from './check.mjs';
+import { buildSite } from './build.mjs';
+import { actionItemSchema, milestoneSchema } from './schema.mjs';
+import {
+  setMilestoneStatus, addMilestone, rescheduleMilestone, removeMilestone, addActionItem, toggleActionItem,
+} from './items.mjs';
+import { milestoneSchedule, isOverdue } from './schedule.mjs';
+import { ACTION_STATUSES, formatActionItems, listActionItems } from './actions.mjs';
+import { fillTemplate, formatTemplateList, listTemplates, loadTemplate } from './templates.mjs';
+import { promoteChat } from './promote.mjs';
+import { parseTransportArgs, startHttpServer } from './http.mjs';
+import { registerResources, watchContent } from './resources.mjs';
+import { registerPrompts } from './prompts.mjs';
+import { entryRef, entryRefShape, indexedMessageSchema, toolError, toolResult, trashItemSchema } from './results.mjs';
+import {
+  DEFAULT_LIMIT, DIFFICULTIES, MAX_LIMIT, MILESTONE_STATUSES, SORT_KEYS,
+  entrySummary, formatEntryList, loadEntries, queryEntries, searchEntries,
+} from './entries.mjs';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const PROJECT_ROOT = path.resolve(__dirname, '..');
 const CHATS_DIR = path.join(PROJECT_ROOT, 'src/content/chats');
 const PLANS_DIR = path.join(PROJECT_ROOT, 'src/content/plans');
+const RETENTION_DAYS = trashRetentionDays();
+
+/** Connected servers, told when the resource list changes. */
+const liveServers = new Set();
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date');
+
+/**
+ * Raw content and parsed messages of a chat. Throws if the file is missing.
+ * @param {string} filename
+ */
+function readChat(filename) {
+  if (!isSafeFilename(filename)) throw new Error(`Invalid filename: ${filename}`);
+  const filepath = path.join(CHATS_DIR, filename);
+  if (!fs.existsSync(filepath)) throw new Error(`Chat not found: ${filename}`);
+  const raw = fs.readFileSync(filepath, 'utf-8');
+  const { body } = splitFrontmatter(raw);
+  return { raw, body, messages: parseChatMessages(body) };
+}
+
+/**
+ * Apply a message operation to a chat and write the re-serialized body. The
+ * frontmatter is kept byte for byte. Refuses chats with text outside their
+ * `## User` / `## AI` sections, which the rewrite would drop.
+ * @param {string} filename
+ * @param {import('./messages.mjs').MessageOp} op
+ * @param {string} source
+ */
+function rewriteChat(filename, op, source) {
+  const { raw, body, messages } = readChat(filename);
+  const stray = strayContent(body);
+  if (stray) {
+    const preview = stray.length > 120 ? `${stray.slice(0, 120)}…` : stray;
+    throw new Error(`${filename} has text outside its ## User / ## AI sections that rewriting would drop. Move it into a message or remove it first:\n${preview}`);
+  }
+  const updated = editMessages(messages, op);
+  saveEntry(PROJECT_ROOT, 'chats', filename, replaceBody(raw, serializeChatMessages(updated)), { source });
+  return { before: messages, after: updated };
+}
+
+/**
+ * Apply an edit to a frontmatter list (`milestones`, `action_items`) and write
+ * the file after validating it against the collection schema. Returns what the
+ * edit returned.
+ * @template {{ list: unknown[] }} R
+ * @param {'chats' | 'plans'} collection
+ * @param {string} filename
+ * @param {string} key
+ * @param {(list: any[], data: Record<string, any>) => R} edit  Also gets the whole frontmatter
+ * @param {string} source
+ * @returns {R}
+ */
+function updateList(collection, filename, key, edit, source) {
+  if (!isSafeFilename(filename)) throw new Error(`Invalid filename: ${filename}`);
+  const filepath = path.join(collection === 'chats' ? CHATS_DIR : PLANS_DIR, filename);
+  if (!fs.existsSync(filepath)) throw new Error(`${collection === 'chats' ? 'Chat' : 'Plan'} not found: ${filename}`);
+
+  const raw = fs.readFileSync(filepath, 'utf-8');
+  const { data } = parseFrontmatter(raw);
+  const result = edit(Array.isArray(data[key]) ? data[key] : [], data);
+  saveEntry(PROJECT_ROOT, collection, filename, updateFrontmatter(raw, { [key]: result.list }), { source });
+  return result;
+}
 
 // ─── MCP Server ─────────────────────────────────────────────────────────────
 
-const server = new McpServer({
-  name: 'ai-chat-generator',
-  version: '1.0.0',
-});
+/**
+ * A server with every tool registered. Each HTTP session gets its own instance;
+ * stdio uses one.
+ * @returns {McpServer}
+ */
+function createServer() {
+  const server = new McpServer({
+    name: 'ai-chat-generator',
+    version: '1.0.0',
+  });
+  liveServers.add(server);
+  server.server.onclose = () => liveServers.delete(server);
+
+  // ─── Resources & prompts ───────────────────────────────────────────────────
+
+  registerResources(server, PROJECT_ROOT);
+  registerPrompts(server, PROJECT_ROOT);
+
+  // ─── Tool: create_chat ────────────────────────────────────────────────────
+
+  server.registerTool(
+    'create_chat',
+    {
+      description: 'Create a new chat session MDX file with frontmatter and initial messages. Use this when starting a new brainstorming conversation to log.',
+      inputSchema: {
+        title: z.string().describe('Title of the chat session'),
+        tags: z.array(z.string()).optional().describe('Tags for categorization, e.g. ["java", "gsoc"]'),
+        tldr: z.string().optional().describe('One-line summary of the chat'),
+        action_items: z.array(z.object({
+          task: z.string(),
+          done: z.boolean().default(false),
+        })).optional().describe('List of action items from the chat'),
+        messages: z.array(z.object({
+          role: z.enum(['user', 'ai']),
+          content: z.string(),
+        })).optional().describe('Initial messages (array of {role, content})'),
+      },
+      outputSchema: {
+        ...entryRefShape,
+        messages: z.number().describe('Number of messages written'),
+      },
+    },
+    async ({ title, tags, tldr, action_items, messages }) => {
+      ensureDir(CHATS_DIR);
+      const slug = slugify(title);
+      const filename = `${today()}-${slug}.mdx`;
+      const filepath = path.join(CHATS_DIR, filename);
+
+      if (fs.existsSync(filepath)) {
+        return toolError(`File already exists: ${filename}`);
+      }
+
+      const body = messages?.length
+        ? serializeChatMessages(messages)
+        : '## User\n\n<!-- Write the user prompt here -->\n\n## AI\n\n<!-- Paste or write the AI response here -->';
+      const content = renderEntry({
+        title,
+        date: today(),
+        tags: tags ?? [],
+        tldr: tldr ?? '',
+        action_items: action_items ?? [],
+      }, body);
+
+      try {
+        saveEntry(PROJECT_ROOT, 'chats', filename, content, { source: 'mcp:create_chat' });
+      } catch (err) {
+        return toolError(/** @type {Error} */ (err).message);
+      }
 
-// ─── Tool: create_chat ──────────────────────────────────────────────────────
-
-server.tool(
-  'create_chat',
-  'Create a new chat session MDX file with frontmatter and initial messages. Use this when starting a new brainstorming conversation to log.',
-  {
-    title: z.string().describe('Title of the chat session'),
-    tags: z.array(z.string()).optional().describe('Tags for categorization, e.g. ["java", "gsoc"]'),
-    tldr: z.string().optional().describe('One-line summary of the chat'),
-    action_items: z.array(z.object({
-      task: z.string(),
-      done: z.boolean().default(false),
-    })).optional().describe('List of action items from the chat'),
-    messages: z.array(z.object({
-      role: z.enum(['user', 'ai']),
-      content: z.string(),
-    })).optional().describe('Initial messages (array of {role, content})'),
-  },
-  async ({ title, tags, tldr, action_items, messages }) => {
-    ensureDir(CHATS_DIR);
-    const slug = slugify(title);
-    const filename = `${today()}-${slug}.mdx`;
-    const filepath = path.join(CHATS_DIR, filename);
-
-    if (fs.existsSync(filepath)) {
-      return { content: [{ type: 'text', text: `❌ File already exists: ${filename}` }] };
+      const ref = entryRef('chats', filename);
+      return toolResult(
+        `✅ Created chat: src/content/chats/${filename}\n📍 URL: ${ref.url}`,
+        { ...ref, messages: messages?.length ?? 0 },
+      );
     }
+  );
 
-    const tagStr = tags?.length ? `[${tags.map((t) => `"${t}"`).join(', ')}]` : '[]';
-    const aiStr = action_items?.length
-      ? action_items.map((a) => `  - task: "${a.task}"\n    done: ${a.done}`).join('\n')
-      : '  - task: ""\n    done: false';
+  // ─── Tool: create_plan ────────────────────────────────────────────────────
 
-    let body = '';
-    if (messages?.length) {
-      body = messages.map((m) => `## ${m.role === 'user' ? 'User' : 'AI'}\n\n${m.content}`).join('\n\n');
-    } else {
-      body = '## User\n\n<!-- Write the user prompt here -->\n\n## AI\n\n<!-- Paste or write the AI response here -->';
+  server.registerTool(
+    'create_plan',
+    {
+      description: 'Create a new plan/article MDX file with rich frontmatter and structured content. Use for study plans, roadmaps, guides. Pass `template` (see list_templates) to start from a template\'s milestones and sections; anything else given overrides it.',
+      inputSchema: {
+        title: z.string().optional().describe('Title of the plan; required unless a template provides one'),
+        template: z.string().optional().describe('Template id from list_templates, e.g. "interview-prep"'),
+        variables: z.record(z.string(), z.string()).optional().describe('Values for the template\'s {{variables}}, e.g. {"language": "Rust"}'),
+        tags: z.array(z.string()).optional().describe('Tags, e.g. ["java", "gsoc"]; added to the template\'s'),
+        tldr: z.string().optional().describe('One-line summary'),
+        duration: z.string().optional().describe('Duration string, e.g. "3 months (Aug-Oct)"'),
+        difficulty: z.enum(['beginner', 'intermediate', 'advanced']).optional().describe('Difficulty level'),
+        milestones: z.array(z.object({
+          title: z.string(),
+          weeks: z.string().default(''),
+          status: z.enum(['not-started', 'in-progress', 'complete']).default('not-started'),
+          start: isoDate.optional().describe('First day (YYYY-MM-DD)'),
+          end: isoDate.optional().describe('Last day (YYYY-MM-DD)'),
+        })).optional().describe('Plan milestones with progress tracking; give weeks ("Weeks 1-4"), start/end dates, or both'),
+        body: z.string().optional().describe('Full markdown body content (use ## and ### headings for sections); required unless a template provides one'),
+      },
+      outputSchema: {
+        ...entryRefShape,
+        milestones: z.number().describe('Number of milestones written'),
+        template: z.string().optional().describe('Template the plan was created from'),
+      },
+    },
+    async ({ title, template, variables, tags, tldr, duration, difficulty, milestones, body }) => {
+      if (!template && variables) {
+        return toolError('`variables` only apply with a `template`');
+      }
+      const date = today();
+      let base;
+      try {
+        base = template ? fillTemplate(loadTemplate(PROJECT_ROOT, template), { date, variables }) : null;
+      } catch (err) {
+        return toolError(/** @type {Error} */ (err).message);
+      }
+      const planTitle = title ?? base?.title;
+      const planBody = body ?? base?.body;
+      if (!planTitle) return toolError('Give the plan a title or a template');
+      if (planBody === undefined) return toolError('Give the plan a body or a template');
+      const planMilestones = milestones ?? base?.milestones ?? [];
+
+      ensureDir(PLANS_DIR);
+      const slug = slugify(planTitle);
+      const filename = `${slug}.mdx`;
+      const filepath = path.join(PLANS_DIR, filename);
+
+      if (fs.existsSync(filepath)) {
+        return toolError(`File already exists: ${filename}`);
+      }
+
+      const content = renderEntry({
+        title: planTitle,
+        date,
+        tags: [...new Set([...(base?.tags ?? []), ...(tags ?? [])])],
+        tldr: tldr ?? base?.tldr ?? '',
+        duration: duration ?? base?.duration,
+        difficulty: difficulty ?? base?.difficulty,
+        milestones: planMilestones,
+      }, planBody);
+
+      try {
+        saveEntry(PROJECT_ROOT, 'plans', filename, content, { source: 'mcp:create_plan' });
+      } catch (err) {
+        return toolError(/** @type {Error} */ (err).message);
+      }
+
+      const ref = entryRef('plans', filename);
+      return toolResult(
+        `✅ Created plan: src/content/plans/${filename}${template ? ` from template ${template}` : ''}\n📍 URL: ${ref.url}`,
+        { ...ref, milestones: planMilestones.length, ...(template ? { template } : {}) },
+      );
     }
+  );
 
-    const content = `---
-title: "${title}"
-date: ${today()}
-tags: ${tagStr}
-tldr: "${tldr || ''}"
-action_items:
-${aiStr}
----
-
-${body}
-`;
-
-    fs.writeFileSync(filepath, content, 'utf-8');
-    return {
-      content: [{
-        type: 'text',
-        text: `✅ Created chat: src/content/chats/${filename}\n📍 URL: /chats/${today()}-${slug}`,
-      }],
-    };
-  }
-);
-
-// ─── Tool: create_plan ──────────────────────────────────────────────────────
-
-server.tool(
-  'create_plan',
-  'Create a new plan/article MDX file with rich frontmatter and structured content. Use for study plans, roadmaps, guides.',
-  {
-    title: z.string().describe('Title of the plan'),
-    tags: z.array(z.string()).optional().describe('Tags, e.g. ["java", "gsoc"]'),
-    tldr: z.string().optional().describe('One-line summary'),
-    duration: z.string().optional().describe('Duration string, e.g. "3 months (Aug-Oct)"'),
-    difficulty: z.enum(['beginner', 'intermediate', 'advanced']).optional().describe('Difficulty level'),
-    milestones: z.array(z.object({
-      title: z.string(),
-      weeks: z.string(),
-      status: z.enum(['not-started', 'in-progress', 'complete']).default('not-started'),
-    })).optional().describe('Plan milestones with progress tracking'),
-    body: z.string().describe('Full markdown body content (use ## and ### headings for sections)'),
-  },
-  async ({ title, tags, tldr, duration, difficulty, milestones, body }) => {
-    ensureDir(PLANS_DIR);
-    const slug = slugify(title);
-    const filename = `${slug}.mdx`;
-    const filepath = path.join(PLANS_DIR, filename);
-
-    if (fs.existsSync(filepath)) {
-      return { content: [{ type: 'text', text: `❌ File already exists: ${filename}` }] };
+  // ─── Tool: list_templates ─────────────────────────────────────────────────
+
+  server.registerTool(
+    'list_templates',
+    {
+      description: 'List the plan templates in templates/ with their variables, milestones and sections. Pass one\'s id as `template` to create_plan.',
+      inputSchema: {},
+      outputSchema: {
+        templates: z.array(z.object({
+          id: z.string(),
+          name: z.string(),
+          description: z.string(),
+          variables: z.array(z.object({
+            name: z.string(),
+            description: z.string(),
+            default: z.string().optional().describe('Used when no value is given; variables without one are required'),
+          })),
+          title: z.string().describe('Title pattern, used when create_plan gets no title'),
+          tags: z.array(z.string()),
+          duration: z.string().optional(),
+          difficulty: z.enum(DIFFICULTIES).optional(),
+          milestones: z.array(z.object({ title: z.string(), weeks: z.string() })),
+          sections: z.array(z.string()).describe('The ## headings of the skeleton'),
+        })),
+      },
+    },
+    async () => {
+      let templates;
+      try {
+        templates = listTemplates(PROJECT_ROOT);
+      } catch (err) {
+        return toolError(/** @type {Error} */ (err).message);
+      }
+
+      return toolResult(
+        templates.length ? `📐 ${templates.length} template${templates.length !== 1 ? 's' : ''}:\n\n${formatTemplateList(templates)}` : 'No templates in templates/.',
+        {
+          templates: templates.map(({ id, name, description, variables, title, tags, duration, difficulty, milestones, sections }) => ({
+            id, name, description, variables, title, tags, duration, difficulty, milestones, sections,
+          })),
+        },
+      );
     }
+  );
 
-    const tagStr = tags?.length ? `[${tags.map((t) => `"${t}"`).join(', ')}]` : '[]';
-    const msStr = milestones?.length
-      ? milestones.map((m) => `  - title: "${m.title}"\n    weeks: "${m.weeks}"\n    status: "${m.status}"`).join('\n')
-      : '  - title: ""\n    weeks: ""\n    status: "not-started"';
-
-    const content = `---
-title: "${title}"
-date: ${today()}
-tags: ${tagStr}
-tldr: "${tldr || ''}"
-duration: "${duration || ''}"
-difficulty: "${difficulty || 'intermediate'}"
-milestones:
-${msStr}
----
-
-${body}
-`;
-
-    fs.writeFileSync(filepath, content, 'utf-8');
-    return {
-      content: [{
-        type: 'text',
-        text: `✅ Created plan: src/content/plans/${filename}\n📍 URL: /plans/${slug}`,
-      }],
-    };
-  }
-);
-
-// ─── Tool: add_message ──────────────────────────────────────────────────────
-
-server.tool(
-  'add_message',
-  'Append a new User or AI message to an existing chat session. Great for continuing a logged conversation.',
-  {
-    filename: z.string().describe('The .mdx filename (e.g. "2026-02-25-my-chat.mdx")'),
-    role: z.enum(['user', 'ai']).describe('Message role'),
-    content: z.string().describe('Message content (markdown)'),
-  },
-  async ({ filename, role, content }) => {
-    if (!isSafeFilename(filename)) {
-      return { content: [{ type: 'text', text: `Invalid filename: ${filename}` }] };
+  // ─── Tool: chat_to_plan ───────────────────────────────────────────────────
+
+  server.registerTool(
+    'chat_to_plan',
+    {
+      description: 'Create a study plan from a chat: AI answers become sections (headed by their own headings, or the question they answer), top-level bullets become checklist items, numbered steps become milestones, and action items carry over as a checklist. Tags and tl;dr are copied, and the plan and chat link to each other (`chat` / `plan` frontmatter).',
+      inputSchema: {
+        filename: z.string().describe('The chat\'s .mdx filename in src/content/chats'),
+        title: z.string().optional().describe('Title of the plan (default: the chat\'s)'),
+        difficulty: z.enum(DIFFICULTIES).optional().describe('Difficulty level'),
+        duration: z.string().optional().describe('Duration string, e.g. "6 weeks"'),
+      },
+      outputSchema: {
+        ...entryRefShape,
+        title: z.string(),
+        chat: z.object(entryRefShape).describe('The chat, which now links to the plan'),
+        milestones: z.number().describe('Milestones made from numbered steps'),
+        sections: z.array(z.string()).describe('The plan\'s ## sections'),
+        checklist: z.number().describe('Checklist items in the plan body'),
+      },
+    },
+    async ({ filename, title, difficulty, duration }) => {
+      let result;
+      try {
+        result = promoteChat(PROJECT_ROOT, filename, { title, difficulty, duration, source: 'mcp:chat_to_plan' });
+      } catch (err) {
+        return toolError(/** @type {Error} */ (err).message);
+      }
+
+      const { plan, chat, ...summary } = result;
+      return toolResult(
+        `✅ Promoted chats/${chat.filename} to plan: src/content/plans/${plan.filename}\n📍 URL: ${plan.url}\n`
+          + `   ${summary.sections.length} sections · ${summary.milestones} milestones · ${summary.checklist} checklist items`,
+        { ...plan, ...summary, chat },
+      );
+    }
+  );
+
+  // ─── Tool: add_message ────────────────────────────────────────────────────
+
+  server.registerTool(
+    'add_message',
+    {
+      description: 'Append a new User or AI message to an existing chat session. Great for continuing a logged conversation.',
+      inputSchema: {
+        filename: z.string().describe('The .mdx filename (e.g. "2026-02-25-my-chat.mdx")'),
+        role: z.enum(['user', 'ai']).describe('Message role'),
+        content: z.string().describe('Message content (markdown)'),
+      },
+      outputSchema: {
+        ...entryRefShape,
+        role: z.enum(['user', 'ai']),
+        messages: z.number().describe('Number of messages in the chat after appending'),
+      },
+    },
+    async ({ filename, role, content }) => {
+      if (!isSafeFilename(filename)) {
+        return toolError(`Invalid filename: ${filename}`);
+      }
+      const filepath = path.join(CHATS_DIR, filename);
+      if (!fs.existsSync(filepath)) {
+        return toolError(`Chat not found: ${filename}`);
+      }
+
+      const heading = roleHeading(role);
+      const addition = `\n\n## ${heading}\n\n${demoteHeadings(content.trim())}`;
+      const updated = fs.readFileSync(filepath, 'utf-8') + addition;
+      try {
+        saveEntry(PROJECT_ROOT, 'chats', filename, updated, { source: 'mcp:add_message' });
+      } catch (err) {
+        return toolError(/** @type {Error} */ (err).message);
+      }
+
+      return toolResult(`✅ Appended ${heading} message to ${filename}`, {
+        ...entryRef('chats', filename),
+        role,
+        messages: parseChatMessages(splitFrontmatter(updated).body).length,
+      });
     }
-    const filepath = path.join(CHATS_DIR, filename);
-    if (!fs.existsSync(filepath)) {
-      return { content: [{ type: 'text', text: `Chat not found: ${filename}` }] };
+  );
+
+  // ─── Tool: get_messages ───────────────────────────────────────────────────
+
+  server.registerTool(
+    'get_messages',
+    {
+      description: 'Read the parsed messages of a chat, optionally a range of them, with their 0-based indexes. Use before edit_message, delete_message, insert_message or move_message.',
+      inputSchema: {
+        filename: z.string().describe('The .mdx filename in src/content/chats'),
+        start: z.number().int().min(0).optional().default(0).describe('Index of the first message to return'),
+        end: z.number().int().min(0).optional().describe('Index after the last message to return (default: all)'),
+      },
+      outputSchema: {
+        ...entryRefShape,
+        total: z.number().describe('Number of messages in the chat'),
+        messages: z.array(indexedMessageSchema),
+      },
+    },
+    async ({ filename, start, end }) => {
+      let messages;
+      try {
+        ({ messages } = readChat(filename));
+      } catch (err) {
+        return toolError(/** @type {Error} */ (err).message);
+      }
+
+      const range = messages.slice(start, end).map((m, i) => ({ index: start + i, ...m }));
+      const text = range.length
+        ? range.map((m) => `### [${m.index}] ${roleHeading(m.role)}\n\n${m.content}`).join('\n\n')
+        : `No messages in range (the chat has ${messages.length}).`;
+      return toolResult(text, { ...entryRef('chats', filename), total: messages.length, messages: range });
     }
+  );
 
-    const heading = role === 'user' ? 'User' : 'AI';
-    const addition = `\n\n## ${heading}\n\n${content}`;
-    fs.appendFileSync(filepath, addition, 'utf-8');
+  // ─── Tool: edit_message ───────────────────────────────────────────────────
 
-    return {
-      content: [{
-        type: 'text',
-        text: `✅ Appended ${heading} message to ${filename}`,
-      }],
-    };
-  }
-);
-
-// ─── Tool: update_frontmatter ───────────────────────────────────────────────
-
-server.tool(
-  'update_frontmatter',
-  'Update specific frontmatter fields of an existing chat or plan file (e.g. update tldr, tags, action_items, milestones).',
-  {
-    collection: z.enum(['chats', 'plans']).describe('Which collection the file belongs to'),
-    filename: z.string().describe('The .mdx filename'),
-    fields: z.record(z.string(), z.any()).describe('Key-value pairs to update in the frontmatter (e.g. {"tldr": "New summary", "tags": ["a","b"]})'),
-  },
-  async ({ collection, filename, fields }) => {
-    if (!isSafeFilename(filename)) {
-      return { content: [{ type: 'text', text: `Invalid filename: ${filename}` }] };
+  server.registerTool(
+    'edit_message',
+    {
+      description: 'Replace the content and/or role of one chat message by index. Indexes come from get_messages.',
+      inputSchema: {
+        filename: z.string().describe('The .mdx filename in src/content/chats'),
+        index: z.number().int().min(0).describe('0-based index of the message'),
+        content: z.string().optional().describe('New message content (markdown)'),
+        role: z.enum(['user', 'ai']).optional().describe('New role'),
+      },
+      outputSchema: {
+        ...entryRefShape,
+        message: indexedMessageSchema,
+        messages: z.number().describe('Number of messages in the chat'),
+      },
+    },
+    async ({ filename, index, content, role }) => {
+      if (content === undefined && role === undefined) {
+        return toolError('Nothing to change: pass content and/or role');
+      }
+      let after;
+      try {
+        ({ after } = rewriteChat(filename, { type: 'edit', index, content, role }, 'mcp:edit_message'));
+      } catch (err) {
+        return toolError(/** @type {Error} */ (err).message);
+      }
+
+      const message = { index, ...after[index] };
+      return toolResult(`✅ Updated message ${index} (${roleHeading(message.role)}) in ${filename}`, {
+        ...entryRef('chats', filename),
+        message,
+        messages: after.length,
+      });
     }
-    const dir = collection === 'chats' ? CHATS_DIR : PLANS_DIR;
-    const filepath = path.join(dir, filename);
-    if (!fs.existsSync(filepath)) {
-      return { content: [{ type: 'text', text: `File not found: ${filename}` }] };
+  );
+
+  // ─── Tool: delete_message ─────────────────────────────────────────────────
+
+  server.registerTool(
+    'delete_message',
+    {
+      description: 'Delete one chat message by index. The previous version stays in the file history.',
+      inputSchema: {
+        filename: z.string().describe('The .mdx filename in src/content/chats'),
+        index: z.number().int().min(0).describe('0-based index of the message'),
+      },
+      outputSchema: {
+        ...entryRefShape,
+        deleted: indexedMessageSchema,
+        messages: z.number().describe('Number of messages left in the chat'),
+      },
+    },
+    async ({ filename, index }) => {
+      let before, after;
+      try {
+        ({ before, after } = rewriteChat(filename, { type: 'delete', index }, 'mcp:delete_message'));
+      } catch (err) {
+        return toolError(/** @type {Error} */ (err).message);
+      }
+
+      const deleted = { index, ...before[index] };
+      return toolResult(`🗑️ Deleted message ${index} (${roleHeading(deleted.role)}) from ${filename} — undo with the history tool`, {
+        ...entryRef('chats', filename),
+        deleted,
+        messages: after.length,
+      });
     }
+  );
 
-    let raw = fs.readFileSync(filepath, 'utf-8');
-    const fmMatch = raw.match(/^---\n([\s\S]*?)\n---/);
-    if (!fmMatch) {
-      return { content: [{ type: 'text', text: `❌ No frontmatter found in ${filename}` }] };
+  // ─── Tool: insert_message ─────────────────────────────────────────────────
+
+  server.registerTool(
+    'insert_message',
+    {
+      description: 'Insert a User or AI message at an index, shifting later messages down. Use add_message to append.',
+      inputSchema: {
+        filename: z.string().describe('The .mdx filename in src/content/chats'),
+        index: z.number().int().min(0).describe('0-based position for the new message; the message count appends'),
+        role: z.enum(['user', 'ai']).describe('Message role'),
+        content: z.string().describe('Message content (markdown)'),
+      },
+      outputSchema: {
+        ...entryRefShape,
+        message: indexedMessageSchema,
+        messages: z.number().describe('Number of messages in the chat'),
+      },
+    },
+    async ({ filename, index, role, content }) => {
+      let after;
+      try {
+        ({ after } = rewriteChat(filename, { type: 'insert', index, role, content }, 'mcp:insert_message'));
+      } catch (err) {
+        return toolError(/** @type {Error} */ (err).message);
+      }
+
+      return toolResult(`✅ Inserted ${roleHeading(role)} message at ${index} in ${filename}`, {
+        ...entryRef('chats', filename),
+        message: { index, ...after[index] },
+        messages: after.length,
+      });
     }
+  );
 
-    let fmBlock = fmMatch[1];
-    const updated = [];
-
-    for (const [key, value] of Object.entries(fields)) {
-      const serialized = typeof value === 'string'
-        ? `"${value}"`
-        : JSON.stringify(value);
-
-      const lineRegex = new RegExp(`^${key}:.*$`, 'm');
-      if (lineRegex.test(fmBlock)) {
-        if (Array.isArray(value)) {
-          const yamlArr = `[${value.map((v) => typeof v === 'string' ? `"${v}"` : JSON.stringify(v)).join(', ')}]`;
-          fmBlock = fmBlock.replace(lineRegex, `${key}: ${yamlArr}`);
-        } else {
-          fmBlock = fmBlock.replace(lineRegex, `${key}: ${serialized}`);
-        }
-        updated.push(key);
+  // ─── Tool: move_message ───────────────────────────────────────────────────
+
+  server.registerTool(
+    'move_message',
+    {
+      description: 'Move one chat message to another position, e.g. to fix messages logged out of order.',
+      inputSchema: {
+        filename: z.string().describe('The .mdx filename in src/content/chats'),
+        from: z.number().int().min(0).describe('Current 0-based index of the message'),
+        to: z.number().int().min(0).describe('0-based index the message should end up at'),
+      },
+      outputSchema: {
+        ...entryRefShape,
+        from: z.number(),
+        to: z.number(),
+        messages: z.array(indexedMessageSchema.pick({ index: true, role: true })).describe('New order of roles'),
+      },
+    },
+    async ({ filename, from, to }) => {
+      let after;
+      try {
+        ({ after } = rewriteChat(filename, { type: 'move', from, to }, 'mcp:move_message'));
+      } catch (err) {
+        return toolError(/** @type {Error} */ (err).message);
       }
+
+      return toolResult(`✅ Moved message ${from} to ${to} in ${filename}`, {
+        ...entryRef('chats', filename),
+        from,
+        to,
+        messages: after.map((m, index) => ({ index, role: m.role })),
+      });
     }
+  );
 
-    raw = raw.replace(fmMatch[1], fmBlock);
-    fs.writeFileSync(filepath, raw, 'utf-8');
+  // ─── Tool: import_chats ───────────────────────────────────────────────────
 
-    return {
-      content: [{
-        type: 'text',
-        text: `✅ Updated fields [${updated.join(', ')}] in ${collection}/${filename}`,
-      }],
-    };
-  }
-);
-
-// ─── Tool: list_entries ─────────────────────────────────────────────────────
-
-server.tool(
-  'list_entries',
-  'List all existing chats and/or plans with their titles and dates. Use to discover what content exists.',
-  {
-    collection: z.enum(['chats', 'plans', 'all']).optional().default('all').describe('Which collection to list'),
-  },
-  async ({ collection }) => {
-    const results = [];
-
-    if (collection === 'chats' || collection === 'all') {
-      const chatFiles = listMdxFiles(CHATS_DIR);
-      results.push('📝 Chats:');
-      if (chatFiles.length === 0) {
-        results.push('  (none)');
-      } else {
-        for (const f of chatFiles) {
-          const fm = readFrontmatter(path.join(CHATS_DIR, f));
-          results.push(`  • ${f} — ${fm.title || 'Untitled'} (${fm.date || '?'})`);
-        }
+  server.registerTool(
+    'import_chats',
+    {
+      description: 'Import conversations from a ChatGPT or Claude conversations.json export, or a VS Code Copilot chat session export, into the chats collection. Conversations imported before are skipped. Run with dry_run first to preview.',
+      inputSchema: {
+        path: z.string().describe('Path to the export JSON file, absolute or relative to the project root'),
+        tags: z.array(z.string()).optional().describe('Extra tags added to every imported chat'),
+        dry_run: z.boolean().optional().default(false).describe('Only report what would be imported'),
+      },
+      outputSchema: {
+        dryRun: z.boolean(),
+        total: z.number().describe('Conversations found in the export'),
+        created: z.number().describe('Chats created (or that would be, on a dry run)'),
+        conversations: z.array(z.object({
+          title: z.string(),
+          source: z.string().describe('chatgpt, claude or copilot'),
+          status: z.enum(['create', 'duplicate', 'empty']),
+          filename: z.string().describe('New chat file, or the existing one for duplicates'),
+          messages: z.number(),
+        })),
+      },
+    },
+    async ({ path: exportPath, tags, dry_run }) => {
+      const filepath = path.resolve(PROJECT_ROOT, exportPath);
+      if (!fs.existsSync(filepath)) {
+        return toolError(`Export file not found: ${filepath}`);
+      }
+
+      let plan;
+      try {
+        plan = runImport(filepath, PROJECT_ROOT, { tags, dryRun: dry_run });
+      } catch (err) {
+        return toolError(`Import failed: ${err.message}`);
+      }
+      return toolResult(`${dry_run ? '🔍' : '✅'} ${formatImportReport(plan, dry_run)}`, {
+        dryRun: dry_run,
+        total: plan.length,
+        created: plan.filter((p) => p.status === 'create').length,
+        conversations: plan.map((p) => ({
+          title: p.conversation.title,
+          source: p.conversation.source,
+          status: p.status,
+          filename: p.duplicateOf ?? p.filename,
+          messages: p.conversation.messages.length,
+        })),
+      });
+    }
+  );
+
+  // ─── Tool: update_frontmatter ─────────────────────────────────────────────
+
+  server.registerTool(
+    'update_frontmatter',
+    {
+      description: 'Update specific frontmatter fields of an existing chat or plan file (e.g. update tldr, tags). Lists are replaced whole; to change one milestone or action item use set_milestone_status, add_milestone, remove_milestone, add_action_item or toggle_action_item.',
+      inputSchema: {
+        collection: z.enum(['chats', 'plans']).describe('Which collection the file belongs to'),
+        filename: z.string().describe('The .mdx filename'),
+        fields: z.record(z.string(), z.any()).describe('Key-value pairs to set in the frontmatter (e.g. {"tldr": "New summary", "tags": ["a","b"]}). Missing keys are added; null removes a key.'),
+      },
+      outputSchema: {
+        ...entryRefShape,
+        updated: z.array(z.string()).describe('Fields that were set'),
+        removed: z.array(z.string()).describe('Fields that were removed'),
+      },
+    },
+    async ({ collection, filename, fields }) => {
+      if (!isSafeFilename(filename)) {
+        return toolError(`Invalid filename: ${filename}`);
+      }
+      const dir = collection === 'chats' ? CHATS_DIR : PLANS_DIR;
+      const filepath = path.join(dir, filename);
+      if (!fs.existsSync(filepath)) {
+        return toolError(`File not found: ${filename}`);
+      }
+
+      const raw = fs.readFileSync(filepath, 'utf-8');
+      let updatedRaw;
+      try {
+        updatedRaw = updateFrontmatter(raw, fields);
+      } catch (err) {
+        return toolError(`${err.message} in ${filename}`);
+      }
+
+      try {
+        saveEntry(PROJECT_ROOT, collection, filename, updatedRaw, { source: 'mcp:update_frontmatter' });
+      } catch (err) {
+        return toolError(/** @type {Error} */ (err).message);
+      }
+
+      const keys = Object.keys(fields);
+      return toolResult(`✅ Updated fields [${keys.join(', ')}] in ${collection}/${filename}`, {
+        ...entryRef(collection, filename),
+        updated: keys.filter((k) => fields[k] !== null),
+        removed: keys.filter((k) => fields[k] === null),
+      });
+    }
+  );
+
+  // ─── Tool: set_milestone_status ───────────────────────────────────────────
+
+  const milestoneRef = z.union([z.number().int().min(0), z.string().min(1)])
+    .describe('0-based index, or the milestone title (an unambiguous part of it is enough)');
+  const actionItemRef = z.union([z.number().int().min(0), z.string().min(1)])
+    .describe('0-based index, or the task text (an unambiguous part of it is enough)');
+  // Dates come back as they are written in the file, not as Date objects
+  const milestoneOutput = milestoneSchema.extend({ start: isoDate.optional(), end: isoDate.optional() });
+  const milestonesOutput = z.array(milestoneOutput).describe('All milestones after the change');
+  const actionItemsOutput = z.array(actionItemSchema).describe('All action items after the change');
+
+  /** @param {{ title: string, status?: string }[]} milestones */
+  const milestoneProgress = (milestones) =>
+    `${milestones.filter((m) => m.status === 'complete').length}/${milestones.length} complete`;
+
+  server.registerTool(
+    'set_milestone_status',
+    {
+      description: 'Set the status of one plan milestone, e.g. mark the first milestone as complete.',
+      inputSchema: {
+        filename: z.string().describe('The .mdx filename in src/content/plans'),
+        milestone: milestoneRef,
+        status: milestoneSchema.shape.status.removeDefault().describe('New status'),
+      },
+      outputSchema: {
+        ...entryRefShape,
+        index: z.number(),
+        milestone: milestoneOutput,
+        previous: z.string().describe('Status before the change'),
+        milestones: milestonesOutput,
+      },
+    },
+    async ({ filename, milestone, status }) => {
+      let result;
+      try {
+        result = updateList('plans', filename, 'milestones', (list) => setMilestoneStatus(list, milestone, status), 'mcp:set_milestone_status');
+      } catch (err) {
+        return toolError(/** @type {Error} */ (err).message);
+      }
+
+      return toolResult(`✅ "${result.item.title}": ${result.previous} → ${status} (${milestoneProgress(result.list)})`, {
+        ...entryRef('plans', filename),
+        index: result.index,
+        milestone: result.item,
+        previous: result.previous,
+        milestones: result.list,
+      });
+    }
+  );
+
+  // ─── Tool: add_milestone ──────────────────────────────────────────────────
+
+  server.registerTool(
+    'add_milestone',
+    {
+      description: 'Add a milestone to a plan, at the end or at a given position.',
+      inputSchema: {
+        filename: z.string().describe('The .mdx filename in src/content/plans'),
+        title: z.string().min(1).describe('Milestone title'),
+        weeks: z.string().optional().describe('Week range, e.g. "Weeks 5-6"'),
+        start: isoDate.optional().describe('First day (YYYY-MM-DD)'),
+        end: isoDate.optional().describe('Last day (YYYY-MM-DD)'),
+        status: milestoneSchema.shape.status.describe('Initial status'),
+        index: z.number().int().min(0).optional().describe('0-based position (default: the end)'),
+      },
+      outputSchema: {
+        ...entryRefShape,
+        index: z.number(),
+        milestone: milestoneOutput,
+        milestones: milestonesOutput,
+      },
+    },
+    async ({ filename, title, weeks, start, end, status, index }) => {
+      if (!weeks && !start && !end) return toolError('Give the milestone a week range or start/end dates');
+      const milestone = { title, status, ...(weeks ? { weeks } : {}), ...(start ? { start } : {}), ...(end ? { end } : {}) };
+      let result;
+      try {
+        result = updateList('plans', filename, 'milestones', (list) => addMilestone(list, milestone, index), 'mcp:add_milestone');
+      } catch (err) {
+        return toolError(/** @type {Error} */ (err).message);
       }
+
+      const when = [weeks, start && end ? `${start} → ${end}` : start ?? end].filter(Boolean).join(', ');
+      return toolResult(`✅ Added milestone ${result.index}: "${title}" (${when}) to ${filename}`, {
+        ...entryRef('plans', filename),
+        index: result.index,
+        milestone: result.item,
+        milestones: result.list,
+      });
     }
+  );
 
-    if (collection === 'plans' || collection === 'all') {
-      const planFiles = listMdxFiles(PLANS_DIR);
-      results.push('📋 Plans:');
-      if (planFiles.length === 0) {
-        results.push('  (none)');
-      } else {
-        for (const f of planFiles) {
-          const fm = readFrontmatter(path.join(PLANS_DIR, f));
-          results.push(`  • ${f} — ${fm.title || 'Untitled'} (${fm.date || '?'})`);
+  // ─── Tool: schedule_milestone ─────────────────────────────────────────────
+
+  server.registerTool(
+    'schedule_milestone',
+    {
+      description: 'Set the start and end dates of one plan milestone, e.g. to push it back a week. A "Weeks 1-4" label is updated to match.',
+      inputSchema: {
+        filename: z.string().describe('The .mdx filename in src/content/plans'),
+        milestone: milestoneRef,
+        start: isoDate.describe('First day (YYYY-MM-DD)'),
+        end: isoDate.optional().describe('Last day (YYYY-MM-DD, default: same as start)'),
+      },
+      outputSchema: {
+        ...entryRefShape,
+        index: z.number(),
+        milestone: milestoneOutput,
+        overdue: z.boolean().describe('Whether the new end date has already passed and the milestone is not complete'),
+        milestones: milestonesOutput,
+      },
+    },
+    async ({ filename, milestone, start, end = start }) => {
+      let result;
+      let planDate;
+      try {
+        result = updateList('plans', filename, 'milestones', (list, data) => {
+          planDate = data.date;
+          return rescheduleMilestone(list, milestone, { start, end }, data.date);
+        }, 'mcp:schedule_milestone');
+      } catch (err) {
+        return toolError(/** @type {Error} */ (err).message);
+      }
+
+      const overdue = isOverdue(result.item, milestoneSchedule(result.item, planDate), today());
+      const was = milestoneSchedule(result.previous, planDate);
+      return toolResult(
+        `✅ "${result.item.title}": ${was ? `${was.start} → ${was.end}` : 'unscheduled'} ⇒ ${start} → ${end}${overdue ? ' (already overdue)' : ''}`,
+        {
+          ...entryRef('plans', filename),
+          index: result.index,
+          milestone: result.item,
+          overdue,
+          milestones: result.list,
         }
+      );
+    }
+  );
+
+  // ─── Tool: remove_milestone ───────────────────────────────────────────────
+
+  server.registerTool(
+    'remove_milestone',
+    {
+      description: 'Remove one milestone from a plan. The previous version stays in the file history.',
+      inputSchema: {
+        filename: z.string().describe('The .mdx filename in src/content/plans'),
+        milestone: milestoneRef,
+      },
+      outputSchema: {
+        ...entryRefShape,
+        index: z.number(),
+        removed: milestoneOutput,
+        milestones: milestonesOutput,
+      },
+    },
+    async ({ filename, milestone }) => {
+      let result;
+      try {
+        result = updateList('plans', filename, 'milestones', (list) => removeMilestone(list, milestone), 'mcp:remove_milestone');
+      } catch (err) {
+        return toolError(/** @type {Error} */ (err).message);
       }
+
+      return toolResult(`🗑️ Removed milestone ${result.index}: "${result.item.title}" from ${filename}`, {
+        ...entryRef('plans', filename),
+        index: result.index,
+        removed: result.item,
+        milestones: result.list,
+      });
     }
+  );
 
-    return { content: [{ type: 'text', text: results.join('\n') }] };
-  }
-);
-
-// ─── Tool: get_entry ────────────────────────────────────────────────────────
-
-server.tool(
-  'get_entry',
-  'Read the full content of a chat or plan file. Useful to review what has been logged so far.',
-  {
-    collection: z.enum(['chats', 'plans']).describe('Which collection'),
-    filename: z.string().describe('The .mdx filename'),
-  },
-  async ({ collection, filename }) => {
-    if (!isSafeFilename(filename)) {
-      return { content: [{ type: 'text', text: `Invalid filename: ${filename}` }] };
+  // ─── Tool: add_action_item ────────────────────────────────────────────────
+
+  server.registerTool(
+    'add_action_item',
+    {
+      description: 'Add an action item to a chat, at the end or at a given position.',
+      inputSchema: {
+        filename: z.string().describe('The .mdx filename in src/content/chats'),
+        task: z.string().min(1).describe('What needs doing'),
+        done: actionItemSchema.shape.done.describe('Whether it is already done'),
+        index: z.number().int().min(0).optional().describe('0-based position (default: the end)'),
+      },
+      outputSchema: {
+        ...entryRefShape,
+        index: z.number(),
+        actionItem: actionItemSchema,
+        actionItems: actionItemsOutput,
+      },
+    },
+    async ({ filename, task, done, index }) => {
+      let result;
+      try {
+        result = updateList('chats', filename, 'action_items', (list) => addActionItem(list, { task, done }, index), 'mcp:add_action_item');
+      } catch (err) {
+        return toolError(/** @type {Error} */ (err).message);
+      }
+
+      return toolResult(`✅ Added action item ${result.index}: "${task}" to ${filename}`, {
+        ...entryRef('chats', filename),
+        index: result.index,
+        actionItem: result.item,
+        actionItems: result.list,
+      });
     }
-    const dir = collection === 'chats' ? CHATS_DIR : PLANS_DIR;
-    const filepath = path.join(dir, filename);
+  );
 
-    if (!fs.existsSync(filepath)) {
-      return { content: [{ type: 'text', text: `Not found: ${collection}/${filename}` }] };
+  // ─── Tool: toggle_action_item ─────────────────────────────────────────────
+
+  server.registerTool(
+    'toggle_action_item',
+    {
+      description: 'Mark a chat action item done or not done. Without `done` it flips the current state.',
+      inputSchema: {
+        filename: z.string().describe('The .mdx filename in src/content/chats'),
+        item: actionItemRef,
+        done: z.boolean().optional().describe('Set explicitly instead of flipping'),
+      },
+      outputSchema: {
+        ...entryRefShape,
+        index: z.number(),
+        actionItem: actionItemSchema,
+        actionItems: actionItemsOutput,
+      },
+    },
+    async ({ filename, item, done }) => {
+      let result;
+      try {
+        result = updateList('chats', filename, 'action_items', (list) => toggleActionItem(list, item, done), 'mcp:toggle_action_item');
+      } catch (err) {
+        return toolError(/** @type {Error} */ (err).message);
+      }
+
+      const open = result.list.filter((a) => !a.done).length;
+      return toolResult(`✅ ${result.item.done ? '☑' : '☐'} "${result.item.task}" (${open} open)`, {
+        ...entryRef('chats', filename),
+        index: result.index,
+        actionItem: result.item,
+        actionItems: result.list,
+      });
     }
+  );
 
-    const raw = fs.readFileSync(filepath, 'utf-8');
-    return { content: [{ type: 'text', text: raw }] };
-  }
-);
-
-// ─── Tool: build_site ───────────────────────────────────────────────────────
-
-server.tool(
-  'build_site',
-  'Build the Astro static site. Run after creating or modifying content to regenerate all pages.',
-  {},
-  async () => {
-    try {
-      const output = execSync('npm run build', {
-        cwd: PROJECT_ROOT,
-        encoding: 'utf-8',
-        timeout: 60000,
+  // ─── Tool: list_action_items ──────────────────────────────────────────────
+
+  server.registerTool(
+    'list_action_items',
+    {
+      description: 'List action items across every chat, oldest chat first, with the chat they came from and how many days old they are. Tick one off with toggle_action_item using its chat filename and index.',
+      inputSchema: {
+        status: z.enum(ACTION_STATUSES).optional().default('open').describe('Open items, done items or both'),
+        tags: z.array(z.string()).optional().describe('Only items from chats with all of these tags (case-insensitive)'),
+        query: z.string().optional().describe('Only items whose task contains every word'),
+      },
+      outputSchema: {
+        total: z.number(),
+        items: z.array(z.object({
+          id: z.string().describe('<chat slug>#<index>'),
+          task: z.string(),
+          done: z.boolean(),
+          index: z.number().describe('0-based position in the chat\'s action_items'),
+          chat: z.object({
+            filename: z.string(),
+            slug: z.string(),
+            url: z.string(),
+            title: z.string(),
+            date: z.string().nullable(),
+            tags: z.array(z.string()),
+          }),
+          age: z.number().nullable().describe('Days since the chat\'s date; null when it has none'),
+        })),
+      },
+    },
+    async ({ status, tags, query }) => {
+      let items;
+      try {
+        items = listActionItems(PROJECT_ROOT, { status, tags, text: query, today: today() });
+      } catch (err) {
+        return toolError(/** @type {Error} */ (err).message);
+      }
+
+      const label = `${status === 'all' ? '' : `${status} `}action item${items.length !== 1 ? 's' : ''}`;
+      const lines = [`${items.length} ${label}`];
+      if (items.length) lines.push(formatActionItems(items));
+      return toolResult(lines.join('\n'), { total: items.length, items });
+    }
+  );
+
+  // ─── Tool: list_entries ───────────────────────────────────────────────────
+
+  server.registerTool(
+    'list_entries',
+    {
+      description: 'List chats and/or plans, optionally filtered by tag, date range, difficulty, milestone status or free text, sorted and paginated. Use to discover what content exists.',
+      inputSchema: {
+        collection: z.enum(['chats', 'plans', 'all']).optional().default('all').describe('Which collection to list'),
+        tags: z.array(z.string()).optional().describe('Only entries with all of these tags (case-insensitive)'),
+        from: z.string().optional().describe('Only entries dated on or after this YYYY, YYYY-MM or YYYY-MM-DD'),
+        to: z.string().optional().describe('Only entries dated on or before this YYYY, YYYY-MM or YYYY-MM-DD (inclusive)'),
+        difficulty: z.enum(DIFFICULTIES).optional().describe('Only plans of this difficulty'),
+        status: z.enum(MILESTONE_STATUSES).optional().describe('Only plans with at least one milestone in this status'),
+        query: z.string().optional().describe('Only entries whose title, tldr, tags or body contain every word'),
+        sort: z.enum(SORT_KEYS).optional().default('date').describe('Sort by entry date, title or last file change'),
+        order: z.enum(['asc', 'desc']).optional().describe('Defaults to desc for date/updated and asc for title'),
+        limit: z.number().int().min(1).max(MAX_LIMIT).optional().default(DEFAULT_LIMIT).describe('Entries per page'),
+        cursor: z.string().optional().describe('nextCursor from the previous page; keep the same sort and order'),
+        verbose: z.boolean().optional().default(false).describe('Include tags, tldr, difficulty, milestones and action items'),
+      },
+      outputSchema: {
+        total: z.number().describe('Entries matching the filters, across all pages'),
+        count: z.number().describe('Entries on this page'),
+        nextCursor: z.string().optional().describe('Pass as cursor to get the next page; absent on the last page'),
+        entries: z.array(z.object({
+          ...entryRefShape,
+          title: z.string(),
+          date: z.string().nullable().describe('YYYY-MM-DD, or null if missing'),
+          updated: z.string().optional().describe('ISO timestamp of the last file change (verbose)'),
+          tags: z.array(z.string()),
+          tldr: z.string().optional(),
+          difficulty: z.string().optional().describe('Plans only (verbose)'),
+          milestones: z.array(z.record(z.string(), z.any())).optional().describe('Plan milestones (verbose)'),
+          actionItems: z.array(z.record(z.string(), z.any())).optional().describe('Chat action items (verbose)'),
+        })),
+      },
+    },
+    async ({ collection, query, verbose, ...filters }) => {
+      let page;
+      try {
+        page = queryEntries(loadEntries(PROJECT_ROOT, collection), { ...filters, text: query });
+      } catch (err) {
+        return toolError(/** @type {Error} */ (err).message);
+      }
+
+      const lines = [`Showing ${page.entries.length} of ${page.total} entr${page.total === 1 ? 'y' : 'ies'}`];
+      if (page.entries.length) lines.push(formatEntryList(page.entries, { verbose }));
+      if (page.nextCursor) lines.push('', `More results — pass cursor: ${page.nextCursor}`);
+
+      return toolResult(lines.join('\n'), {
+        total: page.total,
+        count: page.entries.length,
+        ...(page.nextCursor ? { nextCursor: page.nextCursor } : {}),
+        entries: page.entries.map((e) => entrySummary(e, verbose)),
       });
-      const lines = output.split('\n').filter((l) => l.includes('└─') || l.includes('Complete') || l.includes('page(s)'));
-      return {
-        content: [{
-          type: 'text',
-          text: `✅ Build successful!\n${lines.join('\n')}`,
-        }],
-      };
-    } catch (err) {
-      return {
-        content: [{
-          type: 'text',
-          text: `❌ Build failed:\n${err.stderr || err.message}`,
-        }],
-      };
     }
-  }
-);
-
-// ─── Tool: delete_entry ─────────────────────────────────────────────────────
-
-server.tool(
-  'delete_entry',
-  'Delete a chat or plan MDX file. Use carefully — this is permanent.',
-  {
-    collection: z.enum(['chats', 'plans']).describe('Which collection'),
-    filename: z.string().describe('The .mdx filename to delete'),
-  },
-  async ({ collection, filename }) => {
-    if (!isSafeFilename(filename)) {
-      return { content: [{ type: 'text', text: `Invalid filename: ${filename}` }] };
+  );
+
+  // ─── Tool: search_entries ─────────────────────────────────────────────────
+
+  server.registerTool(
+    'search_entries',
+    {
+      description: 'Ranked keyword search across chat messages and plan sections. Returns the best-matching excerpts with filename, message index and role, so past sessions can be cited without reading whole files.',
+      inputSchema: {
+        query: z.string().min(1).describe('Keywords; every word must match (prefixes count, e.g. "listen" finds "listeners")'),
+        collection: z.enum(['chats', 'plans', 'all']).optional().default('all').describe('Which collection to search'),
+        limit: z.number().int().min(1).max(50).optional().default(10).describe('Maximum number of entries'),
+        matchesPerEntry: z.number().int().min(1).max(10).optional().default(3).describe('Maximum excerpts per entry'),
+      },
+      outputSchema: {
+        count: z.number(),
+        results: z.array(z.object({
+          ...entryRefShape,
+          title: z.string(),
+          date: z.string().nullable(),
+          score: z.number().describe('Relevance; higher is better'),
+          matches: z.array(z.object({
+            messageIndex: z.number().optional().describe('0-based index of the chat message (chats)'),
+            role: z.enum(['user', 'ai']).optional().describe('Who wrote the message (chats)'),
+            section: z.string().optional().describe('Section heading, "Introduction" or "Milestone" (plans)'),
+            url: z.string().describe('Link to the message or section on the site'),
+            excerpt: z.string().describe('Text around the match, matched words in **bold**'),
+          })),
+        })),
+      },
+    },
+    async ({ query, collection, limit, matchesPerEntry }) => {
+      let results;
+      try {
+        results = searchEntries(PROJECT_ROOT, query, { collection, limit, maxHits: matchesPerEntry });
+      } catch (err) {
+        return toolError(/** @type {Error} */ (err).message);
+      }
+      if (!results.length) return toolResult(`No matches for "${query}".`, { count: 0, results });
+
+      const lines = results.flatMap((r) => [
+        `${r.collection === 'chats' ? '📝' : '📋'} ${r.filename} — ${r.title} (${r.date ?? '?'})`,
+        ...r.matches.map((m) => {
+          const where = m.messageIndex !== undefined ? `message ${m.messageIndex} · ${m.role === 'user' ? 'User' : 'AI'}` : m.section;
+          return `  [${where}] ${m.excerpt}`;
+        }),
+        '',
+      ]);
+      return toolResult(lines.join('\n').trimEnd(), { count: results.length, results });
     }
-    const dir = collection === 'chats' ? CHATS_DIR : PLANS_DIR;
-    const filepath = path.join(dir, filename);
+  );
+
+  // ─── Tool: get_entry ──────────────────────────────────────────────────────
+
+  server.registerTool(
+    'get_entry',
+    {
+      description: 'Read the full content of a chat or plan file. Useful to review what has been logged so far.',
+      inputSchema: {
+        collection: z.enum(['chats', 'plans']).describe('Which collection'),
+        filename: z.string().describe('The .mdx filename'),
+      },
+      outputSchema: {
+        ...entryRefShape,
+        frontmatter: z.record(z.string(), z.any()).nullable().describe('Parsed frontmatter, or null if the YAML is malformed'),
+        body: z.string().describe('Markdown body after the frontmatter'),
+      },
+    },
+    async ({ collection, filename }) => {
+      if (!isSafeFilename(filename)) {
+        return toolError(`Invalid filename: ${filename}`);
+      }
+      const dir = collection === 'chats' ? CHATS_DIR : PLANS_DIR;
+      const filepath = path.join(dir, filename);
+
+      if (!fs.existsSync(filepath)) {
+        return toolError(`Not found: ${collection}/${filename}`);
+      }
 
-    if (!fs.existsSync(filepath)) {
-      return { content: [{ type: 'text', text: `Not found: ${collection}/${filename}` }] };
+      const raw = fs.readFileSync(filepath, 'utf-8');
+      let parsed;
+      try {
+        parsed = parseFrontmatter(raw);
+      } catch {
+        parsed = { data: null, body: splitFrontmatter(raw).body };
+      }
+      return toolResult(raw, { ...entryRef(collection, filename), frontmatter: parsed.data, body: parsed.body });
     }
+  );
 
-    fs.unlinkSync(filepath);
-    return { content: [{ type: 'text', text: `Deleted: ${collection}/${filename}` }] };
-  }
-);
+  // ─── Tool: build_site ─────────────────────────────────────────────────────
+
+  server.registerTool(
+    'build_site',
+    {
+      description: 'Build the Astro site after creating or modifying content. Runs in the background with progress notifications. If `npm run dev` is running, nothing is built, as the dev server reloads changed entries by itself; with changed_only, only entries changed since the last build are rebuilt.',
+      inputSchema: {
+        changed_only: z.boolean().optional().default(false).describe('Rebuild only entries changed since the last build (falls back to a full build if there is none)'),
+        force: z.boolean().optional().default(false).describe('Build even if a dev server is running'),
+      },
+      outputSchema: {
+        mode: z.enum(['full', 'changed', 'skipped', 'dev']).describe('full build, changed-only build, skipped (nothing changed) or dev (a dev server is running and reloads content itself)'),
+        success: z.boolean(),
+        durationMs: z.number(),
+        pages: z.array(z.object({
+          route: z.string().describe('Route written by the build'),
+          ms: z.number().nullable().describe('Render time'),
+        })),
+        errors: z.array(z.string()).describe('Build errors, empty on success'),
+        changes: z.object({
+          changed: z.array(z.string()).describe('<collection>/<filename> added or edited since the last build'),
+          removed: z.array(z.string()).describe('<collection>/<filename> deleted since the last build'),
+        }).nullable().describe('null when there is no previous build to compare with'),
+        devUrl: z.string().optional().describe('The dev server that is running (mode "dev")'),
+      },
+    },
+    async ({ changed_only, force }, extra) => {
+      const progressToken = extra._meta?.progressToken;
+      let progress = 0;
+      const result = await buildSite(PROJECT_ROOT, {
+        changedOnly: changed_only,
+        force,
+        devUrl: process.env.ASTRO_DEV_URL,
+        signal: extra.signal,
+        onProgress: ({ message, count, total }) => {
+          if (progressToken === undefined) return;
+          progress = Math.max(progress + 1, count ?? 0);
+          extra.sendNotification({
+            method: 'notifications/progress',
+            params: { progressToken, progress, ...(total ? { total: Math.max(total, progress) } : {}), message },
+          }).catch(() => { /* client went away */ });
+        },
+      });
+
+      const seconds = (result.durationMs / 1000).toFixed(1);
+      const changed = result.changes ? `${result.changes.changed.length} changed, ${result.changes.removed.length} removed` : '';
+      if (!result.success) {
+        const built = result.pages.length ? `\n(${result.pages.length} pages were written before it failed)` : '';
+        return toolError(`Build failed after ${seconds}s:\n${result.errors.join('\n')}${built}`);
+      }
+      const summary = {
+        dev: `🔄 Dev server at ${result.devUrl} is running and reloads content changes by itself — nothing to build${changed ? ` (${changed})` : ''}`,
+        skipped: '✅ Site is up to date — nothing changed since the last build',
+        changed: `✅ Rebuilt ${result.pages.length} pages for changed entries in ${seconds}s (${changed})`,
+        full: `✅ Built ${result.pages.length} pages in ${seconds}s`,
+      }[result.mode];
+      return toolResult([summary, ...result.pages.map((p) => `  └─ ${p.route}`)].join('\n'), result);
+    }
+  );
+
+  // ─── Tool: check_content ──────────────────────────────────────────────────
+
+  server.registerTool(
+    'check_content',
+    {
+      description: 'Audit every chat and plan for problems that break the build or the page: schema violations, chats without messages, leftover scaffold comments, empty action items and milestones, duplicate titles and slugs, links to missing entries, unclosed code fences and headings other than ## User / ## AI. With fix, repairs the mechanical ones first.',
+      inputSchema: {
+        fix: z.boolean().optional().default(false).describe('Fix scaffold comments, empty items, role headings and unclosed fences before reporting'),
+      },
+      outputSchema: {
+        files: z.number().describe('Files checked'),
+        issues: z.array(z.object({
+          collection: z.enum(['chats', 'plans']),
+          filename: z.string(),
+          rule: z.enum(CHECK_RULES),
+          message: z.string(),
+          line: z.number().optional().describe('1-based line in the file'),
+          fixable: z.boolean().describe('Whether fix: true would repair it'),
+        })).describe('Problems left after any fixes'),
+        fixed: z.array(z.object({
+          collection: z.enum(['chats', 'plans']),
+          filename: z.string(),
+          rules: z.array(z.enum(CHECK_RULES)),
+        })),
+        failed: z.array(z.object({
+          collection: z.enum(['chats', 'plans']),
+          filename: z.string(),
+          error: z.string(),
+        })).describe('Files whose fixes could not be saved'),
+      },
+    },
+    async ({ fix }) => {
+      try {
+        const result = checkContent(PROJECT_ROOT, { fix, source: 'mcp:check_content' });
+        return toolResult(formatCheckReport(result, 'fix: true'), result);
+      } catch (err) {
+        return toolError(/** @type {Error} */ (err).message);
+      }
+    }
+  );
+
+  // ─── Tool: delete_entry ───────────────────────────────────────────────────
+
+  server.registerTool(
+    'delete_entry',
+    {
+      description: `Move a chat or plan MDX file to the trash. It disappears from the site but can be brought back with restore_entry until the trash is emptied${RETENTION_DAYS ? ` or it is purged after ${RETENTION_DAYS} days` : ''}.`,
+      inputSchema: {
+        collection: z.enum(['chats', 'plans']).describe('Which collection'),
+        filename: z.string().describe('The .mdx filename to delete'),
+      },
+      outputSchema: {
+        ...entryRefShape,
+        deletedAt: z.string().describe('ISO timestamp'),
+        retentionDays: z.number().describe('Days until it is purged from the trash (0 = never)'),
+      },
+    },
+    async ({ collection, filename }) => {
+      if (!isSafeFilename(filename)) {
+        return toolError(`Invalid filename: ${filename}`);
+      }
+      const dir = collection === 'chats' ? CHATS_DIR : PLANS_DIR;
+      const filepath = path.join(dir, filename);
+
+      if (!fs.existsSync(filepath)) {
+        return toolError(`Not found: ${collection}/${filename}`);
+      }
+
+      try {
+        const item = trashEntry(PROJECT_ROOT, collection, filename, { source: 'mcp:delete_entry' });
+        return toolResult(
+          `🗑️ Moved ${collection}/${filename} to the trash — restore it with restore_entry`,
+          { ...entryRef(collection, filename), deletedAt: item.deletedAt, retentionDays: RETENTION_DAYS },
+        );
+      } catch (err) {
+        return toolError(/** @type {Error} */ (err).message);
+      }
+    }
+  );
+
+  // ─── Tool: list_trash ─────────────────────────────────────────────────────
+
+  server.registerTool(
+    'list_trash',
+    {
+      description: 'List chats and plans in the trash, with when they were deleted and when they will be purged.',
+      inputSchema: {},
+      outputSchema: {
+        retentionDays: z.number().describe('Days items stay in the trash (0 = forever)'),
+        items: z.array(trashItemSchema),
+      },
+    },
+    async () => {
+      purgeExpired(PROJECT_ROOT, { retentionDays: RETENTION_DAYS });
+      const items = listTrash(PROJECT_ROOT);
+      const structured = { retentionDays: RETENTION_DAYS, items };
+      if (!items.length) return toolResult('The trash is empty.', structured);
+      return toolResult(
+        `🗑️ Trash (${items.length}):\n${formatTrashList(items, { retentionDays: RETENTION_DAYS })}`,
+        structured,
+      );
+    }
+  );
+
+  // ─── Tool: restore_entry ──────────────────────────────────────────────────
+
+  server.registerTool(
+    'restore_entry',
+    {
+      description: 'Restore a chat or plan from the trash to its collection.',
+      inputSchema: {
+        collection: z.enum(['chats', 'plans']).describe('Which collection'),
+        filename: z.string().describe('The .mdx filename, as shown by list_trash'),
+      },
+      outputSchema: entryRefShape,
+    },
+    async ({ collection, filename }) => {
+      if (!isSafeFilename(filename)) {
+        return toolError(`Invalid filename: ${filename}`);
+      }
+      purgeExpired(PROJECT_ROOT, { retentionDays: RETENTION_DAYS });
+      try {
+        restoreEntry(PROJECT_ROOT, collection, filename, { source: 'mcp:restore_entry' });
+      } catch (err) {
+        return toolError(err.message);
+      }
+      return toolResult(`✅ Restored ${collection}/${filename} from the trash`, entryRef(collection, filename));
+    }
+  );
+
+  // ─── Tool: empty_trash ────────────────────────────────────────────────────
+
+  server.registerTool(
+    'empty_trash',
+    {
+      description: 'Permanently delete items in the trash, including their revision history. This cannot be undone. Without a `confirm` token it only previews what would be deleted and returns the token to pass on a second call — show the preview to the user and only confirm when they ask for it.',
+      inputSchema: {
+        collection: z.enum(['chats', 'plans']).optional().describe('Only empty this collection'),
+        filename: z.string().optional().describe('Only delete this .mdx file'),
+        confirm: z.string().optional().describe('Token from the preview call'),
+      },
+      outputSchema: {
+        status: z.enum(['preview', 'deleted']).describe('"preview" until the call carries a matching token'),
+        items: z.array(trashItemSchema).describe('Items that would be, or were, deleted'),
+        token: z.string().optional().describe('Pass as `confirm` to delete the previewed items'),
+      },
+    },
+    async ({ collection, filename, confirm }) => {
+      purgeExpired(PROJECT_ROOT, { retentionDays: RETENTION_DAYS });
+      const items = previewEmptyTrash(PROJECT_ROOT, { collection, filename });
+      if (!items.length) return toolResult('Nothing in the trash matches.', { status: 'deleted', items: [] });
+
+      const token = confirmationToken(items);
+      if (requiresConfirmation() && confirm !== token) {
+        const preview = `⚠️ This will permanently delete ${items.length} item${items.length !== 1 ? 's' : ''}:\n`
+          + `${formatTrashList(items, { retentionDays: RETENTION_DAYS })}\n\n`
+          + `Call empty_trash again with confirm: "${token}" to proceed.`;
+        // A stale token is an error, but the agent still needs the new preview
+        if (confirm) {
+          return {
+            content: [{ type: 'text', text: `❌ The confirmation token does not match the trash any more.\n\n${preview}` }],
+            isError: true,
+          };
+        }
+        return toolResult(preview, { status: 'preview', items, token });
+      }
+
+      const removed = emptyTrash(PROJECT_ROOT, { collection, filename });
+      return toolResult(
+        `✅ Permanently deleted ${removed.length} item${removed.length !== 1 ? 's' : ''}:\n${removed.map((i) => `  • ${i.collection}/${i.filename}`).join('\n')}`,
+        { status: 'deleted', items: removed },
+      );
+    }
+  );
+
+  // ─── Tool: history ────────────────────────────────────────────────────────
+
+  server.registerTool(
+    'history',
+    {
+      description: 'Revision history of chats and plans. Every write records a revision. "list" shows an entry\'s revisions, "diff" shows what a revision changed, "restore" brings an entry back to a revision (also undeletes it) and "deleted" lists deleted entries that can be restored.',
+      inputSchema: {
+        action: z.enum(['list', 'diff', 'restore', 'deleted']).describe('What to do'),
+        collection: z.enum(['chats', 'plans']).optional().describe('Which collection (not needed for "deleted")'),
+        filename: z.string().optional().describe('The .mdx filename (not needed for "deleted")'),
+        revision: z.string().optional().describe('Revision id from "list", or "current" for the file on disk. Required for "restore"; "diff" defaults to the latest revision'),
+        against: z.string().optional().describe('For "diff": revision id (or "current") to compare with. Defaults to the revision before'),
+      },
+      outputSchema: {
+        action: z.enum(['list', 'diff', 'restore', 'deleted']),
+        collection: z.enum(['chats', 'plans']).optional(),
+        filename: z.string().optional(),
+        revisions: z.array(z.object({
+          id: z.string(),
+          timestamp: z.string(),
+          action: z.string(),
+          source: z.string(),
+          hash: z.string(),
+          size: z.number(),
+        })).optional().describe('"list": revisions, newest first'),
+        from: z.string().optional().describe('"diff": older side'),
+        to: z.string().optional().describe('"diff": newer side'),
+        diff: z.string().optional().describe('"diff": unified diff, empty if identical'),
+        restored: z.string().optional().describe('"restore": the revision restored'),
+        deleted: z.array(z.object({
+          collection: z.enum(['chats', 'plans']),
+          filename: z.string(),
+          deletedAt: z.string(),
+          revisions: z.number(),
+        })).optional().describe('"deleted": deleted entries, most recent first'),
+      },
+    },
+    async ({ action, collection, filename, revision, against }) => {
+      if (action === 'deleted') {
+        const deleted = listDeletedEntries(PROJECT_ROOT);
+        if (!deleted.length) return toolResult('No deleted entries in history.', { action, deleted });
+        const lines = deleted.map((d) => `  • ${d.collection}/${d.filename} — deleted ${d.deletedAt} (${d.revisions} revisions)`);
+        return toolResult(`🗑️ Deleted entries:\n${lines.join('\n')}`, { action, deleted });
+      }
+
+      if (!collection || !filename || !isSafeFilename(filename)) {
+        return toolError(`"${action}" needs a collection and a valid .mdx filename`);
+      }
+
+      if (action === 'list') {
+        try {
+          const revisions = listRevisions(PROJECT_ROOT, collection, filename);
+          if (!revisions.length) return toolResult(`No history for ${collection}/${filename}`, { action, collection, filename, revisions });
+          return toolResult(
+            `📜 ${collection}/${filename} — ${revisions.length} revision${revisions.length !== 1 ? 's' : ''} (newest first):\n${formatRevisionList(revisions)}`,
+            { action, collection, filename, revisions },
+          );
+        } catch (err) {
+          return toolError(/** @type {Error} */ (err).message);
+        }
+      }
+
+      if (action === 'diff') {
+        try {
+          const { from, to, lines } = diffRevisions(PROJECT_ROOT, collection, filename, { revision, against });
+          const diff = formatUnifiedDiff(lines, { from, to });
+          return toolResult(
+            diff ? `\`\`\`diff\n${diff}\n\`\`\`` : `No differences between ${from} and ${to}`,
+            { action, collection, filename, from, to, diff },
+          );
+        } catch (err) {
+          return toolError(err.message);
+        }
+      }
+
+      if (!revision) {
+        return toolError('"restore" needs a revision id (see action "list")');
+      }
+      try {
+        if (!restoreRevision(PROJECT_ROOT, collection, filename, revision, { source: 'mcp:history' })) {
+          return toolError(`Revision not found: ${revision}`);
+        }
+        return toolResult(
+          `✅ Restored ${collection}/${filename} to revision ${revision}`,
+          { action, collection, filename, restored: revision },
+        );
+      } catch (err) {
+        return toolError(/** @type {Error} */ (err).message);
+      }
+    }
+  );
+
+  // ─── Tool: export_entry ───────────────────────────────────────────────────
+
+  server.registerTool(
+    'export_entry',
+    {
+      description: 'Export a chat or plan for sharing outside the site: a self-contained HTML file (inlined styles, highlighted code, prints cleanly to PDF) or a CommonMark file. Written to exports/ in the project.',
+      inputSchema: {
+        collection: z.enum(['chats', 'plans']).describe('Which collection'),
+        filename: z.string().describe('The .mdx filename'),
+        format: z.enum(['html', 'markdown']).optional().describe('Output format (default: html)'),
+        theme: z.enum(['light', 'dark', 'auto']).optional().describe('HTML color theme; auto follows the reader\'s system (default: auto)'),
+      },
+      outputSchema: {
+        ...entryRefShape,
+        format: z.enum(['html', 'markdown']),
+        path: z.string().describe('Written file, relative to the project root'),
+        bytes: z.number(),
+      },
+    },
+    async ({ collection, filename, format = 'html', theme = 'auto' }) => {
+      if (!isSafeFilename(filename)) {
+        return toolError(`Invalid filename: ${filename}`);
+      }
+      const dir = collection === 'chats' ? CHATS_DIR : PLANS_DIR;
+      if (!fs.existsSync(path.join(dir, filename))) {
+        return toolError(`Not found: ${collection}/${filename}`);
+      }
+
+      try {
+        const target = await exportToFile(PROJECT_ROOT, collection, filename, { format, theme });
+        const bytes = fs.statSync(target).size;
+        const relative = path.relative(PROJECT_ROOT, target);
+        return toolResult(
+          `✅ Exported ${collection}/${filename} → ${relative} (${(bytes / 1024).toFixed(1)} KB)${format === 'html' ? '\nOpen it in a browser and print to save as PDF.' : ''}`,
+          { ...entryRef(collection, filename), format, path: relative, bytes },
+        );
+      } catch (err) {
+        return toolError(/** @type {Error} */ (err).message);
+      }
+    }
+  );
+
+  return server;
+}
 
 // ─── Start ──────────────────────────────────────────────────────────────────
 
-const transport = new StdioServerTransport();
-await server.connect(transport);
+purgeExpired(PROJECT_ROOT, { retentionDays: RETENTION_DAYS });
+
+watchContent(PROJECT_ROOT, () => {
+  for (const server of liveServers) {
+    if (server.isConnected()) server.sendResourceListChanged();
+  }
+});
+
+const options = parseTransportArgs(process.argv.slice(2));
+if (options.transport === 'http') {
+  const log = (/** @type {string} */ message) => console.error(`[mcp] ${message}`);
+  try {
+    const { url } = await startHttpServer(createServer, { ...options, log });
+    log(`listening on ${url}${options.token ? ' (bearer token required)' : ''}`);
+  } catch (err) {
+    log(`❌ ${err.message}`);
+    process.exit(1);
+  }
+} else {
+  await createServer().connect(new StdioServerTransport());
+}
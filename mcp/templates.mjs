@@ -0,0 +1,188 @@
+/**
+ * Plan templates: reusable starting points for new plans.
+ *
+ * Each template is a Markdown file in `templates/`. Its frontmatter holds the
+ * plan's defaults (title, tags, tl;dr, duration, difficulty and milestones)
+ * next to the template's `name`, `description` and `variables`; its body is
+ * the section skeleton. `{{variable}}` placeholders are filled in everywhere
+ * when a plan is created from it by `create_plan`, `npm run plan` or
+ * /plans/new. `{{date}}` is always available and is the plan's date.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { parseFrontmatter, formatFieldErrors } from './frontmatter.mjs';
+import { templateSchema } from './schema.mjs';
+
+/**
+ * @typedef {{ name: string, description: string, default?: string }} TemplateVariable
+ * @typedef {{ title: string, weeks: string }} TemplateMilestone
+ * @typedef {{
+ *   id: string,
+ *   name: string,
+ *   description: string,
+ *   variables: TemplateVariable[],
+ *   title: string,
+ *   tags: string[],
+ *   tldr?: string,
+ *   duration?: string,
+ *   difficulty?: 'beginner' | 'intermediate' | 'advanced',
+ *   milestones: TemplateMilestone[],
+ *   sections: string[],
+ *   body: string,
+ * }} PlanTemplate
+ */
+
+export const TEMPLATES_DIR = 'templates';
+
+const BUILTIN_VARIABLES = ['date'];
+const PLACEHOLDER_RE = /\{\{\s*([\w-]+)\s*\}\}/g;
+const ID_RE = /^[a-z0-9][a-z0-9-]*$/;
+
+/**
+ * @param {string} rootDir
+ * @returns {string}
+ */
+export function templatesDir(rootDir) {
+  return path.join(rootDir, TEMPLATES_DIR);
+}
+
+/**
+ * Names of the placeholders used in a string, in order of first use.
+ * @param {string} text
+ * @returns {string[]}
+ */
+function placeholders(text) {
+  return [...new Set([...text.matchAll(PLACEHOLDER_RE)].map((m) => m[1]))];
+}
+
+/**
+ * Parse and check one template file. Throws with the file name when the
+ * frontmatter does not match the template schema or a placeholder is not a
+ * declared variable.
+ * @param {string} id
+ * @param {string} raw
+ * @returns {PlanTemplate}
+ */
+export function parseTemplate(id, raw) {
+  const file = `${TEMPLATES_DIR}/${id}.md`;
+  let parsed;
+  try {
+    parsed = parseFrontmatter(raw);
+  } catch (err) {
+    throw new Error(`Invalid template ${file}: ${/** @type {Error} */ (err).message}`);
+  }
+  const result = templateSchema.safeParse(parsed.data);
+  if (!result.success) {
+    const errors = result.error.issues.map((issue) => ({ path: issue.path.join('.') || '(root)', message: issue.message }));
+    throw new Error(`Invalid template ${file}:\n${formatFieldErrors(errors)}`);
+  }
+
+  const { variables, ...plan } = result.data;
+  const body = parsed.body.trim();
+  const declared = [...BUILTIN_VARIABLES, ...Object.keys(variables)];
+  const unknown = placeholders(JSON.stringify(plan) + body).filter((name) => !declared.includes(name));
+  if (unknown.length) {
+    throw new Error(`Invalid template ${file}: ${unknown.map((n) => `{{${n}}}`).join(', ')} ${unknown.length === 1 ? 'is' : 'are'} not declared under variables`);
+  }
+
+  return {
+    id,
+    ...plan,
+    variables: Object.entries(variables).map(([name, v]) => ({ name, ...v })),
+    sections: body.split('\n').filter((l) => /^## /.test(l)).map((l) => l.slice(3).trim()),
+    body,
+  };
+}
+
+/**
+ * Every template in `templates/`, by name. Throws on the first invalid one.
+ * @param {string} rootDir
+ * @returns {PlanTemplate[]}
+ */
+export function listTemplates(rootDir) {
+  const dir = templatesDir(rootDir);
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir)
+    .filter((f) => f.endsWith('.md') && ID_RE.test(f.slice(0, -3)))
+    .map((f) => parseTemplate(f.slice(0, -3), fs.readFileSync(path.join(dir, f), 'utf-8')))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * @param {string} rootDir
+ * @param {string} id  File name without `.md`, e.g. `interview-prep`
+ * @returns {PlanTemplate}
+ */
+export function loadTemplate(rootDir, id) {
+  const filepath = path.join(templatesDir(rootDir), `${id}.md`);
+  if (!ID_RE.test(id) || !fs.existsSync(filepath)) {
+    const ids = listTemplates(rootDir).map((t) => t.id);
+    throw new Error(`No template "${id}"${ids.length ? ` (use ${ids.join(', ')})` : ` — add one to ${TEMPLATES_DIR}/`}`);
+  }
+  return parseTemplate(id, fs.readFileSync(filepath, 'utf-8'));
+}
+
+/**
+ * Fill in a template's placeholders. Variables without a value take their
+ * default; it is an error to leave one without either, or to pass one the
+ * template does not declare.
+ * @param {PlanTemplate} template
+ * @param {{ date: string, variables?: Record<string, string> }} options
+ * @returns {{
+ *   title: string,
+ *   tags: string[],
+ *   tldr?: string,
+ *   duration?: string,
+ *   difficulty?: PlanTemplate['difficulty'],
+ *   milestones: TemplateMilestone[],
+ *   body: string,
+ * }}
+ */
+export function fillTemplate(template, { date, variables = {} }) {
+  const names = template.variables.map((v) => v.name);
+  const extra = Object.keys(variables).filter((name) => !names.includes(name));
+  if (extra.length) {
+    throw new Error(`Template "${template.id}" has no variable ${extra.join(', ')}${names.length ? ` (it takes ${names.join(', ')})` : ''}`);
+  }
+
+  /** @type {Record<string, string>} */
+  const values = { date };
+  const missing = [];
+  for (const v of template.variables) {
+    const value = variables[v.name]?.trim() || v.default;
+    if (value === undefined) missing.push(v);
+    else values[v.name] = value;
+  }
+  if (missing.length) {
+    throw new Error(`Template "${template.id}" needs ${missing.map((v) => (v.description ? `${v.name} (${v.description})` : v.name)).join(', ')}`);
+  }
+
+  /** @param {string} text */
+  const fill = (text) => text.replace(PLACEHOLDER_RE, (_, name) => values[name]);
+  return {
+    title: fill(template.title),
+    tags: [...new Set(template.tags.map(fill).map((t) => t.trim()).filter(Boolean))],
+    ...(template.tldr !== undefined ? { tldr: fill(template.tldr) } : {}),
+    ...(template.duration !== undefined ? { duration: fill(template.duration) } : {}),
+    ...(template.difficulty ? { difficulty: template.difficulty } : {}),
+    milestones: template.milestones.map((m) => ({ title: fill(m.title), weeks: fill(m.weeks) })),
+    body: fill(template.body),
+  };
+}
+
+/**
+ * Text listing shared by the tool and the CLI.
+ * @param {PlanTemplate[]} templates
+ * @returns {string}
+ */
+export function formatTemplateList(templates) {
+  return templates
+    .map((t) => [
+      `  📐 ${t.id} — ${t.name}${t.difficulty ? ` (${t.difficulty})` : ''}`,
+      ...(t.description ? [`      ↳ ${t.description}`] : []),
+      ...t.variables.map((v) => `      ↳ {{${v.name}}}${v.description ? ` ${v.description}` : ''}${v.default !== undefined ? ` [default: ${v.default}]` : ''}`),
+      `      ↳ ${t.milestones.length} milestone${t.milestones.length !== 1 ? 's' : ''} · ${t.sections.join(' · ')}`,
+    ].join('\n'))
+    .join('\n');
+}
@@ -0,0 +1,235 @@
+/**
+ * Trash for deleted chats and plans.
+ *
+ * Deleting an entry moves its file from `src/content/<collection>/` to
+ * `.trash/<collection>/`, so it drops out of the content collections but can
+ * be restored. Items older than the retention period are purged; purging or
+ * emptying the trash deletes the file and its revision history for good.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { contentHash, ensureDir } from './utils.mjs';
+import { contentDir, deleteEntry, purgeHistory, writeEntry } from './history.mjs';
+
+/**
+ * @typedef {import('./history.mjs').Collection} Collection
+ * @typedef {{ collection: Collection, filename: string, deletedAt: string, source: string }} TrashItem
+ */
+
+export const DEFAULT_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Retention period from `TRASH_RETENTION_DAYS` (0 keeps items forever).
+ * @param {Record<string, string | undefined>} [env]
+ * @returns {number}
+ */
+export function trashRetentionDays(env = process.env) {
+  const days = Number(env.TRASH_RETENTION_DAYS);
+  return env.TRASH_RETENTION_DAYS !== undefined && Number.isFinite(days) && days >= 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+/**
+ * Whether permanent deletion needs a confirmation token. On unless
+ * `TRASH_REQUIRE_CONFIRM` is `false`.
+ * @param {Record<string, string | undefined>} [env]
+ * @returns {boolean}
+ */
+export function requiresConfirmation(env = process.env) {
+  return env.TRASH_REQUIRE_CONFIRM !== 'false';
+}
+
+/** @param {string} rootDir */
+function indexFile(rootDir) {
+  return path.join(rootDir, '.trash', 'index.json');
+}
+
+/**
+ * @param {string} rootDir
+ * @param {Collection} collection
+ * @param {string} filename
+ */
+function trashPath(rootDir, collection, filename) {
+  return path.join(rootDir, '.trash', collection, filename);
+}
+
+/**
+ * @param {string} rootDir
+ * @returns {TrashItem[]}
+ */
+function readIndex(rootDir) {
+  const file = indexFile(rootDir);
+  if (!fs.existsSync(file)) return [];
+  return JSON.parse(fs.readFileSync(file, 'utf-8'));
+}
+
+/**
+ * @param {string} rootDir
+ * @param {TrashItem[]} items
+ */
+function writeIndex(rootDir, items) {
+  ensureDir(path.dirname(indexFile(rootDir)));
+  fs.writeFileSync(indexFile(rootDir), `${JSON.stringify(items, null, 2)}\n`, 'utf-8');
+}
+
+/** @param {{ collection: string, filename: string }} item */
+const keyOf = (item) => `${item.collection}/${item.filename}`;
+
+/**
+ * Move an entry to the trash. Trashing a filename that is already in the trash
+ * replaces the older copy (it is still in the revision history).
+ * @param {string} rootDir
+ * @param {Collection} collection
+ * @param {string} filename
+ * @param {{ source: string, now?: Date }} options
+ * @returns {TrashItem}
+ */
+export function trashEntry(rootDir, collection, filename, { source, now = new Date() }) {
+  const target = trashPath(rootDir, collection, filename);
+  ensureDir(path.dirname(target));
+  fs.copyFileSync(path.join(contentDir(rootDir, collection), filename), target);
+  deleteEntry(rootDir, collection, filename, { source });
+
+  /** @type {TrashItem} */
+  const item = { collection, filename, deletedAt: now.toISOString(), source };
+  writeIndex(rootDir, [...readIndex(rootDir).filter((i) => keyOf(i) !== keyOf(item)), item]);
+  return item;
+}
+
+/**
+ * Items in the trash, most recently deleted first.
+ * @param {string} rootDir
+ * @returns {TrashItem[]}
+ */
+export function listTrash(rootDir) {
+  return readIndex(rootDir).sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+}
+
+/**
+ * Move an entry back out of the trash. Throws if it is not in the trash or a
+ * file with the same name has been created since.
+ * @param {string} rootDir
+ * @param {Collection} collection
+ * @param {string} filename
+ * @param {{ source: string }} options
+ */
+export function restoreEntry(rootDir, collection, filename, { source }) {
+  const items = readIndex(rootDir);
+  const key = keyOf({ collection, filename });
+  if (!items.some((i) => keyOf(i) === key)) {
+    throw new Error(`Not in the trash: ${key}`);
+  }
+  if (fs.existsSync(path.join(contentDir(rootDir, collection), filename))) {
+    throw new Error(`${key} already exists — rename or delete it first`);
+  }
+  const trashed = trashPath(rootDir, collection, filename);
+  writeEntry(rootDir, collection, filename, fs.readFileSync(trashed, 'utf-8'), { source, action: 'restore' });
+  fs.rmSync(trashed, { force: true });
+  writeIndex(rootDir, items.filter((i) => keyOf(i) !== key));
+}
+
+/**
+ * Drop an entry from the trash without restoring it, for when it has been
+ * recreated some other way (e.g. from its revision history). No-op if it is
+ * not in the trash.
+ * @param {string} rootDir
+ * @param {Collection} collection
+ * @param {string} filename
+ */
+export function discardTrashed(rootDir, collection, filename) {
+  const items = readIndex(rootDir);
+  const key = keyOf({ collection, filename });
+  fs.rmSync(trashPath(rootDir, collection, filename), { force: true });
+  if (items.some((i) => keyOf(i) === key)) writeIndex(rootDir, items.filter((i) => keyOf(i) !== key));
+}
+
+/**
+ * Permanently delete trash items (all, or those matching `collection` /
+ * `filename`) together with their revision history. History is kept if the
+ * entry has been recreated since.
+ * @param {string} rootDir
+ * @param {{ collection?: Collection, filename?: string }} [filter]
+ * @returns {TrashItem[]} the deleted items
+ */
+export function emptyTrash(rootDir, filter = {}) {
+  return removeItems(rootDir, (i) => matches(i, filter));
+}
+
+/**
+ * Permanently delete items that have been in the trash longer than
+ * `retentionDays` (0 disables purging).
+ * @param {string} rootDir
+ * @param {{ retentionDays: number, now?: Date }} options
+ * @returns {TrashItem[]} the purged items
+ */
+export function purgeExpired(rootDir, { retentionDays, now = new Date() }) {
+  if (!retentionDays) return [];
+  const cutoff = now.getTime() - retentionDays * DAY_MS;
+  return removeItems(rootDir, (i) => Date.parse(i.deletedAt) < cutoff);
+}
+
+/**
+ * Items an `emptyTrash` call with this filter would delete.
+ * @param {string} rootDir
+ * @param {{ collection?: Collection, filename?: string }} [filter]
+ * @returns {TrashItem[]}
+ */
+export function previewEmptyTrash(rootDir, filter = {}) {
+  return listTrash(rootDir).filter((i) => matches(i, filter));
+}
+
+/**
+ * Token that confirms a permanent deletion. It is derived from the exact items
+ * shown in the preview, so it stops working if the trash changes in between.
+ * @param {TrashItem[]} items
+ * @returns {string}
+ */
+export function confirmationToken(items) {
+  return contentHash(items.map((i) => `${keyOf(i)}@${i.deletedAt}`).sort().join('\n')).slice(0, 8);
+}
+
+/**
+ * @param {TrashItem} item
+ * @param {{ collection?: Collection, filename?: string }} filter
+ */
+function matches(item, { collection, filename }) {
+  return (!collection || item.collection === collection) && (!filename || item.filename === filename);
+}
+
+/**
+ * @param {string} rootDir
+ * @param {(item: TrashItem) => boolean} predicate
+ * @returns {TrashItem[]}
+ */
+function removeItems(rootDir, predicate) {
+  const items = readIndex(rootDir);
+  const removed = items.filter(predicate);
+  if (!removed.length) return [];
+  for (const item of removed) {
+    fs.rmSync(trashPath(rootDir, item.collection, item.filename), { force: true });
+    if (!fs.existsSync(path.join(contentDir(rootDir, item.collection), item.filename))) {
+      purgeHistory(rootDir, item.collection, item.filename);
+    }
+  }
+  writeIndex(rootDir, items.filter((i) => !predicate(i)));
+  return removed;
+}
+
+/**
+ * One line per trash item for tool and CLI output.
+ * @param {TrashItem[]} items
+ * @param {{ retentionDays: number, now?: Date }} options
+ * @returns {string}
+ */
+export function formatTrashList(items, { retentionDays, now = new Date() }) {
+  return items
+    .map((i) => {
+      const line = `  ${i.collection}/${i.filename} · deleted ${i.deletedAt.slice(0, 10)} by ${i.source}`;
+      if (!retentionDays) return line;
+      const left = Math.max(0, Math.ceil((Date.parse(i.deletedAt) + retentionDays * DAY_MS - now.getTime()) / DAY_MS));
+      return `${line} · purged in ${left} day${left !== 1 ? 's' : ''}`;
+    })
+    .join('\n');
+}
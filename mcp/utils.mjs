@@ -3,7 +3,9 @@
  * Pure functions — no I/O side effects — so they are easily unit-tested.
  */
 
+import crypto from 'node:crypto';
 import fs from 'node:fs';
+import { parseFrontmatter } from './frontmatter.mjs';
 
 /**
  * Convert a human-readable title into a URL-safe slug.
@@ -18,17 +20,25 @@ export function slugify(text) {
 }
 
 /**
- * Return today's date in YYYY-MM-DD format (local time).
+ * Format a date as YYYY-MM-DD (local time).
+ * @param {Date} d
  * @returns {string}
  */
-export function today() {
-  const d = new Date();
+export function formatDate(d) {
   const y = d.getFullYear();
   const m = String(d.getMonth() + 1).padStart(2, '0');
   const day = String(d.getDate()).padStart(2, '0');
   return `${y}-${m}-${day}`;
 }
 
+/**
+ * Return today's date in YYYY-MM-DD format (local time).
+ * @returns {string}
+ */
+export function today() {
+  return formatDate(new Date());
+}
+
 /**
  * Ensure a directory exists, creating it recursively if needed.
  * @param {string} dir
@@ -49,25 +59,22 @@ export function listMdxFiles(dir) {
 }
 
 /**
- * Parse the YAML frontmatter of an MDX file into a flat key→value map.
- * Only handles scalar values and quoted strings (sufficient for our schema).
+ * Read and parse the YAML frontmatter of an MDX file (see frontmatter.mjs).
  * Returns an empty object if no frontmatter block is found.
  * @param {string} filepath
- * @returns {Record<string, string>}
+ * @returns {Record<string, any>}
  */
 export function readFrontmatter(filepath) {
-  const raw = fs.readFileSync(filepath, 'utf-8');
-  const match = raw.match(/^---\n([\s\S]*?)\n---/);
-  if (!match) return {};
-  const fm = {};
-  for (const line of match[1].split('\n')) {
-    const colonIdx = line.indexOf(':');
-    if (colonIdx === -1 || line.startsWith(' ')) continue;
-    const key = line.slice(0, colonIdx).trim();
-    const val = line.slice(colonIdx + 1).trim().replace(/^"(.*)"$/, '$1');
-    if (key) fm[key] = val;
-  }
-  return fm;
+  return parseFrontmatter(fs.readFileSync(filepath, 'utf-8')).data;
+}
+
+/**
+ * Short content hash used as a file version for optimistic concurrency.
+ * @param {string} text
+ * @returns {string}
+ */
+export function contentHash(text) {
+  return crypto.createHash('sha256').update(text).digest('hex').slice(0, 16);
 }
 
 /**
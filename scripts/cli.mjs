@@ -4,18 +4,72 @@
  * CLI helper — wraps common MCP operations as short terminal commands.
  *
  * Usage:
- *   npm run ls                         → list all chats & plans
+ *   npm run ls                         → list all chats & plans, newest first
  *   npm run ls -- chats                → list only chats
  *   npm run ls -- plans                → list only plans
+ *                     [--tag a,b] [--from YYYY-MM] [--to YYYY-MM] [--difficulty level]
+ *                     [--status not-started|in-progress|complete] [-q "text"]
+ *                     [--sort date|title|updated] [--asc|--desc] [--limit n] [--cursor c] [-v]
  *   npm run add -- <filename> user     → append a User message (reads from stdin)
  *   npm run add -- <filename> ai       → append an AI message (reads from stdin)
  *   npm run open -- <filename>         → print a file's content to terminal
+ *   npm run import -- <export.json>    → import ChatGPT / Claude / Copilot conversations
+ *                     [--dry-run] [--tags a,b]
+ *   npm run history -- <filename>      → list a file's revisions
+ *   npm run history -- <filename> diff [rev] [against]
+ *                                      → show what a revision changed ("current" = file on disk)
+ *   npm run history -- <filename> restore <rev>
+ *                                      → restore (or undelete) a file at a revision
+ *   npm run history -- --deleted       → list deleted files that can be restored
+ *   npm run rm -- <filename>           → move a file to the trash
+ *   npm run trash                      → list the trash
+ *   npm run trash -- restore <filename>
+ *                                      → restore a file from the trash
+ *   npm run trash -- empty [filename]  → permanently delete (asks for a confirmation token)
+ *   npm run export -- <filename>       → export to exports/<slug>.html
+ *                     [--format html|markdown] [--theme light|dark|auto] [--out path]
+ *   npm run check-content              → audit every chat and plan; exits 1 on problems
+ *                     [--fix]
+ *   npm run todo                       → list open action items across all chats
+ *                     [--done|--all] [--tag a,b] [-q "text"]
+ *   npm run todo -- done <chat>#<n>    → tick off an action item (undo <chat>#<n> reopens it)
+ *   npm run promote -- <chat.mdx>      → create a study plan from a chat, linked both ways
+ *                     [--title "Plan title"] [--difficulty level] [--duration "6 weeks"]
  */
 
 import fs from 'node:fs';
 import path from 'node:path';
 import readline from 'node:readline';
 import { fileURLToPath } from 'node:url';
+import { runImport, formatImportReport } from '../mcp/importers.mjs';
+import { roleHeading, demoteHeadings } from '../mcp/messages.mjs';
+import { loadEntries, queryEntries, formatEntryList, parseListArgs } from '../mcp/entries.mjs';
+import { checkContent, formatCheckReport } from '../mcp/check.mjs';
+import { listActionItems, parseActionItemId, setActionItem, formatActionItems } from '../mcp/actions.mjs';
+import { promoteChat } from '../mcp/promote.mjs';
+import {
+  saveEntry,
+  listRevisions,
+  restoreRevision,
+  diffRevisions,
+  listDeletedEntries,
+  findCollection,
+  formatRevisionList,
+} from '../mcp/history.mjs';
+import { formatUnifiedDiff } from '../mcp/diff.mjs';
+import {
+  trashEntry,
+  listTrash,
+  restoreEntry,
+  emptyTrash,
+  previewEmptyTrash,
+  purgeExpired,
+  confirmationToken,
+  formatTrashList,
+  trashRetentionDays,
+  requiresConfirmation,
+} from '../mcp/trash.mjs';
+import { exportToFile, EXPORT_FORMATS, EXPORT_THEMES } from '../mcp/export.mjs';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const ROOT = path.resolve(__dirname, '..');
@@ -24,23 +78,6 @@ const PLANS_DIR = path.join(ROOT, 'src/content/plans');
 
 const [, , command, ...args] = process.argv;
 
-function listMdx(dir) {
-  if (!fs.existsSync(dir)) return [];
-  return fs.readdirSync(dir).filter((f) => f.endsWith('.mdx'));
-}
-
-function readFM(filepath) {
-  const raw = fs.readFileSync(filepath, 'utf-8');
-  const m = raw.match(/^---\n([\s\S]*?)\n---/);
-  if (!m) return {};
-  const fm = {};
-  for (const line of m[1].split('\n')) {
-    const [k, ...v] = line.split(':');
-    if (k && v.length && !k.startsWith(' ')) fm[k.trim()] = v.join(':').trim().replace(/^"(.*)"$/, '$1');
-  }
-  return fm;
-}
-
 function resolveFile(filename) {
   // Try chats first, then plans
   const chat = path.join(CHATS_DIR, filename);
@@ -53,38 +90,29 @@ function resolveFile(filename) {
 // ─── list ────────────────────────────────────────────────────────────────────
 
 if (command === 'list') {
-  const filter = args[0] || 'all';
-
-  if (filter !== 'plans') {
-    const files = listMdx(CHATS_DIR);
-    console.log('\n📝 Chats:');
-    if (!files.length) {
-      console.log('   (none) — run: npm run chat -- "My Chat Title"');
-    } else {
-      files.forEach((f, i) => {
-        const fm = readFM(path.join(CHATS_DIR, f));
-        const idx = String(i + 1).padStart(2, ' ');
-        console.log(`  ${idx}. ${f}`);
-        console.log(`      ↳ ${fm.title || 'Untitled'} · ${fm.date || '?'}`);
-        if (fm.tldr) console.log(`      ↳ ${fm.tldr}`);
-      });
-    }
+  let query, page;
+  try {
+    query = parseListArgs(args);
+    page = queryEntries(loadEntries(ROOT, query.collection), query);
+  } catch (err) {
+    console.error(`❌ ${err.message}`);
+    console.error('Usage: npm run ls -- [chats|plans] [--tag a,b] [--from YYYY-MM] [--to YYYY-MM] [--difficulty level]');
+    console.error('                     [--status in-progress] [-q "text"] [--sort date|title|updated] [--asc|--desc]');
+    console.error('                     [--limit n] [--cursor c] [--verbose]');
+    process.exit(1);
   }
 
-  if (filter !== 'chats') {
-    const files = listMdx(PLANS_DIR);
-    console.log('\n📋 Plans:');
-    if (!files.length) {
-      console.log('   (none) — run: npm run plan -- "My Plan Title"');
-    } else {
-      files.forEach((f, i) => {
-        const fm = readFM(path.join(PLANS_DIR, f));
-        const idx = String(i + 1).padStart(2, ' ');
-        console.log(`  ${idx}. ${f}`);
-        console.log(`      ↳ ${fm.title || 'Untitled'} · ${fm.date || '?'}`);
-        if (fm.tldr) console.log(`      ↳ ${fm.tldr}`);
-      });
-    }
+  if (!page.total) {
+    const filtered = Object.keys(query).some((k) => k !== 'verbose' && k !== 'collection');
+    console.log(filtered
+      ? '\nNo entries match.'
+      : '\n(none) — run: npm run chat -- "My Chat Title" or npm run plan -- "My Plan Title"');
+  } else {
+    console.log(`\nShowing ${page.entries.length} of ${page.total}:`);
+    console.log(formatEntryList(page.entries, { verbose: query.verbose }));
+  }
+  if (page.nextCursor) {
+    console.log(`\nMore — run again with: --cursor ${page.nextCursor}`);
   }
 
   console.log('');
@@ -113,8 +141,14 @@ else if (command === 'add') {
   rl.on('close', () => {
     const content = lines.join('\n').trim();
     if (!content) { console.error('❌ Empty message.'); process.exit(1); }
-    const heading = role === 'user' ? 'User' : 'AI';
-    fs.appendFileSync(resolved.filepath, `\n\n## ${heading}\n\n${content}`, 'utf-8');
+    const heading = roleHeading(role === 'user' ? 'user' : 'ai');
+    const existing = fs.readFileSync(resolved.filepath, 'utf-8');
+    try {
+      saveEntry(ROOT, resolved.collection, filename, `${existing}\n\n## ${heading}\n\n${demoteHeadings(content)}`, { source: 'cli:add' });
+    } catch (err) {
+      console.error(`❌ ${err.message}`);
+      process.exit(1);
+    }
     console.log(`\n✅ Appended ${heading} message to ${filename}`);
   });
 }
@@ -135,6 +169,281 @@ else if (command === 'open') {
   console.log(fs.readFileSync(resolved.filepath, 'utf-8'));
 }
 
+// ─── import ───────────────────────────────────────────────────────────────────
+
+else if (command === 'import') {
+  const dryRun = args.includes('--dry-run');
+  const tagsIdx = args.indexOf('--tags');
+  const tags = tagsIdx !== -1 && args[tagsIdx + 1]
+    ? args[tagsIdx + 1].split(',').map((t) => t.trim()).filter(Boolean)
+    : [];
+  const [file] = args.filter((a, i) => !a.startsWith('--') && (tagsIdx === -1 || i !== tagsIdx + 1));
+
+  if (!file) {
+    console.error('Usage: npm run import -- <export.json> [--dry-run] [--tags a,b]');
+    process.exit(1);
+  }
+  const filepath = path.resolve(process.cwd(), file);
+  if (!fs.existsSync(filepath)) {
+    console.error(`❌ File not found: ${file}`);
+    process.exit(1);
+  }
+
+  try {
+    const plan = runImport(filepath, ROOT, { tags, dryRun });
+    console.log(`\n${dryRun ? '🔍' : '✅'} ${formatImportReport(plan, dryRun)}\n`);
+    if (dryRun) console.log('Run again without --dry-run to write the files.\n');
+  } catch (err) {
+    console.error(`❌ Import failed: ${err.message}`);
+    process.exit(1);
+  }
+}
+
+// ─── history ──────────────────────────────────────────────────────────────────
+
+else if (command === 'history') {
+  const [filename, action = 'list', ...rest] = args;
+
+  if (filename === '--deleted') {
+    const deleted = listDeletedEntries(ROOT);
+    console.log('\n🗑️  Deleted files:');
+    if (!deleted.length) console.log('   (none)');
+    deleted.forEach((d) => console.log(`  ${d.filename} (${d.collection}) · deleted ${d.deletedAt.slice(0, 10)} · ${d.revisions} revisions`));
+    console.log('');
+    process.exit(0);
+  }
+
+  const collection = filename ? findCollection(ROOT, filename) : null;
+  if (!filename) {
+    console.error('Usage: npm run history -- <filename.mdx> [diff [rev] [against] | restore <rev>]');
+    console.error('       npm run history -- --deleted');
+    process.exit(1);
+  }
+  if (!collection) {
+    console.error(`❌ No file or history found for: ${filename}`);
+    process.exit(1);
+  }
+
+  if (action === 'list') {
+    const revisions = listRevisions(ROOT, collection, filename);
+    console.log(`\n📜 ${collection}/${filename}:`);
+    console.log(revisions.length ? formatRevisionList(revisions) : '   (no revisions yet)');
+    console.log('');
+  } else if (action === 'diff') {
+    const [revision, against] = rest;
+    try {
+      const { from, to, lines } = diffRevisions(ROOT, collection, filename, { revision, against });
+      console.log(formatUnifiedDiff(lines, { from, to }) || `No differences between ${from} and ${to}`);
+    } catch (err) {
+      console.error(`❌ ${err.message}`);
+      process.exit(1);
+    }
+  } else if (action === 'restore') {
+    const [revision] = rest;
+    if (!revision) {
+      console.error('Usage: npm run history -- <filename.mdx> restore <rev>');
+      process.exit(1);
+    }
+    if (!restoreRevision(ROOT, collection, filename, revision, { source: 'cli:history' })) {
+      console.error(`❌ Revision not found: ${revision}`);
+      process.exit(1);
+    }
+    console.log(`✅ Restored ${collection}/${filename} to revision ${revision}`);
+  } else {
+    console.error(`❌ Unknown history action: ${action} (use list, diff or restore)`);
+    process.exit(1);
+  }
+}
+
+// ─── rm ───────────────────────────────────────────────────────────────────────
+
+else if (command === 'rm') {
+  const [filename] = args;
+  if (!filename) {
+    console.error('Usage: npm run rm -- <filename.mdx>');
+    process.exit(1);
+  }
+  const resolved = resolveFile(filename);
+  if (!resolved) {
+    console.error(`❌ File not found: ${filename}`);
+    process.exit(1);
+  }
+  try {
+    trashEntry(ROOT, resolved.collection, filename, { source: 'cli:rm' });
+  } catch (err) {
+    console.error(`❌ ${err.message}`);
+    process.exit(1);
+  }
+  console.log(`🗑️  Moved ${resolved.collection}/${filename} to the trash — undo with: npm run trash -- restore ${filename}`);
+}
+
+// ─── trash ────────────────────────────────────────────────────────────────────
+
+else if (command === 'trash') {
+  const [action = 'list', ...rest] = args;
+  const retentionDays = trashRetentionDays();
+  purgeExpired(ROOT, { retentionDays });
+
+  // If the same filename was trashed from both collections, take the latest
+  const trashed = (filename) => listTrash(ROOT).find((i) => i.filename === filename);
+
+  if (action === 'list') {
+    const items = listTrash(ROOT);
+    console.log('\n🗑️  Trash:');
+    console.log(items.length ? formatTrashList(items, { retentionDays }) : '   (empty)');
+    console.log('');
+  } else if (action === 'restore') {
+    const [filename] = rest;
+    const item = filename && trashed(filename);
+    if (!item) {
+      console.error(filename ? `❌ Not in the trash: ${filename}` : 'Usage: npm run trash -- restore <filename.mdx>');
+      process.exit(1);
+    }
+    try {
+      restoreEntry(ROOT, item.collection, item.filename, { source: 'cli:trash' });
+    } catch (err) {
+      console.error(`❌ ${err.message}`);
+      process.exit(1);
+    }
+    console.log(`✅ Restored ${item.collection}/${item.filename} from the trash`);
+  } else if (action === 'empty') {
+    const confirmIdx = rest.indexOf('--confirm');
+    const confirm = confirmIdx !== -1 ? rest[confirmIdx + 1] : undefined;
+    const [filename] = rest.filter((a, i) => !a.startsWith('--') && i !== confirmIdx + 1);
+    const items = previewEmptyTrash(ROOT, { filename });
+    if (!items.length) {
+      console.log(filename ? `Not in the trash: ${filename}` : 'The trash is already empty.');
+      process.exit(0);
+    }
+    const token = confirmationToken(items);
+    if (requiresConfirmation() && confirm !== token) {
+      if (confirm) console.error('❌ The confirmation token does not match the trash any more.\n');
+      console.log(`⚠️  This will permanently delete ${items.length} item${items.length !== 1 ? 's' : ''}:`);
+      console.log(formatTrashList(items, { retentionDays }));
+      console.log(`\nRun again with --confirm ${token} to proceed.`);
+      process.exit(confirm ? 1 : 0);
+    }
+    const removed = emptyTrash(ROOT, { filename });
+    console.log(`✅ Permanently deleted ${removed.length} item${removed.length !== 1 ? 's' : ''}`);
+  } else {
+    console.error(`❌ Unknown trash action: ${action} (use list, restore or empty)`);
+    process.exit(1);
+  }
+}
+
+// ─── export ───────────────────────────────────────────────────────────────────
+
+else if (command === 'export') {
+  const option = (name) => {
+    const i = args.indexOf(`--${name}`);
+    return i !== -1 ? args[i + 1] : undefined;
+  };
+  const format = option('format') ?? 'html';
+  const theme = option('theme') ?? 'auto';
+  const out = option('out');
+  const [filename] = args.filter((a, i) => !a.startsWith('--') && !args[i - 1]?.startsWith('--'));
+
+  if (!filename || !EXPORT_FORMATS.includes(format) || !EXPORT_THEMES.includes(theme)) {
+    console.error('Usage: npm run export -- <filename.mdx> [--format html|markdown] [--theme light|dark|auto] [--out path]');
+    process.exit(1);
+  }
+  const resolved = resolveFile(filename);
+  if (!resolved) {
+    console.error(`❌ File not found: ${filename}`);
+    process.exit(1);
+  }
+
+  const target = await exportToFile(ROOT, resolved.collection, filename, {
+    format,
+    theme,
+    out: out && path.resolve(process.cwd(), out),
+  });
+  console.log(`✅ Exported ${resolved.collection}/${filename} → ${path.relative(process.cwd(), target)}`);
+  if (format === 'html') console.log('   Open it in a browser and print to save as PDF.');
+}
+
+// ─── check ────────────────────────────────────────────────────────────────────
+
+else if (command === 'check') {
+  const result = checkContent(ROOT, { fix: args.includes('--fix'), source: 'cli:check-content' });
+  console.log(`\n${formatCheckReport(result)}\n`);
+  if (result.issues.length || result.failed.length) process.exit(1);
+}
+
+// ─── todo ─────────────────────────────────────────────────────────────────────
+
+else if (command === 'todo') {
+  const [action] = args;
+  if (action === 'done' || action === 'undo') {
+    const [, id] = args;
+    if (!id) {
+      console.error(`Usage: npm run todo -- ${action} <chat>#<n>`);
+      process.exit(1);
+    }
+    let result;
+    try {
+      const { filename, index } = parseActionItemId(id);
+      result = setActionItem(ROOT, filename, { index, done: action === 'done', source: 'cli:todo' });
+    } catch (err) {
+      console.error(`❌ ${err.message}`);
+      process.exit(1);
+    }
+    const open = result.list.filter((a) => !a.done).length;
+    console.log(`✅ ${result.item.done ? '☑' : '☐'} "${result.item.task}" (${open} open in ${result.filename})`);
+  } else {
+    let status = 'open';
+    let tags;
+    let text;
+    for (let i = 0; i < args.length; i++) {
+      const arg = args[i];
+      if (arg === '--done' || arg === '--all') status = arg.slice(2);
+      else if (arg === '--tag' || arg === '--tags') tags = [...(tags ?? []), ...(args[++i] ?? '').split(',').map((t) => t.trim()).filter(Boolean)];
+      else if (arg === '--search' || arg === '-q') text = args[++i];
+      else {
+        console.error(`❌ Unknown option: ${arg}`);
+        console.error('Usage: npm run todo -- [--done|--all] [--tag a,b] [-q "text"]');
+        console.error('       npm run todo -- done|undo <chat>#<n>');
+        process.exit(1);
+      }
+    }
+
+    const items = listActionItems(ROOT, { status, tags, text });
+    console.log(`\n☑ ${status === 'all' ? 'Action items' : `${status[0].toUpperCase()}${status.slice(1)} action items`}:`);
+    console.log(items.length ? formatActionItems(items) : '   (none)');
+    if (items.some((item) => !item.done)) console.log('\nTick one off with: npm run todo -- done <chat>#<n>');
+    console.log('');
+  }
+}
+
+// ─── promote ──────────────────────────────────────────────────────────────────
+
+else if (command === 'promote') {
+  const option = (name) => {
+    const i = args.indexOf(`--${name}`);
+    return i !== -1 ? args[i + 1] : undefined;
+  };
+  const [filename] = args.filter((a, i) => !a.startsWith('--') && !args[i - 1]?.startsWith('--'));
+  if (!filename) {
+    console.error('Usage: npm run promote -- <chat.mdx> [--title "Plan title"] [--difficulty level] [--duration "6 weeks"]');
+    process.exit(1);
+  }
+
+  let result;
+  try {
+    result = promoteChat(ROOT, filename, {
+      title: option('title'),
+      difficulty: option('difficulty'),
+      duration: option('duration'),
+      source: 'cli:promote',
+    });
+  } catch (err) {
+    console.error(`❌ ${err.message}`);
+    process.exit(1);
+  }
+  console.log(`✅ Created: src/content/plans/${result.plan.filename} from chats/${result.chat.filename}`);
+  console.log(`   ${result.sections.length} sections · ${result.milestones} milestones · ${result.checklist} checklist items`);
+}
+
 // ─── fallback ────────────────────────────────────────────────────────────────
 
 else {
@@ -147,12 +456,41 @@ AI Chat Generator — CLI Reference
 
   npm run chat   -- "Title"           Create a new chat MDX file
   npm run plan   -- "Title"           Create a new plan MDX file
+  npm run plan   -- --templates       List plan templates
+  npm run plan   -- --template <id> [--var name=value]
+                                      Create a plan from a template
   npm run ls                          List all chats & plans
   npm run ls     -- chats             List only chats
   npm run ls     -- plans             List only plans
+                   [--tag a,b] [--from YYYY-MM] [--to YYYY-MM] [--difficulty level]
+                   [--status in-progress] [-q "text"] [--sort date|title|updated]
+                   [--asc|--desc] [--limit n] [--cursor c] [--verbose]
   npm run add    -- <file.mdx> user   Append a User message (stdin)
   npm run add    -- <file.mdx> ai     Append an AI message  (stdin)
   npm run open   -- <file.mdx>        Print file content to terminal
+  npm run import -- <export.json>     Import ChatGPT / Claude / Copilot chats
+                   [--dry-run] [--tags a,b]
+  npm run history -- <file.mdx>       List a file's revisions
+  npm run history -- <file.mdx> diff [rev] [against]
+                                      Show what a revision changed
+  npm run history -- <file.mdx> restore <rev>
+                                      Restore / undelete a file at a revision
+  npm run history -- --deleted        List deleted files
+  npm run rm     -- <file.mdx>        Move a file to the trash
+  npm run trash                       List the trash
+  npm run trash  -- restore <file.mdx>
+                                      Restore a file from the trash
+  npm run trash  -- empty [file.mdx] [--confirm <token>]
+                                      Permanently delete trashed files
+  npm run export -- <file.mdx>        Export to exports/ as standalone HTML
+                   [--format html|markdown] [--theme light|dark|auto] [--out path]
+  npm run check-content               Audit all chats & plans (exits 1 on problems)
+                   [--fix]
+  npm run todo                        List open action items across all chats
+                   [--done|--all] [--tag a,b] [-q "text"]
+  npm run todo   -- done <chat>#<n>   Tick off an action item (undo reopens it)
+  npm run promote -- <chat.mdx>       Create a study plan from a chat, linked both ways
+                   [--title "Plan title"] [--difficulty level] [--duration "6 weeks"]
 
 ──────────────────────────────────────────────────────────────────
 💡 From Copilot chat — just say:
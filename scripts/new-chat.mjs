@@ -8,9 +8,12 @@
 import fs from 'node:fs';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
+import { renderEntry } from '../mcp/frontmatter.mjs';
+import { saveEntry } from '../mcp/history.mjs';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
-const CHATS_DIR = path.resolve(__dirname, '../src/content/chats');
+const ROOT = path.resolve(__dirname, '..');
+const CHATS_DIR = path.join(ROOT, 'src/content/chats');
 
 const title = process.argv[2] || 'Untitled Chat Session';
 const slug = title
@@ -27,26 +30,25 @@ if (fs.existsSync(filepath)) {
   process.exit(1);
 }
 
-const template = `---
-title: "${title}"
-date: ${date}
-tags: []
-tldr: ""
-action_items:
-  - task: ""
-    done: false
----
-
-## User
+const template = renderEntry({
+  title,
+  date,
+  tags: [],
+  tldr: '',
+  action_items: [],
+}, `## User
 
 <!-- Write the user prompt here -->
 
 ## AI
 
-<!-- Paste or write the AI response here -->
-`;
+<!-- Paste or write the AI response here -->`);
 
-fs.mkdirSync(CHATS_DIR, { recursive: true });
-fs.writeFileSync(filepath, template, 'utf-8');
+try {
+  saveEntry(ROOT, 'chats', filename, template, { source: 'cli:new-chat' });
+} catch (err) {
+  console.error(`❌ ${err.message}`);
+  process.exit(1);
+}
 
 console.log(`✅ Created: src/content/chats/${filename}`);
@@ -1,24 +1,75 @@
 #!/usr/bin/env node
 
 /**
- * Scaffolds a new empty .mdx plan template.
+ * Scaffolds a new .mdx plan, empty or from a template in templates/.
  * Usage: npm run new-plan -- "My Plan Title"
+ *        npm run new-plan -- ["Title"] --template <id> [--var name=value ...]
+ *        npm run new-plan -- --templates      → list the templates
  */
 
 import fs from 'node:fs';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
+import { renderEntry } from '../mcp/frontmatter.mjs';
+import { saveEntry } from '../mcp/history.mjs';
+import { fillTemplate, formatTemplateList, listTemplates, loadTemplate } from '../mcp/templates.mjs';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
-const PLANS_DIR = path.resolve(__dirname, '../src/content/plans');
+const ROOT = path.resolve(__dirname, '..');
+const PLANS_DIR = path.join(ROOT, 'src/content/plans');
 
-const title = process.argv[2] || 'Untitled Plan';
+const args = process.argv.slice(2);
+let titleArg;
+let templateId;
+/** @type {Record<string, string>} */
+const variables = {};
+for (let i = 0; i < args.length; i++) {
+  const arg = args[i];
+  if (arg === '--templates') {
+    const templates = listTemplates(ROOT);
+    console.log('\n📐 Plan templates:');
+    console.log(templates.length ? formatTemplateList(templates) : '   (none) — add one to templates/');
+    console.log('\nUse one with: npm run plan -- --template <id> --var name=value\n');
+    process.exit(0);
+  } else if (arg === '--template' || arg === '-t') {
+    templateId = args[++i];
+  } else if (arg === '--var') {
+    const [name, ...value] = (args[++i] ?? '').split('=');
+    if (!name || !value.length) {
+      console.error(`❌ --var needs name=value, got "${args[i] ?? ''}"`);
+      process.exit(1);
+    }
+    variables[name] = value.join('=');
+  } else if (arg.startsWith('-')) {
+    console.error(`❌ Unknown option: ${arg}`);
+    console.error('Usage: npm run plan -- ["Title"] [--template <id>] [--var name=value ...] | --templates');
+    process.exit(1);
+  } else {
+    titleArg = arg;
+  }
+}
+
+const date = new Date().toISOString().split('T')[0];
+
+let base = null;
+if (templateId) {
+  try {
+    base = fillTemplate(loadTemplate(ROOT, templateId), { date, variables });
+  } catch (err) {
+    console.error(`❌ ${err.message}`);
+    process.exit(1);
+  }
+} else if (Object.keys(variables).length) {
+  console.error('❌ --var only applies with --template');
+  process.exit(1);
+}
+
+const title = titleArg || base?.title || 'Untitled Plan';
 const slug = title
   .toLowerCase()
   .replace(/[^a-z0-9]+/g, '-')
   .replace(/(^-|-$)/g, '');
 
-const date = new Date().toISOString().split('T')[0];
 const filename = `${date}-${slug}.mdx`;
 const filepath = path.join(PLANS_DIR, filename);
 
@@ -27,20 +78,24 @@ if (fs.existsSync(filepath)) {
   process.exit(1);
 }
 
-const template = `---
-title: "${title}"
-date: ${date}
-tags: []
-tldr: ""
-duration: ""
-difficulty: "intermediate"
-milestones:
-  - title: ""
-    weeks: ""
-    status: "not-started"
----
-
-## Overview
+const template = base
+  ? renderEntry({
+    title,
+    date,
+    tags: base.tags,
+    tldr: base.tldr ?? '',
+    duration: base.duration ?? '',
+    difficulty: base.difficulty,
+    milestones: base.milestones,
+  }, base.body)
+  : renderEntry({
+    title,
+    date,
+    tags: [],
+    tldr: '',
+    duration: '',
+    milestones: [],
+  }, `## Overview
 
 <!-- Write your plan content here using ## and ### headings -->
 
@@ -49,10 +104,13 @@ milestones:
 ### Week 1
 
 - Task one
-- Task two
-`;
+- Task two`);
 
-fs.mkdirSync(PLANS_DIR, { recursive: true });
-fs.writeFileSync(filepath, template, 'utf-8');
+try {
+  saveEntry(ROOT, 'plans', filename, template, { source: 'cli:new-plan' });
+} catch (err) {
+  console.error(`❌ ${err.message}`);
+  process.exit(1);
+}
 
-console.log(`✅ Created: src/content/plans/${filename}`);
+console.log(`✅ Created: src/content/plans/${filename}${templateId ? ` from template ${templateId}` : ''}`);
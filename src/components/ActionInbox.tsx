@@ -0,0 +1,130 @@
+import { useMemo, useState, type FC } from 'react';
+
+/**
+ * Every chat's action items in one list on /actions. Ticking an item saves it
+ * to its chat straight away through /api/action-item; ticked items stay in
+ * place, struck through, until the next visit so a slip can be undone.
+ */
+
+export interface InboxItem {
+  id: string;
+  task: string;
+  done: boolean;
+  index: number;
+  chat: { filename: string; url: string; title: string; date: string | null; tags: string[] };
+  /** Days since the chat's date */
+  age: number | null;
+}
+
+type Filter = 'open' | 'done' | 'all';
+
+const FILTERS: Filter[] = ['open', 'done', 'all'];
+
+const ageLabel = (days: number | null) =>
+  days === null ? '' : days === 0 ? 'today' : days < 14 ? `${days}d` : days < 60 ? `${Math.round(days / 7)}w` : `${Math.round(days / 30)}mo`;
+
+const ActionInbox: FC<{ initialItems: InboxItem[]; tag: string | null }> = ({ initialItems, tag }) => {
+  const [items, setItems] = useState(initialItems);
+  const [filter, setFilter] = useState<Filter>('open');
+  /** Ids ticked or unticked on this visit, which stay listed under either filter */
+  const [touched, setTouched] = useState<Set<string>>(() => new Set());
+  const [pending, setPending] = useState<Set<string>>(() => new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  const visible = useMemo(
+    () => items.filter((item) => filter === 'all' || touched.has(item.id) || item.done === (filter === 'done')),
+    [items, filter, touched],
+  );
+  const openCount = items.filter((item) => !item.done).length;
+
+  const mark = (id: string, done: boolean) =>
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, done } : item)));
+  const without = (set: Set<string>, id: string) => new Set([...set].filter((x) => x !== id));
+
+  const toggle = async (item: InboxItem) => {
+    const done = !item.done;
+    setError(null);
+    mark(item.id, done);
+    setTouched((prev) => new Set(prev).add(item.id));
+    setPending((prev) => new Set(prev).add(item.id));
+    try {
+      const res = await fetch('/api/action-item', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ filename: item.chat.filename, index: item.index, task: item.task, done }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error ?? `Save failed (${res.status})`);
+      }
+    } catch (err) {
+      mark(item.id, item.done);
+      setError(`Could not save "${item.task}": ${(err as Error).message}`);
+    } finally {
+      setPending((prev) => without(prev, item.id));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        {FILTERS.map((f) => (
+          <button
+            key={f}
+            onClick={() => { setFilter(f); setTouched(new Set()); }}
+            className={`px-3 py-1 rounded-full border capitalize transition-colors ${filter === f ? 'border-blue-500/50 text-blue-400 bg-blue-500/10' : 'border-border text-muted-foreground hover:text-foreground'}`}
+          >{f}</button>
+        ))}
+        {tag && (
+          <a href="/actions" className="ml-auto px-3 py-1 rounded-full border border-border text-muted-foreground hover:text-foreground transition-colors" title="Show every tag">
+            #{tag} ✕
+          </a>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-400" role="alert">{error}</p>}
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {filter === 'open' && items.length ? 'Every action item is done.' : 'No action items here.'}
+        </p>
+      ) : (
+        <ul className="divide-y divide-border rounded-xl glass-card">
+          {visible.map((item) => (
+            <li key={item.id} className="flex items-start gap-3 px-4 py-3 text-sm">
+              <button
+                onClick={() => toggle(item)}
+                disabled={pending.has(item.id)}
+                title={item.done ? 'Mark as not done' : 'Mark as done'}
+                aria-pressed={item.done}
+                className={`mt-0.5 w-4 h-4 rounded border flex-shrink-0 flex items-center justify-center transition-all hover:scale-110 disabled:opacity-50 ${item.done ? 'bg-blue-500 border-blue-500' : 'border-border hover:border-blue-500/50'}`}
+              >
+                {item.done && <svg className="w-3 h-3 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={3}><path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" /></svg>}
+              </button>
+              <div className="flex-1 min-w-0">
+                <p className={item.done ? 'text-muted-foreground line-through' : 'text-foreground'}>{item.task}</p>
+                <p className="mt-1 flex flex-wrap items-center gap-x-2 gap-y-1 text-xs text-muted-foreground">
+                  <a href={item.chat.url} className="hover:text-blue-400 transition-colors truncate max-w-[20rem]">{item.chat.title}</a>
+                  {item.chat.tags.map((t) => (
+                    <a key={t} href={`/actions?tag=${encodeURIComponent(t)}`} className="font-mono hover:text-foreground transition-colors">#{t}</a>
+                  ))}
+                </p>
+              </div>
+              {item.age !== null && (
+                <time
+                  dateTime={item.chat.date ?? undefined}
+                  title={item.chat.date ? `From ${item.chat.date.slice(0, 10)}` : undefined}
+                  className={`text-xs font-mono tabular-nums flex-shrink-0 ${!item.done && item.age > 30 ? 'text-amber-400' : 'text-muted-foreground'}`}
+                >{ageLabel(item.age)}</time>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <p className="text-xs text-muted-foreground">{openCount} open · {items.length - openCount} done</p>
+    </div>
+  );
+};
+
+export default ActionInbox;
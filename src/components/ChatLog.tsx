@@ -1,11 +1,7 @@
 import { useState, type FC, type ReactNode } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import CodeBlock from './CodeBlock';
-
-interface ChatMessage {
-  role: 'user' | 'ai';
-  content: string;
-}
+import { parseChatMessages } from '@/utils/parse-chat';
 
 /* ─── Markdown Renderer ─── */
 
@@ -161,7 +157,7 @@ function renderTextBlock(text: string): ReactNode {
 
 /* ─── Message Bubbles ─── */
 
-const UserBubble: FC<{ content: string }> = ({ content }) => {
+export const UserBubble: FC<{ content: string }> = ({ content }) => {
   const blocks = parseBlocks(content);
   return (
     <motion.div
@@ -195,7 +191,7 @@ const UserBubble: FC<{ content: string }> = ({ content }) => {
   );
 };
 
-const AIBubble: FC<{ content: string; index: number }> = ({ content, index }) => {
+export const AIBubble: FC<{ content: string; index: number }> = ({ content, index }) => {
   const blocks = parseBlocks(content);
   const hasCodeBlocks = blocks.some((b) => b.type === 'code');
   const [collapsed, setCollapsed] = useState(false);
@@ -286,39 +282,22 @@ interface ChatLogProps {
 }
 
 const ChatLog: FC<ChatLogProps> = ({ rawContent }) => {
-  const messages = parseChatContent(rawContent);
+  const messages = parseChatMessages(rawContent);
 
   return (
     <div className="space-y-2 py-6">
-      {messages.map((msg, i) =>
-        msg.role === 'user' ? (
-          <UserBubble key={i} content={msg.content} />
-        ) : (
-          <AIBubble key={i} content={msg.content} index={i} />
-        )
-      )}
+      {messages.map((msg, i) => (
+        // Anchor ids let search results and other pages jump to a message
+        <div key={i} id={`message-${i}`} className="scroll-mt-20">
+          {msg.role === 'user' ? (
+            <UserBubble content={msg.content} />
+          ) : (
+            <AIBubble content={msg.content} index={i} />
+          )}
+        </div>
+      ))}
     </div>
   );
 };
 
-/** Parse raw content string into messages */
-function parseChatContent(raw: string): ChatMessage[] {
-  const messages: ChatMessage[] = [];
-  const sections = raw.split(/^## /m).filter(Boolean);
-
-  for (const section of sections) {
-    const firstNewline = section.indexOf('\n');
-    if (firstNewline === -1) continue;
-
-    const heading = section.slice(0, firstNewline).trim().toLowerCase();
-    const content = section.slice(firstNewline + 1).trim();
-    if (!content) continue;
-
-    if (heading === 'user') messages.push({ role: 'user', content });
-    else if (heading === 'ai') messages.push({ role: 'ai', content });
-  }
-
-  return messages;
-}
-
 export default ChatLog;
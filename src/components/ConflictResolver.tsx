@@ -0,0 +1,111 @@
+import { useState, type FC } from 'react';
+import { motion } from 'framer-motion';
+import { formatFieldValue, type FieldDiff, type MergeChoice } from '@/lib/merge';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+interface ConflictResolverProps {
+  diffs: FieldDiff[];
+  labels: Record<string, string>;
+  onKeepMine: () => void;
+  onTakeTheirs: () => void;
+  onMerge: (choices: Record<string, MergeChoice>) => void;
+}
+
+// ─── Value Preview ────────────────────────────────────────────────────────────
+
+const ValueOption: FC<{
+  side: MergeChoice;
+  value: unknown;
+  selected: boolean;
+  onSelect: () => void;
+}> = ({ side, value, selected, onSelect }) => (
+  <button
+    onClick={onSelect}
+    className={`flex-1 min-w-0 text-left p-2 rounded-md border text-xs transition-colors ${selected ? 'border-blue-500/50 bg-blue-500/10' : 'border-border hover:border-blue-500/30'}`}
+  >
+    <span className={`block mb-1 font-medium ${selected ? 'text-blue-400' : 'text-muted-foreground'}`}>
+      {side === 'mine' ? 'Mine' : 'On disk'}
+    </span>
+    <span className="block whitespace-pre-wrap break-words font-mono text-foreground/80 max-h-32 overflow-y-auto">
+      {formatFieldValue(value)}
+    </span>
+  </button>
+);
+
+// ─── Conflict Resolver ────────────────────────────────────────────────────────
+
+/**
+ * Shown when a save is rejected because the file changed on disk.
+ * Offers keep mine / take theirs, or a per-field merge seeded with the
+ * side that changed each field.
+ */
+const ConflictResolver: FC<ConflictResolverProps> = ({ diffs, labels, onKeepMine, onTakeTheirs, onMerge }) => {
+  const [merging, setMerging] = useState(false);
+  const [choices, setChoices] = useState<Record<string, MergeChoice>>(
+    () => Object.fromEntries(diffs.map((d) => [d.field, d.suggested])),
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -6 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="p-4 rounded-lg border border-red-500/30 bg-red-500/5 space-y-3"
+    >
+      <div>
+        <p className="text-sm font-medium text-red-400">This file changed on disk since you opened it</p>
+        <p className="text-xs text-muted-foreground mt-0.5">
+          Another tab or an MCP tool saved it. Your edits are not saved yet
+          {diffs.length > 0 && <> — differing fields: {diffs.map((d) => labels[d.field] ?? d.field).join(', ')}</>}.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={onKeepMine}
+          className="px-3 py-1.5 rounded-md text-xs font-medium bg-blue-500/10 border border-blue-500/30 text-blue-400 hover:bg-blue-500/20 transition-colors"
+        >Keep mine</button>
+        <button
+          onClick={onTakeTheirs}
+          className="px-3 py-1.5 rounded-md text-xs font-medium border border-border text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+        >Take theirs</button>
+        {diffs.length > 0 && (
+          <button
+            onClick={() => setMerging(!merging)}
+            className="px-3 py-1.5 rounded-md text-xs font-medium border border-border text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+          >{merging ? 'Hide merge' : 'Merge fields…'}</button>
+        )}
+      </div>
+
+      {merging && (
+        <div className="space-y-3 pt-1">
+          {diffs.map((d) => (
+            <div key={d.field}>
+              <p className="text-xs font-medium text-foreground mb-1.5 flex items-center gap-2">
+                {labels[d.field] ?? d.field}
+                {d.both && <span className="text-[10px] font-mono uppercase tracking-wider text-amber-400">changed on both sides</span>}
+              </p>
+              <div className="flex gap-2">
+                {(['mine', 'theirs'] as const).map((side) => (
+                  <ValueOption
+                    key={side}
+                    side={side}
+                    value={side === 'mine' ? d.mine : d.theirs}
+                    selected={choices[d.field] === side}
+                    onSelect={() => setChoices((prev) => ({ ...prev, [d.field]: side }))}
+                  />
+                ))}
+              </div>
+            </div>
+          ))}
+          <button
+            onClick={() => onMerge(choices)}
+            className="w-full px-3 py-1.5 rounded-md text-xs font-medium bg-blue-500/10 border border-blue-500/30 text-blue-400 hover:bg-blue-500/20 transition-colors"
+          >Save merged version</button>
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default ConflictResolver;
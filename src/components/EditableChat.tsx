@@ -0,0 +1,401 @@
+import { useState, useEffect, useRef, type FC } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { parseChatMessages, type ChatMessage } from '@/utils/parse-chat';
+import { diffFields, mergeFields, type MergeChoice } from '@/lib/merge';
+import { AIBubble, UserBubble } from './ChatLog';
+import { EditableText, SaveIndicator, TagEditor, useAutoSave } from './InlineEditors';
+import ExportMenu from './ExportMenu';
+import ConflictResolver from './ConflictResolver';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+interface ActionItem {
+  task: string;
+  done: boolean;
+}
+
+interface EditableChatProps {
+  filename: string;
+  initialTitle: string;
+  initialDate: string;
+  initialTags: string[];
+  initialTldr: string;
+  initialActionItems: ActionItem[];
+  initialBody: string;
+  /** Content hash of the file the page was rendered from */
+  initialVersion: string;
+}
+
+/** Everything the editor saves, as compared when resolving a conflict */
+type ChatFields = {
+  title: string;
+  tags: string[];
+  tldr: string;
+  action_items: ActionItem[];
+  messages: ChatMessage[];
+};
+
+const FIELD_LABELS: Record<keyof ChatFields, string> = {
+  title: 'Title',
+  tags: 'Tags',
+  tldr: 'TL;DR',
+  action_items: 'Action items',
+  messages: 'Messages',
+};
+
+/** A message with a stable key so editing state survives reordering */
+interface DraftMessage extends ChatMessage {
+  key: number;
+}
+
+const ROLE_LABEL = { user: 'You', ai: 'AI' } as const;
+
+/** Editor fields from a 409 response's current frontmatter and body */
+function chatFieldsFromDisk(current: { frontmatter: Record<string, unknown>; body: string }): ChatFields {
+  const fm = current.frontmatter as Partial<ChatFields>;
+  return {
+    title: fm.title ?? '',
+    tags: fm.tags ?? [],
+    tldr: fm.tldr ?? '',
+    action_items: fm.action_items ?? [],
+    messages: parseChatMessages(current.body),
+  };
+}
+
+// ─── Action Items ─────────────────────────────────────────────────────────────
+
+const ActionItemList: FC<{
+  items: ActionItem[];
+  onChange: (items: ActionItem[]) => void;
+}> = ({ items, onChange }) => {
+  const toggle = (i: number) =>
+    onChange(items.map((item, idx) => idx === i ? { ...item, done: !item.done } : item));
+
+  return (
+    <div className="p-4 rounded-lg bg-muted/50 border border-border">
+      <p className="text-sm font-medium text-muted-foreground mb-2">Action Items</p>
+      <ul className="space-y-1.5">
+        {items.map((item, i) => (
+          <li key={i} className="flex items-start gap-2 text-sm">
+            <button
+              onClick={() => toggle(i)}
+              title={item.done ? 'Mark as not done' : 'Mark as done'}
+              className={`mt-0.5 w-4 h-4 rounded border flex-shrink-0 flex items-center justify-center transition-all hover:scale-110 ${item.done ? 'bg-blue-500 border-blue-500' : 'border-border hover:border-blue-500/50'}`}
+            >
+              {item.done && <svg className="w-3 h-3 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={3}><path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" /></svg>}
+            </button>
+            <span className={item.done ? 'text-muted-foreground line-through' : 'text-foreground'}>{item.task}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+// ─── Message Block ────────────────────────────────────────────────────────────
+
+const ToolbarButton: FC<{ onClick: () => void; title: string; disabled?: boolean; danger?: boolean; children: string }> = ({
+  onClick, title, disabled = false, danger = false, children,
+}) => (
+  <button
+    onClick={onClick}
+    title={title}
+    disabled={disabled}
+    className={`px-1.5 py-0.5 rounded text-xs transition-colors disabled:opacity-30 disabled:pointer-events-none ${danger ? 'hover:text-red-400' : 'hover:text-blue-400'} hover:bg-muted`}
+  >{children}</button>
+);
+
+const MessageBlock: FC<{
+  message: DraftMessage;
+  index: number;
+  total: number;
+  editing: boolean;
+  onStartEdit: () => void;
+  onStopEdit: () => void;
+  onChange: (patch: Partial<ChatMessage>) => void;
+  onMove: (delta: -1 | 1) => void;
+  onDelete: () => void;
+}> = ({ message, index, total, editing, onStartEdit, onStopEdit, onChange, onMove, onDelete }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const isUser = message.role === 'user';
+
+  useEffect(() => {
+    if (editing) textareaRef.current?.focus();
+  }, [editing]);
+
+  if (editing) {
+    return (
+      <div className={`mb-6 flex ${isUser ? 'justify-end' : 'justify-start'}`}>
+        <div className="w-full max-w-[85%]">
+          <p className={`text-xs font-medium text-muted-foreground mb-1.5 ${isUser ? 'text-right' : ''}`}>
+            {ROLE_LABEL[message.role]} · editing markdown
+          </p>
+          <textarea
+            ref={textareaRef}
+            value={message.content}
+            onChange={(e) => onChange({ content: e.target.value })}
+            onBlur={onStopEdit}
+            onKeyDown={(e) => { if (e.key === 'Escape') onStopEdit(); }}
+            className="w-full bg-blue-500/5 border border-blue-500/20 rounded-xl p-3 text-sm font-mono text-foreground/90 outline-none focus:border-blue-500/40 resize-none leading-relaxed"
+            rows={Math.max(4, message.content.split('\n').length + 2)}
+            placeholder="Write markdown here…"
+          />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="group/message relative">
+      {/* Toolbar — sits in the empty space beside the bubble */}
+      <div className={`absolute top-0 z-10 flex print:hidden items-center gap-0.5 text-muted-foreground/50 opacity-0 group-hover/message:opacity-100 focus-within:opacity-100 transition-opacity ${isUser ? 'left-0' : 'right-0'}`}>
+        <ToolbarButton onClick={onStartEdit} title="Edit message">✎</ToolbarButton>
+        <ToolbarButton
+          onClick={() => onChange({ role: isUser ? 'ai' : 'user' })}
+          title={`Change role to ${isUser ? 'AI' : 'User'}`}
+        >{isUser ? '→ AI' : '→ User'}</ToolbarButton>
+        <ToolbarButton onClick={() => onMove(-1)} title="Move up" disabled={index === 0}>↑</ToolbarButton>
+        <ToolbarButton onClick={() => onMove(1)} title="Move down" disabled={index === total - 1}>↓</ToolbarButton>
+        <ToolbarButton onClick={onDelete} title="Delete message" danger>✕</ToolbarButton>
+      </div>
+      {isUser
+        ? <UserBubble content={message.content} />
+        : <AIBubble content={message.content} index={index} />}
+    </div>
+  );
+};
+
+/** Hover target between messages for inserting a new one */
+const InsertRow: FC<{ onInsert: (role: ChatMessage['role']) => void }> = ({ onInsert }) => (
+  <div className="group/insert flex print:hidden items-center gap-2 h-5 -mt-4 mb-1 opacity-0 hover:opacity-100 focus-within:opacity-100 transition-opacity">
+    <span className="flex-1 h-px bg-border" />
+    <button
+      onClick={() => onInsert('user')}
+      className="px-2 py-0.5 rounded-full text-[10px] font-mono border border-dashed border-border text-muted-foreground/60 hover:border-blue-500/40 hover:text-blue-400 transition-colors"
+    >+ User</button>
+    <button
+      onClick={() => onInsert('ai')}
+      className="px-2 py-0.5 rounded-full text-[10px] font-mono border border-dashed border-border text-muted-foreground/60 hover:border-purple-500/40 hover:text-purple-400 transition-colors"
+    >+ AI</button>
+    <span className="flex-1 h-px bg-border" />
+  </div>
+);
+
+// ─── Main EditableChat Component ──────────────────────────────────────────────
+
+const EditableChat: FC<EditableChatProps> = ({
+  filename,
+  initialTitle,
+  initialDate,
+  initialTags,
+  initialTldr,
+  initialActionItems,
+  initialBody,
+  initialVersion,
+}) => {
+  const nextKey = useRef(0);
+  const withKey = (m: ChatMessage): DraftMessage => ({ ...m, key: nextKey.current++ });
+
+  // State for all editable fields
+  const [title, setTitle] = useState(initialTitle);
+  const [tags, setTags] = useState(initialTags);
+  const [tldr, setTldr] = useState(initialTldr);
+  const [actionItems, setActionItems] = useState(initialActionItems);
+  const [messages, setMessages] = useState<DraftMessage[]>(() => parseChatMessages(initialBody).map(withKey));
+  const [editingKey, setEditingKey] = useState<number | null>(null);
+
+  // Optimistic concurrency: the version we last loaded or saved, and its fields
+  const version = useRef(initialVersion);
+  const currentFields = (): ChatFields => ({
+    title,
+    tags,
+    tldr,
+    action_items: actionItems,
+    messages: messages.filter((m) => m.content.trim()).map(({ role, content }) => ({ role, content })),
+  });
+  const [loadedFields] = useState(currentFields);
+  const lastSaved = useRef(loadedFields);
+  const [conflict, setConflict] = useState<{ theirs: ChatFields; version: string } | null>(null);
+
+  // Auto-save: debounce after any change
+  const { status: saveStatus, saveNow } = useAutoSave(async () => {
+    const mine = currentFields();
+    const res = await fetch('/api/update-chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        filename,
+        frontmatter: { title, tags, tldr, action_items: actionItems },
+        messages: mine.messages,
+        version: version.current,
+      }),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (res.status === 409) {
+      setConflict({ theirs: chatFieldsFromDisk(data.current), version: data.version });
+      return 'conflict';
+    }
+    if (!res.ok) return 'error';
+    version.current = data.version;
+    lastSaved.current = mine;
+    return 'saved';
+  }, [title, tags, tldr, actionItems, messages]);
+
+  const applyFields = (f: ChatFields) => {
+    setTitle(f.title);
+    setTags(f.tags);
+    setTldr(f.tldr);
+    setActionItems(f.action_items);
+    setMessages(f.messages.map(withKey));
+    setEditingKey(null);
+  };
+
+  // Conflict resolution — each option adopts the on-disk version, then saves
+  const keepMine = () => {
+    if (!conflict) return;
+    version.current = conflict.version;
+    setConflict(null);
+    saveNow();
+  };
+
+  const takeTheirs = () => {
+    if (!conflict) return;
+    version.current = conflict.version;
+    lastSaved.current = conflict.theirs;
+    applyFields(conflict.theirs);
+    setConflict(null);
+  };
+
+  const merge = (choices: Record<string, MergeChoice>) => {
+    if (!conflict) return;
+    if (!Object.values(choices).includes('theirs')) { keepMine(); return; }
+    version.current = conflict.version;
+    lastSaved.current = conflict.theirs;
+    applyFields(mergeFields(currentFields(), conflict.theirs, choices as Partial<Record<keyof ChatFields, MergeChoice>>));
+    setConflict(null);
+  };
+
+  // Message helpers
+  const updateMessage = (key: number, patch: Partial<ChatMessage>) =>
+    setMessages((prev) => prev.map((m) => m.key === key ? { ...m, ...patch } : m));
+
+  const removeMessage = (key: number) =>
+    setMessages((prev) => prev.filter((m) => m.key !== key));
+
+  const moveMessage = (i: number, delta: -1 | 1) =>
+    setMessages((prev) => {
+      const j = i + delta;
+      if (j < 0 || j >= prev.length) return prev;
+      const next = [...prev];
+      [next[i], next[j]] = [next[j], next[i]];
+      return next;
+    });
+
+  const insertMessage = (at: number, role: ChatMessage['role']) => {
+    const draft = withKey({ role, content: '' });
+    setMessages((prev) => [...prev.slice(0, at), draft, ...prev.slice(at)]);
+    setEditingKey(draft.key);
+  };
+
+  // Leaving an empty message discards it
+  const stopEditing = (key: number) => {
+    setEditingKey(null);
+    setMessages((prev) => prev.filter((m) => m.key !== key || m.content.trim()));
+  };
+
+  const displayDate = new Date(`${initialDate}T00:00:00Z`).toLocaleDateString('en-US', {
+    year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC',
+  });
+
+  return (
+    <div>
+      {/* ── Header ── */}
+      <header className="max-w-3xl mx-auto mb-10 space-y-4">
+
+        {/* Title + save indicator */}
+        <div className="flex items-start gap-3">
+          <EditableText
+            as="h1"
+            value={title}
+            onChange={setTitle}
+            className="text-3xl md:text-4xl font-bold text-foreground flex-1 leading-tight"
+            placeholder="Chat title…"
+          />
+          <div className="flex-shrink-0 mt-2 flex items-center gap-3">
+            <div className="print:hidden"><SaveIndicator status={saveStatus} /></div>
+            <ExportMenu collection="chats" filename={filename} />
+          </div>
+        </div>
+
+        {conflict && (
+          <ConflictResolver
+            key={conflict.version}
+            diffs={diffFields(lastSaved.current, currentFields(), conflict.theirs)}
+            labels={FIELD_LABELS}
+            onKeepMine={keepMine}
+            onTakeTheirs={takeTheirs}
+            onMerge={merge}
+          />
+        )}
+
+        <div className="text-sm text-muted-foreground">
+          <time dateTime={initialDate}>{displayDate}</time>
+        </div>
+
+        <TagEditor tags={tags} onChange={setTags} />
+
+        {/* TL;DR */}
+        <div className="p-4 rounded-lg bg-muted/50 border border-border">
+          <p className="text-sm font-medium text-muted-foreground mb-1">TL;DR</p>
+          <EditableText
+            as="p"
+            value={tldr}
+            onChange={setTldr}
+            className="text-sm text-foreground"
+            placeholder="One-line summary of this chat…"
+            multiline
+          />
+        </div>
+
+        {actionItems.length > 0 && <ActionItemList items={actionItems} onChange={setActionItems} />}
+      </header>
+
+      {/* ── Messages ── */}
+      <div className="max-w-3xl mx-auto py-6">
+        <AnimatePresence initial={false}>
+          {messages.map((msg, i) => (
+            // Anchor ids let search results and other pages jump to a message
+            <motion.div key={msg.key} layout="position" id={`message-${i}`} className="scroll-mt-20">
+              {i > 0 && <InsertRow onInsert={(role) => insertMessage(i, role)} />}
+              <MessageBlock
+                message={msg}
+                index={i}
+                total={messages.length}
+                editing={editingKey === msg.key}
+                onStartEdit={() => setEditingKey(msg.key)}
+                onStopEdit={() => stopEditing(msg.key)}
+                onChange={(patch) => updateMessage(msg.key, patch)}
+                onMove={(delta) => moveMessage(i, delta)}
+                onDelete={() => removeMessage(msg.key)}
+              />
+            </motion.div>
+          ))}
+        </AnimatePresence>
+
+        {/* Add message buttons */}
+        <div className="flex gap-2 pt-2 print:hidden">
+          <button
+            onClick={() => insertMessage(messages.length, 'user')}
+            className="flex-1 p-3 rounded-xl border border-dashed border-border text-xs text-muted-foreground/50 hover:border-blue-500/40 hover:text-blue-400 transition-colors"
+          >+ User message</button>
+          <button
+            onClick={() => insertMessage(messages.length, 'ai')}
+            className="flex-1 p-3 rounded-xl border border-dashed border-border text-xs text-muted-foreground/50 hover:border-purple-500/40 hover:text-purple-400 transition-colors"
+          >+ AI message</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EditableChat;
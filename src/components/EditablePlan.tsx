@@ -2,12 +2,17 @@ import {
   useState,
   useEffect,
   useRef,
-  useCallback,
   type FC,
-  type KeyboardEvent,
   type ReactNode,
 } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { parsePlanIntro, parsePlanSections, type PlanSection } from '@/utils/parse-plan';
+import { diffFields, mergeFields, type MergeChoice } from '@/lib/merge';
+import { isOverdue, localToday, milestoneSchedule } from '@/lib/schedule';
+import { EditableText, SaveIndicator, TagEditor, useAutoSave } from './InlineEditors';
+import ExportMenu from './ExportMenu';
+import ConflictResolver from './ConflictResolver';
+import MilestoneRoadmap from './MilestoneRoadmap';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -15,6 +20,9 @@ interface Milestone {
   title: string;
   weeks: string;
   status: 'not-started' | 'in-progress' | 'complete';
+  /** YYYY-MM-DD; when set, these take precedence over `weeks` */
+  start?: string;
+  end?: string;
 }
 
 interface EditablePlanProps {
@@ -27,8 +35,31 @@ interface EditablePlanProps {
   initialDifficulty: 'beginner' | 'intermediate' | 'advanced';
   initialMilestones: Milestone[];
   initialBody: string;
+  /** Content hash of the file the page was rendered from */
+  initialVersion: string;
 }
 
+/** Everything the editor saves, as compared when resolving a conflict */
+type PlanFields = {
+  title: string;
+  tags: string[];
+  tldr: string;
+  duration: string;
+  difficulty: 'beginner' | 'intermediate' | 'advanced';
+  milestones: Milestone[];
+  body: string;
+};
+
+const FIELD_LABELS: Record<keyof PlanFields, string> = {
+  title: 'Title',
+  tags: 'Tags',
+  tldr: 'TL;DR',
+  duration: 'Duration',
+  difficulty: 'Difficulty',
+  milestones: 'Milestones',
+  body: 'Content',
+};
+
 // ─── Inline Markdown Renderer (read-only, for non-editing view) ───────────────
 
 function renderInline(text: string): ReactNode[] {
@@ -47,128 +78,6 @@ function renderInline(text: string): ReactNode[] {
   return parts;
 }
 
-// ─── Save Status Indicator ────────────────────────────────────────────────────
-
-const SaveIndicator: FC<{ status: 'saved' | 'saving' | 'unsaved' | 'error' }> = ({ status }) => {
-  const config = {
-    saved:   { dot: 'bg-emerald-500', text: 'Saved', color: 'text-emerald-400' },
-    saving:  { dot: 'bg-amber-400 animate-pulse', text: 'Saving…', color: 'text-amber-400' },
-    unsaved: { dot: 'bg-amber-500', text: 'Unsaved changes', color: 'text-amber-400' },
-    error:   { dot: 'bg-red-500', text: 'Save failed', color: 'text-red-400' },
-  }[status];
-
-  return (
-    <div className={`flex items-center gap-1.5 text-xs ${config.color} transition-all`}>
-      <span className={`w-1.5 h-1.5 rounded-full ${config.dot}`} />
-      {config.text}
-    </div>
-  );
-};
-
-// ─── Editable Text (click-to-edit inline) ────────────────────────────────────
-
-const EditableText: FC<{
-  value: string;
-  onChange: (v: string) => void;
-  className?: string;
-  placeholder?: string;
-  multiline?: boolean;
-  as?: 'h1' | 'h2' | 'h3' | 'p' | 'span';
-}> = ({ value, onChange, className = '', placeholder = 'Click to edit…', multiline = false, as: Tag = 'span' }) => {
-  const [editing, setEditing] = useState(false);
-  const ref = useRef<HTMLTextAreaElement & HTMLInputElement>(null);
-
-  useEffect(() => {
-    if (editing) ref.current?.focus();
-  }, [editing]);
-
-  if (editing) {
-    const shared = {
-      ref,
-      value,
-      onChange: (e: React.ChangeEvent<HTMLTextAreaElement | HTMLInputElement>) => onChange(e.target.value),
-      onBlur: () => setEditing(false),
-      onKeyDown: (e: KeyboardEvent) => {
-        if (!multiline && e.key === 'Enter') { e.preventDefault(); setEditing(false); }
-        if (e.key === 'Escape') setEditing(false);
-      },
-      className: `w-full bg-blue-500/5 border border-blue-500/30 rounded-md px-2 py-1 outline-none text-foreground focus:border-blue-500/60 resize-none ${className}`,
-      placeholder,
-    };
-    return multiline
-      ? <textarea {...shared} rows={Math.max(3, value.split('\n').length + 1)} />
-      : <input {...shared} />;
-  }
-
-  return (
-    <Tag
-      onClick={() => setEditing(true)}
-      className={`cursor-text hover:bg-white/[0.03] rounded px-1 -mx-1 transition-colors group relative ${className} ${!value ? 'text-muted-foreground/40 italic' : ''}`}
-      title="Click to edit"
-    >
-      {value || placeholder}
-      <span className="opacity-0 group-hover:opacity-100 absolute -right-5 top-1/2 -translate-y-1/2 text-[10px] text-muted-foreground/60 transition-opacity">✎</span>
-    </Tag>
-  );
-};
-
-// ─── Tag Editor ───────────────────────────────────────────────────────────────
-
-const TagEditor: FC<{ tags: string[]; onChange: (tags: string[]) => void }> = ({ tags, onChange }) => {
-  const [adding, setAdding] = useState(false);
-  const [draft, setDraft] = useState('');
-  const inputRef = useRef<HTMLInputElement>(null);
-
-  useEffect(() => { if (adding) inputRef.current?.focus(); }, [adding]);
-
-  const commit = () => {
-    const t = draft.trim().toLowerCase().replace(/\s+/g, '-');
-    if (t && !tags.includes(t)) onChange([...tags, t]);
-    setDraft('');
-    setAdding(false);
-  };
-
-  return (
-    <div className="flex flex-wrap items-center gap-1.5">
-      <AnimatePresence>
-        {tags.map((tag) => (
-          <motion.span
-            key={tag}
-            initial={{ scale: 0.8, opacity: 0 }}
-            animate={{ scale: 1, opacity: 1 }}
-            exit={{ scale: 0.8, opacity: 0 }}
-            className="group flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-mono bg-muted text-muted-foreground hover:bg-muted/80"
-          >
-            #{tag}
-            <button
-              onClick={() => onChange(tags.filter((t) => t !== tag))}
-              className="opacity-0 group-hover:opacity-100 text-muted-foreground/60 hover:text-red-400 transition-all ml-0.5 leading-none"
-              title="Remove tag"
-            >×</button>
-          </motion.span>
-        ))}
-      </AnimatePresence>
-      {adding ? (
-        <input
-          ref={inputRef}
-          value={draft}
-          onChange={(e) => setDraft(e.target.value)}
-          onKeyDown={(e) => { if (e.key === 'Enter') commit(); if (e.key === 'Escape') { setAdding(false); setDraft(''); } }}
-          onBlur={commit}
-          placeholder="tag-name"
-          className="px-2 py-0.5 rounded-full text-xs font-mono bg-blue-500/10 border border-blue-500/30 text-blue-300 outline-none w-24"
-        />
-      ) : (
-        <button
-          onClick={() => setAdding(true)}
-          className="px-2 py-0.5 rounded-full text-xs font-mono border border-dashed border-border text-muted-foreground/50 hover:border-blue-500/40 hover:text-blue-400 transition-colors"
-          title="Add tag"
-        >+ tag</button>
-      )}
-    </div>
-  );
-};
-
 // ─── Difficulty Selector ──────────────────────────────────────────────────────
 
 const DIFFICULTIES = ['beginner', 'intermediate', 'advanced'] as const;
@@ -225,8 +134,11 @@ const STATUS_STYLES = {
 
 const MilestoneEditor: FC<{
   milestones: Milestone[];
+  planDate: string;
+  /** Known only after hydration, so overdue milestones show up client-side */
+  today: string | null;
   onChange: (ms: Milestone[]) => void;
-}> = ({ milestones, onChange }) => {
+}> = ({ milestones, planDate, today, onChange }) => {
   const update = (i: number, patch: Partial<Milestone>) =>
     onChange(milestones.map((m, idx) => idx === i ? { ...m, ...patch } : m));
 
@@ -243,6 +155,7 @@ const MilestoneEditor: FC<{
       <AnimatePresence>
         {milestones.map((m, i) => {
           const st = STATUS_STYLES[m.status];
+          const overdue = today !== null && isOverdue(m, milestoneSchedule(m, planDate), today);
           return (
             <motion.div
               key={i}
@@ -283,6 +196,11 @@ const MilestoneEditor: FC<{
               <span className={`hidden sm:block text-[10px] font-mono uppercase tracking-wider ${st.label} flex-shrink-0`}>
                 {m.status}
               </span>
+              {overdue && (
+                <span className="text-[10px] font-mono uppercase tracking-wider text-red-400 flex-shrink-0" title={`Due ${milestoneSchedule(m, planDate)?.end}`}>
+                  overdue
+                </span>
+              )}
 
               {/* Delete */}
               <button
@@ -296,7 +214,7 @@ const MilestoneEditor: FC<{
       </AnimatePresence>
       <button
         onClick={add}
-        className="w-full p-2 rounded-lg border border-dashed border-border text-xs text-muted-foreground/50 hover:border-blue-500/40 hover:text-blue-400 transition-colors"
+        className="w-full p-2 rounded-lg border border-dashed border-border text-xs text-muted-foreground/50 hover:border-blue-500/40 hover:text-blue-400 transition-colors print:hidden"
       >+ Add milestone</button>
     </div>
   );
@@ -304,28 +222,7 @@ const MilestoneEditor: FC<{
 
 // ─── Section Editor ───────────────────────────────────────────────────────────
 
-interface Section { level: 2 | 3; title: string; content: string; }
-
-function parseSections(raw: string): Section[] {
-  const sections: Section[] = [];
-  const lines = raw.split('\n');
-  let current: Section | null = null;
-  let buf: string[] = [];
-
-  const flush = () => {
-    if (current) { current.content = buf.join('\n').trim(); sections.push(current); buf = []; }
-  };
-
-  for (const line of lines) {
-    const h2 = line.match(/^## (.+)/);
-    const h3 = line.match(/^### (.+)/);
-    if (h2) { flush(); current = { level: 2, title: h2[1].trim(), content: '' }; }
-    else if (h3) { flush(); current = { level: 3, title: h3[1].trim(), content: '' }; }
-    else buf.push(line);
-  }
-  flush();
-  return sections;
-}
+type Section = PlanSection;
 
 function sectionsToBody(intro: string, sections: Section[]): string {
   const parts: string[] = [];
@@ -337,6 +234,25 @@ function sectionsToBody(intro: string, sections: Section[]): string {
   return parts.join('\n\n');
 }
 
+/** Round-trip a body through the section parser so bodies compare by content */
+function normalizeBody(body: string): string {
+  return sectionsToBody(parsePlanIntro(body), parsePlanSections(body));
+}
+
+/** Editor fields from a 409 response's current frontmatter and body */
+function planFieldsFromDisk(current: { frontmatter: Record<string, unknown>; body: string }): PlanFields {
+  const fm = current.frontmatter as Partial<PlanFields>;
+  return {
+    title: fm.title ?? '',
+    tags: fm.tags ?? [],
+    tldr: fm.tldr ?? '',
+    duration: fm.duration ?? '',
+    difficulty: fm.difficulty ?? 'intermediate',
+    milestones: fm.milestones ?? [],
+    body: normalizeBody(current.body),
+  };
+}
+
 /** Render content with interactive checklists */
 const ContentRenderer: FC<{
   content: string;
@@ -543,6 +459,7 @@ const EditablePlan: FC<EditablePlanProps> = ({
   initialDifficulty,
   initialMilestones,
   initialBody,
+  initialVersion,
 }) => {
   // State for all editable fields
   const [title, setTitle] = useState(initialTitle);
@@ -551,53 +468,81 @@ const EditablePlan: FC<EditablePlanProps> = ({
   const [duration, setDuration] = useState(initialDuration);
   const [difficulty, setDifficulty] = useState(initialDifficulty);
   const [milestones, setMilestones] = useState<Milestone[]>(initialMilestones);
+  const [today, setToday] = useState<string | null>(null);
+  useEffect(() => setToday(localToday()), []);
 
   // Parse body into sections
-  const [intro, setIntro] = useState(() => {
-    const lines = initialBody.split('\n');
-    const buf: string[] = [];
-    for (const line of lines) {
-      if (/^##\s/.test(line)) break;
-      buf.push(line);
+  const [intro, setIntro] = useState(() => parsePlanIntro(initialBody));
+  const [sections, setSections] = useState<Section[]>(() => parsePlanSections(initialBody));
+
+  // Optimistic concurrency: the version we last loaded or saved, and its fields
+  const version = useRef(initialVersion);
+  const currentFields = (): PlanFields =>
+    ({ title, tags, tldr, duration, difficulty, milestones, body: sectionsToBody(intro, sections) });
+  const [loadedFields] = useState(currentFields);
+  const lastSaved = useRef(loadedFields);
+  const [conflict, setConflict] = useState<{ theirs: PlanFields; version: string } | null>(null);
+
+  // Auto-save: debounce after any change
+  const { status: saveStatus, saveNow } = useAutoSave(async () => {
+    const mine = currentFields();
+    const res = await fetch('/api/update-plan', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        filename,
+        frontmatter: { title, date: initialDate, tags, tldr, duration, difficulty, milestones },
+        body: mine.body,
+        version: version.current,
+      }),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (res.status === 409) {
+      setConflict({ theirs: planFieldsFromDisk(data.current), version: data.version });
+      return 'conflict';
     }
-    return buf.join('\n').trim();
-  });
-  const [sections, setSections] = useState<Section[]>(() => parseSections(initialBody));
-
-  const [saveStatus, setSaveStatus] = useState<'saved' | 'saving' | 'unsaved' | 'error'>('saved');
-  const saveTimer = useRef<ReturnType<typeof setTimeout>>();
-  const isFirstRender = useRef(true);
-
-  // Auto-save: debounce 1.2s after any change
-  const schedulesSave = useCallback(() => {
-    setSaveStatus('unsaved');
-    if (saveTimer.current) clearTimeout(saveTimer.current);
-    saveTimer.current = setTimeout(async () => {
-      setSaveStatus('saving');
-      try {
-        const body = sectionsToBody(intro, sections);
-        const res = await fetch('/api/update-plan', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            filename,
-            frontmatter: { title, date: initialDate, tags, tldr, duration, difficulty, milestones },
-            body,
-          }),
-        });
-        setSaveStatus(res.ok ? 'saved' : 'error');
-      } catch {
-        setSaveStatus('error');
-      }
-    }, 1200);
-  }, [title, tags, tldr, duration, difficulty, milestones, intro, sections, filename, initialDate]);
-
-  // Trigger save on any state change (skip first render)
-  useEffect(() => {
-    if (isFirstRender.current) { isFirstRender.current = false; return; }
-    schedulesSave();
+    if (!res.ok) return 'error';
+    version.current = data.version;
+    lastSaved.current = mine;
+    return 'saved';
   }, [title, tags, tldr, duration, difficulty, milestones, intro, sections]);
 
+  const applyFields = (f: PlanFields) => {
+    setTitle(f.title);
+    setTags(f.tags);
+    setTldr(f.tldr);
+    setDuration(f.duration);
+    setDifficulty(f.difficulty);
+    setMilestones(f.milestones);
+    setIntro(parsePlanIntro(f.body));
+    setSections(parsePlanSections(f.body));
+  };
+
+  // Conflict resolution — each option adopts the on-disk version, then saves
+  const keepMine = () => {
+    if (!conflict) return;
+    version.current = conflict.version;
+    setConflict(null);
+    saveNow();
+  };
+
+  const takeTheirs = () => {
+    if (!conflict) return;
+    version.current = conflict.version;
+    lastSaved.current = conflict.theirs;
+    applyFields(conflict.theirs);
+    setConflict(null);
+  };
+
+  const merge = (choices: Record<string, MergeChoice>) => {
+    if (!conflict) return;
+    if (!Object.values(choices).includes('theirs')) { keepMine(); return; }
+    version.current = conflict.version;
+    lastSaved.current = conflict.theirs;
+    applyFields(mergeFields(currentFields(), conflict.theirs, choices as Partial<Record<keyof PlanFields, MergeChoice>>));
+    setConflict(null);
+  };
+
   // Section helpers
   const updateSection = (i: number, patch: Partial<Section>) =>
     setSections((prev) => prev.map((s, idx) => idx === i ? { ...s, ...patch } : s));
@@ -622,11 +567,23 @@ const EditablePlan: FC<EditablePlanProps> = ({
             className="text-3xl font-bold text-foreground flex-1 leading-tight"
             placeholder="Plan title…"
           />
-          <div className="flex-shrink-0 mt-2">
-            <SaveIndicator status={saveStatus} />
+          <div className="flex-shrink-0 mt-2 flex items-center gap-3">
+            <div className="print:hidden"><SaveIndicator status={saveStatus} /></div>
+            <ExportMenu collection="plans" filename={filename} />
           </div>
         </div>
 
+        {conflict && (
+          <ConflictResolver
+            key={conflict.version}
+            diffs={diffFields(lastSaved.current, currentFields(), conflict.theirs)}
+            labels={FIELD_LABELS}
+            onKeepMine={keepMine}
+            onTakeTheirs={takeTheirs}
+            onMerge={merge}
+          />
+        )}
+
         {/* Meta row */}
         <div className="flex flex-wrap items-center gap-3 text-sm text-muted-foreground">
           <span className="font-mono">{initialDate}</span>
@@ -671,7 +628,8 @@ const EditablePlan: FC<EditablePlanProps> = ({
             Milestones
             <span className="ml-auto text-xs text-muted-foreground/50 font-normal">click dot to change status</span>
           </h3>
-          <MilestoneEditor milestones={milestones} onChange={setMilestones} />
+          <MilestoneEditor milestones={milestones} planDate={initialDate} today={today} onChange={setMilestones} />
+          <MilestoneRoadmap milestones={milestones} planDate={initialDate} today={today} onChange={setMilestones} />
         </div>
       </div>
 
@@ -694,7 +652,7 @@ const EditablePlan: FC<EditablePlanProps> = ({
       {/* ── Sections ── */}
       <div className="max-w-3xl mx-auto space-y-1">
         {sections.map((section, i) => (
-          <div key={i} className="group/section relative">
+          <div key={i} id={`section-${i}`} className="group/section relative scroll-mt-20">
             <SectionBlock
               section={section}
               index={i}
@@ -710,7 +668,7 @@ const EditablePlan: FC<EditablePlanProps> = ({
         ))}
 
         {/* Add section buttons */}
-        <div className="flex gap-2 pt-4">
+        <div className="flex gap-2 pt-4 print:hidden">
           <button
             onClick={() => addSection(2)}
             className="flex-1 p-3 rounded-xl border border-dashed border-border text-xs text-muted-foreground/50 hover:border-blue-500/40 hover:text-blue-400 transition-colors"
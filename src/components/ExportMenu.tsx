@@ -0,0 +1,67 @@
+import { useEffect, useRef, useState, type FC } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+
+interface ExportMenuProps {
+  collection: 'chats' | 'plans';
+  filename: string;
+}
+
+/**
+ * Export dropdown for chat and plan pages: a self-contained HTML file in the
+ * current theme, a CommonMark file, or the browser's print dialog for PDF.
+ */
+const ExportMenu: FC<ExportMenuProps> = ({ collection, filename }) => {
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!open) return;
+    const onClick = (e: MouseEvent) => {
+      if (!ref.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', onClick);
+    return () => document.removeEventListener('mousedown', onClick);
+  }, [open]);
+
+  const href = (format: 'html' | 'markdown') => {
+    const theme = document.documentElement.classList.contains('dark') ? 'dark' : 'light';
+    const params = new URLSearchParams({ collection, filename, format, theme });
+    return `/api/export?${params}`;
+  };
+
+  const itemClass = 'block w-full text-left px-3 py-1.5 text-xs text-muted-foreground hover:text-foreground hover:bg-muted transition-colors';
+
+  return (
+    <div ref={ref} className="relative print:hidden">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1 px-2 py-1 rounded-md text-xs text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+        aria-haspopup="menu"
+        aria-expanded={open}
+      >
+        <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M4 16v2a2 2 0 002 2h12a2 2 0 002-2v-2M7 10l5 5 5-5M12 15V3" />
+        </svg>
+        Export
+      </button>
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+            role="menu"
+            className="absolute right-0 mt-1 w-44 py-1 rounded-md border border-border bg-card shadow-lg z-20"
+          >
+            <a role="menuitem" href={href('html')} download onClick={() => setOpen(false)} className={itemClass}>HTML file</a>
+            <a role="menuitem" href={href('markdown')} download onClick={() => setOpen(false)} className={itemClass}>Markdown</a>
+            <button role="menuitem" onClick={() => { setOpen(false); window.print(); }} className={itemClass}>Print / Save as PDF</button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default ExportMenu;
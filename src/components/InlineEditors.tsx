@@ -0,0 +1,181 @@
+import {
+  useState,
+  useEffect,
+  useRef,
+  type FC,
+  type KeyboardEvent,
+} from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { tagHref } from '@/lib/tags';
+
+/**
+ * Click-to-edit controls and auto-save shared by EditablePlan and EditableChat.
+ */
+
+export type SaveStatus = 'saved' | 'saving' | 'unsaved' | 'error' | 'conflict';
+
+const SAVE_DELAY_MS = 1200;
+
+// ─── Auto-save ────────────────────────────────────────────────────────────────
+
+/**
+ * Debounce `save` until editing pauses, re-arming whenever `deps` change.
+ * The first render is skipped so opening a page never writes the file.
+ * `save` resolves to the resulting status; `saveNow` skips the debounce.
+ */
+export function useAutoSave(
+  save: () => Promise<SaveStatus>,
+  deps: unknown[],
+): { status: SaveStatus; saveNow: () => void } {
+  const [status, setStatus] = useState<SaveStatus>('saved');
+  const saveTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const isFirstRender = useRef(true);
+  const latestSave = useRef(save);
+  latestSave.current = save;
+
+  const run = async () => {
+    setStatus('saving');
+    try {
+      setStatus(await latestSave.current());
+    } catch {
+      setStatus('error');
+    }
+  };
+
+  useEffect(() => {
+    if (isFirstRender.current) { isFirstRender.current = false; return; }
+    setStatus('unsaved');
+    if (saveTimer.current) clearTimeout(saveTimer.current);
+    saveTimer.current = setTimeout(run, SAVE_DELAY_MS);
+  }, deps);
+
+  const saveNow = () => {
+    if (saveTimer.current) clearTimeout(saveTimer.current);
+    void run();
+  };
+
+  return { status, saveNow };
+}
+
+// ─── Save Status Indicator ────────────────────────────────────────────────────
+
+export const SaveIndicator: FC<{ status: SaveStatus }> = ({ status }) => {
+  const config = {
+    saved:   { dot: 'bg-emerald-500', text: 'Saved', color: 'text-emerald-400' },
+    saving:  { dot: 'bg-amber-400 animate-pulse', text: 'Saving…', color: 'text-amber-400' },
+    unsaved: { dot: 'bg-amber-500', text: 'Unsaved changes', color: 'text-amber-400' },
+    error:   { dot: 'bg-red-500', text: 'Save failed', color: 'text-red-400' },
+    conflict: { dot: 'bg-red-500 animate-pulse', text: 'Changed on disk', color: 'text-red-400' },
+  }[status];
+
+  return (
+    <div className={`flex items-center gap-1.5 text-xs ${config.color} transition-all`}>
+      <span className={`w-1.5 h-1.5 rounded-full ${config.dot}`} />
+      {config.text}
+    </div>
+  );
+};
+
+// ─── Editable Text (click-to-edit inline) ────────────────────────────────────
+
+export const EditableText: FC<{
+  value: string;
+  onChange: (v: string) => void;
+  className?: string;
+  placeholder?: string;
+  multiline?: boolean;
+  as?: 'h1' | 'h2' | 'h3' | 'p' | 'span';
+}> = ({ value, onChange, className = '', placeholder = 'Click to edit…', multiline = false, as: Tag = 'span' }) => {
+  const [editing, setEditing] = useState(false);
+  const ref = useRef<HTMLTextAreaElement & HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (editing) ref.current?.focus();
+  }, [editing]);
+
+  if (editing) {
+    const shared = {
+      ref,
+      value,
+      onChange: (e: React.ChangeEvent<HTMLTextAreaElement | HTMLInputElement>) => onChange(e.target.value),
+      onBlur: () => setEditing(false),
+      onKeyDown: (e: KeyboardEvent) => {
+        if (!multiline && e.key === 'Enter') { e.preventDefault(); setEditing(false); }
+        if (e.key === 'Escape') setEditing(false);
+      },
+      className: `w-full bg-blue-500/5 border border-blue-500/30 rounded-md px-2 py-1 outline-none text-foreground focus:border-blue-500/60 resize-none ${className}`,
+      placeholder,
+    };
+    return multiline
+      ? <textarea {...shared} rows={Math.max(3, value.split('\n').length + 1)} />
+      : <input {...shared} />;
+  }
+
+  return (
+    <Tag
+      onClick={() => setEditing(true)}
+      className={`cursor-text hover:bg-white/[0.03] rounded px-1 -mx-1 transition-colors group relative ${className} ${!value ? 'text-muted-foreground/40 italic' : ''}`}
+      title="Click to edit"
+    >
+      {value || placeholder}
+      <span className="opacity-0 group-hover:opacity-100 absolute -right-5 top-1/2 -translate-y-1/2 text-[10px] text-muted-foreground/60 transition-opacity">✎</span>
+    </Tag>
+  );
+};
+
+// ─── Tag Editor ───────────────────────────────────────────────────────────────
+
+export const TagEditor: FC<{ tags: string[]; onChange: (tags: string[]) => void }> = ({ tags, onChange }) => {
+  const [adding, setAdding] = useState(false);
+  const [draft, setDraft] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => { if (adding) inputRef.current?.focus(); }, [adding]);
+
+  const commit = () => {
+    const t = draft.trim().toLowerCase().replace(/\s+/g, '-');
+    if (t && !tags.includes(t)) onChange([...tags, t]);
+    setDraft('');
+    setAdding(false);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      <AnimatePresence>
+        {tags.map((tag) => (
+          <motion.span
+            key={tag}
+            initial={{ scale: 0.8, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.8, opacity: 0 }}
+            className="group flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-mono bg-muted text-muted-foreground hover:bg-muted/80"
+          >
+            <a href={tagHref([tag])} className="hover:text-blue-400 transition-colors" title={`Browse #${tag}`}>#{tag}</a>
+            <button
+              onClick={() => onChange(tags.filter((t) => t !== tag))}
+              className="opacity-0 group-hover:opacity-100 text-muted-foreground/60 hover:text-red-400 transition-all ml-0.5 leading-none"
+              title="Remove tag"
+            >×</button>
+          </motion.span>
+        ))}
+      </AnimatePresence>
+      {adding ? (
+        <input
+          ref={inputRef}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') commit(); if (e.key === 'Escape') { setAdding(false); setDraft(''); } }}
+          onBlur={commit}
+          placeholder="tag-name"
+          className="px-2 py-0.5 rounded-full text-xs font-mono bg-blue-500/10 border border-blue-500/30 text-blue-300 outline-none w-24"
+        />
+      ) : (
+        <button
+          onClick={() => setAdding(true)}
+          className="px-2 py-0.5 rounded-full text-xs font-mono border border-dashed border-border text-muted-foreground/50 hover:border-blue-500/40 hover:text-blue-400 transition-colors"
+          title="Add tag"
+        >+ tag</button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,186 @@
+import { useRef, useState, type FC, type KeyboardEvent, type PointerEvent } from 'react';
+import {
+  addDays,
+  daysBetween,
+  roadmapLayout,
+  scheduleMilestone,
+  shiftRange,
+  type MilestoneState,
+  type MilestoneStatus,
+  type RoadmapRow,
+} from '@/lib/schedule';
+
+/**
+ * Gantt view of a plan's milestones, shown under the milestone list. In
+ * reschedule mode bars can be dragged to move them, their ends dragged to
+ * change start or end, and unscheduled milestones placed by clicking their row.
+ * Changes go through `onChange`, so they auto-save like any other edit.
+ */
+
+interface RoadmapMilestone {
+  title: string;
+  weeks: string;
+  status: MilestoneStatus;
+  start?: string;
+  end?: string;
+}
+
+type Edge = 'move' | 'start' | 'end';
+
+interface Drag {
+  index: number;
+  edge: Edge;
+  x: number;
+  /** Width of one day in pixels */
+  dayWidth: number;
+  days: number;
+}
+
+const BAR_STYLES: Record<MilestoneState, string> = {
+  'not-started': 'bg-muted-foreground/25 border-muted-foreground/30',
+  'in-progress': 'bg-blue-500/40 border-blue-500/60',
+  complete: 'bg-emerald-500/40 border-emerald-500/60',
+  overdue: 'bg-red-500/40 border-red-500/70',
+};
+
+/** Length given to a milestone placed by clicking its empty row. */
+const NEW_BAR_DAYS = 7;
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+const MilestoneRoadmap: FC<{
+  milestones: RoadmapMilestone[];
+  planDate: string;
+  /** YYYY-MM-DD, or null until known in the browser */
+  today: string | null;
+  onChange: (milestones: RoadmapMilestone[]) => void;
+}> = ({ milestones, planDate, today, onChange }) => {
+  const [editing, setEditing] = useState(false);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const trackRef = useRef<HTMLDivElement>(null);
+
+  const roadmap = roadmapLayout(milestones, planDate, today);
+  if (!milestones.length) return null;
+
+  if (!roadmap) {
+    return (
+      <p className="mt-4 text-xs text-muted-foreground/60">
+        Give milestones a week range like “Weeks 1-4” or start/end dates to see them on a roadmap.
+      </p>
+    );
+  }
+
+  const reschedule = (index: number, range: { start: string; end: string }) =>
+    onChange(milestones.map((m, i) => (i === index ? scheduleMilestone(m, range, planDate) : m)));
+
+  const dayWidth = () => (trackRef.current?.getBoundingClientRect().width ?? 0) / roadmap.days;
+
+  const startDrag = (e: PointerEvent<HTMLElement>, index: number, edge: Edge) => {
+    if (!editing) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ index, edge, x: e.clientX, dayWidth: dayWidth(), days: 0 });
+  };
+
+  const moveDrag = (e: PointerEvent<HTMLElement>) => {
+    if (!drag || !drag.dayWidth) return;
+    const days = Math.round((e.clientX - drag.x) / drag.dayWidth);
+    if (days !== drag.days) setDrag({ ...drag, days });
+  };
+
+  const endDrag = (row: RoadmapRow) => {
+    if (drag?.days && row.schedule) reschedule(row.index, shiftRange(row.schedule, drag.edge, drag.days));
+    setDrag(null);
+  };
+
+  const placeAt = (e: PointerEvent<HTMLElement>, row: RoadmapRow) => {
+    if (!editing || row.schedule) return;
+    const x = e.clientX - e.currentTarget.getBoundingClientRect().left;
+    const start = addDays(roadmap.start, Math.floor(x / dayWidth()));
+    reschedule(row.index, { start, end: addDays(start, NEW_BAR_DAYS - 1) });
+  };
+
+  // Arrow keys move a focused bar by a day; with Shift they change its end
+  const nudge = (e: KeyboardEvent<HTMLElement>, row: RoadmapRow) => {
+    if (!editing || !row.schedule || (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight')) return;
+    e.preventDefault();
+    reschedule(row.index, shiftRange(row.schedule, e.shiftKey ? 'end' : 'move', e.key === 'ArrowLeft' ? -1 : 1));
+  };
+
+  const pct = (days: number) => `${(days / roadmap.days) * 100}%`;
+  const weeks = Array.from({ length: roadmap.days / 7 }, (_, i) => addDays(roadmap.start, i * 7));
+
+  return (
+    <div className="mt-5">
+      <div className="flex items-center mb-2">
+        <span className="text-xs font-medium text-muted-foreground">Roadmap</span>
+        <button
+          onClick={() => setEditing(!editing)}
+          className={`ml-auto px-2 py-0.5 rounded text-[11px] border transition-colors print:hidden ${editing ? 'border-blue-500/40 text-blue-400 bg-blue-500/10' : 'border-border text-muted-foreground hover:text-foreground'}`}
+          title={editing ? 'Stop rescheduling' : 'Drag bars to change milestone dates'}
+        >{editing ? 'Done' : 'Reschedule'}</button>
+      </div>
+
+      <div className="flex text-[10px] font-mono text-muted-foreground/60">
+        <div className="w-32 flex-shrink-0" />
+        <div className="flex-1 flex">
+          {weeks.map((week) => (
+            <div key={week} className="flex-1 truncate border-l border-border/60 pl-1">{formatDay(week)}</div>
+          ))}
+        </div>
+      </div>
+
+      <div className="relative">
+        {roadmap.rows.map((row) => {
+          const range = row.schedule && drag?.index === row.index ? shiftRange(row.schedule, drag.edge, drag.days) : row.schedule;
+          return (
+            <div key={row.index} className="flex items-center h-8">
+              <div className="w-32 flex-shrink-0 pr-2 truncate text-xs text-foreground/80" title={row.title}>{row.title}</div>
+              <div
+                ref={row.index === 0 ? trackRef : undefined}
+                onPointerDown={(e) => placeAt(e, row)}
+                className={`relative flex-1 h-full border-l border-border/60 ${editing && !row.schedule ? 'cursor-copy hover:bg-blue-500/5' : ''}`}
+              >
+                {range ? (
+                  <div
+                    aria-label={editing ? `${row.title}: ${range.start} to ${range.end}` : undefined}
+                    tabIndex={editing ? 0 : undefined}
+                    onPointerDown={(e) => startDrag(e, row.index, 'move')}
+                    onPointerMove={moveDrag}
+                    onPointerUp={() => endDrag(row)}
+                    onPointerCancel={() => setDrag(null)}
+                    onKeyDown={(e) => nudge(e, row)}
+                    title={`${row.title}: ${formatDay(range.start)} – ${formatDay(range.end)}${row.state === 'overdue' ? ' (overdue)' : ''}`}
+                    className={`group/bar absolute top-1.5 bottom-1.5 rounded border ${BAR_STYLES[row.state]} ${editing ? 'cursor-grab active:cursor-grabbing touch-none' : ''} ${row.schedule?.source === 'weeks' ? 'border-dashed' : ''}`}
+                    style={{ left: pct(daysBetween(roadmap.start, range.start)), width: pct(daysBetween(range.start, range.end) + 1) }}
+                  >
+                    {editing && (['start', 'end'] as const).map((edge) => (
+                      <span
+                        key={edge}
+                        onPointerDown={(e) => startDrag(e, row.index, edge)}
+                        className={`absolute top-0 bottom-0 w-1.5 cursor-ew-resize bg-foreground/0 group-hover/bar:bg-foreground/20 ${edge === 'start' ? 'left-0 rounded-l' : 'right-0 rounded-r'}`}
+                      />
+                    ))}
+                  </div>
+                ) : (
+                  <span className="absolute inset-y-0 left-2 flex items-center text-[10px] text-muted-foreground/50">
+                    {editing ? 'click to place' : 'unscheduled'}
+                  </span>
+                )}
+              </div>
+            </div>
+          );
+        })}
+
+        {roadmap.today !== null && (
+          <div className="absolute top-0 bottom-0 left-32 right-0 pointer-events-none">
+            <div className="absolute top-0 bottom-0 w-px bg-red-400/70" style={{ left: pct(roadmap.today + 0.5) }} title="Today" />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MilestoneRoadmap;
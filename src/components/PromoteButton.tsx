@@ -0,0 +1,47 @@
+import { useState, type FC } from 'react';
+
+/**
+ * "Promote to plan" on a chat page: creates a study plan from the chat
+ * through /api/promote-chat (see mcp/promote.mjs) and opens it.
+ */
+const PromoteButton: FC<{ filename: string }> = ({ filename }) => {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const promote = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/promote-chat', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ filename }),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body.error ?? `Could not create the plan (${res.status})`);
+      window.location.href = body.url;
+    } catch (err) {
+      setError((err as Error).message);
+      setBusy(false);
+    }
+  };
+
+  return (
+    <span className="inline-flex items-center gap-2">
+      {error && <span className="text-xs text-red-400" role="alert">{error}</span>}
+      <button
+        onClick={promote}
+        disabled={busy}
+        title="Create a study plan from this chat's answers and action items"
+        className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground transition-colors disabled:opacity-50"
+      >
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+        </svg>
+        {busy ? 'Promoting…' : 'Promote to plan'}
+      </button>
+    </span>
+  );
+};
+
+export default PromoteButton;
@@ -0,0 +1,154 @@
+import { useEffect, useMemo, useRef, useState, type FC } from 'react';
+import { motion } from 'framer-motion';
+import { searchIndex, type SearchIndex, type SearchResult, type SnippetPart } from '@/lib/search';
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function readQueryParam(): string {
+  if (typeof window === 'undefined') return '';
+  return new URLSearchParams(window.location.search).get('q') ?? '';
+}
+
+const Snippet: FC<{ parts: SnippetPart[] }> = ({ parts }) => (
+  <>
+    {parts.map((p, i) =>
+      p.match ? (
+        <mark key={i} className="bg-blue-500/20 text-foreground rounded px-0.5">{p.text}</mark>
+      ) : (
+        <span key={i}>{p.text}</span>
+      )
+    )}
+  </>
+);
+
+// ─── Result Card ──────────────────────────────────────────────────────────────
+
+const ResultCard: FC<{ result: SearchResult; index: number }> = ({ result, index }) => {
+  const { document: doc, hits } = result;
+  const isPlan = doc.type === 'plan';
+
+  return (
+    <motion.li
+      initial={{ opacity: 0, y: 12 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.25, delay: Math.min(index, 10) * 0.03 }}
+      className="p-5 rounded-xl glass-card"
+    >
+      <div className="flex items-center gap-3 mb-2">
+        <time className="text-xs font-mono text-muted-foreground">
+          {new Date(doc.date).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })}
+        </time>
+        <span className={`px-1.5 py-0.5 rounded text-[10px] font-mono uppercase tracking-wider border ${isPlan ? 'bg-purple-500/10 text-purple-400 border-purple-500/20' : 'bg-blue-500/10 text-blue-400 border-blue-500/20'}`}>
+          {doc.type}
+        </span>
+      </div>
+
+      <a href={doc.href} className="text-lg font-semibold text-foreground hover:text-blue-400 transition-colors">
+        {doc.title}
+      </a>
+
+      {doc.tldr && <p className="text-sm text-muted-foreground mt-1 leading-relaxed">{doc.tldr}</p>}
+
+      {doc.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 mt-2">
+          {doc.tags.map((tag) => (
+            <span key={tag} className="px-2 py-0.5 rounded-full text-xs font-mono bg-muted text-muted-foreground">
+              #{tag}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {hits.length > 0 && (
+        <ul className="mt-3 pt-3 border-t border-border space-y-2">
+          {hits.map((hit, i) => (
+            <li key={i}>
+              <a
+                href={hit.anchor ? `${doc.href}#${hit.anchor}` : doc.href}
+                className="group block rounded-lg px-3 py-2 -mx-3 hover:bg-muted/50 transition-colors"
+              >
+                <span className="block text-[11px] font-mono uppercase tracking-wider text-muted-foreground group-hover:text-blue-400 transition-colors">
+                  {hit.label} →
+                </span>
+                <span className="block text-sm text-foreground/80 leading-relaxed">
+                  <Snippet parts={hit.snippet} />
+                </span>
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+    </motion.li>
+  );
+};
+
+// ─── Main SearchPanel Component ───────────────────────────────────────────────
+
+const SearchPanel: FC = () => {
+  const [query, setQuery] = useState(readQueryParam);
+  const [index, setIndex] = useState<SearchIndex | null>(null);
+  const [error, setError] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    fetch('/search-index.json')
+      .then((res) => res.json())
+      .then((data: SearchIndex) => setIndex(data))
+      .catch(() => setError(true));
+  }, []);
+
+  // Keep ?q= in sync so result pages can be shared and survive back navigation
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    if (query) url.searchParams.set('q', query);
+    else url.searchParams.delete('q');
+    window.history.replaceState(null, '', url);
+  }, [query]);
+
+  const results = useMemo(() => (index ? searchIndex(index, query, 50) : []), [index, query]);
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      <div className="relative mb-8">
+        <svg className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M21 21l-4.35-4.35M17 11a6 6 0 11-12 0 6 6 0 0112 0z" />
+        </svg>
+        <input
+          ref={inputRef}
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search chats, plans, messages…"
+          className="w-full pl-11 pr-4 py-3 rounded-xl bg-card border border-border text-foreground outline-none focus:border-blue-500/50 transition-colors"
+          aria-label="Search"
+        />
+      </div>
+
+      {error ? (
+        <p className="text-center text-sm text-red-400">Could not load the search index.</p>
+      ) : !index ? (
+        <p className="text-center text-sm text-muted-foreground">Loading index…</p>
+      ) : !query.trim() ? (
+        <p className="text-center text-sm text-muted-foreground">
+          Searching {index.documents.length} session{index.documents.length !== 1 ? 's' : ''}.
+        </p>
+      ) : results.length === 0 ? (
+        <p className="text-center text-sm text-muted-foreground">No results for “{query}”.</p>
+      ) : (
+        <>
+          <p className="text-xs text-muted-foreground mb-4">
+            {results.length} result{results.length !== 1 ? 's' : ''}
+          </p>
+          <ul className="space-y-4">
+            {results.map((r, i) => (
+              <ResultCard key={r.document.href} result={r} index={i} />
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SearchPanel;
@@ -0,0 +1,136 @@
+import { useState, type FC, type FormEvent } from 'react';
+
+/**
+ * "New from template" on /plans/new: pick a template, fill in its variables
+ * and create the plan through /api/create-plan, then open it.
+ */
+
+export interface TemplateOption {
+  id: string;
+  name: string;
+  description: string;
+  variables: { name: string; description: string; default?: string }[];
+  title: string;
+  tags: string[];
+  duration?: string;
+  difficulty?: string;
+  milestones: { title: string; weeks: string }[];
+  sections: string[];
+}
+
+const label = (name: string) => name.replace(/[-_]/g, ' ').replace(/^./, (c) => c.toUpperCase());
+
+const TemplatePicker: FC<{ templates: TemplateOption[] }> = ({ templates }) => {
+  const [selected, setSelected] = useState<TemplateOption | null>(null);
+  const [title, setTitle] = useState('');
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const choose = (template: TemplateOption) => {
+    setSelected(template);
+    setTitle('');
+    setValues({});
+    setError(null);
+  };
+
+  // Preview of the title the template will give the plan
+  const titlePreview = selected?.title.replace(/\{\{\s*([\w-]+)\s*\}\}/g, (_, name: string) =>
+    values[name]?.trim() || selected.variables.find((v) => v.name === name)?.default || `{${name}}`) ?? '';
+
+  const submit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/create-plan', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          template: selected.id,
+          ...(title.trim() ? { title: title.trim() } : {}),
+          variables: Object.fromEntries(Object.entries(values).filter(([, v]) => v.trim())),
+        }),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body.error ?? `Could not create the plan (${res.status})`);
+      window.location.href = body.url;
+    } catch (err) {
+      setError((err as Error).message);
+      setSaving(false);
+    }
+  };
+
+  if (templates.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center">No templates yet — add a Markdown file to <code>templates/</code>.</p>;
+  }
+
+  return (
+    <div className="space-y-8">
+      <ul className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {templates.map((t) => (
+          <li key={t.id}>
+            <button
+              onClick={() => choose(t)}
+              aria-pressed={selected?.id === t.id}
+              className={`w-full h-full text-left p-5 rounded-xl glass-card border transition-colors ${selected?.id === t.id ? 'border-blue-500/60' : 'border-transparent hover:border-border'}`}
+            >
+              <p className="font-semibold text-foreground">{t.name}</p>
+              <p className="mt-1 text-xs text-muted-foreground">{t.description}</p>
+              <p className="mt-3 text-[11px] font-mono text-muted-foreground">
+                {[t.difficulty, t.duration, `${t.milestones.length} milestones`].filter(Boolean).join(' · ')}
+              </p>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {selected && (
+        <form onSubmit={submit} className="p-6 rounded-xl glass-card space-y-4">
+          <h2 className="text-lg font-semibold text-foreground">New {selected.name.toLowerCase()} plan</h2>
+
+          {selected.variables.map((v) => (
+            <label key={v.name} className="block">
+              <span className="text-sm font-medium text-foreground">{label(v.name)}</span>
+              {v.description && <span className="ml-2 text-xs text-muted-foreground">{v.description}</span>}
+              <input
+                value={values[v.name] ?? ''}
+                onChange={(e) => setValues((prev) => ({ ...prev, [v.name]: e.target.value }))}
+                placeholder={v.default}
+                required={v.default === undefined}
+                className="mt-1 w-full px-3 py-2 rounded-lg bg-muted/50 border border-border text-sm text-foreground focus:outline-none focus:border-blue-500/50"
+              />
+            </label>
+          ))}
+
+          <label className="block">
+            <span className="text-sm font-medium text-foreground">Title</span>
+            <span className="ml-2 text-xs text-muted-foreground">optional</span>
+            <input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder={titlePreview}
+              className="mt-1 w-full px-3 py-2 rounded-lg bg-muted/50 border border-border text-sm text-foreground focus:outline-none focus:border-blue-500/50"
+            />
+          </label>
+
+          <div className="text-xs text-muted-foreground space-y-1">
+            <p>Milestones: {selected.milestones.map((m) => m.title).join(' → ')}</p>
+            <p>Sections: {selected.sections.join(' · ')}</p>
+          </div>
+
+          {error && <p className="text-sm text-red-400" role="alert">{error}</p>}
+
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 rounded-lg bg-blue-500 text-white text-sm font-medium hover:bg-blue-600 transition-colors disabled:opacity-50"
+          >{saving ? 'Creating…' : 'Create plan'}</button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default TemplatePicker;
@@ -1,22 +1,16 @@
-import { useEffect, useRef, type FC, type ReactNode } from 'react';
+import { useEffect, useRef, useState, type FC, type ReactNode } from 'react';
 import { motion, useScroll, useTransform } from 'framer-motion';
-
-interface TimelineEntry {
-  title: string;
-  date: string;
-  slug: string;
-  tags: string[];
-  tldr?: string;
-  actionItems?: { task: string; done: boolean }[];
-  type?: 'chat' | 'plan';
-  href?: string;
-}
+import { MAX_TAG_FILTER, tagHref, tagSlug } from '@/lib/tags';
+import { localToday } from '@/lib/schedule';
+import type { TimelineEntry } from '@/lib/timeline';
 
 interface TracingBeamProps {
   entries: TimelineEntry[];
+  /** Tags the timeline is currently filtered by — pills narrow the filter further */
+  activeTags?: string[];
 }
 
-const TracingBeam: FC<TracingBeamProps> = ({ entries }) => {
+const TracingBeam: FC<TracingBeamProps> = ({ entries, activeTags = [] }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const { scrollYProgress } = useScroll({
     target: containerRef,
@@ -25,6 +19,10 @@ const TracingBeam: FC<TracingBeamProps> = ({ entries }) => {
 
   const beamHeight = useTransform(scrollYProgress, [0, 1], ['0%', '100%']);
 
+  // Read in the browser: the page is prerendered, so a build-time date would go stale
+  const [today, setToday] = useState<string | null>(null);
+  useEffect(() => setToday(localToday()), []);
+
   return (
     <div ref={containerRef} className="relative max-w-4xl mx-auto py-12 px-4">
       {/* Beam line */}
@@ -38,15 +36,27 @@ const TracingBeam: FC<TracingBeamProps> = ({ entries }) => {
       {/* Entries */}
       <div className="space-y-16">
         {entries.map((entry, i) => (
-          <TimelineNode key={entry.slug} entry={entry} index={i} />
+          <TimelineNode key={entry.slug} entry={entry} index={i} activeTags={activeTags} today={today} />
         ))}
       </div>
     </div>
   );
 };
 
-const TimelineNode: FC<{ entry: TimelineEntry; index: number }> = ({ entry, index }) => {
+const TimelineNode: FC<{
+  entry: TimelineEntry;
+  index: number;
+  activeTags: string[];
+  today: string | null;
+}> = ({ entry, index, activeTags, today }) => {
   const ref = useRef<HTMLDivElement>(null);
+  const href = entry.href || `/chats/${entry.slug}`;
+
+  // Pills add their tag to the current filter while the intersection stays within the generated pages
+  const pillHref = (tag: string) =>
+    activeTags.length < MAX_TAG_FILTER && !activeTags.includes(tagSlug(tag))
+      ? tagHref([...activeTags, tag])
+      : tagHref([tag]);
 
   return (
     <motion.div
@@ -62,11 +72,8 @@ const TimelineNode: FC<{ entry: TimelineEntry; index: number }> = ({ entry, inde
         <div className={`absolute inset-1 rounded-full ${entry.type === 'plan' ? 'bg-purple-500' : 'bg-blue-500'} animate-pulse`} />
       </div>
 
-      {/* Card */}
-      <a
-        href={entry.href || `/chats/${entry.slug}`}
-        className="group block p-6 rounded-xl glass-card hover:border-blue-500/40 transition-all duration-300 hover:shadow-xl hover:shadow-blue-500/10"
-      >
+      {/* Card — the title link stretches over the whole card so tag pills can be links too */}
+      <div className="group relative block p-6 rounded-xl glass-card hover:border-blue-500/40 transition-all duration-300 hover:shadow-xl hover:shadow-blue-500/10">
         {/* Date */}
         <div className="flex items-center gap-3 mb-3">
           <time className="text-xs font-mono text-muted-foreground">
@@ -90,7 +97,7 @@ const TimelineNode: FC<{ entry: TimelineEntry; index: number }> = ({ entry, inde
 
         {/* Title */}
         <h3 className="text-lg font-semibold text-foreground group-hover:text-blue-400 transition-colors mb-2 flex items-center gap-2">
-          {entry.title}
+          <a href={href} className="after:absolute after:inset-0 after:rounded-xl">{entry.title}</a>
           {entry.type === 'plan' && (
             <span className="px-1.5 py-0.5 rounded text-[10px] font-mono uppercase tracking-wider bg-purple-500/10 text-purple-400 border border-purple-500/20">
               plan
@@ -107,41 +114,61 @@ const TimelineNode: FC<{ entry: TimelineEntry; index: number }> = ({ entry, inde
         {entry.tags.length > 0 && (
           <div className="flex flex-wrap gap-1.5 mb-3">
             {entry.tags.map((tag) => (
-              <span
+              <a
                 key={tag}
-                className="px-2 py-0.5 rounded-full text-xs font-mono bg-muted text-muted-foreground"
+                href={pillHref(tag)}
+                className="relative z-10 px-2 py-0.5 rounded-full text-xs font-mono bg-muted text-muted-foreground hover:text-blue-400 hover:bg-blue-500/10 transition-colors"
               >
                 #{tag}
-              </span>
+              </a>
             ))}
           </div>
         )}
 
         {/* Action items progress */}
         {entry.actionItems && entry.actionItems.length > 0 && (
-          <ActionItemsProgress items={entry.actionItems} />
+          <ActionItemsProgress
+            items={entry.actionItems}
+            label={entry.type === 'plan' ? 'Milestones' : 'Action Items'}
+            today={today}
+          />
         )}
-      </a>
+      </div>
     </motion.div>
   );
 };
 
-const ActionItemsProgress: FC<{ items: { task: string; done: boolean }[] }> = ({ items }) => {
+const ActionItemsProgress: FC<{
+  items: NonNullable<TimelineEntry['actionItems']>;
+  label: string;
+  today: string | null;
+}> = ({ items, label, today }) => {
   const done = items.filter((i) => i.done).length;
+  const overdue = today ? items.filter((i) => !i.done && i.due && i.due < today).length : 0;
   const total = items.length;
   const pct = Math.round((done / total) * 100);
 
   return (
     <div className="mt-3 pt-3 border-t border-border">
       <div className="flex items-center justify-between text-xs text-muted-foreground mb-1.5">
-        <span>Action Items</span>
-        <span>{done}/{total} complete</span>
+        <span>{label}</span>
+        <span>
+          {done}/{total} complete
+          {overdue > 0 && <span className="text-red-400"> · {overdue} overdue</span>}
+        </span>
       </div>
-      <div className="w-full h-1.5 rounded-full bg-muted overflow-hidden">
+      <div className="flex w-full h-1.5 rounded-full bg-muted overflow-hidden">
         <div
-          className="h-full rounded-full bg-gradient-to-r from-blue-500 to-purple-500 transition-all duration-500"
+          className="h-full bg-gradient-to-r from-blue-500 to-purple-500 transition-all duration-500"
           style={{ width: `${pct}%` }}
         />
+        {overdue > 0 && (
+          <div
+            className="h-full bg-red-500/70 transition-all duration-500"
+            style={{ width: `${(overdue / total) * 100}%` }}
+            title={`${overdue} overdue`}
+          />
+        )}
       </div>
     </div>
   );
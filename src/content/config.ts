@@ -1,39 +1,15 @@
-import { z, defineCollection } from 'astro:content';
+import { defineCollection } from 'astro:content';
+import { chatSchema, planSchema } from '../../mcp/schema.mjs';
 
+// Schemas live in mcp/schema.mjs so the MCP server and CLI validate against them too
 const chatsCollection = defineCollection({
   type: 'content',
-  schema: z.object({
-    title: z.string(),
-    date: z.coerce.date(),
-    tags: z.array(z.string()).default([]),
-    tldr: z.string().optional(),
-    action_items: z.array(
-      z.object({
-        task: z.string(),
-        done: z.boolean().default(false),
-      })
-    ).default([]),
-  }),
+  schema: chatSchema,
 });
 
 const plansCollection = defineCollection({
   type: 'content',
-  schema: z.object({
-    title: z.string(),
-    date: z.coerce.date(),
-    tags: z.array(z.string()).default([]),
-    tldr: z.string().optional(),
-    icon: z.string().optional(),
-    duration: z.string().optional(),
-    difficulty: z.enum(['beginner', 'intermediate', 'advanced']).optional(),
-    milestones: z.array(
-      z.object({
-        title: z.string(),
-        weeks: z.string(),
-        status: z.enum(['not-started', 'in-progress', 'complete']).default('not-started'),
-      })
-    ).default([]),
-  }),
+  schema: planSchema,
 });
 
 export const collections = {
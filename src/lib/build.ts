@@ -0,0 +1,18 @@
+/**
+ * Changed-only builds (see mcp/build.mjs): when `BUILD_ONLY` lists
+ * `<collection>/<slug>` keys, the entry pages render just those entries.
+ * Listings, tag pages and feeds still render every entry.
+ */
+
+export type BuildCollection = 'chats' | 'plans';
+
+/** Entries to render for `collection`, honouring `BUILD_ONLY` when it is set. */
+export function entriesToBuild<T extends { id: string }>(
+  collection: BuildCollection,
+  entries: T[],
+  only: string | undefined = process.env.BUILD_ONLY,
+): T[] {
+  if (only === undefined) return entries;
+  const keys = new Set(only.split(',').filter(Boolean));
+  return entries.filter((e) => keys.has(`${collection}/${e.id.replace(/\.mdx?$/, '')}`));
+}
@@ -0,0 +1,156 @@
+/**
+ * Cross-plan progress for the /dashboard page.
+ *
+ * Entries are read from disk on every request (see mcp/entries.mjs) and
+ * status changes from the revision history (see progress.ts), so the page is
+ * current without a rebuild. A plan's completion counts its milestones and the
+ * `- [ ]` checklist in its body alike; a plan is stalled when no milestone has
+ * changed status for a number of weeks.
+ */
+
+import { loadEntries } from '../../mcp/entries.mjs';
+import { countChecklist, milestoneChanges, planSnapshots, type PlanSnapshot, type Tally } from './progress';
+import { daysBetween, isOverdue, localToday, milestoneSchedule, toISODate, type Schedule } from './schedule';
+
+type Entry = ReturnType<typeof loadEntries>[number];
+
+export const DEFAULT_STALLED_WEEKS = 3;
+
+export interface BurndownPoint {
+  /** ISO date of the snapshot */
+  date: string;
+  /** Milestones not complete plus checklist items not ticked */
+  remaining: number;
+  total: number;
+}
+
+export interface ActiveMilestone {
+  title: string;
+  weeks: string;
+  schedule: Schedule | null;
+  overdue: boolean;
+}
+
+export interface PlanProgress {
+  slug: string;
+  url: string;
+  title: string;
+  tags: string[];
+  milestones: Tally;
+  checklist: Tally;
+  /** 0–100, or null for a plan with nothing to tick off */
+  percent: number | null;
+  inProgress: ActiveMilestone[];
+  overdue: number;
+  /** ISO date of the last milestone status change, or the plan's date if there was none */
+  lastChange: string | null;
+  stalled: boolean;
+  burndown: BurndownPoint[];
+  /** End of the latest scheduled milestone, where the burndown should reach zero */
+  due: string | null;
+}
+
+export interface OpenActionItems {
+  title: string;
+  url: string;
+  date: string | null;
+  tasks: string[];
+}
+
+export interface Dashboard {
+  plans: PlanProgress[];
+  actionItems: OpenActionItems[];
+  /** Over every plan, weighted by item count */
+  percent: number | null;
+  stalledWeeks: number;
+}
+
+/** Share of done items across tallies, rounded to a whole percent; null when there are none. */
+export function percentDone(...tallies: Tally[]): number | null {
+  const total = tallies.reduce((sum, t) => sum + t.total, 0);
+  return total ? Math.round((tallies.reduce((sum, t) => sum + t.done, 0) / total) * 100) : null;
+}
+
+/**
+ * Remaining work after each snapshot, oldest first. Snapshots that change
+ * nothing are dropped so the chart only steps where progress was made.
+ */
+export function burndown(snapshots: PlanSnapshot[]): BurndownPoint[] {
+  const points: BurndownPoint[] = [];
+  for (const snapshot of snapshots) {
+    const checklist = snapshot.checklist ?? { done: 0, total: 0 };
+    const complete = snapshot.milestones.filter((m) => m.status === 'complete').length;
+    const total = snapshot.milestones.length + checklist.total;
+    const remaining = total - complete - checklist.done;
+    const last = points[points.length - 1];
+    if (last && last.remaining === remaining && last.total === total) continue;
+    points.push({ date: snapshot.date, remaining, total });
+  }
+  return points;
+}
+
+/** Progress of one plan, from its entry and its snapshots. */
+export function planProgress(
+  entry: Entry,
+  snapshots: PlanSnapshot[],
+  { today, stalledWeeks }: { today: string; stalledWeeks: number },
+): PlanProgress {
+  const schedules = entry.milestones.map((m) => milestoneSchedule(m, entry.date));
+  const milestones = {
+    done: entry.milestones.filter((m) => m.status === 'complete').length,
+    total: entry.milestones.length,
+  };
+  const checklist = countChecklist(entry.body);
+  const percent = percentDone(milestones, checklist);
+  const changes = milestoneChanges(snapshots);
+  const lastChange = changes.length ? changes[changes.length - 1].date : entry.date;
+  const since = toISODate(lastChange);
+
+  return {
+    slug: entry.slug,
+    url: entry.url,
+    title: entry.title,
+    tags: entry.tags,
+    milestones,
+    checklist,
+    percent,
+    inProgress: entry.milestones.flatMap((m, i) => (m.status === 'in-progress'
+      ? [{ title: m.title, weeks: m.weeks ?? '', schedule: schedules[i], overdue: isOverdue(m, schedules[i], today) }]
+      : [])),
+    overdue: entry.milestones.filter((m, i) => isOverdue(m, schedules[i], today)).length,
+    lastChange,
+    stalled: percent !== null && percent < 100 && !!since && daysBetween(since, today) > stalledWeeks * 7,
+    burndown: burndown(snapshots),
+    due: schedules.reduce<string | null>((max, s) => (s && (!max || s.end > max) ? s.end : max), null),
+  };
+}
+
+/**
+ * Everything the dashboard shows. Plans are ordered stalled first, then by
+ * how far along they are; chats with open action items newest first.
+ */
+export function loadDashboard(
+  rootDir: string,
+  { today = localToday(), stalledWeeks = DEFAULT_STALLED_WEEKS }: { today?: string; stalledWeeks?: number } = {},
+): Dashboard {
+  const plans = loadEntries(rootDir, 'plans')
+    .map((entry) => planProgress(entry, planSnapshots(rootDir, entry.filename, entry.date ?? ''), { today, stalledWeeks }))
+    .sort((a, b) => Number(b.stalled) - Number(a.stalled) || (a.percent ?? 101) - (b.percent ?? 101) || a.title.localeCompare(b.title));
+
+  const actionItems = loadEntries(rootDir, 'chats')
+    .map((chat) => ({
+      title: chat.title,
+      url: chat.url,
+      date: chat.date,
+      tasks: chat.actionItems.filter((a) => !a.done && a.task.trim()).map((a) => a.task),
+    }))
+    .filter((chat) => chat.tasks.length)
+    .sort((a, b) => (b.date ?? '').localeCompare(a.date ?? ''));
+
+  return {
+    plans,
+    actionItems,
+    percent: percentDone(...plans.flatMap((p) => [p.milestones, p.checklist])),
+    stalledWeeks,
+  };
+}
@@ -0,0 +1,187 @@
+/**
+ * RSS 2.0, Atom and JSON Feed rendering for the site feeds.
+ *
+ * Endpoints build a `Feed` from the content collections and pass it to
+ * `feedResponse`; the renderers are pure so they can be tested without Astro.
+ */
+
+import type { TimelineEntry } from './timeline';
+
+export const FEED_FORMATS = ['rss.xml', 'atom.xml', 'feed.json'] as const;
+export type FeedFormat = (typeof FEED_FORMATS)[number];
+
+export interface FeedItem {
+  /** Stable, unique id; also used as the RSS guid */
+  id: string;
+  title: string;
+  /** Absolute URL */
+  url: string;
+  /** ISO date */
+  date: string;
+  summary?: string;
+  categories: string[];
+}
+
+export interface Feed {
+  title: string;
+  description: string;
+  /** Absolute URL of the page the feed describes */
+  homeUrl: string;
+  /** Absolute URL of the feed without the format suffix, e.g. `https://site/tags/java/` */
+  baseUrl: string;
+  items: FeedItem[];
+}
+
+const CONTENT_TYPES: Record<FeedFormat, string> = {
+  'rss.xml': 'application/rss+xml; charset=utf-8',
+  'atom.xml': 'application/atom+xml; charset=utf-8',
+  'feed.json': 'application/feed+json; charset=utf-8',
+};
+
+/** Escape text for XML element content and attribute values. */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/** Most recent item date, or the epoch for an empty feed so builds stay reproducible. */
+function updatedAt(feed: Feed): string {
+  const latest = Math.max(0, ...feed.items.map((i) => Date.parse(i.date)));
+  return new Date(latest).toISOString();
+}
+
+/** RSS 2.0 document. */
+export function renderRss(feed: Feed): string {
+  const items = feed.items.map((item) => [
+    '    <item>',
+    `      <title>${escapeXml(item.title)}</title>`,
+    `      <link>${escapeXml(item.url)}</link>`,
+    `      <guid isPermaLink="${item.id === item.url}">${escapeXml(item.id)}</guid>`,
+    `      <pubDate>${new Date(item.date).toUTCString()}</pubDate>`,
+    ...(item.summary ? [`      <description>${escapeXml(item.summary)}</description>`] : []),
+    ...item.categories.map((c) => `      <category>${escapeXml(c)}</category>`),
+    '    </item>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <link>${escapeXml(feed.homeUrl)}</link>`,
+    `    <description>${escapeXml(feed.description)}</description>`,
+    '    <language>en</language>',
+    `    <lastBuildDate>${new Date(updatedAt(feed)).toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${escapeXml(`${feed.baseUrl}rss.xml`)}" rel="self" type="application/rss+xml" />`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+}
+
+/** Atom 1.0 document. */
+export function renderAtom(feed: Feed): string {
+  const entries = feed.items.map((item) => [
+    '  <entry>',
+    `    <title>${escapeXml(item.title)}</title>`,
+    `    <link href="${escapeXml(item.url)}" />`,
+    `    <id>${escapeXml(item.id)}</id>`,
+    `    <published>${new Date(item.date).toISOString()}</published>`,
+    `    <updated>${new Date(item.date).toISOString()}</updated>`,
+    ...(item.summary ? [`    <summary>${escapeXml(item.summary)}</summary>`] : []),
+    ...item.categories.map((c) => `    <category term="${escapeXml(c)}" />`),
+    '  </entry>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <subtitle>${escapeXml(feed.description)}</subtitle>`,
+    `  <link href="${escapeXml(feed.homeUrl)}" />`,
+    `  <link href="${escapeXml(`${feed.baseUrl}atom.xml`)}" rel="self" type="application/atom+xml" />`,
+    `  <id>${escapeXml(`${feed.baseUrl}atom.xml`)}</id>`,
+    `  <updated>${updatedAt(feed)}</updated>`,
+    '  <author><name>AI Chat Generator</name></author>',
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+/** JSON Feed 1.1 document. */
+export function renderJsonFeed(feed: Feed): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    description: feed.description,
+    home_page_url: feed.homeUrl,
+    feed_url: `${feed.baseUrl}feed.json`,
+    language: 'en',
+    items: feed.items.map((item) => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      ...(item.summary ? { summary: item.summary, content_text: item.summary } : { content_text: item.title }),
+      date_published: new Date(item.date).toISOString(),
+      tags: item.categories,
+    })),
+  }, null, 2);
+}
+
+export function renderFeed(feed: Feed, format: FeedFormat): string {
+  if (format === 'rss.xml') return renderRss(feed);
+  if (format === 'atom.xml') return renderAtom(feed);
+  return renderJsonFeed(feed);
+}
+
+/** The rendered feed with its format's content type. */
+export function feedResponse(feed: Feed, format: FeedFormat): Response {
+  return new Response(renderFeed(feed, format), {
+    headers: { 'Content-Type': CONTENT_TYPES[format] },
+  });
+}
+
+/** Feed items for chats and plans: tl;dr as the summary, tags as categories. */
+export function entryFeedItems(entries: TimelineEntry[], site: URL | string): FeedItem[] {
+  return entries.map((entry) => {
+    const url = new URL(entry.href ?? `/chats/${entry.slug}`, site).href;
+    return {
+      id: url,
+      title: entry.type === 'plan' ? `Plan: ${entry.title}` : entry.title,
+      url,
+      date: entry.date,
+      summary: entry.tldr,
+      categories: entry.tags,
+    };
+  });
+}
+
+/** Fallback for builds without `site` in astro.config.mjs (matches BaseLayout). */
+export const DEFAULT_SITE = 'https://ai-chat-generator.local';
+
+/**
+ * The feed of chats and plans, optionally for one tag. `path` is where the
+ * feed files live, e.g. `/` or `/tags/java/`.
+ */
+export function entriesFeed(
+  entries: TimelineEntry[],
+  site: URL | string | undefined,
+  { path = '/', tag }: { path?: string; tag?: string } = {},
+): Feed {
+  const base = site ?? DEFAULT_SITE;
+  return {
+    title: tag ? `AI Chat Generator · #${tag}` : 'AI Chat Generator',
+    description: tag
+      ? `Brainstorming sessions and plans tagged #${tag}.`
+      : 'New brainstorming sessions and plans.',
+    homeUrl: new URL(tag ? path : '/', base).href,
+    baseUrl: new URL(path, base).href,
+    items: entryFeedItems(entries, base),
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * Three-way field merge for resolving save conflicts in the inline editors.
+ *
+ * `base` is what the editor last loaded or saved, `mine` is the editor state and
+ * `theirs` is what is on disk now. Fields only one side changed merge cleanly;
+ * fields both sides changed need a choice.
+ */
+
+export type MergeChoice = 'mine' | 'theirs';
+
+export interface FieldDiff<K extends string = string> {
+  field: K;
+  mine: unknown;
+  theirs: unknown;
+  /** Both sides changed the field since `base` */
+  both: boolean;
+  /** Keep whichever side changed the field; prefer mine when both did */
+  suggested: MergeChoice;
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Fields that differ between `mine` and `theirs`, in `base` key order. */
+export function diffFields<T extends object>(base: T, mine: T, theirs: T): FieldDiff<Extract<keyof T, string>>[] {
+  const diffs: FieldDiff<Extract<keyof T, string>>[] = [];
+  for (const field of Object.keys(base) as Extract<keyof T, string>[]) {
+    if (same(mine[field], theirs[field])) continue;
+    const mineChanged = !same(mine[field], base[field]);
+    const theirsChanged = !same(theirs[field], base[field]);
+    diffs.push({
+      field,
+      mine: mine[field],
+      theirs: theirs[field],
+      both: mineChanged && theirsChanged,
+      suggested: theirsChanged && !mineChanged ? 'theirs' : 'mine',
+    });
+  }
+  return diffs;
+}
+
+/** Take each field from the chosen side; unlisted fields come from `mine`. */
+export function mergeFields<T extends object>(mine: T, theirs: T, choices: Partial<Record<keyof T, MergeChoice>>): T {
+  const merged = { ...mine };
+  for (const field of Object.keys(choices) as (keyof T)[]) {
+    if (choices[field] === 'theirs') merged[field] = theirs[field];
+  }
+  return merged;
+}
+
+/** Compact one-line-per-item preview of a field value. */
+export function formatFieldValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '(empty)';
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) {
+    if (!value.length) return '(none)';
+    return value
+      .map((item) => (item && typeof item === 'object' ? Object.values(item).join(' · ') : String(item)))
+      .join('\n');
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,127 @@
+/**
+ * Milestone status changes on plans, for the plan progress feed and the dashboard.
+ *
+ * Changes are recovered from the revision history (see mcp/history.mjs) by
+ * comparing milestone statuses between consecutive snapshots of a plan.
+ * Plans without history contribute their current statuses, dated at the plan.
+ * Snapshots also count the body's `- [ ]` checklist for the dashboard's burndown.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { contentDir, listRevisions, readRevision } from '../../mcp/history.mjs';
+import { parseFrontmatter } from '../../mcp/frontmatter.mjs';
+
+export type MilestoneStatus = 'not-started' | 'in-progress' | 'complete';
+
+export interface Tally {
+  done: number;
+  total: number;
+}
+
+export interface PlanSnapshot {
+  /** ISO date the plan was saved in this state */
+  date: string;
+  milestones: { title: string; status?: MilestoneStatus }[];
+  /** `- [ ]` / `- [x]` items in the body */
+  checklist?: Tally;
+}
+
+export interface MilestoneChange {
+  milestone: string;
+  /** null when the milestone first appears (only recorded if already under way) */
+  from: MilestoneStatus | null;
+  to: MilestoneStatus;
+  date: string;
+}
+
+export const STATUS_LABELS: Record<MilestoneStatus, string> = {
+  'not-started': 'not started',
+  'in-progress': 'in progress',
+  complete: 'complete',
+};
+
+/**
+ * Status changes between consecutive snapshots, oldest first. Milestones are
+ * matched by title, so a renamed milestone counts as a new one.
+ */
+export function milestoneChanges(snapshots: PlanSnapshot[]): MilestoneChange[] {
+  const changes: MilestoneChange[] = [];
+  let previous = new Map<string, MilestoneStatus>();
+  for (const snapshot of snapshots) {
+    const current = new Map<string, MilestoneStatus>();
+    for (const m of snapshot.milestones) {
+      const status = m.status ?? 'not-started';
+      const before = previous.get(m.title);
+      if (before === undefined ? status !== 'not-started' : before !== status) {
+        changes.push({ milestone: m.title, from: before ?? null, to: status, date: snapshot.date });
+      }
+      current.set(m.title, status);
+    }
+    previous = current;
+  }
+  return changes;
+}
+
+const FENCE_RE = /^\s*(```|~~~)/;
+const TASK_RE = /^\s*[-*+] \[([ xX])\]\s/;
+
+/** Task list items (`- [ ]`, `- [x]`) in a Markdown body, outside code fences. */
+export function countChecklist(body: string): Tally {
+  const tally = { done: 0, total: 0 };
+  let inFence = false;
+  for (const line of body.split('\n')) {
+    if (FENCE_RE.test(line)) inFence = !inFence;
+    const task = inFence ? null : TASK_RE.exec(line);
+    if (!task) continue;
+    tally.total++;
+    if (task[1] !== ' ') tally.done++;
+  }
+  return tally;
+}
+
+/** Milestones and checklist of a file, or null if its frontmatter does not parse. */
+function readSnapshot(raw: string): Omit<PlanSnapshot, 'date'> | null {
+  try {
+    const { data: { milestones }, body } = parseFrontmatter(raw);
+    return {
+      milestones: Array.isArray(milestones) ? milestones.filter((m) => m && typeof m.title === 'string') : [],
+      checklist: countChecklist(body),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Snapshots of a plan from its revision history, oldest first, ending with the
+ * file on disk (dated by its mtime if it changed outside the tools). A baseline
+ * revision predates history, so it is dated at the plan's own `date`.
+ */
+export function planSnapshots(rootDir: string, filename: string, planDate: string): PlanSnapshot[] {
+  const snapshots: PlanSnapshot[] = [];
+  const revisions = listRevisions(rootDir, 'plans', filename).reverse();
+  for (const rev of revisions) {
+    if (rev.action === 'delete') continue;
+    const snapshot = readSnapshot(readRevision(rootDir, 'plans', filename, rev.id) ?? '');
+    if (!snapshot) continue;
+    snapshots.push({ date: rev.action === 'baseline' ? planDate : rev.timestamp, ...snapshot });
+  }
+
+  const filepath = path.join(contentDir(rootDir, 'plans'), filename);
+  if (fs.existsSync(filepath)) {
+    const snapshot = readSnapshot(fs.readFileSync(filepath, 'utf-8'));
+    if (snapshot) {
+      const date = snapshots.length ? fs.statSync(filepath).mtime.toISOString() : planDate;
+      snapshots.push({ date, ...snapshot });
+    }
+  }
+  return snapshots;
+}
+
+/** One-line description of a change, e.g. `Phase 1 moved from in progress to complete`. */
+export function describeChange(change: MilestoneChange): string {
+  return change.from
+    ? `${change.milestone} moved from ${STATUS_LABELS[change.from]} to ${STATUS_LABELS[change.to]}`
+    : `${change.milestone} is ${STATUS_LABELS[change.to]}`;
+}
@@ -0,0 +1,84 @@
+/**
+ * Milestone schedules for the plan roadmap and the timeline's overdue counts.
+ * Reading dates and week ranges is shared with the MCP server (see
+ * mcp/schedule.mjs); this module adds the types and the roadmap layout.
+ */
+import { milestoneSchedule, milestoneState, addDays, daysBetween } from '../../mcp/schedule.mjs';
+
+export {
+  toISODate,
+  addDays,
+  daysBetween,
+  localToday,
+  parseWeeks,
+  weeksLabel,
+  milestoneSchedule,
+  isOverdue,
+  milestoneState,
+  shiftRange,
+  scheduleMilestone,
+} from '../../mcp/schedule.mjs';
+
+export type MilestoneStatus = 'not-started' | 'in-progress' | 'complete';
+export type MilestoneState = MilestoneStatus | 'overdue';
+
+export interface Schedule {
+  /** First day, YYYY-MM-DD */
+  start: string;
+  /** Last day (inclusive), YYYY-MM-DD */
+  end: string;
+  /** Whether the dates were given or read from the `weeks` text */
+  source: 'dates' | 'weeks';
+}
+
+export interface RoadmapRow {
+  index: number;
+  title: string;
+  state: MilestoneState;
+  /** null for milestones with neither dates nor a readable week range */
+  schedule: Schedule | null;
+}
+
+export interface Roadmap {
+  /** First day shown: the Monday on or before the earliest milestone */
+  start: string;
+  /** Number of days shown */
+  days: number;
+  rows: RoadmapRow[];
+  /** Days from `start` to today, or null when today is outside the roadmap or not known */
+  today: number | null;
+}
+
+/**
+ * Lay milestones out on a shared day axis. The axis starts on the Monday on
+ * or before the earliest milestone and covers whole weeks up to the latest.
+ * Without `today` nothing is overdue. Returns null when no milestone has a schedule.
+ */
+export function roadmapLayout(
+  milestones: { title: string; weeks?: string; status?: MilestoneStatus; start?: unknown; end?: unknown }[],
+  planDate: unknown,
+  today: string | null,
+): Roadmap | null {
+  const schedules = milestones.map((m) => milestoneSchedule(m, planDate) as Schedule | null);
+  const known = schedules.filter((s): s is Schedule => s !== null);
+  if (!known.length) return null;
+
+  const first = known.reduce((min, s) => (s.start < min ? s.start : min), known[0].start);
+  const last = known.reduce((max, s) => (s.end > max ? s.end : max), known[0].end);
+  // getUTCDay: 0 = Sunday; step back to Monday
+  const start = addDays(first, -((new Date(first).getUTCDay() + 6) % 7));
+  const days = Math.ceil((daysBetween(start, last) + 1) / 7) * 7;
+  const todayOffset = today ? daysBetween(start, today) : -1;
+
+  return {
+    start,
+    days,
+    today: todayOffset >= 0 && todayOffset < days ? todayOffset : null,
+    rows: milestones.map((m, index) => ({
+      index,
+      title: m.title,
+      state: today ? milestoneState(m, schedules[index], today) : (m.status ?? 'not-started'),
+      schedule: schedules[index],
+    })),
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * Build-time full-text search over chats and plans.
+ *
+ * The index is generated once from the content collections (see
+ * `src/pages/search-index.json.ts`) and queried entirely in the browser,
+ * so search works on the static build without any external service.
+ * The engine is shared with the MCP server's `search_entries` tool
+ * (see mcp/search.mjs); this module adds the types.
+ */
+export {
+  tokenize,
+  stripMarkdown,
+  buildSearchIndex,
+  makeSnippet,
+  searchIndex,
+  chatSearchSections,
+  planSearchSections,
+} from '../../mcp/search.mjs';
+
+export type SearchEntryType = 'chat' | 'plan';
+
+/** A searchable part of an entry — one chat message or one plan section. */
+export interface SearchSection {
+  /** Element id on the entry page, without the leading `#` (empty for the top of the page) */
+  anchor: string;
+  label: string;
+  text: string;
+}
+
+export interface SearchDocument {
+  type: SearchEntryType;
+  title: string;
+  href: string;
+  date: string;
+  tags: string[];
+  tldr: string;
+  sections: SearchSection[];
+}
+
+/** [document index, field, occurrences] — see FIELD_* for the field encoding. */
+export type Posting = [number, number, number];
+
+export interface SearchIndex {
+  version: 1;
+  documents: SearchDocument[];
+  terms: Record<string, Posting[]>;
+}
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchHit {
+  anchor: string;
+  label: string;
+  snippet: SnippetPart[];
+}
+
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+  hits: SearchHit[];
+}
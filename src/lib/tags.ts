@@ -0,0 +1,80 @@
+/**
+ * Tag helpers shared by the `/tags` routes and every component that renders `#tag` pills.
+ *
+ * Tag URLs use a slug per tag and join several tags with `+` for intersection
+ * filters (`/tags/java+gsoc`). Slugs spell out `+` and `#` so `c++` and `c#` stay distinct.
+ */
+
+/** Largest tag intersection that gets a generated page. */
+export const MAX_TAG_FILTER = 3;
+
+export interface TagCount {
+  tag: string;
+  slug: string;
+  count: number;
+}
+
+export function tagSlug(tag: string): string {
+  return tag
+    .toLowerCase()
+    .replace(/\+/g, 'plus')
+    .replace(/#/g, 'sharp')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/(^-|-$)/g, '');
+}
+
+/** Canonical URL for one tag or an intersection of tags (sorted, de-duplicated). */
+export function tagHref(tags: string[]): string {
+  const slugs = [...new Set(tags.map(tagSlug))].filter(Boolean).sort();
+  return slugs.length ? `/tags/${slugs.join('+')}` : '/tags';
+}
+
+/** Splits a `/tags/[tag]` route param into tag slugs. */
+export function parseTagParam(param: string): string[] {
+  return param.split('+').map((s) => s.trim()).filter(Boolean);
+}
+
+/** Counts tag usage across entries, most used first. */
+export function countTags(entries: { tags: string[] }[]): TagCount[] {
+  const counts = new Map<string, TagCount>();
+  for (const entry of entries) {
+    for (const tag of new Set(entry.tags)) {
+      const slug = tagSlug(tag);
+      if (!slug) continue;
+      const existing = counts.get(slug);
+      if (existing) existing.count++;
+      else counts.set(slug, { tag, slug, count: 1 });
+    }
+  }
+  return [...counts.values()].sort((a, b) => b.count - a.count || a.slug.localeCompare(b.slug));
+}
+
+/** Keeps entries that carry every one of the given tag slugs. */
+export function filterByTags<T extends { tags: string[] }>(entries: T[], slugs: string[]): T[] {
+  return entries.filter((entry) => {
+    const own = new Set(entry.tags.map(tagSlug));
+    return slugs.every((s) => own.has(s));
+  });
+}
+
+/**
+ * Every sorted combination of up to `max` tag slugs that co-occur on at least one entry.
+ * These are the only intersections with results, so they are the pages worth generating.
+ */
+export function tagCombinations(entries: { tags: string[] }[], max = MAX_TAG_FILTER): string[][] {
+  const seen = new Map<string, string[]>();
+
+  const walk = (slugs: string[], start: number, combo: string[]) => {
+    for (let i = start; i < slugs.length; i++) {
+      const next = [...combo, slugs[i]];
+      seen.set(next.join('+'), next);
+      if (next.length < max) walk(slugs, i + 1, next);
+    }
+  };
+
+  for (const entry of entries) {
+    const slugs = [...new Set(entry.tags.map(tagSlug))].filter(Boolean).sort();
+    walk(slugs, 0, []);
+  }
+  return [...seen.values()];
+}
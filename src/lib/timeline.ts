@@ -0,0 +1,49 @@
+import { getCollection } from 'astro:content';
+import { milestoneSchedule } from './schedule';
+
+export interface TimelineEntry {
+  title: string;
+  date: string;
+  slug: string;
+  tags: string[];
+  tldr?: string;
+  /** Action items of a chat, or milestones of a plan with their end date as `due` */
+  actionItems?: { task: string; done: boolean; due?: string }[];
+  type?: 'chat' | 'plan';
+  href?: string;
+}
+
+/** Loads chats and plans as timeline entries, newest first. */
+export async function getTimelineEntries(): Promise<TimelineEntry[]> {
+  const chats = await getCollection('chats');
+  const plans = await getCollection('plans');
+
+  const chatEntries = chats.map((chat) => ({
+    title: chat.data.title,
+    date: chat.data.date.toISOString(),
+    slug: chat.id.replace(/\.mdx?$/, ''),
+    tags: chat.data.tags,
+    tldr: chat.data.tldr,
+    actionItems: chat.data.action_items,
+    type: 'chat' as const,
+    href: `/chats/${chat.id.replace(/\.mdx?$/, '')}`,
+  }));
+
+  const planEntries = plans.map((plan) => ({
+    title: plan.data.title,
+    date: plan.data.date.toISOString(),
+    slug: plan.id.replace(/\.mdx?$/, ''),
+    tags: plan.data.tags,
+    tldr: plan.data.tldr,
+    actionItems: (plan.data.milestones || []).map((m) => {
+      const due = milestoneSchedule(m, plan.data.date)?.end;
+      return { task: m.title, done: m.status === 'complete', ...(due ? { due } : {}) };
+    }),
+    type: 'plan' as const,
+    href: `/plans/${plan.id.replace(/\.mdx?$/, '')}`,
+  }));
+
+  return [...chatEntries, ...planEntries].sort(
+    (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
+  );
+}
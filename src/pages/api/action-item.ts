@@ -0,0 +1,50 @@
+export const prerender = false;
+
+import type { APIRoute } from 'astro';
+import fs from 'node:fs';
+import path from 'node:path';
+import { setActionItem } from '../../../mcp/actions.mjs';
+import { contentDir } from '../../../mcp/history.mjs';
+import { ConflictError, ValidationError } from '../../../mcp/errors.mjs';
+import { isSafeFilename } from '../../../mcp/utils.mjs';
+
+const json = (data: unknown, status: number) =>
+  new Response(JSON.stringify(data), { status, headers: { 'Content-Type': 'application/json' } });
+
+/**
+ * POST { filename, index, task, done } — tick a chat's action item off (or
+ * back on) from the /actions inbox. `task` is the text the page showed; if
+ * the chat's list changed since, the item is found by it, and the request
+ * fails with 409 when it is gone. A change the chat's schema rejects is a 400.
+ */
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    const { filename, index, task, done } = (await request.json()) as {
+      filename: string;
+      index: number;
+      task: string;
+      done: boolean;
+    };
+
+    if (!filename || !isSafeFilename(filename)) {
+      return json({ error: 'Invalid filename' }, 400);
+    }
+    if (!Number.isInteger(index) || index < 0 || typeof task !== 'string' || typeof done !== 'boolean') {
+      return json({ error: 'Expected an index, the task and done' }, 400);
+    }
+    if (!fs.existsSync(path.join(contentDir(process.cwd(), 'chats'), filename))) {
+      return json({ error: `Not found: chats/${filename}` }, 404);
+    }
+
+    try {
+      const result = setActionItem(process.cwd(), filename, { index, task, done, source: 'actions' });
+      return json({ ok: true, index: result.index, actionItem: result.item }, 200);
+    } catch (err) {
+      if (err instanceof ConflictError) return json({ error: err.message }, 409);
+      if (err instanceof ValidationError) return json({ error: err.message, fields: err.fields }, 400);
+      throw err;
+    }
+  } catch (err) {
+    return json({ error: String(err) }, 500);
+  }
+};
@@ -0,0 +1,67 @@
+export const prerender = false;
+
+import type { APIRoute } from 'astro';
+import fs from 'node:fs';
+import path from 'node:path';
+import { renderEntry } from '../../../mcp/frontmatter.mjs';
+import { contentDir, saveEntry } from '../../../mcp/history.mjs';
+import { fillTemplate, loadTemplate } from '../../../mcp/templates.mjs';
+import { slugify, today } from '../../../mcp/utils.mjs';
+
+const json = (data: unknown, status: number) =>
+  new Response(JSON.stringify(data), { status, headers: { 'Content-Type': 'application/json' } });
+
+/**
+ * POST { template, title?, variables } — create a plan from a template, for
+ * the picker on /plans/new. Responds 201 with the new plan's filename and URL,
+ * 400 when the template or its variables are wrong and 409 when a plan with
+ * that title already exists.
+ */
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    const { template, title, variables } = (await request.json()) as {
+      template: string;
+      title?: string;
+      variables?: Record<string, string>;
+    };
+
+    if (typeof template !== 'string' || (title !== undefined && typeof title !== 'string')) {
+      return json({ error: 'Expected a template id and an optional title' }, 400);
+    }
+    if (variables !== undefined && (!variables || typeof variables !== 'object' || Object.values(variables).some((v) => typeof v !== 'string'))) {
+      return json({ error: 'Variables must be strings' }, 400);
+    }
+
+    const date = today();
+    let base;
+    try {
+      base = fillTemplate(loadTemplate(process.cwd(), template), { date, variables });
+    } catch (err) {
+      return json({ error: (err as Error).message }, 400);
+    }
+
+    const planTitle = title?.trim() || base.title;
+    const filename = `${slugify(planTitle)}.mdx`;
+    if (filename === '.mdx') {
+      return json({ error: 'The title needs at least one letter or digit' }, 400);
+    }
+    if (fs.existsSync(path.join(contentDir(process.cwd(), 'plans'), filename))) {
+      return json({ error: `A plan named ${filename} already exists` }, 409);
+    }
+
+    const content = renderEntry({
+      title: planTitle,
+      date,
+      tags: base.tags,
+      tldr: base.tldr ?? '',
+      duration: base.duration,
+      difficulty: base.difficulty,
+      milestones: base.milestones,
+    }, base.body);
+    saveEntry(process.cwd(), 'plans', filename, content, { source: 'editor' });
+
+    return json({ ok: true, filename, url: `/plans/${filename.replace(/\.mdx$/, '')}` }, 201);
+  } catch (err) {
+    return json({ error: String(err) }, 500);
+  }
+};
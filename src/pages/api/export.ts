@@ -0,0 +1,45 @@
+export const prerender = false;
+
+import type { APIRoute } from 'astro';
+import fs from 'node:fs';
+import path from 'node:path';
+import { exportEntry, EXPORT_FORMATS, EXPORT_THEMES } from '../../../mcp/export.mjs';
+import { COLLECTIONS, contentDir } from '../../../mcp/history.mjs';
+
+/**
+ * GET /api/export?collection=chats&filename=x.mdx&format=html|markdown&theme=light|dark|auto
+ * Responds with the exported file as a download.
+ */
+export const GET: APIRoute = async ({ url }) => {
+  const collection = url.searchParams.get('collection') ?? '';
+  const filename = url.searchParams.get('filename') ?? '';
+  const format = url.searchParams.get('format') ?? 'html';
+  const theme = url.searchParams.get('theme') ?? 'auto';
+
+  if (!COLLECTIONS.includes(collection as never) || !/^[\w.-]+\.mdx$/.test(filename)) {
+    return new Response('Invalid collection or filename', { status: 400 });
+  }
+  if (!EXPORT_FORMATS.includes(format as never) || !EXPORT_THEMES.includes(theme as never)) {
+    return new Response('Invalid format or theme', { status: 400 });
+  }
+  const coll = collection as (typeof COLLECTIONS)[number];
+  if (!fs.existsSync(path.join(contentDir(process.cwd(), coll), filename))) {
+    return new Response(`Not found: ${collection}/${filename}`, { status: 404 });
+  }
+
+  try {
+    const result = await exportEntry(process.cwd(), coll, filename, {
+      format: format as (typeof EXPORT_FORMATS)[number],
+      theme: theme as (typeof EXPORT_THEMES)[number],
+    });
+    return new Response(result.content, {
+      status: 200,
+      headers: {
+        'Content-Type': result.contentType,
+        'Content-Disposition': `attachment; filename="${result.filename}"`,
+      },
+    });
+  } catch (err) {
+    return new Response(String(err), { status: 500 });
+  }
+};
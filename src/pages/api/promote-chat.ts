@@ -0,0 +1,42 @@
+export const prerender = false;
+
+import type { APIRoute } from 'astro';
+import fs from 'node:fs';
+import path from 'node:path';
+import { promoteChat } from '../../../mcp/promote.mjs';
+import { contentDir } from '../../../mcp/history.mjs';
+import { ConflictError, ValidationError } from '../../../mcp/errors.mjs';
+import { isSafeFilename } from '../../../mcp/utils.mjs';
+
+const json = (data: unknown, status: number) =>
+  new Response(JSON.stringify(data), { status, headers: { 'Content-Type': 'application/json' } });
+
+/**
+ * POST { filename } — the chat page's "Promote to plan" button. Creates the
+ * plan (see mcp/promote.mjs) and responds 201 with its URL, 409 when the
+ * chat was already promoted or a plan with its title exists, or 400 with the
+ * field errors when the chat or the new plan would not match its schema.
+ */
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    const { filename } = (await request.json()) as { filename: string };
+
+    if (!filename || !isSafeFilename(filename)) {
+      return json({ error: 'Invalid filename' }, 400);
+    }
+    if (!fs.existsSync(path.join(contentDir(process.cwd(), 'chats'), filename))) {
+      return json({ error: `Not found: chats/${filename}` }, 404);
+    }
+
+    try {
+      const result = promoteChat(process.cwd(), filename, { source: 'editor' });
+      return json({ ok: true, filename: result.plan.filename, url: result.plan.url }, 201);
+    } catch (err) {
+      if (err instanceof ConflictError) return json({ error: err.message }, 409);
+      if (err instanceof ValidationError) return json({ error: err.message, fields: err.fields }, 400);
+      throw err;
+    }
+  } catch (err) {
+    return json({ error: String(err) }, 500);
+  }
+};
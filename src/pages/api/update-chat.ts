@@ -0,0 +1,91 @@
+export const prerender = false;
+
+import type { APIRoute } from 'astro';
+import fs from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+import { parseFrontmatter, replaceBody, splitFrontmatter, updateFrontmatter, validateEntry } from '../../../mcp/frontmatter.mjs';
+import { parseChatMessages, serializeChatMessages, strayContent } from '../../../mcp/messages.mjs';
+import { chatMessageSchema } from '../../../mcp/schema.mjs';
+import { contentHash } from '../../../mcp/utils.mjs';
+import { writeEntry } from '../../../mcp/history.mjs';
+
+// process.cwd() is always the project root, works in dev and SSR
+const CHATS_DIR = path.join(process.cwd(), 'src/content/chats');
+
+const json = (data: unknown, status: number) =>
+  new Response(JSON.stringify(data), { status, headers: { 'Content-Type': 'application/json' } });
+
+/**
+ * Saves are optimistic, as for plans (see update-plan.ts): the editor sends the
+ * `version` it last saw, and a write to a file that has changed since is
+ * rejected with 409 and the current content.
+ */
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    const body = await request.json();
+    const { filename, frontmatter, messages, version } = body as {
+      filename: string;
+      frontmatter: Record<string, unknown>;
+      messages: unknown;
+      version?: string;
+    };
+
+    if (!filename || !/^[\w.-]+\.mdx$/.test(filename)) {
+      return json({ error: 'Invalid filename' }, 400);
+    }
+    if (!version) {
+      return json({ error: 'Missing version' }, 428);
+    }
+
+    const parsedMessages = z.array(chatMessageSchema).safeParse(messages);
+    if (!parsedMessages.success) {
+      return json({ error: 'Invalid messages' }, 400);
+    }
+
+    const filepath = path.join(CHATS_DIR, filename);
+    if (!fs.existsSync(filepath)) {
+      return json({ error: `Not found: chats/${filename}` }, 404);
+    }
+
+    const raw = fs.readFileSync(filepath, 'utf-8');
+    const currentVersion = contentHash(raw);
+    if (version !== currentVersion) {
+      const current = parseFrontmatter(raw);
+      return json({
+        error: 'File changed since it was loaded',
+        version: currentVersion,
+        current: { frontmatter: current.data, body: current.body.trim() },
+      }, 409);
+    }
+
+    // The body is rebuilt from the message list; empty messages are dropped
+    const kept = parsedMessages.data.filter((m) => m.content.trim());
+    const { body: currentBody } = splitFrontmatter(raw);
+    const newBody = serializeChatMessages(kept);
+    const messagesChanged = newBody !== serializeChatMessages(parseChatMessages(currentBody));
+
+    // Rebuilding the body drops text outside the ## User / ## AI sections, so
+    // keep the body as it is unless the messages changed, and refuse then
+    const stray = messagesChanged ? strayContent(currentBody) : '';
+    if (stray) {
+      return json({
+        error: 'The chat has text outside its ## User / ## AI sections that saving the messages would drop. Move it into a message or remove it in the file first.',
+        stray: stray.length > 120 ? `${stray.slice(0, 120)}…` : stray,
+      }, 422);
+    }
+
+    const updated = updateFrontmatter(raw, frontmatter ?? {});
+    const content = messagesChanged ? replaceBody(updated, newBody) : updated;
+
+    const check = validateEntry('chats', content);
+    if (!check.success) {
+      return json({ error: 'Invalid frontmatter', fields: check.errors }, 400);
+    }
+
+    writeEntry(process.cwd(), 'chats', filename, content, { source: 'editor', coalesce: true });
+    return json({ ok: true, version: contentHash(content) }, 200);
+  } catch (err) {
+    return json({ error: String(err) }, 500);
+  }
+};
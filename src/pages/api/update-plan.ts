@@ -3,64 +3,67 @@ export const prerender = false;
 import type { APIRoute } from 'astro';
 import fs from 'node:fs';
 import path from 'node:path';
+import { replaceBody, updateFrontmatter, parseFrontmatter, validateEntry } from '../../../mcp/frontmatter.mjs';
+import { contentHash } from '../../../mcp/utils.mjs';
+import { writeEntry } from '../../../mcp/history.mjs';
 
 // process.cwd() is always the project root, works in dev and SSR
 const PLANS_DIR = path.join(process.cwd(), 'src/content/plans');
 
-function serializeYamlValue(value: unknown): string {
-  if (typeof value === 'string') return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
-  if (typeof value === 'boolean') return String(value);
-  if (typeof value === 'number') return String(value);
-  return String(value);
-}
-
-function buildFrontmatter(data: Record<string, unknown>): string {
-  const lines: string[] = [];
-  for (const [key, value] of Object.entries(data)) {
-    if (key === 'milestones' && Array.isArray(value)) {
-      lines.push('milestones:');
-      for (const m of value as { title: string; weeks: string; status: string }[]) {
-        lines.push(`  - title: ${serializeYamlValue(m.title)}`);
-        lines.push(`    weeks: ${serializeYamlValue(m.weeks)}`);
-        lines.push(`    status: "${m.status}"`);
-      }
-    } else if (key === 'tags' && Array.isArray(value)) {
-      const arr = (value as string[]).map((t) => `"${t}"`).join(', ');
-      lines.push(`tags: [${arr}]`);
-    } else if (value !== undefined && value !== null) {
-      lines.push(`${key}: ${serializeYamlValue(value)}`);
-    }
-  }
-  return lines.join('\n');
-}
+const json = (data: unknown, status: number) =>
+  new Response(JSON.stringify(data), { status, headers: { 'Content-Type': 'application/json' } });
 
+/**
+ * Saves are optimistic: the editor sends the `version` (content hash) it last
+ * saw, and a write is rejected with 409 if the file has changed since — e.g.
+ * through an MCP tool or another tab. The 409 carries the current content so
+ * the editor can offer a merge.
+ */
 export const POST: APIRoute = async ({ request }) => {
   try {
     const body = await request.json();
-    const { filename, frontmatter, body: mdxBody } = body as {
+    const { filename, frontmatter, body: mdxBody, version } = body as {
       filename: string;
       frontmatter: Record<string, unknown>;
       body: string;
+      version?: string;
     };
 
     if (!filename || !/^[\w.-]+\.mdx$/.test(filename)) {
-      return new Response(JSON.stringify({ error: 'Invalid filename' }), { status: 400 });
+      return json({ error: 'Invalid filename' }, 400);
+    }
+    if (!version) {
+      return json({ error: 'Missing version' }, 428);
     }
 
     const filepath = path.join(PLANS_DIR, filename);
     if (!fs.existsSync(filepath)) {
-      return new Response(JSON.stringify({ error: `Not found: ${filepath}` }), { status: 404 });
+      return json({ error: `Not found: ${filepath}` }, 404);
     }
 
-    const fm = buildFrontmatter(frontmatter);
-    const content = `---\n${fm}\n---\n\n${mdxBody.trim()}\n`;
-    fs.writeFileSync(filepath, content, 'utf-8');
+    const raw = fs.readFileSync(filepath, 'utf-8');
+    const currentVersion = contentHash(raw);
+    if (version !== currentVersion) {
+      const current = parseFrontmatter(raw);
+      return json({
+        error: 'File changed since it was loaded',
+        version: currentVersion,
+        current: { frontmatter: current.data, body: current.body.trim() },
+      }, 409);
+    }
+
+    // Only the fields the editor knows about change; comments and other keys survive
+    const content = replaceBody(updateFrontmatter(raw, frontmatter), mdxBody);
+
+    const check = validateEntry('plans', content);
+    if (!check.success) {
+      return json({ error: 'Invalid frontmatter', fields: check.errors }, 400);
+    }
 
-    return new Response(JSON.stringify({ ok: true }), {
-      status: 200,
-      headers: { 'Content-Type': 'application/json' },
-    });
+    // Auto-saves within a few minutes of each other share one revision
+    writeEntry(process.cwd(), 'plans', filename, content, { source: 'editor', coalesce: true });
+    return json({ ok: true, version: contentHash(content) }, 200);
   } catch (err) {
-    return new Response(JSON.stringify({ error: String(err) }), { status: 500 });
+    return json({ error: String(err) }, 500);
   }
 };
@@ -0,0 +1,6 @@
+import type { APIRoute } from 'astro';
+import { getTimelineEntries } from '@/lib/timeline';
+import { entriesFeed, feedResponse } from '@/lib/feeds';
+
+export const GET: APIRoute = async ({ site }) =>
+  feedResponse(entriesFeed(await getTimelineEntries(), site), 'feed.json');
@@ -0,0 +1,37 @@
+import type { APIRoute, GetStaticPaths } from 'astro';
+import { getCollection } from 'astro:content';
+import { DEFAULT_SITE, FEED_FORMATS, feedResponse, type FeedFormat, type FeedItem } from '@/lib/feeds';
+import { describeChange, milestoneChanges, planSnapshots } from '@/lib/progress';
+
+export const getStaticPaths = (() => FEED_FORMATS.map((feed) => ({ params: { feed } }))) satisfies GetStaticPaths;
+
+export const GET: APIRoute = async ({ params, site }) => {
+  const base = site ?? DEFAULT_SITE;
+  const plans = await getCollection('plans');
+
+  const items: FeedItem[] = plans.flatMap((plan) => {
+    const slug = plan.id.replace(/\.mdx?$/, '');
+    const url = new URL(`/plans/${slug}`, base).href;
+    const snapshots = planSnapshots(process.cwd(), `${slug}.mdx`, plan.data.date.toISOString());
+    return milestoneChanges(snapshots).map((change) => {
+      const weeks = plan.data.milestones.find((m) => m.title === change.milestone)?.weeks;
+      return {
+        id: `${url}#milestone-${encodeURIComponent(change.milestone)}-${change.to}-${change.date}`,
+        title: `${plan.data.title} · ${describeChange(change)}`,
+        url,
+        date: change.date,
+        summary: weeks ? `${describeChange(change)} (${weeks})` : describeChange(change),
+        categories: [...plan.data.tags, change.to],
+      };
+    });
+  });
+  items.sort((a, b) => Date.parse(b.date) - Date.parse(a.date));
+
+  return feedResponse({
+    title: 'AI Chat Generator · Plan progress',
+    description: 'Milestones started and completed across plans.',
+    homeUrl: new URL('/', base).href,
+    baseUrl: new URL('/progress/', base).href,
+    items,
+  }, params.feed as FeedFormat);
+};
@@ -0,0 +1,33 @@
+import type { APIRoute } from 'astro';
+import { getCollection } from 'astro:content';
+import { buildSearchIndex, chatSearchSections, planSearchSections, type SearchDocument } from '@/lib/search';
+
+export const GET: APIRoute = async () => {
+  const chats = await getCollection('chats');
+  const plans = await getCollection('plans');
+
+  const chatDocs: SearchDocument[] = chats.map((chat) => ({
+    type: 'chat',
+    title: chat.data.title,
+    href: `/chats/${chat.id.replace(/\.mdx?$/, '')}`,
+    date: chat.data.date.toISOString(),
+    tags: chat.data.tags,
+    tldr: chat.data.tldr ?? '',
+    sections: chatSearchSections(chat.body ?? ''),
+  }));
+
+  const planDocs: SearchDocument[] = plans.map((plan) => ({
+    type: 'plan',
+    title: plan.data.title,
+    href: `/plans/${plan.id.replace(/\.mdx?$/, '')}`,
+    date: plan.data.date.toISOString(),
+    tags: plan.data.tags,
+    tldr: plan.data.tldr ?? '',
+    sections: planSearchSections(plan.body ?? '', plan.data.milestones),
+  }));
+
+  const index = buildSearchIndex([...chatDocs, ...planDocs]);
+  return new Response(JSON.stringify(index), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+};
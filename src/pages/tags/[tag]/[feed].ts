@@ -0,0 +1,22 @@
+import type { APIRoute, GetStaticPaths } from 'astro';
+import { getTimelineEntries } from '@/lib/timeline';
+import { countTags, filterByTags } from '@/lib/tags';
+import { FEED_FORMATS, entriesFeed, feedResponse, type FeedFormat } from '@/lib/feeds';
+
+// One feed per tag in each format; tag intersections only get pages, not feeds
+export const getStaticPaths = (async () => {
+  const counts = countTags(await getTimelineEntries());
+  return counts.flatMap((c) => FEED_FORMATS.map((feed) => ({
+    params: { tag: c.slug, feed },
+    props: { tag: c.tag },
+  })));
+}) satisfies GetStaticPaths;
+
+export const GET: APIRoute = async ({ params, props, site }) => {
+  const slug = params.tag!;
+  const entries = filterByTags(await getTimelineEntries(), [slug]);
+  return feedResponse(
+    entriesFeed(entries, site, { path: `/tags/${slug}/`, tag: props.tag }),
+    params.feed as FeedFormat,
+  );
+};
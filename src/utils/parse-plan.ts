@@ -0,0 +1,11 @@
+/**
+ * Typed entry point for the plan body parser shared with the MCP server.
+ * Splits on `##` and `###` headings (see mcp/plans.mjs).
+ */
+export { parsePlanIntro, parsePlanSections } from '../../mcp/plans.mjs';
+
+export interface PlanSection {
+  level: 2 | 3;
+  title: string;
+  content: string;
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  listActionItems,
+  parseActionItemId,
+  setActionItem,
+  formatActionItems,
+} from '../mcp/actions.mjs';
+import { contentDir, listRevisions } from '../mcp/history.mjs';
+import { parseFrontmatter } from '../mcp/frontmatter.mjs';
+
+let tmpDir;
+
+const chat = (title, date, tags, items) => [
+  '---',
+  `title: "${title}"`,
+  `date: ${date}`,
+  `tags: [${tags.join(', ')}]`,
+  'action_items:',
+  ...items.flatMap(([task, done]) => [`  - task: "${task}"`, `    done: ${done}`]),
+  '---',
+  '',
+  '## User',
+  '',
+  'Hello',
+  '',
+].join('\n');
+
+const write = (filename, content) => {
+  fs.mkdirSync(contentDir(tmpDir, 'chats'), { recursive: true });
+  fs.writeFileSync(path.join(contentDir(tmpDir, 'chats'), filename), content);
+};
+const readItems = (filename) =>
+  parseFrontmatter(fs.readFileSync(path.join(contentDir(tmpDir, 'chats'), filename), 'utf-8')).data.action_items;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'acg-actions-'));
+  write('rust.mdx', chat('Borrowing', '2026-02-10', ['rust'], [['Read chapter 4', false], ['Install clippy', true]]));
+  write('jpf.mdx', chat('JPF listeners', '2026-01-05', ['Java', 'gsoc'], [['Clone jpf-core', false], ['', false], ['Write a listener', false]]));
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+// ── listing ──────────────────────────────────────────────────────────────────
+
+describe('listActionItems', () => {
+  it('lists open items oldest chat first, with ids and ages', () => {
+    const items = listActionItems(tmpDir, { today: '2026-02-14' });
+    expect(items.map((i) => i.id)).toEqual(['jpf#0', 'jpf#2', 'rust#0']);
+    expect(items[0]).toMatchObject({
+      task: 'Clone jpf-core',
+      done: false,
+      index: 0,
+      age: 40,
+      chat: { filename: 'jpf.mdx', url: '/chats/jpf', title: 'JPF listeners', tags: ['Java', 'gsoc'] },
+    });
+  });
+
+  it('filters by status, chat tag and task text', () => {
+    expect(listActionItems(tmpDir, { status: 'done' }).map((i) => i.id)).toEqual(['rust#1']);
+    expect(listActionItems(tmpDir, { status: 'all' })).toHaveLength(4);
+    expect(listActionItems(tmpDir, { tags: ['java'] }).map((i) => i.id)).toEqual(['jpf#0', 'jpf#2']);
+    expect(listActionItems(tmpDir, { text: 'listener WRITE' }).map((i) => i.id)).toEqual(['jpf#2']);
+    expect(() => listActionItems(tmpDir, { status: 'later' })).toThrow('Unknown status');
+  });
+
+  it('formats one item per line with its chat underneath', () => {
+    const text = formatActionItems(listActionItems(tmpDir, { tags: ['rust'], today: '2026-02-14' }));
+    expect(text).toContain('☐ rust#0  Read chapter 4');
+    expect(text).toContain('↳ Borrowing · 4d #rust');
+  });
+});
+
+// ── ticking off ──────────────────────────────────────────────────────────────
+
+describe('setActionItem', () => {
+  it('sets an item and records a revision', () => {
+    const result = setActionItem(tmpDir, 'jpf.mdx', { index: 2, task: 'Write a listener', done: true, source: 'test' });
+    expect(result).toMatchObject({ filename: 'jpf.mdx', index: 2, item: { task: 'Write a listener', done: true } });
+    expect(readItems('jpf.mdx')[2]).toEqual({ task: 'Write a listener', done: true });
+    expect(listRevisions(tmpDir, 'chats', 'jpf.mdx')[0].source).toBe('test');
+  });
+
+  it('follows an item that moved, and refuses one that is gone', () => {
+    write('jpf.mdx', chat('JPF listeners', '2026-01-05', [], [['Write a listener', false], ['Clone jpf-core', false]]));
+    expect(setActionItem(tmpDir, 'jpf.mdx', { index: 0, task: 'Clone jpf-core', done: true, source: 'test' }).index).toBe(1);
+    expect(() => setActionItem(tmpDir, 'jpf.mdx', { index: 2, task: 'Read the wiki', done: true, source: 'test' }))
+      .toThrow(expect.objectContaining({ name: 'ConflictError', message: expect.stringContaining('changed or removed') }));
+    expect(() => setActionItem(tmpDir, 'nope.mdx', { index: 0, done: true, source: 'test' })).toThrow('Chat not found');
+  });
+});
+
+describe('parseActionItemId', () => {
+  it('reads <chat>#<index>', () => {
+    expect(parseActionItemId('jpf#2')).toEqual({ filename: 'jpf.mdx', index: 2 });
+    expect(parseActionItemId('jpf.mdx#0')).toEqual({ filename: 'jpf.mdx', index: 0 });
+    expect(() => parseActionItemId('jpf')).toThrow('Invalid action item');
+  });
+});
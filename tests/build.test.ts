@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import http from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+import type { AddressInfo } from 'node:net';
+import {
+  parseBuildLine,
+  contentSnapshot,
+  diffSnapshots,
+  readBuildManifest,
+  detectDevServer,
+  buildSite,
+} from '../mcp/build.mjs';
+import { contentDir } from '../mcp/history.mjs';
+import { entriesToBuild } from '../src/lib/build';
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'acg-build-'));
+  fs.mkdirSync(contentDir(tmpDir, 'chats'), { recursive: true });
+  fs.writeFileSync(path.join(contentDir(tmpDir, 'chats'), 'a.mdx'), '---\ntitle: "A"\n---\n');
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+// ── parseBuildLine ───────────────────────────────────────────────────────────
+
+describe('parseBuildLine', () => {
+  it('reads written pages with their render time', () => {
+    expect(parseBuildLine('19:07:34   ├─ /chats/a/index.html (+40ms)')).toEqual({
+      type: 'page',
+      page: { route: '/chats/a/index.html', ms: 40 },
+    });
+    expect(parseBuildLine('\x1b[2m19:07:34\x1b[22m   └─ /rss.xml')).toEqual({ type: 'page', page: { route: '/rss.xml', ms: null } });
+  });
+
+  it('reads errors and ignores everything else', () => {
+    expect(parseBuildLine('19:07:34 [ERROR] [build] Missing frontmatter')).toEqual({ type: 'error', message: '[build] Missing frontmatter' });
+    expect(parseBuildLine('19:07:34 [build] Building static entrypoints...')).toBeNull();
+  });
+});
+
+// ── content snapshots ────────────────────────────────────────────────────────
+
+describe('content snapshots', () => {
+  it('reports added, edited and removed entries', () => {
+    const before = contentSnapshot(tmpDir);
+    expect(Object.keys(before)).toEqual(['chats/a.mdx']);
+
+    fs.writeFileSync(path.join(contentDir(tmpDir, 'chats'), 'a.mdx'), '---\ntitle: "A2"\n---\n');
+    fs.mkdirSync(contentDir(tmpDir, 'plans'), { recursive: true });
+    fs.writeFileSync(path.join(contentDir(tmpDir, 'plans'), 'p.mdx'), '---\ntitle: "P"\n---\n');
+    expect(diffSnapshots(before, contentSnapshot(tmpDir))).toEqual({ changed: ['chats/a.mdx', 'plans/p.mdx'], removed: [] });
+    expect(diffSnapshots({ ...before, 'chats/gone.mdx': 'x' }, before)).toEqual({ changed: [], removed: ['chats/gone.mdx'] });
+  });
+
+  it('has no manifest until a build wrote one', () => {
+    expect(readBuildManifest(tmpDir)).toBeNull();
+  });
+});
+
+// ── dev server ───────────────────────────────────────────────────────────────
+
+describe('dev server', () => {
+  let server: http.Server;
+  let url: string;
+
+  beforeEach(async () => {
+    server = http.createServer((req: http.IncomingMessage, res: http.ServerResponse) => {
+      res.writeHead(req.url === '/@vite/client' ? 200 : 404).end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('is detected by the Vite client script', async () => {
+    expect(await detectDevServer(url)).toBe(true);
+    await new Promise((resolve) => server.close(resolve));
+    expect(await detectDevServer(url)).toBe(false);
+    server.listen(0);
+  });
+
+  it('skips the build and leaves the files alone', async () => {
+    const file = path.join(contentDir(tmpDir, 'chats'), 'a.mdx');
+    fs.utimesSync(file, new Date(0), new Date(0));
+    const messages: string[] = [];
+
+    const result = await buildSite(tmpDir, { devUrl: url, onProgress: (p) => messages.push(p.message) });
+    expect(result).toMatchObject({ mode: 'dev', success: true, devUrl: url, changes: null });
+    expect(fs.statSync(file).mtimeMs).toBe(0);
+    expect(messages[0]).toMatch(/reloads content changes by itself/);
+  });
+});
+
+// ── entriesToBuild ───────────────────────────────────────────────────────────
+
+describe('entriesToBuild', () => {
+  const entries = [{ id: 'a.mdx' }, { id: 'b' }];
+
+  it('keeps every entry unless BUILD_ONLY is set', () => {
+    expect(entriesToBuild('chats', entries, undefined)).toEqual(entries);
+    expect(entriesToBuild('chats', entries, 'chats/b,plans/a')).toEqual([{ id: 'b' }]);
+    expect(entriesToBuild('chats', entries, '')).toEqual([]);
+  });
+});
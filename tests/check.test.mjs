@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { checkFiles, fixFile, checkContent, formatCheckReport } from '../mcp/check.mjs';
+import { contentDir, listRevisions } from '../mcp/history.mjs';
+
+const chat = (body, extra = '') => `---\ntitle: "Chat"\ndate: 2026-01-01\n${extra}---\n\n${body}\n`;
+const rules = (issues) => issues.map((i) => i.rule);
+
+// ── checkFiles ───────────────────────────────────────────────────────────────
+
+describe('checkFiles', () => {
+  it('passes a well-formed chat', () => {
+    expect(checkFiles([{ collection: 'chats', filename: 'a.mdx', raw: chat('## User\n\nHi\n\n## AI\n\nHello') }])).toEqual([]);
+  });
+
+  it('reports schema errors, empty items and chats without messages', () => {
+    const raw = '---\ntitle: "Chat"\naction_items:\n  - task: ""\n    done: false\n---\n\n## User\n\n<!-- Write the user prompt here -->\n';
+    const issues = checkFiles([{ collection: 'chats', filename: 'a.mdx', raw }]);
+    expect(rules(issues)).toEqual(['schema', 'empty-action-item', 'no-messages', 'placeholder']);
+    expect(issues[0].message).toBe('date: Invalid date');
+    expect(issues[3]).toMatchObject({ line: 10, fixable: true });
+  });
+
+  it('reports headings outside the ## User / ## AI convention', () => {
+    const issues = checkFiles([{ collection: 'chats', filename: 'a.mdx', raw: chat('Preamble\n\n## Assistant\n\nHi\n\n## Notes\n\nMore\n\n## User\n\nThanks') }]);
+    expect(issues.map((i) => [i.rule, i.fixable, i.message])).toEqual([
+      ['heading', false, 'Text before the first ## User / ## AI heading is not shown'],
+      ['heading', true, '"## Assistant" should be "## AI"'],
+      ['heading', false, '"## Notes" is not a ## User / ## AI heading, so its text is not shown'],
+    ]);
+  });
+
+  it('finds fences left open, but leaves headings inside closed ones alone', () => {
+    const closed = chat('## User\n\n```md\n## AI\n```\n\n## AI\n\nOk');
+    expect(checkFiles([{ collection: 'chats', filename: 'a.mdx', raw: closed }])).toEqual([]);
+
+    const open = chat('## User\n\n```js\nx\n\n## AI\n\n```py\ny');
+    expect(checkFiles([{ collection: 'chats', filename: 'a.mdx', raw: open }]).map((i) => [i.rule, i.line, i.message])).toEqual([
+      ['unclosed-fence', 8, 'Code fence is not closed before "## AI" on line 11'],
+      ['unclosed-fence', 13, 'Code fence is never closed'],
+    ]);
+  });
+
+  it('checks duplicates and links across the archive', () => {
+    const issues = checkFiles([
+      { collection: 'chats', filename: 'a.mdx', raw: chat('## User\n\nSee [b](/chats/b) and [plan](/plans/p#week-1)') },
+      { collection: 'chats', filename: 'A.mdx', raw: chat('## User\n\n`[x](/chats/missing)` is code, [y](/chats/missing/) is not') },
+      { collection: 'plans', filename: 'p.mdx', raw: '---\ntitle: "Chat"\ndate: 2026-01-01\n---\n\n## Overview\n' },
+    ]);
+    expect(issues.map((i) => [i.filename, i.rule])).toEqual([
+      ['a.mdx', 'broken-link'],
+      ['A.mdx', 'duplicate-slug'],
+      ['A.mdx', 'duplicate-title'],
+      ['A.mdx', 'broken-link'],
+    ]);
+    expect(issues[0].message).toBe('Link to /chats/b, which does not exist');
+  });
+
+  it('checks the chat and plan back-links in frontmatter', () => {
+    const issues = checkFiles([
+      { collection: 'chats', filename: 'a.mdx', raw: chat('## User\n\nHi', 'plan: p\n') },
+      { collection: 'chats', filename: 'b.mdx', raw: chat('## User\n\nHi', 'title: "B"\nplan: gone\n').replace('title: "Chat"\n', '') },
+      { collection: 'plans', filename: 'p.mdx', raw: '---\ntitle: "P"\ndate: 2026-01-01\nchat: missing\n---\n\n## Overview\n' },
+    ]);
+    expect(issues.map((i) => [i.filename, i.rule, i.message])).toEqual([
+      ['b.mdx', 'broken-link', 'plan: plans/gone does not exist'],
+      ['p.mdx', 'broken-link', 'chat: chats/missing does not exist'],
+    ]);
+  });
+});
+
+// ── fixFile ──────────────────────────────────────────────────────────────────
+
+describe('fixFile', () => {
+  it('repairs the mechanical problems and nothing else', () => {
+    const raw = chat('## user\n\n<!-- Write the user prompt here -->\n\nHi\n\n```js\nx\n\n## AI\n\nBye', 'action_items:\n  - task: ""\n  - task: "Keep"\n');
+    const { content, rules: fixed } = fixFile('chats', raw);
+    expect(fixed).toEqual(['empty-action-item', 'heading', 'placeholder', 'unclosed-fence']);
+    expect(content).toBe(chat('## User\n\nHi\n\n```js\nx\n```\n\n## AI\n\nBye', 'action_items:\n  - task: "Keep"\n'));
+    expect(checkFiles([{ collection: 'chats', filename: 'a.mdx', raw: content }])).toEqual([]);
+  });
+
+  it('drops empty milestones from plans', () => {
+    const raw = '---\ntitle: "P"\ndate: 2026-01-01\nmilestones:\n  - title: ""\n    weeks: ""\n---\n\n## Overview\n';
+    expect(fixFile('plans', raw).content).toContain('milestones: []');
+  });
+});
+
+// ── checkContent ─────────────────────────────────────────────────────────────
+
+describe('checkContent', () => {
+  let tmpDir;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'acg-check-'));
+    fs.mkdirSync(contentDir(tmpDir, 'chats'), { recursive: true });
+    fs.writeFileSync(path.join(contentDir(tmpDir, 'chats'), 'a.mdx'), chat('## ai\n\nHello'));
+    fs.writeFileSync(path.join(contentDir(tmpDir, 'chats'), 'b.mdx'), '---\ntitle: "B"\n---\n\n## AI\n\n<!-- Paste or write the AI response here -->\n\nHi\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('only reports without fix', () => {
+    const result = checkContent(tmpDir);
+    expect(result.files).toBe(2);
+    expect(rules(result.issues)).toEqual(['heading', 'schema', 'placeholder']);
+    expect(formatCheckReport(result)).toMatch(/❌ 3 problems in 2 of 2 files — 2 can be fixed with --fix$/);
+  });
+
+  it('fixes through saveEntry and skips files that still fail the schema', () => {
+    const result = checkContent(tmpDir, { fix: true, source: 'test' });
+    expect(result.fixed).toEqual([{ collection: 'chats', filename: 'a.mdx', rules: ['heading'] }]);
+    expect(result.failed).toMatchObject([{ filename: 'b.mdx', error: expect.stringContaining('date: Invalid date') }]);
+    expect(listRevisions(tmpDir, 'chats', 'a.mdx')[0].source).toBe('test');
+    expect(rules(result.issues)).toEqual(['schema', 'placeholder']);
+  });
+});
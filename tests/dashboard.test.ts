@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { burndown, loadDashboard, percentDone } from '../src/lib/dashboard';
+import { contentDir, recordRevision } from '../mcp/history.mjs';
+
+// ── percentDone / burndown ───────────────────────────────────────────────────
+
+describe('percentDone', () => {
+  it('weights every item alike and is null with nothing to count', () => {
+    expect(percentDone({ done: 1, total: 2 }, { done: 3, total: 3 })).toBe(80);
+    expect(percentDone({ done: 0, total: 0 })).toBeNull();
+  });
+});
+
+describe('burndown', () => {
+  it('steps only where remaining work or scope changed', () => {
+    const points = burndown([
+      { date: 'd1', milestones: [{ title: 'A' }, { title: 'B' }], checklist: { done: 0, total: 2 } },
+      { date: 'd2', milestones: [{ title: 'A', status: 'in-progress' }, { title: 'B' }], checklist: { done: 0, total: 2 } },
+      { date: 'd3', milestones: [{ title: 'A', status: 'complete' }, { title: 'B' }], checklist: { done: 1, total: 2 } },
+      { date: 'd4', milestones: [{ title: 'A', status: 'complete' }, { title: 'B' }, { title: 'C' }] },
+    ]);
+    expect(points).toEqual([
+      { date: 'd1', remaining: 4, total: 4 },
+      { date: 'd3', remaining: 2, total: 4 },
+      { date: 'd4', remaining: 2, total: 3 },
+    ]);
+  });
+});
+
+// ── loadDashboard ────────────────────────────────────────────────────────────
+
+describe('loadDashboard', () => {
+  let tmpDir: string;
+
+  const plan = (title: string, status: string, body = '') =>
+    `---\ntitle: "${title}"\ndate: 2026-01-05\nmilestones:\n  - title: "Setup"\n    weeks: "Week 1"\n    status: "${status}"\n  - title: "Build"\n    start: 2026-01-12\n    end: 2026-01-25\n---\n\n${body}`;
+  const write = (collection: 'chats' | 'plans', filename: string, content: string) => {
+    fs.mkdirSync(contentDir(tmpDir, collection), { recursive: true });
+    fs.writeFileSync(path.join(contentDir(tmpDir, collection), filename), content);
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'acg-dashboard-'));
+    write('plans', 'quiet.mdx', plan('Quiet', 'in-progress', '- [x] One\n- [ ] Two\n'));
+    write('plans', 'busy.mdx', plan('Busy', 'complete'));
+    recordRevision(tmpDir, 'plans', 'busy.mdx', plan('Busy', 'complete'), { action: 'update', source: 'test', now: new Date('2026-02-20T00:00:00Z') });
+    write('chats', 'a.mdx', '---\ntitle: "A"\ndate: 2026-02-01\naction_items:\n  - task: "Open"\n  - task: "Done"\n    done: true\n---\n');
+    write('chats', 'b.mdx', '---\ntitle: "B"\ndate: 2026-02-02\naction_items:\n  - task: "Done"\n    done: true\n---\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('aggregates completion, in-progress and overdue milestones across plans', () => {
+    const { plans, percent } = loadDashboard(tmpDir, { today: '2026-03-01' });
+    const quiet = plans.find((p) => p.slug === 'quiet');
+    expect(quiet).toMatchObject({ milestones: { done: 0, total: 2 }, checklist: { done: 1, total: 2 }, percent: 25, overdue: 2, due: '2026-01-25' });
+    expect(quiet?.inProgress).toMatchObject([{ title: 'Setup', overdue: true, schedule: { start: '2026-01-05', end: '2026-01-11' } }]);
+    expect(percent).toBe(33);
+  });
+
+  it('flags plans without a recent status change as stalled, first', () => {
+    const { plans } = loadDashboard(tmpDir, { today: '2026-03-01', stalledWeeks: 3 });
+    expect(plans.map((p) => [p.slug, p.stalled])).toEqual([['quiet', true], ['busy', false]]);
+    expect(plans[1].lastChange).toBe('2026-02-20T00:00:00.000Z');
+    expect(loadDashboard(tmpDir, { today: '2026-03-01', stalledWeeks: 10 }).plans.every((p) => !p.stalled)).toBe(true);
+  });
+
+  it('lists open action items per chat, newest first', () => {
+    expect(loadDashboard(tmpDir).actionItems).toEqual([{ title: 'A', url: '/chats/a', date: '2026-02-01', tasks: ['Open'] }]);
+  });
+});
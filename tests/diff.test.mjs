@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { diffLines, sideBySide, formatUnifiedDiff, foldRows } from '../mcp/diff.mjs';
+
+// ── diffLines ────────────────────────────────────────────────────────────────
+
+describe('diffLines', () => {
+  it('marks every line the same for identical texts', () => {
+    const lines = diffLines('a\nb', 'a\nb');
+    expect(lines.map((l) => l.type)).toEqual(['same', 'same']);
+  });
+
+  it('reports a changed line as a deletion then an addition', () => {
+    const lines = diffLines('a\nb\nc', 'a\nB\nc');
+    expect(lines.map((l) => `${l.type}:${l.text}`)).toEqual(['same:a', 'del:b', 'add:B', 'same:c']);
+  });
+
+  it('numbers lines in the old and new text', () => {
+    const lines = diffLines('a\nc', 'a\nb\nc');
+    expect(lines[1]).toEqual({ type: 'add', text: 'b', b: 2 });
+    expect(lines[2]).toEqual({ type: 'same', text: 'c', a: 2, b: 3 });
+  });
+
+  it('keeps unchanged lines between separate edits', () => {
+    const lines = diffLines('1\n2\n3\n4\n5', 'x\n2\n3\n4\ny');
+    expect(lines.filter((l) => l.type === 'same').map((l) => l.text)).toEqual(['2', '3', '4']);
+  });
+});
+
+// ── sideBySide ───────────────────────────────────────────────────────────────
+
+describe('sideBySide', () => {
+  it('pairs deletions with the additions that follow them', () => {
+    const rows = sideBySide(diffLines('a\nb\nc', 'a\nB\nc'));
+    expect(rows).toHaveLength(3);
+    expect(rows[1].left?.text).toBe('b');
+    expect(rows[1].right?.text).toBe('B');
+  });
+
+  it('leaves the other side empty for unpaired lines', () => {
+    const rows = sideBySide(diffLines('a', 'a\nb\nc'));
+    expect(rows.slice(1).map((r) => [r.left, r.right?.text])).toEqual([[null, 'b'], [null, 'c']]);
+  });
+});
+
+// ── foldRows ─────────────────────────────────────────────────────────────────
+
+describe('foldRows', () => {
+  const lines = (n) => Array.from({ length: n }, (_, i) => `line ${i}`).join('\n');
+
+  it('collapses unchanged rows away from changes', () => {
+    const rows = foldRows(sideBySide(diffLines(lines(20), lines(20).replace('line 10', 'changed'))), 2);
+    expect(rows[0]).toEqual({ skipped: 8 });
+    expect(rows[rows.length - 1]).toEqual({ skipped: 7 });
+    expect(rows.filter((r) => !('skipped' in r))).toHaveLength(5);
+  });
+
+  it('collapses everything when nothing changed', () => {
+    expect(foldRows(sideBySide(diffLines(lines(5), lines(5))))).toEqual([{ skipped: 5 }]);
+  });
+});
+
+// ── formatUnifiedDiff ────────────────────────────────────────────────────────
+
+describe('formatUnifiedDiff', () => {
+  it('returns an empty string for identical texts', () => {
+    expect(formatUnifiedDiff(diffLines('a', 'a'))).toBe('');
+  });
+
+  it('renders headers, a hunk range and +/- lines', () => {
+    const text = formatUnifiedDiff(diffLines('a\nb\nc', 'a\nB\nc'), { from: 'r1', to: 'r2' });
+    expect(text).toBe(['--- r1', '+++ r2', '@@ -1,3 +1,3 @@', ' a', '-b', '+B', ' c'].join('\n'));
+  });
+
+  it('splits distant changes into separate hunks', () => {
+    const old = Array.from({ length: 20 }, (_, i) => String(i)).join('\n');
+    const changed = old.replace(/^0$/m, 'x').replace(/^19$/m, 'y');
+    const hunks = formatUnifiedDiff(diffLines(old, changed), { context: 1 }).match(/^@@/gm);
+    expect(hunks).toHaveLength(2);
+  });
+});
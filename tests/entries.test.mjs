@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  loadEntries,
+  queryEntries,
+  entrySummary,
+  formatEntryList,
+  parseListArgs,
+  searchEntries,
+} from '../mcp/entries.mjs';
+import { contentDir } from '../mcp/history.mjs';
+
+let tmpDir;
+let entries;
+
+const write = (collection, filename, content) => {
+  fs.mkdirSync(contentDir(tmpDir, collection), { recursive: true });
+  fs.writeFileSync(path.join(contentDir(tmpDir, collection), filename), content);
+};
+
+beforeAll(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'acg-entries-'));
+  write('chats', 'generics.mdx', '---\ntitle: "Generics"\ndate: 2026-01-02\ntags: [Java]\ntldr: "Wildcards explained"\n---\n\n## User\n\nWhat is ? super T\n');
+  write('chats', 'rust.mdx', '---\ntitle: "Borrowing"\ndate: 2026-02-10\ntags: [rust]\naction_items:\n  - task: "Read chapter 4"\n    done: false\n---\n\n## User\n\nLifetimes?\n');
+  write('chats', 'broken.mdx', '---\ntitle: [\n---\n\nStill searchable\n');
+  write('plans', 'jpf.mdx', [
+    '---',
+    'title: "JPF"',
+    'date: 2026-01-20',
+    'tags: [java, gsoc]',
+    'difficulty: advanced',
+    'milestones:',
+    '  - title: "Foundations"',
+    '    weeks: "Weeks 1-2"',
+    '    status: complete',
+    '  - title: "Listeners"',
+    '    weeks: "Weeks 3-4"',
+    '    status: in-progress',
+    '---',
+    '',
+    'Model checking',
+    '',
+  ].join('\n'));
+  entries = loadEntries(tmpDir);
+});
+
+afterAll(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+const filenames = (page) => page.entries.map((e) => e.filename);
+
+// ── loadEntries ──────────────────────────────────────────────────────────────
+
+describe('loadEntries', () => {
+  it('reads both collections and lists broken frontmatter as Untitled', () => {
+    expect(entries).toHaveLength(4);
+    expect(entries.find((e) => e.filename === 'broken.mdx')).toMatchObject({ title: 'Untitled', date: null, tags: [] });
+  });
+
+  it('reads a single collection', () => {
+    expect(loadEntries(tmpDir, 'plans').map((e) => e.filename)).toEqual(['jpf.mdx']);
+  });
+});
+
+// ── queryEntries: filters ────────────────────────────────────────────────────
+
+describe('queryEntries filters', () => {
+  it('sorts newest first by default, undated entries last', () => {
+    expect(filenames(queryEntries(entries))).toEqual(['rust.mdx', 'jpf.mdx', 'generics.mdx', 'broken.mdx']);
+  });
+
+  it('requires every tag, case-insensitively', () => {
+    expect(filenames(queryEntries(entries, { tags: ['java'] }))).toEqual(['jpf.mdx', 'generics.mdx']);
+    expect(filenames(queryEntries(entries, { tags: ['JAVA', 'gsoc'] }))).toEqual(['jpf.mdx']);
+  });
+
+  it('filters by date range with an inclusive month end', () => {
+    expect(filenames(queryEntries(entries, { from: '2026-01-10', to: '2026-01' }))).toEqual(['jpf.mdx']);
+    expect(filenames(queryEntries(entries, { to: '2026-02' }))).toEqual(['rust.mdx', 'jpf.mdx', 'generics.mdx']);
+  });
+
+  it('filters plans by difficulty and milestone status', () => {
+    expect(filenames(queryEntries(entries, { difficulty: 'advanced' }))).toEqual(['jpf.mdx']);
+    expect(filenames(queryEntries(entries, { status: 'in-progress' }))).toEqual(['jpf.mdx']);
+    expect(queryEntries(entries, { status: 'not-started' }).total).toBe(0);
+  });
+
+  it('matches every word of the text in title, tldr, tags or body', () => {
+    expect(filenames(queryEntries(entries, { text: 'wildcards java' }))).toEqual(['generics.mdx']);
+    expect(filenames(queryEntries(entries, { text: 'searchable' }))).toEqual(['broken.mdx']);
+    expect(queryEntries(entries, { text: 'wildcards rust' }).total).toBe(0);
+  });
+
+  it('rejects invalid values', () => {
+    expect(() => queryEntries(entries, { from: 'January' })).toThrow(/YYYY/);
+    expect(() => queryEntries(entries, { sort: 'size' })).toThrow(/Unknown sort/);
+    expect(() => queryEntries(entries, { limit: 0 })).toThrow(/limit/);
+  });
+});
+
+// ── queryEntries: sorting and pagination ─────────────────────────────────────
+
+describe('queryEntries pagination', () => {
+  it('sorts titles A–Z by default and honours an explicit order', () => {
+    expect(filenames(queryEntries(entries, { sort: 'title' }))).toEqual(['rust.mdx', 'generics.mdx', 'jpf.mdx', 'broken.mdx']);
+    expect(filenames(queryEntries(entries, { sort: 'title', order: 'desc' }))[0]).toBe('broken.mdx');
+  });
+
+  it('walks every entry exactly once with cursors', () => {
+    const seen = [];
+    let cursor;
+    do {
+      const page = queryEntries(entries, { limit: 3, cursor });
+      expect(page.total).toBe(4);
+      seen.push(...filenames(page));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+    expect(seen).toEqual(['rust.mdx', 'jpf.mdx', 'generics.mdx', 'broken.mdx']);
+  });
+
+  it('keeps its position when an earlier entry disappears', () => {
+    const { nextCursor } = queryEntries(entries, { limit: 2 });
+    const remaining = entries.filter((e) => e.filename !== 'rust.mdx');
+    expect(filenames(queryEntries(remaining, { limit: 2, cursor: nextCursor }))).toEqual(['generics.mdx', 'broken.mdx']);
+  });
+
+  it('rejects cursors from a different sort or garbage', () => {
+    const { nextCursor } = queryEntries(entries, { limit: 1 });
+    expect(() => queryEntries(entries, { sort: 'title', cursor: nextCursor })).toThrow(/sorted by date desc/);
+    expect(() => queryEntries(entries, { cursor: 'nope' })).toThrow(/Invalid cursor/);
+  });
+});
+
+// ── entrySummary / formatEntryList ───────────────────────────────────────────
+
+describe('entry output', () => {
+  const jpf = () => entries.find((e) => e.filename === 'jpf.mdx');
+
+  it('leaves plan details and the body out of compact summaries', () => {
+    const summary = entrySummary(jpf(), false);
+    expect(summary).toMatchObject({ url: '/plans/jpf', tags: ['java', 'gsoc'] });
+    expect(summary).not.toHaveProperty('milestones');
+    expect(entrySummary(jpf(), true)).toMatchObject({ difficulty: 'advanced', milestones: expect.any(Array) });
+    expect(entrySummary(jpf(), true)).not.toHaveProperty('body');
+  });
+
+  it('adds tl;dr, tags and progress lines in verbose mode', () => {
+    const rust = entries.find((e) => e.filename === 'rust.mdx');
+    expect(formatEntryList([jpf()])).toBe('  📋 jpf.mdx — JPF (2026-01-20)');
+    expect(formatEntryList([jpf(), rust], { verbose: true })).toBe([
+      '  📋 jpf.mdx — JPF (2026-01-20)',
+      '      ↳ #java #gsoc · advanced',
+      '      ↳ 1/2 milestones complete · now: Listeners',
+      '  📝 rust.mdx — Borrowing (2026-02-10)',
+      '      ↳ #rust',
+      '      ↳ 1 open action item',
+    ].join('\n'));
+  });
+});
+
+// ── searchEntries ────────────────────────────────────────────────────────────
+
+describe('searchEntries', () => {
+  it('returns chat matches with the message index, role and a bolded excerpt', () => {
+    const [result] = searchEntries(tmpDir, 'lifetimes');
+    expect(result).toMatchObject({ collection: 'chats', filename: 'rust.mdx', url: '/chats/rust' });
+    expect(result.matches).toEqual([
+      { messageIndex: 0, role: 'user', url: '/chats/rust#message-0', excerpt: '**Lifetimes**?' },
+    ]);
+  });
+
+  it('returns plan matches with the section label', () => {
+    const [result] = searchEntries(tmpDir, 'listeners', { collection: 'plans' });
+    expect(result.filename).toBe('jpf.mdx');
+    expect(result.matches[0]).toEqual({ section: 'Milestone', url: '/plans/jpf', excerpt: '**Listeners** Weeks 3-4' });
+  });
+
+  it('requires every word and honours the limit', () => {
+    expect(searchEntries(tmpDir, 'jpf java').map((r) => r.filename)).toEqual(['jpf.mdx']);
+    expect(searchEntries(tmpDir, 'generics java').map((r) => r.filename)).toEqual(['generics.mdx']);
+    expect(searchEntries(tmpDir, 'java').map((r) => r.filename).sort()).toEqual(['generics.mdx', 'jpf.mdx']);
+    expect(searchEntries(tmpDir, 'java', { limit: 1 })).toHaveLength(1);
+    expect(searchEntries(tmpDir, 'nothing-like-this')).toEqual([]);
+  });
+});
+
+// ── parseListArgs ────────────────────────────────────────────────────────────
+
+describe('parseListArgs', () => {
+  it('parses the collection and flags', () => {
+    expect(parseListArgs(['plans', '--tag', 'java,gsoc', '--from', '2026-01', '-q', 'listeners', '--sort', 'title', '--desc', '--limit', '5', '-v'])).toEqual({
+      collection: 'plans',
+      tags: ['java', 'gsoc'],
+      from: '2026-01',
+      text: 'listeners',
+      sort: 'title',
+      order: 'desc',
+      limit: 5,
+      verbose: true,
+    });
+  });
+
+  it('rejects unknown flags and missing values', () => {
+    expect(() => parseListArgs(['--colour'])).toThrow(/Unknown option/);
+    expect(() => parseListArgs(['--tag'])).toThrow(/needs a value/);
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import {
+  stripMdx,
+  entryToMarkdown,
+  renderInline,
+  renderMarkdown,
+  readThemeTokens,
+  themeCss,
+  entryToHtml,
+} from '../mcp/export.mjs';
+
+const chat = `---
+title: "Listeners"
+date: 2026-02-25
+tags: ["java"]
+tldr: "How listeners work"
+action_items:
+  - task: "Read the wiki"
+    done: true
+---
+
+<!-- Paste the AI response here -->
+
+## User
+
+How do I *register* one?
+
+## AI
+
+Use \`jpf.addListener\`:
+
+\`\`\`java
+jpf.addListener(new MyListener());
+\`\`\`
+`;
+
+const plan = `---
+title: "Plan <A>"
+date: 2026-02-20
+tags: []
+difficulty: "advanced"
+milestones:
+  - title: "Phase 1"
+    weeks: "Weeks 1-4"
+    status: "in-progress"
+---
+
+import Note from './note';
+
+### Week 1
+
+- [x] Read docs
+- [ ] Build it
+`;
+
+const css = `
+:root {
+  /* light */
+  --background: 0 0% 100%;
+  --foreground: 0 0% 0%;
+}
+.dark {
+  --background: 0 0% 5%;
+}
+`;
+
+// ── stripMdx ─────────────────────────────────────────────────────────────────
+
+describe('stripMdx', () => {
+  it('drops ESM lines and comments but not code that looks like them', () => {
+    const body = "import X from 'x';\n<!-- note -->\nText\n```js\nimport y from 'y';\n```";
+    expect(stripMdx(body)).toBe("Text\n```js\nimport y from 'y';\n```");
+  });
+});
+
+// ── entryToMarkdown ──────────────────────────────────────────────────────────
+
+describe('entryToMarkdown', () => {
+  it('renders the frontmatter as a header', () => {
+    const md = entryToMarkdown('chats', chat);
+    expect(md).toMatch(/^# Listeners\n\n- \*\*Type:\*\* Chat session\n- \*\*Date:\*\* 2026-02-25\n- \*\*Tags:\*\* java\n/);
+    expect(md).toContain('> **TL;DR** — How listeners work');
+    expect(md).toContain('- ☑ Read the wiki');
+  });
+
+  it('keeps messages and drops placeholders', () => {
+    const md = entryToMarkdown('chats', chat);
+    expect(md).not.toContain('<!--');
+    expect(md).toContain('## User\n\nHow do I *register* one?\n\n## AI');
+  });
+
+  it('lists milestones and replaces task boxes', () => {
+    const md = entryToMarkdown('plans', plan);
+    expect(md).toContain('- **Phase 1** · Weeks 1-4 · In progress');
+    expect(md).toContain('- ☑ Read docs\n- ☐ Build it');
+    expect(md).not.toContain('import Note');
+  });
+});
+
+// ── renderInline / renderMarkdown ────────────────────────────────────────────
+
+describe('renderInline', () => {
+  it('escapes HTML and formats bold, italic, code and links', () => {
+    expect(renderInline('**a** *b* `<c>` [d](https://e.dev) <script>'))
+      .toBe('<strong>a</strong> <em>b</em> <code>&lt;c&gt;</code> <a href="https://e.dev">d</a> &lt;script&gt;');
+  });
+
+  it('drops links with unsafe protocols', () => {
+    expect(renderInline('[x](javascript:alert(1))')).not.toContain('href');
+  });
+});
+
+describe('renderMarkdown', () => {
+  it('renders headings, lists, quotes and paragraphs', async () => {
+    const html = await renderMarkdown('## Title\n\nOne\ntwo\n\n- a\n- [x] b\n\n1. c\n\n> quote');
+    expect(html).toBe([
+      '<h2>Title</h2>',
+      '<p>One two</p>',
+      '<ul><li>a</li><li><span class="task done">☑</span> b</li></ul>',
+      '<ol><li>c</li></ol>',
+      '<blockquote><p>quote</p></blockquote>',
+    ].join('\n'));
+  });
+
+  it('highlights fenced code with light and dark colors', async () => {
+    const html = await renderMarkdown('```js\nconst a = 1;\n```');
+    expect(html).toContain('<figcaption>js</figcaption>');
+    expect(html).toContain('--shiki-dark');
+  });
+
+  it('falls back to plain text for unknown languages', async () => {
+    const html = await renderMarkdown('```nosuchlang\nx < y\n```');
+    expect(html).toContain('<figcaption>nosuchlang</figcaption>');
+    expect(html).toContain('x &#x3C; y');
+  });
+});
+
+// ── theme ────────────────────────────────────────────────────────────────────
+
+describe('readThemeTokens / themeCss', () => {
+  const tokens = readThemeTokens(css);
+
+  it('reads the light and dark token blocks', () => {
+    expect(tokens.light).toEqual({ '--background': '0 0% 100%', '--foreground': '0 0% 0%' });
+    expect(tokens.dark).toEqual({ '--background': '0 0% 5%' });
+  });
+
+  it('layers dark tokens over light ones', () => {
+    expect(themeCss(tokens, 'dark')).toContain(':root { --background: 0 0% 5%; --foreground: 0 0% 0%; }');
+    expect(themeCss(tokens, 'light')).not.toContain('0 0% 5%');
+  });
+
+  it('follows the system theme on auto', () => {
+    expect(themeCss(tokens, 'auto')).toContain('@media screen and (prefers-color-scheme: dark)');
+  });
+});
+
+// ── entryToHtml ──────────────────────────────────────────────────────────────
+
+describe('entryToHtml', () => {
+  it('builds a self-contained document', async () => {
+    const html = await entryToHtml('chats', chat, { tokens: readThemeTokens(css), theme: 'light' });
+    expect(html).toMatch(/^<!doctype html>/);
+    expect(html).toContain('<style>');
+    expect(html).not.toMatch(/<(link|script)\b/);
+    expect(html).toContain('<section class="msg msg-user">');
+    expect(html).toContain('@media print');
+  });
+
+  it('escapes the title', async () => {
+    const html = await entryToHtml('plans', plan, { tokens: readThemeTokens(css) });
+    expect(html).toContain('<title>Plan &lt;A&gt;</title>');
+    expect(html).toContain('<span class="status-in-progress">In progress</span>');
+  });
+});
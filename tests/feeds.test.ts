@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import {
+  escapeXml,
+  renderRss,
+  renderAtom,
+  renderJsonFeed,
+  entriesFeed,
+  type Feed,
+} from '../src/lib/feeds';
+
+const feed: Feed = {
+  title: 'Feed & Co',
+  description: 'Sessions',
+  homeUrl: 'https://example.dev/',
+  baseUrl: 'https://example.dev/',
+  items: [
+    {
+      id: 'https://example.dev/chats/a',
+      title: 'Generics <T> in Java',
+      url: 'https://example.dev/chats/a',
+      date: '2026-03-02T00:00:00.000Z',
+      summary: 'Use "extends" & "super"',
+      categories: ['java', 'c++'],
+    },
+    {
+      id: 'https://example.dev/plans/b#milestone-x',
+      title: 'Plan',
+      url: 'https://example.dev/plans/b',
+      date: '2026-01-01T00:00:00.000Z',
+      categories: [],
+    },
+  ],
+};
+
+// ── escapeXml ────────────────────────────────────────────────────────────────
+
+describe('escapeXml', () => {
+  it('escapes markup and quotes', () => {
+    expect(escapeXml(`<a href="x">'&'</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;&apos;&amp;&apos;&lt;/a&gt;');
+  });
+});
+
+// ── renderRss ────────────────────────────────────────────────────────────────
+
+describe('renderRss', () => {
+  const xml = renderRss(feed);
+
+  it('renders a channel with a self link and the latest item date', () => {
+    expect(xml).toContain('<title>Feed &amp; Co</title>');
+    expect(xml).toContain('<atom:link href="https://example.dev/rss.xml" rel="self"');
+    expect(xml).toContain('<lastBuildDate>Mon, 02 Mar 2026 00:00:00 GMT</lastBuildDate>');
+  });
+
+  it('uses the summary as description and tags as categories', () => {
+    expect(xml).toContain('<title>Generics &lt;T&gt; in Java</title>');
+    expect(xml).toContain('<description>Use &quot;extends&quot; &amp; &quot;super&quot;</description>');
+    expect(xml).toContain('<category>c++</category>');
+  });
+
+  it('marks guids that are not the item URL as non-permalinks', () => {
+    expect(xml).toContain('<guid isPermaLink="true">https://example.dev/chats/a</guid>');
+    expect(xml).toContain('<guid isPermaLink="false">https://example.dev/plans/b#milestone-x</guid>');
+  });
+});
+
+// ── renderAtom ───────────────────────────────────────────────────────────────
+
+describe('renderAtom', () => {
+  const xml = renderAtom(feed);
+
+  it('renders entries with summaries and category terms', () => {
+    expect(xml).toContain('<updated>2026-03-02T00:00:00.000Z</updated>');
+    expect(xml).toContain('<summary>Use &quot;extends&quot; &amp; &quot;super&quot;</summary>');
+    expect(xml).toContain('<category term="java" />');
+    expect(xml.match(/<entry>/g)).toHaveLength(2);
+  });
+
+  it('omits the summary when there is none', () => {
+    const last = xml.slice(xml.lastIndexOf('<entry>'));
+    expect(last).not.toContain('<summary>');
+  });
+
+  it('uses the epoch as updated date for an empty feed', () => {
+    expect(renderAtom({ ...feed, items: [] })).toContain('<updated>1970-01-01T00:00:00.000Z</updated>');
+  });
+});
+
+// ── renderJsonFeed ───────────────────────────────────────────────────────────
+
+describe('renderJsonFeed', () => {
+  it('renders a JSON Feed 1.1 document', () => {
+    const json = JSON.parse(renderJsonFeed(feed));
+    expect(json.version).toBe('https://jsonfeed.org/version/1.1');
+    expect(json.feed_url).toBe('https://example.dev/feed.json');
+    expect(json.items[0]).toMatchObject({
+      id: 'https://example.dev/chats/a',
+      summary: 'Use "extends" & "super"',
+      tags: ['java', 'c++'],
+      date_published: '2026-03-02T00:00:00.000Z',
+    });
+    expect(json.items[1].content_text).toBe('Plan');
+  });
+});
+
+// ── entriesFeed ──────────────────────────────────────────────────────────────
+
+describe('entriesFeed', () => {
+  const entries = [
+    { title: 'Chat', date: '2026-03-02T00:00:00.000Z', slug: 'chat', tags: ['java'], tldr: 'Short', type: 'chat' as const, href: '/chats/chat' },
+    { title: 'Roadmap', date: '2026-03-01T00:00:00.000Z', slug: 'roadmap', tags: [], type: 'plan' as const, href: '/plans/roadmap' },
+  ];
+
+  it('builds absolute URLs from the site and labels plans', () => {
+    const built = entriesFeed(entries, new URL('https://example.dev'));
+    expect(built.items.map((i) => [i.title, i.url])).toEqual([
+      ['Chat', 'https://example.dev/chats/chat'],
+      ['Plan: Roadmap', 'https://example.dev/plans/roadmap'],
+    ]);
+    expect(built.items[0].summary).toBe('Short');
+  });
+
+  it('points tag feeds at the tag page', () => {
+    const built = entriesFeed(entries, 'https://example.dev', { path: '/tags/java/', tag: 'java' });
+    expect(built.homeUrl).toBe('https://example.dev/tags/java/');
+    expect(built.baseUrl).toBe('https://example.dev/tags/java/');
+    expect(built.title).toContain('#java');
+  });
+});
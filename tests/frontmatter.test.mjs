@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest';
+import {
+  splitFrontmatter,
+  parseFrontmatter,
+  renderEntry,
+  updateFrontmatter,
+  replaceBody,
+  validateFrontmatter,
+  validateEntry,
+  formatFieldErrors,
+} from '../mcp/frontmatter.mjs';
+
+const plan = `---
+# Edited by hand
+title: "JPF Plan" # short name
+date: 2026-02-20
+tags: ["java"]
+icon: "☕"
+milestones:
+  - title: "Phase 1"
+    weeks: "Weeks 1-4"
+    status: "complete"
+---
+
+Intro.
+`;
+
+// ── splitFrontmatter ─────────────────────────────────────────────────────────
+
+describe('splitFrontmatter', () => {
+  it('separates the YAML block from the body', () => {
+    const { yaml, body } = splitFrontmatter('---\ntitle: "x"\n---\n\nBody');
+    expect(yaml).toBe('title: "x"\n');
+    expect(body).toBe('\nBody');
+  });
+
+  it('only closes on a fence at the start of a line', () => {
+    const { yaml } = splitFrontmatter('---\ntitle: "a --- b"\n---\n');
+    expect(yaml).toBe('title: "a --- b"\n');
+  });
+
+  it('accepts an empty block and returns null without one', () => {
+    expect(splitFrontmatter('---\n---\nBody').yaml).toBe('');
+    expect(splitFrontmatter('Body').yaml).toBeNull();
+  });
+});
+
+// ── parseFrontmatter ─────────────────────────────────────────────────────────
+
+describe('parseFrontmatter', () => {
+  it('parses nested milestones and keeps dates as strings', () => {
+    const { data } = parseFrontmatter(plan);
+    expect(data.date).toBe('2026-02-20');
+    expect(data.milestones).toEqual([{ title: 'Phase 1', weeks: 'Weeks 1-4', status: 'complete' }]);
+  });
+
+  it('parses action items with booleans', () => {
+    const { data } = parseFrontmatter('---\naction_items:\n  - task: "Read"\n    done: true\n---\n');
+    expect(data.action_items).toEqual([{ task: 'Read', done: true }]);
+  });
+
+  it('throws on malformed YAML', () => {
+    expect(() => parseFrontmatter('---\ntitle: "open\n---\n')).toThrow(/Invalid frontmatter/);
+  });
+});
+
+// ── updateFrontmatter ────────────────────────────────────────────────────────
+
+describe('updateFrontmatter', () => {
+  it('keeps comments, unknown keys and the body', () => {
+    const out = updateFrontmatter(plan, { tags: ['java', 'gsoc'] });
+    expect(out).toContain('# Edited by hand');
+    expect(out).toContain('title: "JPF Plan" # short name');
+    expect(out).toContain('icon: "☕"');
+    expect(out).toContain('tags: ["java", "gsoc"]');
+    expect(out.endsWith('\nIntro.\n')).toBe(true);
+  });
+
+  it('updates scalars in place, keeping their inline comment', () => {
+    const out = updateFrontmatter(plan, { title: 'Renamed: v2' });
+    expect(out).toContain('title: "Renamed: v2" # short name');
+  });
+
+  it('adds missing keys and removes keys set to null', () => {
+    const { data } = parseFrontmatter(updateFrontmatter(plan, { tldr: 'New', icon: null }));
+    expect(data.tldr).toBe('New');
+    expect(data).not.toHaveProperty('icon');
+  });
+
+  it('writes milestones as a block sequence', () => {
+    const out = updateFrontmatter(plan, {
+      milestones: [{ title: 'Phase 1', weeks: 'Weeks 1-4', status: 'in-progress' }],
+    });
+    expect(out).toContain('milestones:\n  - title: "Phase 1"\n    weeks: "Weeks 1-4"\n    status: "in-progress"');
+  });
+
+  it('writes milestone dates unquoted', () => {
+    const out = updateFrontmatter(plan, { milestones: [{ title: 'Phase 1', start: '2026-03-02', end: '2026-03-29' }] });
+    expect(out).toContain('  - title: "Phase 1"\n    start: 2026-03-02\n    end: 2026-03-29\n');
+  });
+
+  it('adds a frontmatter block to files without one', () => {
+    expect(updateFrontmatter('Body', { title: 'x' })).toBe('---\ntitle: "x"\n---\n\nBody');
+  });
+});
+
+// ── renderEntry / replaceBody ────────────────────────────────────────────────
+
+describe('renderEntry', () => {
+  it('round-trips through parseFrontmatter', () => {
+    const data = { title: 'Say "hi"', date: '2026-01-01', tags: ['a'], action_items: [{ task: 't', done: false }] };
+    const out = renderEntry(data, '## User\n\nHello');
+    expect(parseFrontmatter(out).data).toEqual(data);
+    expect(out.endsWith('---\n\n## User\n\nHello\n')).toBe(true);
+  });
+});
+
+describe('replaceBody', () => {
+  it('keeps the frontmatter block byte for byte', () => {
+    const out = replaceBody(plan, 'New body');
+    expect(out).toBe(plan.replace('Intro.', 'New body'));
+  });
+});
+
+// ── validateFrontmatter ──────────────────────────────────────────────────────
+
+describe('validateFrontmatter', () => {
+  it('applies schema defaults on success', () => {
+    const result = validateFrontmatter('chats', { title: 'x', date: '2026-01-01' });
+    expect(result.success).toBe(true);
+    if (result.success) expect(result.data.action_items).toEqual([]);
+  });
+
+  it('reports errors with dotted field paths', () => {
+    const result = validateFrontmatter('plans', {
+      date: '2026-01-01',
+      milestones: [{ title: 'a', weeks: 'b', status: 'done' }],
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors.map((e) => e.path)).toEqual(['title', 'milestones.0.status']);
+      expect(formatFieldErrors(result.errors)).toContain('  • title: Required');
+    }
+  });
+
+  it('accepts milestones with dates instead of weeks, but not ending before they start', () => {
+    const milestones = [{ title: 'a', start: '2026-03-01', end: '2026-03-10' }];
+    expect(validateFrontmatter('plans', { title: 'P', date: '2026-01-01', milestones }).success).toBe(true);
+
+    const result = validateFrontmatter('plans', { title: 'P', date: '2026-01-01', milestones: [{ ...milestones[0], end: '2026-02-01' }] });
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.errors).toEqual([{ path: 'milestones.0.end', message: 'End date is before the start date' }]);
+  });
+});
+
+describe('validateEntry', () => {
+  it('validates the frontmatter of a whole file', () => {
+    expect(validateEntry('plans', plan).success).toBe(true);
+    const result = validateEntry('chats', '---\ntitle: "x"\ndate: someday\n---\n\nBody');
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.errors.map((e) => e.path)).toEqual(['date']);
+  });
+
+  it('reports a missing or malformed block as a frontmatter error', () => {
+    for (const raw of ['No frontmatter here', '---\ntitle: "x\n---\n']) {
+      const result = validateEntry('chats', raw);
+      expect(result.success).toBe(false);
+      if (!result.success) expect(result.errors[0].path).toBe('(frontmatter)');
+    }
+  });
+
+  it('accepts what renderEntry writes for any title', () => {
+    const raw = renderEntry({ title: 'Say "hi": a\\b #1', date: '2026-01-01', tags: [], tldr: '', action_items: [] }, 'Body');
+    expect(validateEntry('chats', raw).success).toBe(true);
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  contentDir,
+  recordRevision,
+  writeEntry,
+  saveEntry,
+  deleteEntry,
+  listRevisions,
+  readRevision,
+  restoreRevision,
+  diffRevisions,
+  listDeletedEntries,
+  findCollection,
+} from '../mcp/history.mjs';
+
+let tmpDir;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'acg-history-'));
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+const read = (collection, filename) => fs.readFileSync(path.join(contentDir(tmpDir, collection), filename), 'utf-8');
+
+// ── writeEntry ───────────────────────────────────────────────────────────────
+
+describe('writeEntry', () => {
+  it('writes the file and records a create then an update revision', () => {
+    writeEntry(tmpDir, 'chats', 'a.mdx', 'one', { source: 'test' });
+    writeEntry(tmpDir, 'chats', 'a.mdx', 'two', { source: 'test' });
+    expect(read('chats', 'a.mdx')).toBe('two');
+    expect(listRevisions(tmpDir, 'chats', 'a.mdx').map((r) => r.action)).toEqual(['update', 'create']);
+  });
+
+  it('snapshots a file written before history existed as a baseline', () => {
+    fs.mkdirSync(contentDir(tmpDir, 'plans'), { recursive: true });
+    fs.writeFileSync(path.join(contentDir(tmpDir, 'plans'), 'p.mdx'), 'original');
+    writeEntry(tmpDir, 'plans', 'p.mdx', 'edited', { source: 'test' });
+    const [update, baseline] = listRevisions(tmpDir, 'plans', 'p.mdx');
+    expect(baseline.action).toBe('baseline');
+    expect(readRevision(tmpDir, 'plans', 'p.mdx', baseline.id)).toBe('original');
+    expect(readRevision(tmpDir, 'plans', 'p.mdx', update.id)).toBe('edited');
+  });
+
+  it('skips a revision when the content did not change', () => {
+    writeEntry(tmpDir, 'chats', 'a.mdx', 'same', { source: 'test' });
+    writeEntry(tmpDir, 'chats', 'a.mdx', 'same', { source: 'test' });
+    expect(listRevisions(tmpDir, 'chats', 'a.mdx')).toHaveLength(1);
+  });
+});
+
+// ── saveEntry ────────────────────────────────────────────────────────────────
+
+describe('saveEntry', () => {
+  it('writes content that matches the schema', () => {
+    saveEntry(tmpDir, 'chats', 'a.mdx', '---\ntitle: "A"\ndate: 2026-01-01\n---\n', { source: 'test' });
+    expect(listRevisions(tmpDir, 'chats', 'a.mdx')).toHaveLength(1);
+  });
+
+  it('refuses anything else with the field errors and leaves the file alone', () => {
+    writeEntry(tmpDir, 'plans', 'p.mdx', 'original', { source: 'test' });
+    expect(() => saveEntry(tmpDir, 'plans', 'p.mdx', '---\ntitle: "P"\ndate: 2026-01-01\ndifficulty: "expert"\n---\n', { source: 'test' }))
+      .toThrow(/Not saved — plans\/p.mdx would not match the schema:\n  • difficulty: Invalid enum value/);
+    expect(() => saveEntry(tmpDir, 'plans', 'p.mdx', '---\ntitle: "P"\n---\n', { source: 'test' }))
+      .toThrow(expect.objectContaining({ name: 'ValidationError', fields: [expect.objectContaining({ path: 'date' })] }));
+    expect(read('plans', 'p.mdx')).toBe('original');
+    expect(listRevisions(tmpDir, 'plans', 'p.mdx')).toHaveLength(1);
+  });
+});
+
+// ── recordRevision ───────────────────────────────────────────────────────────
+
+describe('recordRevision', () => {
+  const at = (s) => new Date(`2026-10-19T12:00:${String(s).padStart(2, '0')}Z`);
+
+  it('coalesces quick updates from the same source', () => {
+    recordRevision(tmpDir, 'plans', 'p.mdx', 'v1', { action: 'update', source: 'editor', coalesce: true, now: at(0) });
+    recordRevision(tmpDir, 'plans', 'p.mdx', 'v2', { action: 'update', source: 'editor', coalesce: true, now: at(5) });
+    const revisions = listRevisions(tmpDir, 'plans', 'p.mdx');
+    expect(revisions).toHaveLength(1);
+    expect(readRevision(tmpDir, 'plans', 'p.mdx', revisions[0].id)).toBe('v2');
+  });
+
+  it('keeps updates from different sources apart', () => {
+    recordRevision(tmpDir, 'plans', 'p.mdx', 'v1', { action: 'update', source: 'editor', coalesce: true, now: at(0) });
+    recordRevision(tmpDir, 'plans', 'p.mdx', 'v2', { action: 'update', source: 'mcp', coalesce: true, now: at(5) });
+    expect(listRevisions(tmpDir, 'plans', 'p.mdx')).toHaveLength(2);
+  });
+
+  it('gives revisions in the same millisecond distinct ids', () => {
+    const a = recordRevision(tmpDir, 'chats', 'a.mdx', 'v1', { action: 'update', source: 's', now: at(0) });
+    const b = recordRevision(tmpDir, 'chats', 'a.mdx', 'v2', { action: 'update', source: 's', now: at(0) });
+    expect(a?.id).not.toBe(b?.id);
+  });
+});
+
+// ── delete & restore ─────────────────────────────────────────────────────────
+
+describe('deleteEntry / restoreRevision', () => {
+  it('keeps deleted content restorable', () => {
+    writeEntry(tmpDir, 'chats', 'gone.mdx', 'keep me', { source: 'test' });
+    deleteEntry(tmpDir, 'chats', 'gone.mdx', { source: 'test' });
+    expect(fs.existsSync(path.join(contentDir(tmpDir, 'chats'), 'gone.mdx'))).toBe(false);
+
+    const [deleted] = listDeletedEntries(tmpDir);
+    expect(deleted).toMatchObject({ collection: 'chats', filename: 'gone.mdx', revisions: 2 });
+    expect(findCollection(tmpDir, 'gone.mdx')).toBe('chats');
+
+    const [del] = listRevisions(tmpDir, 'chats', 'gone.mdx');
+    expect(restoreRevision(tmpDir, 'chats', 'gone.mdx', del.id, { source: 'test' })).toBe(true);
+    expect(read('chats', 'gone.mdx')).toBe('keep me');
+    expect(listDeletedEntries(tmpDir)).toEqual([]);
+    expect(listRevisions(tmpDir, 'chats', 'gone.mdx')[0].action).toBe('restore');
+  });
+
+  it('rolls back to an earlier revision', () => {
+    writeEntry(tmpDir, 'plans', 'p.mdx', 'v1', { source: 'test' });
+    writeEntry(tmpDir, 'plans', 'p.mdx', 'v2', { source: 'test' });
+    const first = listRevisions(tmpDir, 'plans', 'p.mdx').at(-1);
+    restoreRevision(tmpDir, 'plans', 'p.mdx', first.id, { source: 'test' });
+    expect(read('plans', 'p.mdx')).toBe('v1');
+  });
+
+  it('rejects unknown or unsafe revision ids', () => {
+    writeEntry(tmpDir, 'plans', 'p.mdx', 'v1', { source: 'test' });
+    expect(restoreRevision(tmpDir, 'plans', 'p.mdx', 'nope', { source: 'test' })).toBe(false);
+    expect(readRevision(tmpDir, 'plans', 'p.mdx', '../index')).toBeNull();
+  });
+});
+
+// ── diffRevisions ────────────────────────────────────────────────────────────
+
+describe('diffRevisions', () => {
+  it('compares the latest revision with the one before by default', () => {
+    writeEntry(tmpDir, 'chats', 'a.mdx', 'x\ny', { source: 'test' });
+    writeEntry(tmpDir, 'chats', 'a.mdx', 'x\nz', { source: 'test' });
+    const [latest, previous] = listRevisions(tmpDir, 'chats', 'a.mdx');
+    const diff = diffRevisions(tmpDir, 'chats', 'a.mdx');
+    expect(diff.from).toBe(previous.id);
+    expect(diff.to).toBe(latest.id);
+    expect(diff.lines.filter((l) => l.type !== 'same').map((l) => l.text)).toEqual(['y', 'z']);
+  });
+
+  it('diffs the first revision against an empty file', () => {
+    writeEntry(tmpDir, 'chats', 'a.mdx', 'x', { source: 'test' });
+    expect(diffRevisions(tmpDir, 'chats', 'a.mdx').from).toBe('(empty)');
+  });
+
+  it('compares a revision with the file on disk', () => {
+    writeEntry(tmpDir, 'chats', 'a.mdx', 'x', { source: 'test' });
+    const [rev] = listRevisions(tmpDir, 'chats', 'a.mdx');
+    fs.writeFileSync(path.join(contentDir(tmpDir, 'chats'), 'a.mdx'), 'changed outside');
+    const diff = diffRevisions(tmpDir, 'chats', 'a.mdx', { revision: 'current', against: rev.id });
+    expect(diff.lines.map((l) => l.type)).toEqual(['del', 'add']);
+  });
+
+  it('throws for an unknown revision', () => {
+    writeEntry(tmpDir, 'chats', 'a.mdx', 'x', { source: 'test' });
+    expect(() => diffRevisions(tmpDir, 'chats', 'a.mdx', { revision: 'missing' })).toThrow(/Revision not found/);
+    expect(() => diffRevisions(tmpDir, 'chats', 'b.mdx')).toThrow(/No history/);
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  detectExportFormat,
+  parseChatGptExport,
+  parseClaudeExport,
+  parseCopilotSessions,
+  parseExport,
+  planImport,
+  renderImportedChat,
+  runImport,
+} from '../mcp/importers.mjs';
+import { parseChatMessages } from '../mcp/messages.mjs';
+
+const chatgpt = [{
+  id: 'conv-1',
+  title: 'Listeners "deep" dive: part 1',
+  create_time: 1772000000.5,
+  current_node: 'c',
+  mapping: {
+    root: { id: 'root', message: null, parent: null, children: ['sys'] },
+    sys: { id: 'sys', message: { author: { role: 'system' }, content: { parts: [''] } }, parent: 'root', children: ['a'] },
+    a: { id: 'a', message: { author: { role: 'user' }, content: { parts: ['How do listeners work?'] } }, parent: 'sys', children: ['b', 'old'] },
+    old: { id: 'old', message: { author: { role: 'assistant' }, content: { parts: ['stale branch'] } }, parent: 'a', children: [] },
+    b: { id: 'b', message: { author: { role: 'assistant' }, content: { parts: ['Extend ListenerAdapter.'] } }, parent: 'a', children: ['c'] },
+    c: { id: 'c', message: { author: { role: 'user' }, content: { parts: ['Thanks', { asset: 'image' }] } }, parent: 'b', children: [] },
+  },
+}];
+
+const claude = [{
+  uuid: 'uuid-1',
+  name: 'Claude chat',
+  created_at: '2026-02-01T10:00:00.000Z',
+  chat_messages: [
+    { sender: 'human', text: 'Hi', content: [{ type: 'text', text: 'Hi' }] },
+    { sender: 'assistant', text: '', content: [{ type: 'text', text: 'Hello!' }, { type: 'tool_use' }] },
+  ],
+}];
+
+const copilot = {
+  version: 3,
+  sessionId: 'session-1',
+  creationDate: 1772000000000,
+  requests: [
+    {
+      message: { text: 'Explain this function\nplease' },
+      response: [{ value: 'It ' }, { kind: 'inlineReference' }, { kind: 'markdownContent', content: { value: 'adds numbers.' } }],
+    },
+  ],
+};
+
+// ── detectExportFormat ───────────────────────────────────────────────────────
+
+describe('detectExportFormat', () => {
+  it('recognises each supported format', () => {
+    expect(detectExportFormat(chatgpt)).toBe('chatgpt');
+    expect(detectExportFormat(claude)).toBe('claude');
+    expect(detectExportFormat(copilot)).toBe('copilot');
+  });
+
+  it('returns null for anything else', () => {
+    expect(detectExportFormat({ foo: 1 })).toBeNull();
+    expect(detectExportFormat([])).toBeNull();
+  });
+});
+
+// ── parsers ──────────────────────────────────────────────────────────────────
+
+describe('parseChatGptExport', () => {
+  it('follows the current branch and skips system and non-text parts', () => {
+    const [conv] = parseChatGptExport(chatgpt);
+    expect(conv.sourceId).toBe('conv-1');
+    expect(conv.date).toMatch(/^2026-02-2[45]$/);
+    expect(conv.messages).toEqual([
+      { role: 'user', content: 'How do listeners work?' },
+      { role: 'ai', content: 'Extend ListenerAdapter.' },
+      { role: 'user', content: 'Thanks' },
+    ]);
+  });
+});
+
+describe('parseClaudeExport', () => {
+  it('reads text content blocks', () => {
+    const [conv] = parseClaudeExport(claude);
+    expect(conv.title).toBe('Claude chat');
+    expect(conv.messages).toEqual([
+      { role: 'user', content: 'Hi' },
+      { role: 'ai', content: 'Hello!' },
+    ]);
+  });
+});
+
+describe('parseCopilotSessions', () => {
+  it('joins markdown response parts and titles the session from the first prompt', () => {
+    const [conv] = parseCopilotSessions([copilot]);
+    expect(conv.title).toBe('Explain this function');
+    expect(conv.messages[1]).toEqual({ role: 'ai', content: 'It adds numbers.' });
+  });
+});
+
+describe('parseExport', () => {
+  it('accepts a single session object', () => {
+    expect(parseExport(copilot)).toHaveLength(1);
+  });
+
+  it('throws on unknown formats', () => {
+    expect(() => parseExport({})).toThrow(/Unrecognised/);
+  });
+});
+
+// ── planImport ───────────────────────────────────────────────────────────────
+
+describe('planImport', () => {
+  const conv = { source: 'claude', sourceId: 'x', title: 'Same', date: '2026-02-01', messages: [{ role: 'user', content: 'q' }] };
+
+  it('marks conversations imported before as duplicates', () => {
+    const [item] = planImport([conv], [{ filename: 'old.mdx', source: 'claude', source_id: 'x' }]);
+    expect(item.status).toBe('duplicate');
+    expect(item.duplicateOf).toBe('old.mdx');
+  });
+
+  it('avoids filename collisions', () => {
+    const other = { ...conv, sourceId: 'y' };
+    const plan = planImport([conv, other], [{ filename: '2026-02-01-same.mdx' }]);
+    expect(plan.map((p) => p.filename)).toEqual(['2026-02-01-same-2.mdx', '2026-02-01-same-3.mdx']);
+  });
+
+  it('skips conversations without messages', () => {
+    expect(planImport([{ ...conv, messages: [] }], [])[0].status).toBe('empty');
+  });
+});
+
+// ── renderImportedChat ───────────────────────────────────────────────────────
+
+describe('renderImportedChat', () => {
+  it('quotes titles safely and records the source', () => {
+    const [conv] = parseChatGptExport(chatgpt);
+    const out = renderImportedChat(conv, ['java']);
+    expect(out).toContain('title: "Listeners \\"deep\\" dive: part 1"');
+    expect(out).toContain('tags: ["chatgpt", "java"]');
+    expect(out).toContain('source_id: "conv-1"');
+    expect(parseChatMessages(out.split('---').slice(2).join('---'))).toHaveLength(3);
+  });
+});
+
+// ── runImport ────────────────────────────────────────────────────────────────
+
+describe('runImport', () => {
+  let tmpDir;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'acg-test-'));
+    fs.writeFileSync(path.join(tmpDir, 'export.json'), JSON.stringify(claude));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('writes nothing on a dry run', () => {
+    const chats = path.join(tmpDir, 'src/content/chats');
+    const plan = runImport(path.join(tmpDir, 'export.json'), tmpDir, { dryRun: true });
+    expect(plan[0].status).toBe('create');
+    expect(fs.existsSync(chats)).toBe(false);
+  });
+
+  it('de-duplicates on re-import', () => {
+    const chats = path.join(tmpDir, 'src/content/chats');
+    runImport(path.join(tmpDir, 'export.json'), tmpDir);
+    const second = runImport(path.join(tmpDir, 'export.json'), tmpDir);
+    expect(second[0].status).toBe('duplicate');
+    expect(fs.readdirSync(chats)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findItem,
+  setMilestoneStatus,
+  addMilestone,
+  rescheduleMilestone,
+  removeMilestone,
+  addActionItem,
+  toggleActionItem,
+} from '../mcp/items.mjs';
+import { planSchema } from '../mcp/schema.mjs';
+
+const milestones = [
+  { title: 'Phase 1: Foundations', weeks: 'Weeks 1-4', status: 'complete' },
+  { title: 'Phase 2: Listeners', weeks: 'Weeks 5-8', status: 'in-progress' },
+  { title: 'Proposal', weeks: 'Weeks 9-10' },
+];
+const items = [
+  { task: 'Read the JPF wiki', done: false },
+  { task: 'Clone jpf-core', done: true },
+];
+
+// ── findItem ─────────────────────────────────────────────────────────────────
+
+describe('findItem', () => {
+  const titles = milestones.map((m) => m.title);
+
+  it('accepts an index', () => {
+    expect(findItem(titles, 2, 'milestone')).toBe(2);
+    expect(() => findItem(titles, 3, 'milestone')).toThrow('No milestone at index 3 (0–2)');
+    expect(() => findItem([], 0, 'milestone')).toThrow('There are no milestones yet');
+  });
+
+  it('prefers an exact title and accepts a unique part of one', () => {
+    expect(findItem(['Intro', 'Intro to listeners'], 'intro', 'milestone')).toBe(0);
+    expect(findItem(titles, 'listeners', 'milestone')).toBe(1);
+  });
+
+  it('lists the candidates when the title is ambiguous or unknown', () => {
+    expect(() => findItem(titles, 'phase', 'milestone')).toThrow(/matches 2 milestones[\s\S]*0\. Phase 1[\s\S]*1\. Phase 2/);
+    expect(() => findItem(titles, 'testing', 'milestone')).toThrow(/No milestone matches "testing". Milestones:[\s\S]*2\. Proposal/);
+  });
+});
+
+// ── milestones ───────────────────────────────────────────────────────────────
+
+describe('milestone edits', () => {
+  it('sets a status and reports the previous one', () => {
+    const result = setMilestoneStatus(milestones, 'proposal', 'in-progress');
+    expect(result).toMatchObject({ index: 2, previous: 'not-started', item: { title: 'Proposal', status: 'in-progress' } });
+    expect(milestones[2]).not.toHaveProperty('status');
+  });
+
+  it('adds at the end or at an index with a default status', () => {
+    const end = addMilestone(milestones, { title: 'Coding', weeks: 'Weeks 11-12' });
+    expect(end.index).toBe(3);
+    expect(end.item).toEqual({ title: 'Coding', weeks: 'Weeks 11-12', status: 'not-started' });
+    expect(addMilestone(milestones, { title: 'Setup', weeks: 'Week 0' }, 0).list[0].title).toBe('Setup');
+    expect(() => addMilestone(milestones, { title: 'X', weeks: 'Y' }, 4)).toThrow('Cannot insert at index 4 (0–3)');
+  });
+
+  it('reschedules, keeping the week range in step', () => {
+    const result = rescheduleMilestone(milestones, 'proposal', { start: '2026-03-09', end: '2026-03-15' }, '2026-01-05');
+    expect(result.item).toEqual({ title: 'Proposal', weeks: 'Week 10', start: '2026-03-09', end: '2026-03-15' });
+    expect(result.previous).toBe(milestones[2]);
+  });
+
+  it('removes by title', () => {
+    const result = removeMilestone(milestones, 'foundations');
+    expect(result.item.title).toBe('Phase 1: Foundations');
+    expect(result.list.map((m) => m.title)).toEqual(['Phase 2: Listeners', 'Proposal']);
+  });
+
+  it('produces lists the plan schema accepts', () => {
+    const { list } = addMilestone(milestones, { title: 'Coding', weeks: 'Weeks 11-12' });
+    expect(planSchema.safeParse({ title: 'Plan', date: '2026-01-01', milestones: list }).success).toBe(true);
+  });
+});
+
+// ── action items ─────────────────────────────────────────────────────────────
+
+describe('action item edits', () => {
+  it('adds an open item', () => {
+    expect(addActionItem(items, { task: 'Write a listener' }).item).toEqual({ task: 'Write a listener', done: false });
+  });
+
+  it('flips an item or sets it explicitly', () => {
+    expect(toggleActionItem(items, 'wiki').item.done).toBe(true);
+    expect(toggleActionItem(items, 1).item.done).toBe(false);
+    expect(toggleActionItem(items, 1, true).item.done).toBe(true);
+    expect(items[0].done).toBe(false);
+  });
+});
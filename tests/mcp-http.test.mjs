@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { z } from 'zod';
+import { checkBearer, isLoopback, parseTransportArgs, startHttpServer } from '../mcp/http.mjs';
+
+const TOKEN = 'test-token';
+
+const createServer = () => {
+  const server = new McpServer({ name: 'test', version: '1.0.0' });
+  server.tool('echo', 'Echo text back', { text: z.string() }, async ({ text }) => ({
+    content: [{ type: 'text', text }],
+  }));
+  return server;
+};
+
+const auth = { headers: { Authorization: `Bearer ${TOKEN}` } };
+
+// ── parseTransportArgs ───────────────────────────────────────────────────────
+
+describe('parseTransportArgs', () => {
+  it('defaults to stdio', () => {
+    expect(parseTransportArgs([], {})).toEqual({ transport: 'stdio' });
+  });
+
+  it('switches to HTTP with --port, flags winning over the environment', () => {
+    expect(parseTransportArgs(['--port', '4000', '--token=abc'], { MCP_PORT: '5000', MCP_TOKEN: 'env' })).toEqual({
+      transport: 'http', port: 4000, host: '127.0.0.1', token: 'abc',
+    });
+    expect(parseTransportArgs([], { MCP_PORT: '5000', MCP_HOST: '0.0.0.0' })).toMatchObject({ port: 5000, host: '0.0.0.0' });
+    expect(parseTransportArgs(['--http'], {})).toMatchObject({ transport: 'http', port: 3333 });
+  });
+
+  it('rejects invalid ports', () => {
+    expect(() => parseTransportArgs(['--port', 'abc'], {})).toThrow('Invalid port');
+  });
+});
+
+// ── checkBearer / isLoopback ─────────────────────────────────────────────────
+
+describe('checkBearer', () => {
+  it('accepts only the exact token', () => {
+    expect(checkBearer('Bearer test-token', TOKEN)).toBe(true);
+    expect(checkBearer('bearer test-token', TOKEN)).toBe(true);
+    expect(checkBearer('Bearer test-tokeN', TOKEN)).toBe(false);
+    expect(checkBearer('Bearer test', TOKEN)).toBe(false);
+    expect(checkBearer(undefined, TOKEN)).toBe(false);
+  });
+});
+
+describe('isLoopback', () => {
+  it('recognises local addresses', () => {
+    expect(isLoopback('127.0.0.1')).toBe(true);
+    expect(isLoopback('localhost')).toBe(true);
+    expect(isLoopback('0.0.0.0')).toBe(false);
+  });
+});
+
+// ── startHttpServer ──────────────────────────────────────────────────────────
+
+describe('startHttpServer', () => {
+  /** @type {Awaited<ReturnType<typeof startHttpServer>>} */
+  let http;
+
+  beforeEach(async () => {
+    http = await startHttpServer(createServer, { port: 0, token: TOKEN });
+  });
+
+  afterEach(async () => {
+    await http.close();
+  });
+
+  const connect = async () => {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(new StreamableHTTPClientTransport(new URL(http.url), { requestInit: auth }));
+    return client;
+  };
+
+  it('refuses to listen on a public address without a token', async () => {
+    await expect(startHttpServer(createServer, { port: 0, host: '0.0.0.0' })).rejects.toThrow('without a token');
+  });
+
+  it('rejects requests without the bearer token', async () => {
+    const res = await fetch(http.url, { method: 'POST', body: '{}', headers: { 'Content-Type': 'application/json' } });
+    expect(res.status).toBe(401);
+    expect(res.headers.get('www-authenticate')).toBe('Bearer');
+  });
+
+  it('rejects foreign Host headers on a loopback server', async () => {
+    const health = new URL('/health', http.url);
+    const { request } = await import('node:http');
+    const status = await new Promise((resolve) => {
+      request({ host: health.hostname, port: health.port, path: '/health', headers: { Host: 'evil.example:80' } }, (res) => {
+        res.resume();
+        resolve(res.statusCode);
+      }).end();
+    });
+    expect(status).toBe(403);
+  });
+
+  it('serves tools over Streamable HTTP with one session per client', async () => {
+    const a = await connect();
+    const b = await connect();
+    expect(http.sessions.size).toBe(2);
+
+    const result = await a.callTool({ name: 'echo', arguments: { text: 'hi' } });
+    expect(result.content).toEqual([{ type: 'text', text: 'hi' }]);
+    expect((await b.listTools()).tools.map((t) => t.name)).toEqual(['echo']);
+
+    await a.transport?.terminateSession();
+    await a.close();
+    expect(http.sessions.size).toBe(1);
+    await b.close();
+  });
+
+  it('requires an initialize request before a session exists', async () => {
+    const res = await fetch(http.url, {
+      method: 'POST',
+      headers: { ...auth.headers, 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    expect(res.status).toBe(400);
+
+    const unknown = await fetch(http.url, {
+      method: 'POST',
+      headers: { ...auth.headers, 'Content-Type': 'application/json', 'mcp-session-id': 'nope' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    expect(unknown.status).toBe(404);
+  });
+
+  it('serves the older HTTP+SSE transport', async () => {
+    const client = new Client({ name: 'sse-client', version: '1.0.0' });
+    await client.connect(new SSEClientTransport(new URL('/sse', http.url), {
+      requestInit: auth,
+      eventSourceInit: { fetch: (url, init) => fetch(url, { ...init, headers: { ...init?.headers, ...auth.headers } }) },
+    }));
+    const result = await client.callTool({ name: 'echo', arguments: { text: 'sse' } });
+    expect(result.content).toEqual([{ type: 'text', text: 'sse' }]);
+    await client.close();
+  });
+
+  it('closes idle sessions', async () => {
+    await http.close();
+    http = await startHttpServer(createServer, { port: 0, token: TOKEN, sessionTtlMs: 50 });
+    const client = await connect();
+    expect(http.sessions.size).toBe(1);
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(http.sessions.size).toBe(0);
+    await client.close();
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { entryUri, parseEntryUri, registerResources, watchContent } from '../mcp/resources.mjs';
+import { registerPrompts } from '../mcp/prompts.mjs';
+import { contentDir } from '../mcp/history.mjs';
+
+let tmpDir;
+let client;
+
+const CHAT = '---\ntitle: "Generics"\ndate: 2026-01-02\ntags: []\ntldr: "Wildcards explained"\n---\n\n## User\n\nWhat is ? super T\n';
+const PLAN = '---\ntitle: "JPF"\ndate: 2026-01-03\nmilestones: []\n---\n\nIntro\n';
+
+const write = (collection, filename, content) => {
+  fs.mkdirSync(contentDir(tmpDir, collection), { recursive: true });
+  fs.writeFileSync(path.join(contentDir(tmpDir, collection), filename), content);
+};
+
+beforeEach(async () => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'acg-resources-'));
+  write('chats', '2026-01-02-generics.mdx', CHAT);
+  write('chats', '2026-01-01-broken.mdx', '---\ntitle: [\n---\n');
+  write('plans', 'jpf.mdx', PLAN);
+
+  const server = new McpServer({ name: 'test', version: '1.0.0' });
+  registerResources(server, tmpDir);
+  registerPrompts(server, tmpDir);
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  client = new Client({ name: 'test-client', version: '1.0.0' });
+  await client.connect(clientTransport);
+});
+
+afterEach(async () => {
+  await client.close();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+// ── URIs ─────────────────────────────────────────────────────────────────────
+
+describe('entry URIs', () => {
+  it('round-trips chat and plan URIs', () => {
+    expect(entryUri('plans', 'jpf.mdx')).toBe('plan://jpf.mdx');
+    expect(parseEntryUri('chat://a.mdx')).toEqual({ collection: 'chats', filename: 'a.mdx' });
+  });
+
+  it('rejects other schemes and unsafe filenames', () => {
+    expect(parseEntryUri('file:///etc/passwd')).toBeNull();
+    expect(parseEntryUri('chat://../secret.mdx')).toBeNull();
+    expect(parseEntryUri('chat://notes.txt')).toBeNull();
+  });
+});
+
+// ── resources ────────────────────────────────────────────────────────────────
+
+describe('resources', () => {
+  it('lists every chat and plan, titled from the frontmatter when it parses', async () => {
+    const { resources } = await client.listResources();
+    expect(resources.map((r) => r.uri)).toEqual([
+      'chat://2026-01-02-generics.mdx',
+      'chat://2026-01-01-broken.mdx',
+      'plan://jpf.mdx',
+    ]);
+    expect(resources[0]).toMatchObject({ title: 'Generics', description: 'Wildcards explained', mimeType: 'text/markdown' });
+    expect(resources[1].name).toBe('2026-01-01-broken.mdx');
+  });
+
+  it('reads an entry', async () => {
+    const { contents } = await client.readResource({ uri: 'plan://jpf.mdx' });
+    expect(contents).toEqual([{ uri: 'plan://jpf.mdx', mimeType: 'text/markdown', text: PLAN }]);
+  });
+
+  it('fails for missing entries', async () => {
+    await expect(client.readResource({ uri: 'chat://missing.mdx' })).rejects.toThrow('Not found');
+  });
+
+  it('completes filenames', async () => {
+    const { completion } = await client.complete({
+      ref: { type: 'ref/resource', uri: 'chat://{filename}' },
+      argument: { name: 'filename', value: '2026-01-02' },
+    });
+    expect(completion.values).toEqual(['2026-01-02-generics.mdx']);
+  });
+});
+
+// ── prompts ──────────────────────────────────────────────────────────────────
+
+describe('prompts', () => {
+  it('lists the prompts with a filename argument', async () => {
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map((p) => p.name)).toEqual(['summarize_chat', 'chat_to_plan', 'review_plan']);
+    expect(prompts[0].arguments).toEqual([expect.objectContaining({ name: 'filename', required: true })]);
+  });
+
+  it('embeds the entry after the instructions', async () => {
+    const { messages } = await client.getPrompt({ name: 'summarize_chat', arguments: { filename: '2026-01-02-generics.mdx' } });
+    expect(messages[0].content.text).toContain('update_frontmatter');
+    expect(messages[1].content).toEqual({
+      type: 'resource',
+      resource: { uri: 'chat://2026-01-02-generics.mdx', mimeType: 'text/markdown', text: CHAT },
+    });
+  });
+
+  it('completes filenames from the prompt\'s collection', async () => {
+    const { completion } = await client.complete({
+      ref: { type: 'ref/prompt', name: 'review_plan' },
+      argument: { name: 'filename', value: '' },
+    });
+    expect(completion.values).toEqual(['jpf.mdx']);
+  });
+
+  it('fails for missing entries', async () => {
+    await expect(client.getPrompt({ name: 'chat_to_plan', arguments: { filename: 'jpf.mdx' } })).rejects.toThrow('Not found');
+  });
+});
+
+// ── watchContent ─────────────────────────────────────────────────────────────
+
+describe('watchContent', () => {
+  it('reports a burst of file changes once', async () => {
+    let calls = 0;
+    const stop = watchContent(tmpDir, () => calls++);
+    write('chats', 'new.mdx', CHAT);
+    write('plans', 'other.mdx', PLAN);
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    stop();
+    expect(calls).toBe(1);
+  });
+});
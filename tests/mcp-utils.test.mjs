@@ -4,10 +4,12 @@ import os from 'node:os';
 import path from 'node:path';
 import {
   slugify,
+  formatDate,
   today,
   ensureDir,
   listMdxFiles,
   readFrontmatter,
+  contentHash,
   isSafeFilename,
 } from '../mcp/utils.mjs';
 
@@ -35,6 +37,14 @@ describe('slugify', () => {
   });
 });
 
+// ── formatDate ───────────────────────────────────────────────────────────────
+
+describe('formatDate', () => {
+  it('zero-pads month and day', () => {
+    expect(formatDate(new Date(2026, 0, 5))).toBe('2026-01-05');
+  });
+});
+
 // ── today ────────────────────────────────────────────────────────────────────
 
 describe('today', () => {
@@ -148,6 +158,16 @@ describe('readFrontmatter', () => {
   });
 });
 
+// ── contentHash ────────────────────────────────────────────────────────────
+
+describe('contentHash', () => {
+  it('is stable for the same content and changes with it', () => {
+    expect(contentHash('abc')).toBe(contentHash('abc'));
+    expect(contentHash('abc')).not.toBe(contentHash('abd'));
+    expect(contentHash('abc')).toMatch(/^[0-9a-f]{16}$/);
+  });
+});
+
 // ── isSafeFilename ───────────────────────────────────────────────────────────
 
 describe('isSafeFilename', () => {
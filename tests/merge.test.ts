@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { diffFields, mergeFields, formatFieldValue } from '../src/lib/merge';
+
+const base = { title: 'Plan', tags: ['java'], body: 'Intro' };
+
+// ── diffFields ───────────────────────────────────────────────────────────────
+
+describe('diffFields', () => {
+  it('skips fields that match on both sides', () => {
+    expect(diffFields(base, { ...base }, { ...base })).toEqual([]);
+  });
+
+  it('suggests the side that changed a field', () => {
+    const mine = { ...base, title: 'Mine' };
+    const theirs = { ...base, tags: ['java', 'gsoc'] };
+    expect(diffFields(base, mine, theirs)).toEqual([
+      { field: 'title', mine: 'Mine', theirs: 'Plan', both: false, suggested: 'mine' },
+      { field: 'tags', mine: ['java'], theirs: ['java', 'gsoc'], both: false, suggested: 'theirs' },
+    ]);
+  });
+
+  it('flags fields changed on both sides', () => {
+    const [diff] = diffFields(base, { ...base, body: 'A' }, { ...base, body: 'B' });
+    expect(diff.both).toBe(true);
+    expect(diff.suggested).toBe('mine');
+  });
+});
+
+// ── mergeFields ──────────────────────────────────────────────────────────────
+
+describe('mergeFields', () => {
+  it('takes chosen fields from theirs and the rest from mine', () => {
+    const mine = { ...base, title: 'Mine', body: 'Mine body' };
+    const theirs = { ...base, title: 'Theirs', body: 'Their body' };
+    expect(mergeFields(mine, theirs, { title: 'theirs', body: 'mine' })).toEqual({
+      ...base, title: 'Theirs', body: 'Mine body',
+    });
+  });
+});
+
+// ── formatFieldValue ─────────────────────────────────────────────────────────
+
+describe('formatFieldValue', () => {
+  it('renders lists one item per line', () => {
+    expect(formatFieldValue(['a', 'b'])).toBe('a\nb');
+    expect(formatFieldValue([{ title: 'P1', status: 'complete' }])).toBe('P1 · complete');
+  });
+
+  it('marks empty values', () => {
+    expect(formatFieldValue('')).toBe('(empty)');
+    expect(formatFieldValue([])).toBe('(none)');
+  });
+});
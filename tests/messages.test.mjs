@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseChatMessages,
+  serializeChatMessages,
+  demoteHeadings,
+  roleHeading,
+  strayContent,
+  editMessages,
+} from '../mcp/messages.mjs';
+
+// ── parseChatMessages ────────────────────────────────────────────────────────
+
+describe('parseChatMessages', () => {
+  it('splits a body into user and ai messages', () => {
+    const body = '## User\n\nHello?\n\n## AI\n\nHi there.';
+    expect(parseChatMessages(body)).toEqual([
+      { role: 'user', content: 'Hello?' },
+      { role: 'ai', content: 'Hi there.' },
+    ]);
+  });
+
+  it('ignores sections with other headings and empty messages', () => {
+    const body = '## Notes\n\nskip me\n\n## User\n\n\n## AI\n\nAnswer';
+    expect(parseChatMessages(body)).toEqual([{ role: 'ai', content: 'Answer' }]);
+  });
+
+  it('treats ## lines inside code fences as content', () => {
+    const body = '## AI\n\n```bash\n## not a heading\necho hi\n```';
+    const [msg] = parseChatMessages(body);
+    expect(msg.content).toContain('## not a heading');
+  });
+
+  it('is case-insensitive for role headings', () => {
+    expect(parseChatMessages('## user\n\nq')[0].role).toBe('user');
+  });
+});
+
+// ── demoteHeadings ───────────────────────────────────────────────────────────
+
+describe('demoteHeadings', () => {
+  it('turns level-2 headings into level-3', () => {
+    expect(demoteHeadings('## Setup\ntext')).toBe('### Setup\ntext');
+  });
+
+  it('leaves fenced code and deeper headings alone', () => {
+    const text = '### Deep\n```\n## comment\n```';
+    expect(demoteHeadings(text)).toBe(text);
+  });
+});
+
+// ── serializeChatMessages ────────────────────────────────────────────────────
+
+describe('serializeChatMessages', () => {
+  it('round-trips through parseChatMessages', () => {
+    const messages = [
+      { role: 'user', content: 'Question' },
+      { role: 'ai', content: 'Answer\n\n```js\nx()\n```' },
+    ];
+    expect(parseChatMessages(serializeChatMessages(messages))).toEqual(messages);
+  });
+
+  it('keeps content with ## headings inside one message', () => {
+    const body = serializeChatMessages([{ role: 'ai', content: '## Step 1\nDo it' }]);
+    expect(parseChatMessages(body)).toEqual([{ role: 'ai', content: '### Step 1\nDo it' }]);
+  });
+});
+
+describe('roleHeading', () => {
+  it('maps roles to headings', () => {
+    expect(roleHeading('user')).toBe('User');
+    expect(roleHeading('ai')).toBe('AI');
+  });
+});
+
+// ── strayContent ─────────────────────────────────────────────────────────────
+
+describe('strayContent', () => {
+  it('is empty when every line belongs to a message', () => {
+    expect(strayContent('\n## User\n\nQ\n\n## AI\n\n```md\n## fenced\n```\n')).toBe('');
+  });
+
+  it('returns text before the first message and under other headings', () => {
+    expect(strayContent('Intro\n\n## User\n\nQ\n\n## Notes\n\nkeep')).toBe('Intro\n\n## Notes\n\nkeep');
+  });
+});
+
+// ── editMessages ─────────────────────────────────────────────────────────────
+
+describe('editMessages', () => {
+  const messages = [
+    { role: 'user', content: 'Q1' },
+    { role: 'ai', content: 'A1' },
+    { role: 'user', content: 'Q2' },
+  ];
+  const contents = (list) => list.map((m) => m.content);
+
+  it('edits content and role without touching the input', () => {
+    const next = editMessages(messages, { type: 'edit', index: 1, content: ' A1 fixed ' });
+    expect(next[1]).toEqual({ role: 'ai', content: 'A1 fixed' });
+    expect(editMessages(messages, { type: 'edit', index: 2, role: 'ai' })[2]).toEqual({ role: 'ai', content: 'Q2' });
+    expect(messages[1].content).toBe('A1');
+  });
+
+  it('deletes and inserts, including appending at the end', () => {
+    expect(contents(editMessages(messages, { type: 'delete', index: 0 }))).toEqual(['A1', 'Q2']);
+    expect(contents(editMessages(messages, { type: 'insert', index: 1, role: 'ai', content: 'X' }))).toEqual(['Q1', 'X', 'A1', 'Q2']);
+    expect(contents(editMessages(messages, { type: 'insert', index: 3, role: 'ai', content: 'A2' }))).toEqual(['Q1', 'A1', 'Q2', 'A2']);
+  });
+
+  it('moves a message to its final index in either direction', () => {
+    expect(contents(editMessages(messages, { type: 'move', from: 0, to: 2 }))).toEqual(['A1', 'Q2', 'Q1']);
+    expect(contents(editMessages(messages, { type: 'move', from: 2, to: 0 }))).toEqual(['Q2', 'Q1', 'A1']);
+  });
+
+  it('rejects out-of-range indexes and empty content', () => {
+    expect(() => editMessages(messages, { type: 'delete', index: 3 })).toThrow(/out of range \(0–2\)/);
+    expect(() => editMessages(messages, { type: 'insert', index: 4, role: 'ai', content: 'X' })).toThrow(/out of range/);
+    expect(() => editMessages(messages, { type: 'move', from: 0, to: -1 })).toThrow(/out of range/);
+    expect(() => editMessages(messages, { type: 'edit', index: 0, content: '  ' })).toThrow(/empty/);
+    expect(() => editMessages([], { type: 'delete', index: 0 })).toThrow(/no messages/);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { milestoneChanges, planSnapshots, describeChange, countChecklist } from '../src/lib/progress';
+import { contentDir, recordRevision } from '../mcp/history.mjs';
+
+// ── milestoneChanges ─────────────────────────────────────────────────────────
+
+describe('milestoneChanges', () => {
+  it('reports status changes between snapshots', () => {
+    const changes = milestoneChanges([
+      { date: 'd1', milestones: [{ title: 'A', status: 'not-started' }, { title: 'B' }] },
+      { date: 'd2', milestones: [{ title: 'A', status: 'in-progress' }, { title: 'B' }] },
+      { date: 'd3', milestones: [{ title: 'A', status: 'complete' }, { title: 'B', status: 'in-progress' }] },
+    ]);
+    expect(changes).toEqual([
+      { milestone: 'A', from: 'not-started', to: 'in-progress', date: 'd2' },
+      { milestone: 'A', from: 'in-progress', to: 'complete', date: 'd3' },
+      { milestone: 'B', from: 'not-started', to: 'in-progress', date: 'd3' },
+    ]);
+  });
+
+  it('only reports new milestones that are already under way', () => {
+    const changes = milestoneChanges([
+      { date: 'd1', milestones: [{ title: 'A', status: 'complete' }, { title: 'B', status: 'not-started' }] },
+    ]);
+    expect(changes).toEqual([{ milestone: 'A', from: null, to: 'complete', date: 'd1' }]);
+  });
+});
+
+// ── describeChange ───────────────────────────────────────────────────────────
+
+describe('describeChange', () => {
+  it('reads naturally with and without a previous status', () => {
+    expect(describeChange({ milestone: 'A', from: 'in-progress', to: 'complete', date: '' }))
+      .toBe('A moved from in progress to complete');
+    expect(describeChange({ milestone: 'A', from: null, to: 'in-progress', date: '' })).toBe('A is in progress');
+  });
+});
+
+// ── countChecklist ───────────────────────────────────────────────────────────
+
+describe('countChecklist', () => {
+  it('counts task list items outside code fences', () => {
+    const body = '- [x] Read\n- [ ] Write\n  * [X] nested\n- [] not a task\n\n```md\n- [ ] example\n```\n';
+    expect(countChecklist(body)).toEqual({ done: 2, total: 3 });
+  });
+});
+
+// ── planSnapshots ────────────────────────────────────────────────────────────
+
+describe('planSnapshots', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'acg-progress-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const plan = (status: string) => `---\ntitle: "P"\ndate: 2026-01-01\nmilestones:\n  - title: "A"\n    weeks: "1"\n    status: "${status}"\n---\n\nBody\n`;
+  const save = (content: string) => {
+    fs.mkdirSync(contentDir(tmpDir, 'plans'), { recursive: true });
+    fs.writeFileSync(path.join(contentDir(tmpDir, 'plans'), 'p.mdx'), content);
+  };
+
+  it('uses the plan date when there is no history', () => {
+    save(plan('complete'));
+    expect(planSnapshots(tmpDir, 'p.mdx', '2026-01-01T00:00:00.000Z')).toEqual([
+      { date: '2026-01-01T00:00:00.000Z', milestones: [{ title: 'A', weeks: '1', status: 'complete' }], checklist: { done: 0, total: 0 } },
+    ]);
+  });
+
+  it('dates changes by revision and baselines by the plan date', () => {
+    recordRevision(tmpDir, 'plans', 'p.mdx', plan('not-started'), { action: 'baseline', source: 'test', now: new Date('2026-02-01T00:00:00Z') });
+    recordRevision(tmpDir, 'plans', 'p.mdx', plan('in-progress'), { action: 'update', source: 'test', now: new Date('2026-02-05T00:00:00Z') });
+    save(plan('in-progress'));
+
+    const changes = milestoneChanges(planSnapshots(tmpDir, 'p.mdx', '2026-01-01T00:00:00.000Z'));
+    expect(changes).toEqual([{ milestone: 'A', from: 'not-started', to: 'in-progress', date: '2026-02-05T00:00:00.000Z' }]);
+  });
+
+  it('skips revisions that do not parse', () => {
+    recordRevision(tmpDir, 'plans', 'p.mdx', '---\nmilestones: [\n---\n', { action: 'create', source: 'test' });
+    expect(planSnapshots(tmpDir, 'p.mdx', '2026-01-01T00:00:00.000Z')).toEqual([]);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { contentDir } from '../mcp/history.mjs';
+
+// The route resolves the content directory from process.cwd()
+let tmpDir: string;
+let POST: typeof import('../src/pages/api/promote-chat').POST;
+
+const chat = (frontmatter: string) => `---\ntitle: "Rust"\n${frontmatter}---\n\n## User\n\nHow?\n\n## AI\n\n- Install rustup\n`;
+const write = (filename: string, content: string) =>
+  fs.writeFileSync(path.join(contentDir(tmpDir, 'chats'), filename), content);
+
+const promote = async (filename: string) => {
+  const request = new Request('http://localhost/api/promote-chat', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ filename }),
+  });
+  const res = await POST({ request } as Parameters<typeof POST>[0]);
+  return { status: res.status, data: await res.json() };
+};
+
+beforeAll(async () => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'acg-promote-chat-'));
+  vi.spyOn(process, 'cwd').mockReturnValue(tmpDir);
+  ({ POST } = await import('../src/pages/api/promote-chat'));
+});
+
+afterAll(() => {
+  vi.restoreAllMocks();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+  fs.mkdirSync(contentDir(tmpDir, 'chats'), { recursive: true });
+  fs.mkdirSync(contentDir(tmpDir, 'plans'), { recursive: true });
+});
+
+describe('POST /api/promote-chat', () => {
+  it('creates the plan, then refuses a second promotion with 409', async () => {
+    write('c.mdx', chat('date: 2026-01-01\n'));
+    expect(await promote('c.mdx')).toEqual({ status: 201, data: { ok: true, filename: 'rust.mdx', url: '/plans/rust' } });
+
+    const again = await promote('c.mdx');
+    expect(again.status).toBe(409);
+    expect(again.data.error).toBe('c.mdx was already promoted to plans/rust.mdx');
+  });
+
+  it('answers 400 with the field errors when the chat fails its schema', async () => {
+    write('c.mdx', chat(''));
+    const { status, data } = await promote('c.mdx');
+    expect(status).toBe(400);
+    expect(data.fields).toEqual([expect.objectContaining({ path: 'date' })]);
+    expect(fs.readdirSync(contentDir(tmpDir, 'plans'))).toEqual([]);
+  });
+
+  it('rejects bad filenames and missing chats', async () => {
+    expect((await promote('../c.mdx')).status).toBe(400);
+    expect((await promote('c..mdx')).status).toBe(400);
+    expect((await promote('gone.mdx')).status).toBe(404);
+  });
+});
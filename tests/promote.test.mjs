@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { chatToPlan, promoteChat, stepTitle } from '../mcp/promote.mjs';
+import { contentDir, listRevisions } from '../mcp/history.mjs';
+import { parseFrontmatter } from '../mcp/frontmatter.mjs';
+
+let tmpDir;
+
+const BODY = [
+  '## User',
+  '',
+  'How do I get started with Rust?',
+  '',
+  '## AI',
+  '',
+  'Start small:',
+  '',
+  '- Install rustup',
+  '- Read **the book**',
+  '',
+  '1. **Basics**: syntax and cargo',
+  '2. Ownership — the hard part',
+  '',
+  '```sh',
+  '# not a heading',
+  '- not a bullet',
+  '```',
+  '',
+  '## User',
+  '',
+  'And after that?',
+  '',
+  '## AI',
+  '',
+  '### Projects',
+  '',
+  'Build a CLI.',
+  '',
+  '#### Ideas',
+  '',
+  '1. **basics**: again',
+].join('\n');
+
+const CHAT = {
+  title: 'Learning Rust',
+  tags: ['rust'],
+  tldr: 'Where to start with Rust.',
+  action_items: [{ task: 'Install rustup', done: true }, { task: 'Read chapter 4', done: false }, { task: '' }],
+};
+
+const chatFile = (extra = '') => [
+  '---',
+  'title: "Learning Rust"',
+  'date: 2026-03-01',
+  'tags: [rust]',
+  'tldr: "Where to start with Rust."',
+  'action_items:',
+  '  - task: "Read chapter 4"',
+  '    done: false',
+  ...(extra ? [extra] : []),
+  '---',
+  '',
+  BODY,
+  '',
+].join('\n');
+
+const read = (collection, filename) =>
+  parseFrontmatter(fs.readFileSync(path.join(contentDir(tmpDir, collection), filename), 'utf-8'));
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'acg-promote-'));
+  fs.mkdirSync(contentDir(tmpDir, 'chats'), { recursive: true });
+  fs.mkdirSync(contentDir(tmpDir, 'plans'), { recursive: true });
+  fs.writeFileSync(path.join(contentDir(tmpDir, 'chats'), 'rust.mdx'), chatFile());
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+// ── chatToPlan ───────────────────────────────────────────────────────────────
+
+describe('chatToPlan', () => {
+  it('turns answers into sections, bullets into a checklist and steps into milestones', () => {
+    const plan = chatToPlan(CHAT, BODY);
+    expect(plan).toMatchObject({ title: 'Learning Rust', tags: ['rust'], tldr: 'Where to start with Rust.' });
+    expect(plan.sections).toEqual(['How do I get started with Rust?', 'Projects', 'Action Items']);
+    expect(plan.milestones).toEqual([
+      { title: 'Basics', weeks: '', status: 'not-started' },
+      { title: 'Ownership', weeks: '', status: 'not-started' },
+    ]);
+    expect(plan.checklist).toBe(4);
+    expect(plan.body).toContain('- [ ] Read **the book**');
+    expect(plan.body).toContain('```sh\n# not a heading\n- not a bullet\n```');
+    expect(plan.body).toContain('## Projects\n\nBuild a CLI.\n\n### Ideas');
+    expect(plan.body.endsWith('## Action Items\n\n- [x] Install rustup\n- [ ] Read chapter 4')).toBe(true);
+    expect(plan.body.startsWith('Where to start with Rust.\n\n## How do I get started')).toBe(true);
+  });
+
+  it('names milestones after a step\'s bold lead-in or first clause', () => {
+    expect(stepTitle('**Set up**: install the toolchain')).toBe('Set up');
+    expect(stepTitle('Read the docs. Then practise')).toBe('Read the docs');
+    expect(stepTitle('[Tour](https://example.com) - the official one')).toBe('Tour');
+  });
+
+  it('throws when there is nothing to carry over', () => {
+    expect(() => chatToPlan({ title: 'Empty' }, '## User\n\nHello?')).toThrow('no AI answers or action items');
+  });
+});
+
+// ── promoteChat ──────────────────────────────────────────────────────────────
+
+describe('promoteChat', () => {
+  it('writes the plan and links both files to each other', () => {
+    const result = promoteChat(tmpDir, 'rust.mdx', { difficulty: 'beginner', date: '2026-10-19', source: 'test' });
+    expect(result).toMatchObject({
+      plan: { filename: 'learning-rust.mdx', slug: 'learning-rust', url: '/plans/learning-rust' },
+      chat: { filename: 'rust.mdx', slug: 'rust' },
+      title: 'Learning Rust',
+      milestones: 2,
+      checklist: 3,
+    });
+
+    const plan = read('plans', 'learning-rust.mdx');
+    expect(plan.data).toMatchObject({ title: 'Learning Rust', date: '2026-10-19', difficulty: 'beginner', chat: 'rust', tags: ['rust'] });
+    expect(read('chats', 'rust.mdx').data.plan).toBe('learning-rust');
+    expect(listRevisions(tmpDir, 'chats', 'rust.mdx')[0].source).toBe('test');
+  });
+
+  it('refuses to promote a chat twice or overwrite a plan', () => {
+    promoteChat(tmpDir, 'rust.mdx', { source: 'test' });
+    expect(() => promoteChat(tmpDir, 'rust.mdx', { title: 'Again', source: 'test' }))
+      .toThrow(expect.objectContaining({ name: 'ConflictError', message: 'rust.mdx was already promoted to plans/learning-rust.mdx' }));
+
+    fs.writeFileSync(path.join(contentDir(tmpDir, 'chats'), 'other.mdx'), chatFile());
+    expect(() => promoteChat(tmpDir, 'other.mdx', { source: 'test' })).toThrow('Plan already exists: learning-rust.mdx');
+    expect(promoteChat(tmpDir, 'other.mdx', { title: 'Rust, take two', source: 'test' }).plan.slug).toBe('rust-take-two');
+  });
+
+  it('promotes again when the linked plan was deleted', () => {
+    fs.writeFileSync(path.join(contentDir(tmpDir, 'chats'), 'rust.mdx'), chatFile('plan: "gone"'));
+    expect(promoteChat(tmpDir, 'rust.mdx', { source: 'test' }).plan.slug).toBe('learning-rust');
+    expect(read('chats', 'rust.mdx').data.plan).toBe('learning-rust');
+  });
+
+  it('writes nothing when the chat would not match its schema', () => {
+    fs.writeFileSync(path.join(contentDir(tmpDir, 'chats'), 'rust.mdx'), chatFile().replace('date: 2026-03-01\n', ''));
+    expect(() => promoteChat(tmpDir, 'rust.mdx', { source: 'test' }))
+      .toThrow(expect.objectContaining({ name: 'ValidationError', fields: [expect.objectContaining({ path: 'date' })] }));
+    expect(fs.readdirSync(contentDir(tmpDir, 'plans'))).toEqual([]);
+    expect(read('chats', 'rust.mdx').data.plan).toBeUndefined();
+  });
+
+  it('rejects missing chats', () => {
+    expect(() => promoteChat(tmpDir, 'nope.mdx', { source: 'test' })).toThrow('Chat not found: nope.mdx');
+    expect(() => promoteChat(tmpDir, '../x.mdx', { source: 'test' })).toThrow('Invalid filename');
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { entryRef, entryRefShape, toolError, toolResult } from '../mcp/results.mjs';
+
+// ── entryRef ─────────────────────────────────────────────────────────────────
+
+describe('entryRef', () => {
+  it('derives the slug and site URL from the filename', () => {
+    expect(entryRef('plans', 'jpf-plan.mdx')).toEqual({
+      collection: 'plans',
+      filename: 'jpf-plan.mdx',
+      slug: 'jpf-plan',
+      url: '/plans/jpf-plan',
+    });
+  });
+
+  it('matches the shared output schema fields', () => {
+    expect(z.object(entryRefShape).safeParse(entryRef('chats', '2026-01-01-a.mdx')).success).toBe(true);
+  });
+});
+
+// ── toolResult / toolError ───────────────────────────────────────────────────
+
+describe('toolResult', () => {
+  it('returns the text and the structured content together', () => {
+    expect(toolResult('✅ Done', { count: 2 })).toEqual({
+      content: [{ type: 'text', text: '✅ Done' }],
+      structuredContent: { count: 2 },
+    });
+  });
+});
+
+describe('toolError', () => {
+  it('flags the result as an error', () => {
+    expect(toolError('Not found: chats/a.mdx')).toEqual({
+      content: [{ type: 'text', text: '❌ Not found: chats/a.mdx' }],
+      isError: true,
+    });
+  });
+});
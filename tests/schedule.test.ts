@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  toISODate,
+  parseWeeks,
+  weeksLabel,
+  milestoneSchedule,
+  isOverdue,
+  milestoneState,
+  shiftRange,
+  scheduleMilestone,
+  roadmapLayout,
+} from '../src/lib/schedule';
+
+const PLAN_DATE = '2026-01-05'; // a Monday
+
+// ── parsing ──────────────────────────────────────────────────────────────────
+
+describe('toISODate', () => {
+  it('accepts dates, date strings and timestamps', () => {
+    expect(toISODate(new Date('2026-03-01'))).toBe('2026-03-01');
+    expect(toISODate('2026-03-01')).toBe('2026-03-01');
+    expect(toISODate('2026-03-01T12:00:00.000Z')).toBe('2026-03-01');
+    expect(toISODate('March 1')).toBeNull();
+    expect(toISODate(undefined)).toBeNull();
+  });
+});
+
+describe('parseWeeks', () => {
+  it('reads single weeks and ranges', () => {
+    expect(parseWeeks('Weeks 1-4')).toEqual({ from: 1, to: 4 });
+    expect(parseWeeks('weeks 5–8')).toEqual({ from: 5, to: 8 });
+    expect(parseWeeks('Week 3')).toEqual({ from: 3, to: 3 });
+    expect(parseWeeks('W2-W3')).toEqual({ from: 2, to: 3 });
+  });
+
+  it('gives up on anything else', () => {
+    expect(parseWeeks('Summer')).toBeNull();
+    expect(parseWeeks('Week ?')).toBeNull();
+    expect(parseWeeks('Weeks 4-1')).toBeNull();
+    expect(parseWeeks(undefined)).toBeNull();
+  });
+});
+
+// ── schedules ────────────────────────────────────────────────────────────────
+
+describe('milestoneSchedule', () => {
+  it('reads weeks relative to the plan date', () => {
+    expect(milestoneSchedule({ weeks: 'Weeks 1-4' }, PLAN_DATE)).toEqual({ start: '2026-01-05', end: '2026-02-01', source: 'weeks' });
+    expect(milestoneSchedule({ weeks: 'Week 2' }, new Date(PLAN_DATE))).toEqual({ start: '2026-01-12', end: '2026-01-18', source: 'weeks' });
+  });
+
+  it('prefers explicit dates, and treats one alone as a single day', () => {
+    expect(milestoneSchedule({ weeks: 'Weeks 1-4', start: '2026-02-01', end: new Date('2026-02-10') }, PLAN_DATE))
+      .toEqual({ start: '2026-02-01', end: '2026-02-10', source: 'dates' });
+    expect(milestoneSchedule({ weeks: '', end: '2026-02-10' }, PLAN_DATE)).toMatchObject({ start: '2026-02-10', end: '2026-02-10' });
+  });
+
+  it('is null without dates or a readable week range', () => {
+    expect(milestoneSchedule({ weeks: 'Summer' }, PLAN_DATE)).toBeNull();
+    expect(milestoneSchedule({ weeks: 'Week 1' }, undefined)).toBeNull();
+  });
+});
+
+describe('overdue', () => {
+  const schedule = { start: '2026-01-05', end: '2026-01-11' };
+
+  it('is past the end date and not complete', () => {
+    expect(isOverdue({ status: 'in-progress' }, schedule, '2026-01-12')).toBe(true);
+    expect(isOverdue({}, schedule, '2026-01-11')).toBe(false);
+    expect(isOverdue({ status: 'complete' }, schedule, '2026-02-01')).toBe(false);
+    expect(isOverdue({}, null, '2026-02-01')).toBe(false);
+  });
+
+  it('replaces the status it is shown with', () => {
+    expect(milestoneState({ status: 'in-progress' }, schedule, '2026-01-12')).toBe('overdue');
+    expect(milestoneState({}, schedule, '2026-01-06')).toBe('not-started');
+  });
+});
+
+// ── rescheduling ─────────────────────────────────────────────────────────────
+
+describe('rescheduling', () => {
+  const range = { start: '2026-01-05', end: '2026-01-11' };
+
+  it('moves a range or one of its ends without crossing', () => {
+    expect(shiftRange(range, 'move', 3)).toEqual({ start: '2026-01-08', end: '2026-01-14' });
+    expect(shiftRange(range, 'end', 7)).toEqual({ start: '2026-01-05', end: '2026-01-18' });
+    expect(shiftRange(range, 'start', 10)).toEqual({ start: '2026-01-11', end: '2026-01-11' });
+    expect(shiftRange(range, 'end', -10)).toEqual({ start: '2026-01-05', end: '2026-01-05' });
+  });
+
+  it('keeps a week range label in step with the dates', () => {
+    const moved = scheduleMilestone({ title: 'A', weeks: 'Weeks 1-2' }, { start: '2026-01-12', end: '2026-01-25' }, PLAN_DATE);
+    expect(moved).toEqual({ title: 'A', weeks: 'Weeks 2-3', start: '2026-01-12', end: '2026-01-25' });
+    expect(scheduleMilestone({ title: 'B', weeks: 'Summer' }, range, PLAN_DATE).weeks).toBe('Summer');
+    expect(weeksLabel({ start: '2025-12-01', end: '2025-12-07' }, PLAN_DATE)).toBeNull();
+    expect(() => scheduleMilestone({ title: 'C', weeks: '' }, { start: '2026-01-11', end: '2026-01-05' }, PLAN_DATE)).toThrow('is before start date');
+  });
+});
+
+// ── roadmapLayout ────────────────────────────────────────────────────────────
+
+describe('roadmapLayout', () => {
+  const milestones = [
+    { title: 'Setup', weeks: 'Week 1', status: 'complete' as const },
+    { title: 'Build', weeks: '', status: 'in-progress' as const, start: '2026-01-14', end: '2026-01-20' },
+    { title: 'Someday', weeks: 'TBD', status: 'not-started' as const },
+  ];
+
+  it('spans whole weeks from the Monday before the first milestone', () => {
+    const roadmap = roadmapLayout(milestones, '2026-01-07', '2026-01-26');
+    expect(roadmap).toMatchObject({ start: '2026-01-05', days: 21, today: null });
+    expect(roadmap?.rows.map((r) => r.state)).toEqual(['complete', 'overdue', 'not-started']);
+    expect(roadmap?.rows[2].schedule).toBeNull();
+  });
+
+  it('marks today, and shows plain statuses until today is known', () => {
+    expect(roadmapLayout(milestones, PLAN_DATE, '2026-01-06')?.today).toBe(1);
+    expect(roadmapLayout(milestones, PLAN_DATE, null)?.rows[1].state).toBe('in-progress');
+    expect(roadmapLayout([milestones[2]], PLAN_DATE, '2026-01-06')).toBeNull();
+  });
+});
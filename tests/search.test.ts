@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import {
+  tokenize,
+  stripMarkdown,
+  buildSearchIndex,
+  makeSnippet,
+  searchIndex,
+  chatSearchSections,
+  planSearchSections,
+  type SearchDocument,
+} from '../src/lib/search';
+
+const docs: SearchDocument[] = [
+  {
+    type: 'chat',
+    title: 'JPF listeners deep dive',
+    href: '/chats/2026-02-25-jpf-listeners',
+    date: '2026-02-25T00:00:00.000Z',
+    tags: ['java', 'gsoc'],
+    tldr: 'How listeners hook into the search',
+    sections: [
+      { anchor: 'message-0', label: 'User · message 1', text: 'How do listeners work?' },
+      { anchor: 'message-1', label: 'AI · message 2', text: 'Extend ListenerAdapter and register it in the config.' },
+    ],
+  },
+  {
+    type: 'plan',
+    title: 'React performance plan',
+    href: '/plans/react-performance',
+    date: '2026-01-10T00:00:00.000Z',
+    tags: ['react'],
+    tldr: '',
+    sections: [
+      { anchor: 'section-0', label: 'Memoization', text: 'Use memo and useCallback to avoid re-renders of Java-free code.' },
+    ],
+  },
+];
+
+// ── tokenize ─────────────────────────────────────────────────────────────────
+
+describe('tokenize', () => {
+  it('lowercases and splits on non-alphanumeric characters', () => {
+    expect(tokenize('React-Hooks & useState!')).toEqual(['react', 'hooks', 'usestate']);
+  });
+
+  it('drops stop words and single characters', () => {
+    expect(tokenize('the state of a b c')).toEqual(['state']);
+  });
+
+  it('keeps non-latin letters', () => {
+    expect(tokenize('café naïve')).toEqual(['café', 'naïve']);
+  });
+});
+
+// ── stripMarkdown ────────────────────────────────────────────────────────────
+
+describe('stripMarkdown', () => {
+  it('removes emphasis, code fences and link targets', () => {
+    expect(stripMarkdown('**Bold** and [a link](https://x.dev)\n```js\ncode()\n```'))
+      .toBe('Bold and a link code()');
+  });
+
+  it('removes HTML comments and checklist markers', () => {
+    expect(stripMarkdown('<!-- placeholder -->\n- [x] done item')).toBe('done item');
+  });
+});
+
+// ── makeSnippet ──────────────────────────────────────────────────────────────
+
+describe('makeSnippet', () => {
+  it('highlights matches at word starts', () => {
+    const parts = makeSnippet('Register listeners in the blacklist config', ['list']);
+    expect(parts.filter((p) => p.match).map((p) => p.text)).toEqual(['listeners']);
+  });
+
+  it('adds ellipses when the window is cut', () => {
+    const text = `${'lorem '.repeat(40)}target ${'ipsum '.repeat(40)}`;
+    const parts = makeSnippet(text, ['target'], 30);
+    expect(parts[0]).toEqual({ text: '…', match: false });
+    expect(parts[parts.length - 1]).toEqual({ text: '…', match: false });
+    expect(parts.some((p) => p.match && p.text === 'target')).toBe(true);
+  });
+
+  it('returns an empty array for empty text', () => {
+    expect(makeSnippet('', ['x'])).toEqual([]);
+  });
+});
+
+// ── searchIndex ──────────────────────────────────────────────────────────────
+
+describe('searchIndex', () => {
+  const index = buildSearchIndex(docs);
+
+  it('returns no results for an empty query', () => {
+    expect(searchIndex(index, '   ')).toEqual([]);
+  });
+
+  it('ranks title and tag matches above body matches', () => {
+    const results = searchIndex(index, 'java');
+    expect(results.map((r) => r.document.href)).toEqual([
+      '/chats/2026-02-25-jpf-listeners',
+      '/plans/react-performance',
+    ]);
+  });
+
+  it('requires every query term to match', () => {
+    const results = searchIndex(index, 'listeners react');
+    expect(results).toEqual([]);
+  });
+
+  it('matches prefixes of indexed words', () => {
+    const results = searchIndex(index, 'memo');
+    expect(results).toHaveLength(1);
+    expect(results[0].document.type).toBe('plan');
+  });
+
+  it('returns jump anchors for the best-matching sections', () => {
+    const [result] = searchIndex(index, 'ListenerAdapter');
+    expect(result.hits[0].anchor).toBe('message-1');
+    expect(result.hits[0].snippet.some((p) => p.match)).toBe(true);
+  });
+
+  it('respects the limit', () => {
+    expect(searchIndex(index, 'java', 1)).toHaveLength(1);
+  });
+
+  it('caps the sections returned per document', () => {
+    const [result] = searchIndex(index, 'listeners', 20, 1);
+    expect(result.hits).toHaveLength(1);
+  });
+});
+
+// ── section builders ─────────────────────────────────────────────────────────
+
+describe('chatSearchSections', () => {
+  it('makes one anchored section per message', () => {
+    expect(chatSearchSections('## User\n\nWhat is **JPF**?\n\n## AI\n\nA model checker.')).toEqual([
+      { anchor: 'message-0', label: 'User · message 1', text: 'What is JPF ?' },
+      { anchor: 'message-1', label: 'AI · message 2', text: 'A model checker.' },
+    ]);
+  });
+});
+
+describe('planSearchSections', () => {
+  it('covers the intro, milestones and headed sections', () => {
+    const sections = planSearchSections('Intro text\n\n## Resources\n\nThe JPF wiki', [{ title: 'Basics', weeks: 'Weeks 1-2' }]);
+    expect(sections).toEqual([
+      { anchor: '', label: 'Introduction', text: 'Intro text' },
+      { anchor: '', label: 'Milestone', text: 'Basics Weeks 1-2' },
+      { anchor: 'section-0', label: 'Resources', text: 'The JPF wiki' },
+    ]);
+  });
+});
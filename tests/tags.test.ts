@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  tagSlug,
+  tagHref,
+  parseTagParam,
+  countTags,
+  filterByTags,
+  tagCombinations,
+} from '../src/lib/tags';
+
+const entries = [
+  { title: 'A', tags: ['java', 'gsoc'] },
+  { title: 'B', tags: ['java', 'C++'] },
+  { title: 'C', tags: ['react'] },
+];
+
+// ── tagSlug ──────────────────────────────────────────────────────────────────
+
+describe('tagSlug', () => {
+  it('lowercases and hyphenates', () => {
+    expect(tagSlug('Machine Learning')).toBe('machine-learning');
+  });
+
+  it('keeps c++ and c# distinct from c', () => {
+    expect(tagSlug('C++')).toBe('cplusplus');
+    expect(tagSlug('c#')).toBe('csharp');
+  });
+});
+
+// ── tagHref / parseTagParam ──────────────────────────────────────────────────
+
+describe('tagHref', () => {
+  it('builds a single-tag URL', () => {
+    expect(tagHref(['java'])).toBe('/tags/java');
+  });
+
+  it('sorts and de-duplicates intersections', () => {
+    expect(tagHref(['java', 'gsoc', 'Java'])).toBe('/tags/gsoc+java');
+  });
+
+  it('falls back to the tag index for no tags', () => {
+    expect(tagHref([])).toBe('/tags');
+  });
+});
+
+describe('parseTagParam', () => {
+  it('splits on + and drops empty parts', () => {
+    expect(parseTagParam('gsoc+java+')).toEqual(['gsoc', 'java']);
+  });
+});
+
+// ── countTags ────────────────────────────────────────────────────────────────
+
+describe('countTags', () => {
+  it('counts usage, most used first then alphabetical', () => {
+    expect(countTags(entries).map((t) => [t.tag, t.count])).toEqual([
+      ['java', 2],
+      ['C++', 1],
+      ['gsoc', 1],
+      ['react', 1],
+    ]);
+  });
+
+  it('counts a tag repeated on one entry once', () => {
+    expect(countTags([{ tags: ['a', 'a'] }])[0].count).toBe(1);
+  });
+});
+
+// ── filterByTags ─────────────────────────────────────────────────────────────
+
+describe('filterByTags', () => {
+  it('keeps entries carrying every tag', () => {
+    expect(filterByTags(entries, ['gsoc', 'java']).map((e) => e.title)).toEqual(['A']);
+    expect(filterByTags(entries, ['java']).map((e) => e.title)).toEqual(['A', 'B']);
+  });
+
+  it('matches by slug', () => {
+    expect(filterByTags(entries, ['cplusplus']).map((e) => e.title)).toEqual(['B']);
+  });
+});
+
+// ── tagCombinations ──────────────────────────────────────────────────────────
+
+describe('tagCombinations', () => {
+  it('lists only combinations that co-occur on an entry', () => {
+    const combos = tagCombinations(entries).map((c) => c.join('+')).sort();
+    expect(combos).toEqual(['cplusplus', 'cplusplus+java', 'gsoc', 'gsoc+java', 'java', 'react']);
+  });
+
+  it('caps the combination size', () => {
+    const combos = tagCombinations([{ tags: ['a', 'b', 'c'] }], 2);
+    expect(combos.every((c) => c.length <= 2)).toBe(true);
+    expect(combos).toHaveLength(6);
+  });
+});
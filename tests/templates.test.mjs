@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  parseTemplate,
+  listTemplates,
+  loadTemplate,
+  fillTemplate,
+  formatTemplateList,
+  templatesDir,
+} from '../mcp/templates.mjs';
+import { renderEntry, validateEntry } from '../mcp/frontmatter.mjs';
+
+const ROOT = path.resolve(import.meta.dirname, '..');
+
+const TEMPLATE = `---
+name: "Deep dive"
+description: "Learn a language"
+variables:
+  language:
+    description: "The language"
+  weeks:
+    default: "8"
+title: "{{language}} Deep Dive"
+tags: ["{{ language }}", "languages"]
+duration: "{{weeks}} weeks"
+difficulty: advanced
+milestones:
+  - title: "Basics of {{language}}"
+    weeks: "Weeks 1-2"
+---
+## Overview
+
+Started {{date}}.
+
+## Project
+
+- [ ] Build something in {{language}}
+`;
+
+let tmpDir;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'acg-templates-'));
+  fs.mkdirSync(templatesDir(tmpDir));
+  fs.writeFileSync(path.join(templatesDir(tmpDir), 'deep-dive.md'), TEMPLATE);
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+// ── parsing ──────────────────────────────────────────────────────────────────
+
+describe('parseTemplate', () => {
+  it('reads the defaults, variables and section headings', () => {
+    const template = parseTemplate('deep-dive', TEMPLATE);
+    expect(template).toMatchObject({
+      id: 'deep-dive',
+      name: 'Deep dive',
+      difficulty: 'advanced',
+      variables: [{ name: 'language', description: 'The language' }, { name: 'weeks', description: '', default: '8' }],
+      sections: ['Overview', 'Project'],
+    });
+  });
+
+  it('rejects invalid frontmatter and undeclared placeholders', () => {
+    expect(() => parseTemplate('x', '---\nname: "X"\n---\nBody')).toThrow('Invalid template templates/x.md:\n  • title: Required');
+    expect(() => parseTemplate('x', '---\nname: "X"\ntitle: "{{topic}} plan"\n---\n{{level}}')).toThrow('{{topic}}, {{level}} are not declared');
+  });
+});
+
+describe('listTemplates / loadTemplate', () => {
+  it('finds templates by id', () => {
+    expect(listTemplates(tmpDir).map((t) => t.id)).toEqual(['deep-dive']);
+    expect(loadTemplate(tmpDir, 'deep-dive').name).toBe('Deep dive');
+    expect(() => loadTemplate(tmpDir, 'nope')).toThrow('No template "nope" (use deep-dive)');
+    expect(() => loadTemplate(tmpDir, '../deep-dive')).toThrow('No template');
+    expect(listTemplates(path.join(tmpDir, 'missing'))).toEqual([]);
+  });
+
+  it('lists each template with its variables', () => {
+    const text = formatTemplateList(listTemplates(tmpDir));
+    expect(text).toContain('deep-dive — Deep dive (advanced)');
+    expect(text).toContain('{{weeks}} [default: 8]');
+    expect(text).toContain('1 milestone · Overview · Project');
+  });
+});
+
+// ── filling ──────────────────────────────────────────────────────────────────
+
+describe('fillTemplate', () => {
+  const template = () => loadTemplate(tmpDir, 'deep-dive');
+
+  it('fills placeholders everywhere, with defaults and the date', () => {
+    const plan = fillTemplate(template(), { date: '2026-03-01', variables: { language: 'Rust' } });
+    expect(plan).toMatchObject({
+      title: 'Rust Deep Dive',
+      tags: ['Rust', 'languages'],
+      duration: '8 weeks',
+      difficulty: 'advanced',
+      milestones: [{ title: 'Basics of Rust', weeks: 'Weeks 1-2' }],
+    });
+    expect(plan.body).toContain('Started 2026-03-01.');
+    expect(plan.body).toContain('- [ ] Build something in Rust');
+  });
+
+  it('requires variables without defaults and refuses unknown ones', () => {
+    expect(() => fillTemplate(template(), { date: '2026-03-01' })).toThrow('needs language (The language)');
+    expect(() => fillTemplate(template(), { date: '2026-03-01', variables: { language: ' ' } })).toThrow('needs language');
+    expect(() => fillTemplate(template(), { date: '2026-03-01', variables: { language: 'Go', level: 'x' } }))
+      .toThrow('has no variable level (it takes language, weeks)');
+  });
+});
+
+describe('shipped templates', () => {
+  it('all load and make valid plans', () => {
+    const templates = listTemplates(ROOT);
+    expect(templates.length).toBeGreaterThan(0);
+    for (const template of templates) {
+      const variables = Object.fromEntries(template.variables.map((v) => [v.name, `Sample ${v.name}`]));
+      const { body, ...data } = fillTemplate(template, { date: '2026-03-01', variables });
+      expect(validateEntry('plans', renderEntry({ ...data, date: '2026-03-01' }, body))).toMatchObject({ success: true });
+    }
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { contentDir, writeEntry, listRevisions, restoreRevision } from '../mcp/history.mjs';
+import {
+  trashRetentionDays,
+  requiresConfirmation,
+  trashEntry,
+  listTrash,
+  restoreEntry,
+  emptyTrash,
+  purgeExpired,
+  previewEmptyTrash,
+  confirmationToken,
+  formatTrashList,
+  DEFAULT_RETENTION_DAYS,
+} from '../mcp/trash.mjs';
+
+let tmpDir;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'acg-trash-'));
+  writeEntry(tmpDir, 'chats', 'a.mdx', 'chat a', { source: 'test' });
+  writeEntry(tmpDir, 'plans', 'p.mdx', 'plan p', { source: 'test' });
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+const exists = (collection, filename) => fs.existsSync(path.join(contentDir(tmpDir, collection), filename));
+const daysAgo = (n) => new Date(Date.now() - n * 24 * 60 * 60 * 1000);
+
+// ── config ───────────────────────────────────────────────────────────────────
+
+describe('trashRetentionDays / requiresConfirmation', () => {
+  it('reads the retention period from the environment', () => {
+    expect(trashRetentionDays({})).toBe(DEFAULT_RETENTION_DAYS);
+    expect(trashRetentionDays({ TRASH_RETENTION_DAYS: '7' })).toBe(7);
+    expect(trashRetentionDays({ TRASH_RETENTION_DAYS: '0' })).toBe(0);
+    expect(trashRetentionDays({ TRASH_RETENTION_DAYS: 'soon' })).toBe(DEFAULT_RETENTION_DAYS);
+  });
+
+  it('requires confirmation unless turned off', () => {
+    expect(requiresConfirmation({})).toBe(true);
+    expect(requiresConfirmation({ TRASH_REQUIRE_CONFIRM: 'false' })).toBe(false);
+  });
+});
+
+// ── trashEntry / restoreEntry ────────────────────────────────────────────────
+
+describe('trashEntry / restoreEntry', () => {
+  it('moves a file out of its collection and back', () => {
+    trashEntry(tmpDir, 'chats', 'a.mdx', { source: 'test' });
+    expect(exists('chats', 'a.mdx')).toBe(false);
+    expect(listTrash(tmpDir).map((i) => i.filename)).toEqual(['a.mdx']);
+
+    restoreEntry(tmpDir, 'chats', 'a.mdx', { source: 'test' });
+    expect(fs.readFileSync(path.join(contentDir(tmpDir, 'chats'), 'a.mdx'), 'utf-8')).toBe('chat a');
+    expect(listTrash(tmpDir)).toEqual([]);
+    expect(listRevisions(tmpDir, 'chats', 'a.mdx').map((r) => r.action)).toEqual(['restore', 'delete', 'create']);
+  });
+
+  it('refuses to restore over a file created since', () => {
+    trashEntry(tmpDir, 'chats', 'a.mdx', { source: 'test' });
+    writeEntry(tmpDir, 'chats', 'a.mdx', 'new a', { source: 'test' });
+    expect(() => restoreEntry(tmpDir, 'chats', 'a.mdx', { source: 'test' })).toThrow(/already exists/);
+  });
+
+  it('refuses to restore something that is not in the trash', () => {
+    expect(() => restoreEntry(tmpDir, 'plans', 'p.mdx', { source: 'test' })).toThrow(/Not in the trash/);
+  });
+
+  it('takes an entry out of the trash when it is restored from its history', () => {
+    trashEntry(tmpDir, 'chats', 'a.mdx', { source: 'test' });
+    const created = listRevisions(tmpDir, 'chats', 'a.mdx').at(-1);
+    expect(restoreRevision(tmpDir, 'chats', 'a.mdx', created.id, { source: 'test' })).toBe(true);
+    expect(exists('chats', 'a.mdx')).toBe(true);
+    expect(listTrash(tmpDir)).toEqual([]);
+    expect(fs.existsSync(path.join(tmpDir, '.trash', 'chats', 'a.mdx'))).toBe(false);
+  });
+});
+
+// ── emptyTrash / purgeExpired ────────────────────────────────────────────────
+
+describe('emptyTrash / purgeExpired', () => {
+  it('deletes trashed files and their history for good', () => {
+    trashEntry(tmpDir, 'chats', 'a.mdx', { source: 'test' });
+    trashEntry(tmpDir, 'plans', 'p.mdx', { source: 'test' });
+    const removed = emptyTrash(tmpDir, { collection: 'plans' });
+    expect(removed.map((i) => i.filename)).toEqual(['p.mdx']);
+    expect(listTrash(tmpDir).map((i) => i.filename)).toEqual(['a.mdx']);
+    expect(listRevisions(tmpDir, 'plans', 'p.mdx')).toEqual([]);
+  });
+
+  it('keeps the history of an entry that was recreated', () => {
+    trashEntry(tmpDir, 'chats', 'a.mdx', { source: 'test' });
+    writeEntry(tmpDir, 'chats', 'a.mdx', 'new a', { source: 'test' });
+    emptyTrash(tmpDir);
+    expect(listRevisions(tmpDir, 'chats', 'a.mdx').length).toBeGreaterThan(0);
+  });
+
+  it('purges only items older than the retention period', () => {
+    trashEntry(tmpDir, 'chats', 'a.mdx', { source: 'test', now: daysAgo(40) });
+    trashEntry(tmpDir, 'plans', 'p.mdx', { source: 'test', now: daysAgo(2) });
+    expect(purgeExpired(tmpDir, { retentionDays: 30 }).map((i) => i.filename)).toEqual(['a.mdx']);
+    expect(listTrash(tmpDir).map((i) => i.filename)).toEqual(['p.mdx']);
+  });
+
+  it('never purges with a retention period of 0', () => {
+    trashEntry(tmpDir, 'chats', 'a.mdx', { source: 'test', now: daysAgo(400) });
+    expect(purgeExpired(tmpDir, { retentionDays: 0 })).toEqual([]);
+  });
+});
+
+// ── confirmationToken ────────────────────────────────────────────────────────
+
+describe('confirmationToken', () => {
+  it('changes when the trash contents change', () => {
+    trashEntry(tmpDir, 'chats', 'a.mdx', { source: 'test' });
+    const before = confirmationToken(previewEmptyTrash(tmpDir));
+    expect(confirmationToken(previewEmptyTrash(tmpDir))).toBe(before);
+    trashEntry(tmpDir, 'plans', 'p.mdx', { source: 'test' });
+    expect(confirmationToken(previewEmptyTrash(tmpDir))).not.toBe(before);
+  });
+});
+
+// ── formatTrashList ──────────────────────────────────────────────────────────
+
+describe('formatTrashList', () => {
+  it('shows how long until each item is purged', () => {
+    const now = new Date('2026-10-19T00:00:00Z');
+    const item = { collection: 'chats', filename: 'a.mdx', deletedAt: '2026-10-10T00:00:00.000Z', source: 'test' };
+    expect(formatTrashList([item], { retentionDays: 30, now })).toBe('  chats/a.mdx · deleted 2026-10-10 by test · purged in 21 days');
+    expect(formatTrashList([item], { retentionDays: 0, now })).not.toMatch(/purged/);
+  });
+});
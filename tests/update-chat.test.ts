@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { contentDir } from '../mcp/history.mjs';
+import { contentHash } from '../mcp/utils.mjs';
+import { parseFrontmatter } from '../mcp/frontmatter.mjs';
+
+// The route resolves the content directory from process.cwd() when it loads
+let tmpDir: string;
+let POST: typeof import('../src/pages/api/update-chat').POST;
+
+const CHAT = [
+  '---',
+  'title: "Chat"',
+  'date: 2026-01-01',
+  '# kept comment',
+  'tags: [a]',
+  '---',
+  '',
+  '## User',
+  '',
+  'Question',
+  '',
+  '## AI',
+  '',
+  'Answer',
+  '',
+].join('\n');
+
+const file = () => path.join(contentDir(tmpDir, 'chats'), 'c.mdx');
+const read = () => fs.readFileSync(file(), 'utf-8');
+const write = (content: string) => fs.writeFileSync(file(), content);
+
+const save = async (body: Record<string, unknown>) => {
+  const request = new Request('http://localhost/api/update-chat', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ filename: 'c.mdx', version: contentHash(read()), ...body }),
+  });
+  const res = await POST({ request } as Parameters<typeof POST>[0]);
+  return { status: res.status, data: await res.json() };
+};
+
+const messages = [{ role: 'user', content: 'Question' }, { role: 'ai', content: 'Answer' }];
+
+beforeAll(async () => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'acg-update-chat-'));
+  vi.spyOn(process, 'cwd').mockReturnValue(tmpDir);
+  ({ POST } = await import('../src/pages/api/update-chat'));
+});
+
+afterAll(() => {
+  vi.restoreAllMocks();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  fs.rmSync(path.join(tmpDir, '.history'), { recursive: true, force: true });
+  fs.mkdirSync(contentDir(tmpDir, 'chats'), { recursive: true });
+  write(CHAT);
+});
+
+describe('POST /api/update-chat', () => {
+  it('reorders, deletes and changes roles, dropping empty messages', async () => {
+    const { status, data } = await save({
+      frontmatter: {},
+      messages: [
+        { role: 'user', content: 'Answer' },
+        { role: 'ai', content: '   ' },
+        { role: 'ai', content: 'Question' },
+      ],
+    });
+    expect(status).toBe(200);
+    expect(data.version).toBe(contentHash(read()));
+    expect(parseFrontmatter(read()).body.trim()).toBe('## User\n\nAnswer\n\n## AI\n\nQuestion');
+
+    await save({ frontmatter: {}, messages: [{ role: 'ai', content: 'Question' }] });
+    expect(parseFrontmatter(read()).body.trim()).toBe('## AI\n\nQuestion');
+  });
+
+  it('updates only the frontmatter when the messages are unchanged', async () => {
+    const { status } = await save({ frontmatter: { title: 'Renamed', tags: ['a', 'b'] }, messages });
+    expect(status).toBe(200);
+    expect(read()).toBe(CHAT.replace('"Chat"', '"Renamed"').replace('[a]', '["a", "b"]'));
+  });
+
+  it('keeps text outside the messages, and refuses message edits that would drop it', async () => {
+    const withStray = CHAT.replace('## User', 'Intro paragraph\n\nimport X from "./x";\n\n## User');
+    write(withStray);
+
+    expect((await save({ frontmatter: { title: 'Renamed' }, messages })).status).toBe(200);
+    expect(read()).toBe(withStray.replace('"Chat"', '"Renamed"'));
+
+    const { status, data } = await save({ frontmatter: {}, messages: messages.slice(1) });
+    expect(status).toBe(422);
+    expect(data.stray).toBe('Intro paragraph\n\nimport X from "./x";');
+    expect(read()).toBe(withStray.replace('"Chat"', '"Renamed"'));
+  });
+
+  it('rejects stale and unversioned saves', async () => {
+    const { status, data } = await save({ frontmatter: { title: 'Mine' }, messages, version: 'stale' });
+    expect(status).toBe(409);
+    expect(data).toMatchObject({ version: contentHash(CHAT), current: { frontmatter: { title: 'Chat' } } });
+    expect(data.current.body).toBe('## User\n\nQuestion\n\n## AI\n\nAnswer');
+
+    expect((await save({ frontmatter: {}, messages, version: undefined })).status).toBe(428);
+    expect(read()).toBe(CHAT);
+  });
+
+  it('rejects bad input and missing chats', async () => {
+    expect((await save({ filename: '../c.mdx', frontmatter: {}, messages })).status).toBe(400);
+    expect((await save({ frontmatter: {}, messages: [{ role: 'bot', content: 'x' }] })).status).toBe(400);
+    expect((await save({ frontmatter: { date: 'soon' }, messages })).data.error).toBe('Invalid frontmatter');
+
+    const { status, data } = await save({ filename: 'gone.mdx', frontmatter: {}, messages });
+    expect(status).toBe(404);
+    expect(data.error).toBe('Not found: chats/gone.mdx');
+    expect(read()).toBe(CHAT);
+  });
+});